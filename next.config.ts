@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // PDFKit loads its font metrics from disk, so keep it out of the server bundle
+  serverExternalPackages: ["pdfkit", "svg-to-pdfkit"],
 };
 
 export default nextConfig;
@@ -0,0 +1,115 @@
+/**
+ * Service worker
+ * Caches pages as they are fetched so the last loaded records and charts open offline;
+ * build assets are served from the cache, pages from the network with the cache as fallback.
+ * Also shows measurement reminders pushed by the server
+ */
+
+// v2: share pages are no longer cached (dropping copies kept by v1)
+const CACHE_NAME = "eye-pressure-record-v2";
+
+// Requests that must always reach the server (login, API, server-rendered downloads, and share
+// pages so a revoked or expired link can't be opened offline)
+const NETWORK_ONLY = [/^\/auth\//, /^\/login/, /^\/api\//, /\/report\/pdf$/, /^\/s\//];
+
+self.addEventListener("install", () => {
+  self.skipWaiting();
+});
+
+// Drop caches of older versions
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+async function putInCache(request, response) {
+  // Only complete same-origin responses; redirects (e.g. to the login page) are not kept
+  if (response.ok && response.type === "basic") {
+    const cache = await caches.open(CACHE_NAME);
+    await cache.put(request, response.clone());
+  }
+  return response;
+}
+
+// Build assets have content hashes in their names, so a cached copy never goes stale
+async function cacheFirst(request) {
+  const cached = await caches.match(request);
+  return cached || putInCache(request, await fetch(request));
+}
+
+// Pages show the latest data online and the last fetched copy offline
+async function networkFirst(request) {
+  try {
+    return await putInCache(request, await fetch(request));
+  } catch (err) {
+    const cached = await caches.match(request);
+    if (cached) return cached;
+
+    // The start page only redirects to a profile: open the last cached profile instead
+    const url = new URL(request.url);
+    if (url.pathname === "/") {
+      const keys = await (await caches.open(CACHE_NAME)).keys();
+      const profileHome = keys.reverse().find((key) => /^\/p\/[^/]+$/.test(new URL(key.url).pathname));
+      if (profileHome) return Response.redirect(profileHome.url, 302);
+    }
+    if (request.mode === "navigate") {
+      return new Response(
+        '<!doctype html><meta charset="utf-8"><meta name="viewport" content="width=device-width">' +
+          '<p style="font-family:sans-serif;text-align:center;padding:48px 16px;color:#64748b">' +
+          "当前离线，此页面尚未缓存。请联网后打开一次。</p>",
+        { status: 503, headers: { "Content-Type": "text/html; charset=utf-8" } }
+      );
+    }
+    throw err;
+  }
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+  if (NETWORK_ONLY.some((pattern) => pattern.test(url.pathname))) return;
+
+  if (url.pathname.startsWith("/_next/static/")) {
+    event.respondWith(cacheFirst(request));
+  } else if (request.mode === "navigate" || request.destination === "image" || url.pathname === "/manifest.webmanifest") {
+    // Client-side navigations (RSC requests) are left to the network: when they fail
+    // the router falls back to a full page load, which is answered from here
+    event.respondWith(networkFirst(request));
+  }
+});
+
+// Reminder pushed by the server: { title, body, url, tag }
+self.addEventListener("push", (event) => {
+  let message = {};
+  try {
+    message = event.data ? event.data.json() : {};
+  } catch {
+    message = { body: event.data.text() };
+  }
+  event.waitUntil(
+    self.registration.showNotification(message.title || "该测眼压了", {
+      body: message.body || "",
+      tag: message.tag,
+      icon: "/icon.svg",
+      data: { url: message.url || "/" },
+    })
+  );
+});
+
+// Open (or focus) the profile's page when a reminder is clicked
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || "/", self.location.origin).href;
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((windows) => {
+      const open = windows.find((client) => client.url === url);
+      return open ? open.focus() : self.clients.openWindow(url);
+    })
+  );
+});
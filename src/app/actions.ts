@@ -0,0 +1,659 @@
+/**
+ * Server actions for writing eye pressure records, treatment events, settings, share links, alerts
+ * and measurement plans with their reminders
+ * Validates input and writes through to the profile's record source or settings file
+ * (checking the alert rules after record writes);
+ * every write requires a login session once login is configured
+ */
+
+"use server";
+
+import { randomUUID } from "crypto";
+import { revalidatePath } from "next/cache";
+import { cookies } from "next/headers";
+import { redirect } from "next/navigation";
+import { RecordSource, getRecordSource } from "@/lib/recordSource";
+import { getDisplayTimeZone, loadSettings, updateSettings } from "@/lib/settings";
+import { Profile, findProfile, profilePath } from "@/lib/profiles";
+import { EVENT_TYPES } from "@/lib/events";
+import { isValidTimeZone, toZonedWallTime } from "@/lib/time";
+import { parseMeasurementFields } from "@/lib/measurement";
+import { MAX_READINGS, ReadingOptions, applyReadings } from "@/lib/readings";
+import { AlertRules } from "@/lib/alerts";
+import { acknowledgeAlerts, checkAlerts, getNotifiers, notifyAlerts } from "@/lib/alertStore";
+import type { NotifyResult } from "@/lib/notifier";
+import { MAX_PLAN_HOURS, MAX_PLAN_INTERVAL, MIN_PLAN_INTERVAL } from "@/lib/sessionPlans";
+import { removePushSubscription, savePushSubscription, sendReminder } from "@/lib/reminders";
+import {
+  SESSION_COOKIE,
+  createSessionValue,
+  isAuthEnabled,
+  readSessionValue,
+  safeNextPath,
+  sessionCookieOptions,
+  verifyPassword,
+} from "@/lib/auth";
+import { createShare, revokeShare } from "@/lib/shares";
+import { sameRecordFields } from "@/lib/offlineQueue";
+import {
+  Alert,
+  EyePressureRecord,
+  EyePressureRecordInput,
+  QueuedRecordChange,
+  QueuedRecordSync,
+  SessionOverride,
+  SessionPlan,
+  SessionPlanInput,
+  ShareLink,
+  ShareLinkInput,
+  TargetPressure,
+  TreatmentEvent,
+  TreatmentEventInput,
+  WebPushSubscription,
+} from "@/types";
+
+// Result returned to client components (errors are not thrown across the boundary)
+export type ActionResult<T = void> =
+  | { ok: true; data: T }
+  | { ok: false; error: string };
+
+// Create a new measurement
+export async function createRecordAction(
+  profileId: string,
+  input: EyePressureRecordInput
+): Promise<ActionResult<EyePressureRecord>> {
+  return runAction(() =>
+    writeRecords(profileId, (source, readings) => source.createRecord(validateInput(input, readings)))
+  );
+}
+
+// Update an existing measurement
+export async function updateRecordAction(
+  profileId: string,
+  id: string,
+  input: EyePressureRecordInput
+): Promise<ActionResult<EyePressureRecord>> {
+  return runAction(async () => {
+    if (!id) throw new Error("Missing record id");
+    return writeRecords(profileId, (source, readings) =>
+      source.updateRecord(id, validateInput(input, readings))
+    );
+  });
+}
+
+// Delete a measurement
+export async function deleteRecordAction(profileId: string, id: string): Promise<ActionResult> {
+  return runAction(async () => {
+    if (!id) throw new Error("Missing record id");
+    await writeRecords(profileId, (source) => source.deleteRecord(id));
+  });
+}
+
+// Import a batch of measurements, continuing past individual failures
+export async function importRecordsAction(
+  profileId: string,
+  inputs: EyePressureRecordInput[]
+): Promise<ActionResult<{ created: number; failed: { index: number; error: string }[] }>> {
+  return runAction(() =>
+    writeRecords(profileId, async (source, readings) => {
+      const failed: { index: number; error: string }[] = [];
+      let created = 0;
+
+      // Sequential writes keep within Notion's rate limit
+      for (const [index, input] of inputs.entries()) {
+        try {
+          await source.createRecord(validateInput(input, readings));
+          created++;
+        } catch (err) {
+          failed.push({ index, error: err instanceof Error ? err.message : "Unknown error" });
+        }
+      }
+
+      return { created, failed };
+    })
+  );
+}
+
+// Write a change queued on a device while offline
+// An edit is a conflict when the record changed or was deleted since the device last saw it
+// (unless forced); a new record already in the source, e.g. resent after a lost response, isn't duplicated
+export async function syncQueuedRecordAction(
+  profileId: string,
+  change: Pick<QueuedRecordChange, "recordId" | "base" | "input" | "force">
+): Promise<ActionResult<QueuedRecordSync>> {
+  return runAction(() =>
+    writeRecords(profileId, async (source, readings): Promise<QueuedRecordSync> => {
+      const input = validateInput(change.input, readings);
+      const records = await source.fetchAllRecords();
+
+      if (change.recordId === null) {
+        const existing = records.find((r) => sameRecordFields(r, input));
+        return { status: "synced", record: existing ?? (await source.createRecord(input)) };
+      }
+
+      const current = records.find((r) => r.id === change.recordId) ?? null;
+      if (current && sameRecordFields(current, input)) return { status: "synced", record: current };
+      const unchanged =
+        current !== null && change.base !== null && sameRecordFields(current, change.base);
+      if (!unchanged && !change.force) return { status: "conflict", current };
+      return {
+        status: "synced",
+        // A record deleted elsewhere is recreated when the local version is kept
+        record: current
+          ? await source.updateRecord(current.id, input)
+          : await source.createRecord(input),
+      };
+    })
+  );
+}
+
+// Create a treatment event
+export async function createEventAction(
+  profileId: string,
+  input: TreatmentEventInput
+): Promise<ActionResult<TreatmentEvent>> {
+  return runAction(async () => {
+    return getRecordSource(await loadProfile(profileId)).createEvent(validateEvent(input));
+  });
+}
+
+// Update a treatment event (e.g. set the end date when a medication is stopped)
+export async function updateEventAction(
+  profileId: string,
+  id: string,
+  input: TreatmentEventInput
+): Promise<ActionResult<TreatmentEvent>> {
+  return runAction(async () => {
+    if (!id) throw new Error("Missing event id");
+    const source = getRecordSource(await loadProfile(profileId));
+    return source.updateEvent(id, validateEvent(input));
+  });
+}
+
+// Delete a treatment event
+export async function deleteEventAction(profileId: string, id: string): Promise<ActionResult> {
+  return runAction(async () => {
+    if (!id) throw new Error("Missing event id");
+    await getRecordSource(await loadProfile(profileId)).deleteEvent(id);
+  });
+}
+
+// Add a target pressure entry; an entry for the same date replaces the existing one
+export async function saveTargetAction(
+  profileId: string,
+  input: Omit<TargetPressure, "id">
+): Promise<ActionResult<TargetPressure>> {
+  return runAction(async () => {
+    const target = { ...validateTarget(input), id: randomUUID() };
+    return updateSettings(await loadProfile(profileId), (settings) => {
+      settings.targets = [
+        ...settings.targets.filter((t) => t.effectiveFrom !== target.effectiveFrom),
+        target,
+      ];
+      return target;
+    });
+  });
+}
+
+// Delete a target pressure entry
+export async function deleteTargetAction(profileId: string, id: string): Promise<ActionResult> {
+  return runAction(async () => {
+    if (!id) throw new Error("Missing target id");
+    await updateSettings(await loadProfile(profileId), (settings) => {
+      settings.targets = settings.targets.filter((t) => t.id !== id);
+    });
+  });
+}
+
+// Force a 24h session boundary at a record ("split") or remove one ("merge")
+// Replaces any earlier override for the same record
+export async function saveSessionOverrideAction(
+  profileId: string,
+  recordId: string,
+  action: SessionOverride["action"]
+): Promise<ActionResult<SessionOverride>> {
+  return runAction(async () => {
+    if (!recordId) throw new Error("Missing record id");
+    if (action !== "split" && action !== "merge") {
+      throw new Error(`Invalid session override: ${action}`);
+    }
+    const override = { id: randomUUID(), recordId, action };
+    return updateSettings(await loadProfile(profileId), (settings) => {
+      settings.sessionOverrides = [
+        ...settings.sessionOverrides.filter((o) => o.recordId !== recordId),
+        override,
+      ];
+      return override;
+    });
+  });
+}
+
+// Remove a session override, returning to automatic detection for that record
+export async function deleteSessionOverrideAction(
+  profileId: string,
+  id: string
+): Promise<ActionResult> {
+  return runAction(async () => {
+    if (!id) throw new Error("Missing override id");
+    await updateSettings(await loadProfile(profileId), (settings) => {
+      settings.sessionOverrides = settings.sessionOverrides.filter((o) => o.id !== id);
+    });
+  });
+}
+
+// Set the zone dates are displayed in; null returns to DISPLAY_TIME_ZONE or the server's zone
+export async function saveDisplayTimeZoneAction(
+  profileId: string,
+  timeZone: string | null
+): Promise<ActionResult> {
+  return runAction(async () => {
+    const zone = timeZone?.trim() || null;
+    if (zone && !isValidTimeZone(zone)) {
+      throw new Error(`Invalid time zone: ${zone}`);
+    }
+    await updateSettings(await loadProfile(profileId), (settings) => {
+      settings.displayTimeZone = zone;
+    });
+  });
+}
+
+// Set how multiple readings per eye are reduced to one value (applies to records saved afterwards)
+export async function saveReadingOptionsAction(
+  profileId: string,
+  options: ReadingOptions
+): Promise<ActionResult> {
+  return runAction(async () => {
+    if (options.aggregation !== "mean" && options.aggregation !== "median") {
+      throw new Error(`Invalid aggregation: ${options.aggregation}`);
+    }
+    const deviation = Number(options.outlierDeviation);
+    if (!Number.isFinite(deviation) || deviation <= 0 || deviation > 20) {
+      throw new Error(`Invalid outlier deviation: ${options.outlierDeviation}`);
+    }
+    await updateSettings(await loadProfile(profileId), (settings) => {
+      settings.readings = { aggregation: options.aggregation, outlierDeviation: deviation };
+    });
+  });
+}
+
+// Set the alert rule limits; a null limit turns its rule off
+export async function saveAlertRulesAction(profileId: string, rules: AlertRules): Promise<ActionResult> {
+  return runAction(async () => {
+    for (const field of ["jump", "eyeDifference", "fluctuation"] as const) {
+      const value = rules[field];
+      if (value === null) continue;
+      if (typeof value !== "number" || !Number.isFinite(value) || value <= 0 || value > 80) {
+        throw new Error(`Invalid ${field} limit: ${value}`);
+      }
+    }
+    if (!Number.isInteger(rules.lookbackDays) || rules.lookbackDays < 1 || rules.lookbackDays > 365) {
+      throw new Error(`Invalid lookback days: ${rules.lookbackDays}`);
+    }
+    await updateSettings(await loadProfile(profileId), (settings) => {
+      settings.alerts = {
+        aboveTarget: Boolean(rules.aboveTarget),
+        jump: rules.jump,
+        eyeDifference: rules.eyeDifference,
+        fluctuation: rules.fluctuation,
+        lookbackDays: rules.lookbackDays,
+      };
+    });
+  });
+}
+
+// Mark alerts as seen
+export async function acknowledgeAlertsAction(profileId: string, ids: string[]): Promise<ActionResult> {
+  return runAction(async () => {
+    if (!Array.isArray(ids) || ids.length === 0) throw new Error("Missing alert ids");
+    await acknowledgeAlerts((await loadProfile(profileId)).id, ids.map(String));
+  });
+}
+
+// Send a sample alert through every configured notifier to check the setup
+export async function sendTestAlertAction(profileId: string): Promise<ActionResult<NotifyResult[]>> {
+  return runAction(async () => {
+    const profile = await loadProfile(profileId);
+    const notifiers = getNotifiers();
+    if (notifiers.length === 0) {
+      throw new Error("No notifiers configured (set ALERT_WEBHOOK_URL and/or SMTP_HOST)");
+    }
+    const now = new Date().toISOString();
+    const sample: Alert = {
+      id: "test",
+      rule: "aboveTarget",
+      eye: null,
+      recordId: "test",
+      date: now,
+      value: 0,
+      limit: 0,
+      message: "测试提醒：通知渠道配置正常",
+    };
+    return notifyAlerts(profile, [sample], notifiers);
+  });
+}
+
+// Plan a 24h session: a reading is due every interval from the start through the end
+export async function saveSessionPlanAction(
+  profileId: string,
+  input: SessionPlanInput
+): Promise<ActionResult<SessionPlan>> {
+  return runAction(async () => {
+    const { start, end, intervalMinutes } = validatePlan(input);
+    return updateSettings(await loadProfile(profileId), (settings) => {
+      if (settings.sessionPlans.some((plan) => plan.start <= end && plan.end >= start)) {
+        throw new Error("The plan overlaps another planned session");
+      }
+      // Readable session ID for the readings, e.g. "24h-2024-01-05T08:00"
+      const plan: SessionPlan = {
+        id: randomUUID(),
+        sessionId: `24h-${toZonedWallTime(start, getDisplayTimeZone(settings))}`,
+        start,
+        end,
+        intervalMinutes,
+        createdAt: new Date().toISOString(),
+      };
+      settings.sessionPlans = [...settings.sessionPlans, plan].sort((a, b) =>
+        a.start.localeCompare(b.start)
+      );
+      return plan;
+    });
+  });
+}
+
+// Remove a plan; readings already taken keep their session ID
+export async function deleteSessionPlanAction(profileId: string, id: string): Promise<ActionResult> {
+  return runAction(async () => {
+    if (!id) throw new Error("Missing plan id");
+    await updateSettings(await loadProfile(profileId), (settings) => {
+      settings.sessionPlans = settings.sessionPlans.filter((plan) => plan.id !== id);
+    });
+  });
+}
+
+// Register this browser for push reminders of a profile's planned readings
+export async function savePushSubscriptionAction(
+  profileId: string,
+  subscription: WebPushSubscription
+): Promise<ActionResult> {
+  return runAction(async () => {
+    const { endpoint, keys } = subscription ?? {};
+    if (typeof endpoint !== "string" || !endpoint.startsWith("https://")) {
+      throw new Error("Invalid push subscription endpoint");
+    }
+    if (typeof keys?.p256dh !== "string" || typeof keys?.auth !== "string") {
+      throw new Error("Invalid push subscription keys");
+    }
+    await savePushSubscription((await loadProfile(profileId)).id, { endpoint, keys });
+  });
+}
+
+export async function deletePushSubscriptionAction(
+  profileId: string,
+  endpoint: string
+): Promise<ActionResult> {
+  return runAction(async () => {
+    if (!endpoint) throw new Error("Missing push subscription endpoint");
+    await removePushSubscription((await loadProfile(profileId)).id, endpoint);
+  });
+}
+
+// Push a sample reminder to this browser to check the setup
+export async function sendTestReminderAction(
+  profileId: string,
+  endpoint: string
+): Promise<ActionResult> {
+  return runAction(async () => {
+    const profile = await loadProfile(profileId);
+    const message = {
+      title: "测试提醒",
+      body: `${profile.name}：测量提醒已开启`,
+      url: profilePath(profile.id),
+      tag: "test",
+    };
+    const delivered = await sendReminder(profile.id, message, endpoint);
+    if (delivered === 0) throw new Error("The push service did not accept the reminder");
+  });
+}
+
+// Create a read-only share link; the token is returned once for the link URL
+export async function createShareAction(
+  profileId: string,
+  input: ShareLinkInput
+): Promise<ActionResult<{ share: ShareLink; token: string }>> {
+  return runAction(async () => {
+    await loadProfile(profileId);
+    return createShare({ ...validateShare(input), profileId });
+  });
+}
+
+// Revoke a share link; viewers lose access immediately
+export async function revokeShareAction(profileId: string, id: string): Promise<ActionResult> {
+  return runAction(async () => {
+    if (!id) throw new Error("Missing share id");
+    await revokeShare(profileId, id);
+  });
+}
+
+// Password login from the login form; redirects instead of returning a result
+export async function loginAction(formData: FormData): Promise<void> {
+  const next = safeNextPath(formData.get("next"));
+  if (!verifyPassword(String(formData.get("password") ?? ""))) {
+    redirect(`/login?error=password&next=${encodeURIComponent(next)}`);
+  }
+  (await cookies()).set(
+    SESSION_COOKIE,
+    createSessionValue({ id: "password", name: "密码登录" }),
+    sessionCookieOptions()
+  );
+  redirect(next);
+}
+
+// Reject writes without a valid session (actions can also be posted to public pages)
+async function requireLogin(): Promise<void> {
+  if (!isAuthEnabled()) return;
+  if (!readSessionValue((await cookies()).get(SESSION_COOKIE)?.value)) {
+    throw new Error("Not logged in");
+  }
+}
+
+// Profile a write applies to
+async function loadProfile(profileId: string): Promise<Profile> {
+  const profile = await findProfile(profileId);
+  if (!profile) throw new Error(`Unknown profile: ${profileId}`);
+  return profile;
+}
+
+// Write through a profile's record source (with the reading options records are saved with),
+// then check the alert rules against the records
+async function writeRecords<T>(
+  profileId: string,
+  write: (source: RecordSource, readings: ReadingOptions) => Promise<T>
+): Promise<T> {
+  const profile = await loadProfile(profileId);
+  const source = getRecordSource(profile);
+  const settings = await loadSettings(profile);
+  const result = await write(source, settings.readings);
+  // The write succeeded, so a failing check is only logged
+  try {
+    await checkAlerts(profile, await source.fetchAllRecords(), settings);
+  } catch (err) {
+    console.error("Error checking alerts:", err);
+  }
+  return result;
+}
+
+// Run a write, revalidate the page and convert errors to a result
+async function runAction<T>(write: () => Promise<T>): Promise<ActionResult<T>> {
+  try {
+    await requireLogin();
+    const data = await write();
+    revalidatePath("/", "layout");
+    return { ok: true, data };
+  } catch (err) {
+    console.error("Error in server action:", err);
+    return { ok: false, error: err instanceof Error ? err.message : "Unknown error" };
+  }
+}
+
+// Check and normalize record fields coming from the client
+function validateInput(
+  input: EyePressureRecordInput,
+  readingOptions: ReadingOptions
+): EyePressureRecordInput {
+  const date = new Date(input.date);
+  if (isNaN(date.getTime())) {
+    throw new Error("Invalid measurement time");
+  }
+
+  // Each eye's series of readings sets its value
+  for (const [eye, readings] of [["left", input.readingsLeft], ["right", input.readingsRight]] as const) {
+    if (readings === undefined) continue;
+    if (!Array.isArray(readings) || readings.length > MAX_READINGS) {
+      throw new Error(`Invalid ${eye} eye readings: expected up to ${MAX_READINGS} values`);
+    }
+    for (const value of readings) {
+      if (!isValidPressure(value)) throw new Error(`Invalid ${eye} eye reading: ${value}`);
+    }
+  }
+  const aggregated = applyReadings(input, readingOptions);
+
+  // Either eye may be left unmeasured (null), but not both
+  const left = aggregated.left ?? null;
+  const right = aggregated.right ?? null;
+  for (const [eye, value] of [["left", left], ["right", right]] as const) {
+    if (value !== null && !isValidPressure(value)) {
+      throw new Error(`Invalid ${eye} eye pressure: ${value}`);
+    }
+  }
+  if (left === null && right === null) {
+    throw new Error("At least one eye pressure is required");
+  }
+
+  const timeZone = String(input.timeZone ?? "").trim();
+  if (timeZone && !isValidTimeZone(timeZone)) {
+    throw new Error(`Invalid time zone: ${timeZone}`);
+  }
+
+  // Optional metadata is dropped by parsing, so anything given but not recognized is an error
+  const measurement = parseMeasurementFields(input);
+  for (const field of ["tonometer", "position", "measuredBy", "cctLeft", "cctRight"] as const) {
+    const value: unknown = input[field];
+    if (value !== undefined && value !== null && value !== "" && measurement[field] === undefined) {
+      throw new Error(`Invalid ${field}: ${value}`);
+    }
+  }
+
+  return {
+    name: String(input.name ?? "").trim(),
+    date: date.toISOString(),
+    left,
+    right,
+    is24h: Boolean(input.is24h),
+    note: String(input.note ?? "").trim(),
+    sessionId: String(input.sessionId ?? "").trim() || undefined,
+    timeZone: timeZone || undefined,
+    ...measurement,
+    ...(aggregated.readingsLeft && { readingsLeft: aggregated.readingsLeft }),
+    ...(aggregated.readingsRight && { readingsRight: aggregated.readingsRight }),
+  };
+}
+
+function isValidPressure(value: unknown): boolean {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0 && value <= 80;
+}
+
+// Check and normalize treatment event fields coming from the client
+function validateEvent(input: TreatmentEventInput): TreatmentEventInput {
+  if (!EVENT_TYPES.includes(input.type)) {
+    throw new Error(`Invalid event type: ${input.type}`);
+  }
+  const title = String(input.title ?? "").trim();
+  if (!title) {
+    throw new Error("Missing event title");
+  }
+
+  const start = new Date(input.start);
+  if (isNaN(start.getTime())) {
+    throw new Error("Invalid event start");
+  }
+  const end = input.end ? new Date(input.end) : null;
+  if (end && (isNaN(end.getTime()) || end < start)) {
+    throw new Error("Invalid event end");
+  }
+
+  return {
+    type: input.type,
+    title,
+    start: start.toISOString(),
+    end: end ? end.toISOString() : null,
+    eye: ["left", "right"].includes(input.eye) ? input.eye : "both",
+    dose: String(input.dose ?? "").trim(),
+    note: String(input.note ?? "").trim(),
+  };
+}
+
+// Check and normalize a target pressure entry coming from the client
+function validateTarget(input: Omit<TargetPressure, "id">): Omit<TargetPressure, "id"> {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(input.effectiveFrom ?? "")) {
+    throw new Error(`Invalid effective date: ${input.effectiveFrom}`);
+  }
+
+  for (const [eye, value] of [["left", input.left], ["right", input.right]] as const) {
+    if (typeof value !== "number" || !Number.isFinite(value) || value <= 0 || value > 80) {
+      throw new Error(`Invalid ${eye} eye target: ${value}`);
+    }
+  }
+
+  return {
+    effectiveFrom: input.effectiveFrom,
+    left: input.left,
+    right: input.right,
+    note: String(input.note ?? "").trim(),
+  };
+}
+
+// Check and normalize a session plan coming from the client
+function validatePlan(input: SessionPlanInput): SessionPlanInput {
+  const start = new Date(input.start);
+  const end = new Date(input.end);
+  if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+    throw new Error("Invalid plan time");
+  }
+  if (end <= start) {
+    throw new Error("Plan ends before it starts");
+  }
+  if (end.getTime() - start.getTime() > MAX_PLAN_HOURS * 60 * 60 * 1000) {
+    throw new Error(`Plans may span at most ${MAX_PLAN_HOURS} hours`);
+  }
+  const interval = input.intervalMinutes;
+  if (!Number.isInteger(interval) || interval < MIN_PLAN_INTERVAL || interval > MAX_PLAN_INTERVAL) {
+    throw new Error(`Invalid plan interval: ${interval}`);
+  }
+  return { start: start.toISOString(), end: end.toISOString(), intervalMinutes: interval };
+}
+
+// Check and normalize share link options coming from the client
+function validateShare(
+  input: ShareLinkInput
+): Omit<ShareLink, "id" | "profileId" | "createdAt" | "revokedAt"> {
+  const days = input.expiresInDays;
+  if (typeof days !== "number" || !Number.isInteger(days) || days < 1 || days > 365) {
+    throw new Error(`Invalid share expiry: ${days}`);
+  }
+  for (const date of [input.from, input.to]) {
+    if (date !== null && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      throw new Error(`Invalid share date: ${date}`);
+    }
+  }
+  if (input.from && input.to && input.from > input.to) {
+    throw new Error("Share range ends before it starts");
+  }
+
+  return {
+    label: String(input.label ?? "").trim(),
+    expiresAt: new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString(),
+    from: input.from,
+    to: input.to,
+    groupIds: Array.isArray(input.groupIds) ? input.groupIds.map(String) : [],
+  };
+}
@@ -0,0 +1,17 @@
+/**
+ * Alerts route without a profile
+ * Redirects to the same page of the default (first) profile, keeping the query string
+ */
+
+import { redirect } from "next/navigation";
+import { defaultProfilePath } from "@/lib/profiles";
+
+export const dynamic = "force-dynamic";
+
+interface AlertsRedirectProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+export default async function AlertsRedirect({ searchParams }: AlertsRedirectProps) {
+  redirect(await defaultProfilePath("/alerts", await searchParams));
+}
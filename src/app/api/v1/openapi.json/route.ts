@@ -0,0 +1,13 @@
+/**
+ * API: OpenAPI description
+ * Public, so API clients and tools can discover the endpoints before they have a token
+ */
+
+import { buildOpenApiDocument } from "@/lib/openapi";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  return Response.json(buildOpenApiDocument(process.env.APP_URL || request.url));
+}
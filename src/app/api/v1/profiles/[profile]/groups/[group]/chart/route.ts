@@ -0,0 +1,30 @@
+/**
+ * API: chart series of a group
+ * The points the dashboard chart draws, with targets and (for regular measurements) trend overlays
+ */
+
+import { apiError, handleApiRequest, jsonWithEtag, loadApiDataset, toApiChartData } from "@/lib/api";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ profile: string; group: string }> }
+) {
+  return handleApiRequest(request, async (url) => {
+    const { profile, group: groupId } = await params;
+    const dataset = await loadApiDataset(profile, url.searchParams);
+    if (!dataset) return apiError(404, `Unknown profile: ${profile}`);
+    const group = dataset.groups.find((g) => g.id === groupId);
+    if (!group) return apiError(404, `Unknown group: ${groupId}`);
+
+    return jsonWithEtag(request, {
+      groupId: group.id,
+      title: group.title,
+      type: group.type,
+      timeZone: dataset.timeZone,
+      data: toApiChartData(group, dataset),
+    });
+  });
+}
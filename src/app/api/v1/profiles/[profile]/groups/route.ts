@@ -0,0 +1,38 @@
+/**
+ * API: groups
+ * Regular measurements and 24h sessions as grouped on the dashboard, paginated;
+ * `records=0` leaves out each group's readings
+ */
+
+import {
+  apiError,
+  handleApiRequest,
+  jsonWithEtag,
+  loadApiDataset,
+  paginate,
+  parsePagination,
+  toApiGroupSummary,
+} from "@/lib/api";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ profile: string }> }
+) {
+  return handleApiRequest(request, async (url) => {
+    const pagination = parsePagination(url.searchParams);
+    if (!pagination) return apiError(400, "Invalid limit or offset");
+    const { profile } = await params;
+    const dataset = await loadApiDataset(profile, url.searchParams);
+    if (!dataset) return apiError(404, `Unknown profile: ${profile}`);
+
+    const withRecords = url.searchParams.get("records") !== "0";
+    const groups = dataset.groups.map((group) => ({
+      ...toApiGroupSummary(group),
+      ...(withRecords && { records: group.records }),
+    }));
+    return jsonWithEtag(request, paginate(groups, pagination, request.url));
+  });
+}
@@ -0,0 +1,31 @@
+/**
+ * API: records
+ * Filtered, paginated readings of a profile, oldest first, each with the id of its group
+ */
+
+import {
+  apiError,
+  handleApiRequest,
+  jsonWithEtag,
+  listApiRecords,
+  loadApiDataset,
+  paginate,
+  parsePagination,
+} from "@/lib/api";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ profile: string }> }
+) {
+  return handleApiRequest(request, async (url) => {
+    const pagination = parsePagination(url.searchParams);
+    if (!pagination) return apiError(400, "Invalid limit or offset");
+    const { profile } = await params;
+    const dataset = await loadApiDataset(profile, url.searchParams);
+    if (!dataset) return apiError(404, `Unknown profile: ${profile}`);
+    return jsonWithEtag(request, paginate(listApiRecords(dataset.groups), pagination, request.url));
+  });
+}
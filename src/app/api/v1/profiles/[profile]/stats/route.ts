@@ -0,0 +1,21 @@
+/**
+ * API: statistics
+ * Summary of the filtered readings plus 24h session metrics and long-term trends per group
+ */
+
+import { apiError, computeApiStats, handleApiRequest, jsonWithEtag, loadApiDataset } from "@/lib/api";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ profile: string }> }
+) {
+  return handleApiRequest(request, async (url) => {
+    const { profile } = await params;
+    const dataset = await loadApiDataset(profile, url.searchParams);
+    if (!dataset) return apiError(404, `Unknown profile: ${profile}`);
+    return jsonWithEtag(request, computeApiStats(dataset));
+  });
+}
@@ -0,0 +1,19 @@
+/**
+ * API: profiles
+ * Lists the patient profiles the other endpoints are scoped to
+ */
+
+import { handleApiRequest, jsonWithEtag } from "@/lib/api";
+import { loadProfiles } from "@/lib/profiles";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  return handleApiRequest(request, async () => {
+    const profiles = await loadProfiles();
+    return jsonWithEtag(request, {
+      data: profiles.map(({ id, name, source }) => ({ id, name, source: source.kind })),
+    });
+  });
+}
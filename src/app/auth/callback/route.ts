@@ -0,0 +1,52 @@
+/**
+ * OAuth callback
+ * Checks the state, exchanges the code for a user and starts a session for allowed users
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  OAUTH_STATE_COOKIE,
+  SESSION_COOKIE,
+  createSessionValue,
+  isAllowedUser,
+  safeEqual,
+  safeNextPath,
+  sessionCookieOptions,
+} from "@/lib/auth";
+import { getAuthProvider, oauthCallbackUrl } from "@/lib/authProviders";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  const fail = (error: string) => {
+    const response = NextResponse.redirect(new URL(`/login?error=${error}`, request.url));
+    response.cookies.delete(OAUTH_STATE_COOKIE);
+    return response;
+  };
+
+  const provider = getAuthProvider();
+  const code = request.nextUrl.searchParams.get("code");
+  const state = request.nextUrl.searchParams.get("state");
+  let saved: { state?: string; next?: string } = {};
+  try {
+    saved = JSON.parse(request.cookies.get(OAUTH_STATE_COOKIE)?.value ?? "{}");
+  } catch {
+    // Malformed cookie; treated as a missing state below
+  }
+  if (!provider || !code || !state || !saved.state || !safeEqual(state, saved.state)) {
+    return fail("state");
+  }
+
+  try {
+    const user = await provider.exchangeCode(code, oauthCallbackUrl(request.url));
+    if (!isAllowedUser(user)) return fail("forbidden");
+
+    const response = NextResponse.redirect(new URL(safeNextPath(saved.next), request.url));
+    response.cookies.set(SESSION_COOKIE, createSessionValue(user), sessionCookieOptions());
+    response.cookies.delete(OAUTH_STATE_COOKIE);
+    return response;
+  } catch (err) {
+    console.error("OAuth login failed:", err);
+    return fail("oauth");
+  }
+}
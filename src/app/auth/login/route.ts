@@ -0,0 +1,24 @@
+/**
+ * Start of the OAuth login
+ * Stores a random state with the return path and redirects to the provider's authorization page
+ */
+
+import { randomBytes } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { OAUTH_STATE_COOKIE, safeNextPath, sessionCookieOptions } from "@/lib/auth";
+import { getAuthProvider, oauthCallbackUrl } from "@/lib/authProviders";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  const provider = getAuthProvider();
+  if (!provider) return NextResponse.redirect(new URL("/login", request.url));
+
+  const state = randomBytes(16).toString("base64url");
+  const next = safeNextPath(request.nextUrl.searchParams.get("next"));
+  const response = NextResponse.redirect(
+    provider.authorizationUrl({ state, redirectUri: oauthCallbackUrl(request.url) })
+  );
+  response.cookies.set(OAUTH_STATE_COOKIE, JSON.stringify({ state, next }), sessionCookieOptions(600));
+  return response;
+}
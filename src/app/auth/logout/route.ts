@@ -0,0 +1,13 @@
+/**
+ * Logout
+ * Clears the session cookie and returns to the login page
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { SESSION_COOKIE } from "@/lib/auth";
+
+export async function POST(request: NextRequest) {
+  const response = NextResponse.redirect(new URL("/login", request.url), 303);
+  response.cookies.delete(SESSION_COOKIE);
+  return response;
+}
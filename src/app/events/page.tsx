@@ -0,0 +1,17 @@
+/**
+ * Treatment timeline route without a profile
+ * Redirects to the same page of the default (first) profile, keeping the query string
+ */
+
+import { redirect } from "next/navigation";
+import { defaultProfilePath } from "@/lib/profiles";
+
+export const dynamic = "force-dynamic";
+
+interface EventsRedirectProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+export default async function EventsRedirect({ searchParams }: EventsRedirectProps) {
+  redirect(await defaultProfilePath("/events", await searchParams));
+}
@@ -1,20 +1,23 @@
 /**
  * Root layout for eye pressure record app
- * Sets up metadata and viewport configuration
+ * Sets up metadata and viewport configuration and registers the offline service worker
  */
 
 import type { Metadata, Viewport } from "next";
+import ServiceWorkerRegistration from "@/components/ServiceWorkerRegistration";
 import "./globals.css";
 
 export const metadata: Metadata = {
   title: "眼压记录 | Eye Pressure Records",
-  description: "Track and visualize eye pressure measurements from Notion",
+  description: "Track and visualize eye pressure measurements",
+  appleWebApp: { capable: true, title: "眼压记录" },
 };
 
 export const viewport: Viewport = {
   width: "device-width",
   initialScale: 1,
   maximumScale: 5,
+  themeColor: "#3b82f6",
 };
 
 export default function RootLayout({
@@ -27,6 +30,7 @@ export default function RootLayout({
     <html lang="zh-CN" suppressHydrationWarning>
       <body className="antialiased" suppressHydrationWarning>
         {children}
+        <ServiceWorkerRegistration />
       </body>
     </html>
   );
@@ -0,0 +1,95 @@
+/**
+ * Login page
+ * Password form and/or OAuth provider button, depending on the configured login
+ */
+
+import { redirect } from "next/navigation";
+import { isAuthEnabled, safeNextPath } from "@/lib/auth";
+import { getAuthProvider } from "@/lib/authProviders";
+import { loginAction } from "@/app/actions";
+import PageShell from "@/components/PageShell";
+import ClearOfflineCache from "@/components/ClearOfflineCache";
+
+export const dynamic = "force-dynamic";
+
+const ERROR_MESSAGES: Record<string, string> = {
+  password: "密码错误",
+  state: "登录已过期，请重试",
+  forbidden: "该账号无权访问",
+  oauth: "第三方登录失败，请重试",
+};
+
+interface LoginPageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+export default async function LoginPage({ searchParams }: LoginPageProps) {
+  const params = await searchParams;
+  const next = safeNextPath(params.next);
+  if (!isAuthEnabled()) redirect(next);
+
+  const provider = getAuthProvider();
+  const error = typeof params.error === "string" ? ERROR_MESSAGES[params.error] : undefined;
+
+  const buttonStyle = {
+    padding: "8px 16px",
+    backgroundColor: "#3b82f6",
+    color: "white",
+    borderRadius: "8px",
+    border: "none",
+    cursor: "pointer",
+    fontSize: "14px",
+    textAlign: "center" as const,
+  };
+
+  return (
+    <PageShell>
+      <ClearOfflineCache />
+      <div
+        style={{
+          maxWidth: "360px",
+          margin: "0 auto",
+          padding: "24px",
+          backgroundColor: "white",
+          borderRadius: "8px",
+          border: "1px solid #e2e8f0",
+          boxShadow: "0 1px 3px rgba(0,0,0,0.1)",
+          display: "flex",
+          flexDirection: "column",
+          gap: "16px",
+        }}
+      >
+        <h2 style={{ fontSize: "20px", fontWeight: 700, color: "#0f172a" }}>登录</h2>
+        {error && <p style={{ fontSize: "14px", color: "#dc2626" }}>{error}</p>}
+
+        {process.env.AUTH_PASSWORD && (
+          <form action={loginAction} style={{ display: "flex", flexDirection: "column", gap: "12px" }}>
+            <input type="hidden" name="next" value={next} />
+            <input
+              type="password"
+              name="password"
+              placeholder="密码"
+              required
+              autoFocus
+              style={{
+                padding: "8px",
+                fontSize: "14px",
+                border: "1px solid #cbd5e1",
+                borderRadius: "6px",
+              }}
+            />
+            <button type="submit" style={buttonStyle}>
+              登录
+            </button>
+          </form>
+        )}
+
+        {provider && (
+          <a href={`/auth/login?next=${encodeURIComponent(next)}`} style={buttonStyle}>
+            使用 {provider.name} 登录
+          </a>
+        )}
+      </div>
+    </PageShell>
+  );
+}
@@ -0,0 +1,19 @@
+/**
+ * Web app manifest
+ * Lets the app be installed to the home screen and opened as a standalone window
+ */
+
+import type { MetadataRoute } from "next";
+
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: "眼压记录 | Eye Pressure Records",
+    short_name: "眼压记录",
+    description: "Track and visualize eye pressure measurements",
+    start_url: "/",
+    display: "standalone",
+    background_color: "#f8fafc",
+    theme_color: "#3b82f6",
+    icons: [{ src: "/icon.svg", sizes: "any", type: "image/svg+xml", purpose: "any" }],
+  };
+}
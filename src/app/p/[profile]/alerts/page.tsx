@@ -0,0 +1,68 @@
+/**
+ * Alerts page
+ * Server component - checks the alert rules against the profile's records and lists the alerts
+ * with their acknowledge state and the configured notifiers
+ */
+
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { getRecordSource } from "@/lib/recordSource";
+import { loadProfileContext, profilePath } from "@/lib/profiles";
+import { getDisplayTimeZone, loadSettings } from "@/lib/settings";
+import { checkAlerts, getNotifiers } from "@/lib/alertStore";
+import AlertList from "@/components/AlertList";
+import PageShell from "@/components/PageShell";
+import { AlertEntry } from "@/types";
+
+export const dynamic = "force-dynamic";
+
+interface AlertsPageProps {
+  params: Promise<{ profile: string }>;
+}
+
+export default async function AlertsPage({ params }: AlertsPageProps) {
+  const context = await loadProfileContext((await params).profile);
+  if (!context) notFound();
+  const { profile, profiles } = context;
+
+  let alerts: AlertEntry[] = [];
+  let timeZone = "UTC";
+  let notifiers: string[] = [];
+  let error: string | null = null;
+
+  try {
+    const [records, settings] = await Promise.all([
+      getRecordSource(profile).fetchAllRecords(),
+      loadSettings(profile),
+    ]);
+    timeZone = getDisplayTimeZone(settings);
+    alerts = await checkAlerts(profile, records, settings);
+    notifiers = getNotifiers().map((notifier) => notifier.kind);
+  } catch (err) {
+    console.error("Error loading alerts:", err);
+    error = err instanceof Error ? err.message : "Unknown error";
+  }
+
+  return (
+    <PageShell
+      profile={{ current: profile.id, profiles, subPath: "/alerts" }}
+      actions={
+        <Link href={profilePath(profile.id)} style={{ fontSize: "14px", color: "#3b82f6" }}>
+          返回记录
+        </Link>
+      }
+    >
+      {error ? (
+        <p style={{ color: "#dc2626" }}>Load failed: {error}</p>
+      ) : (
+        <AlertList
+          profileId={profile.id}
+          settingsPath={profilePath(profile.id, "/settings")}
+          alerts={alerts}
+          notifiers={notifiers}
+          timeZone={timeZone}
+        />
+      )}
+    </PageShell>
+  );
+}
@@ -0,0 +1,58 @@
+/**
+ * Treatment timeline page
+ * Server component - loads events from the configured source for editing
+ */
+
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { getRecordSource } from "@/lib/recordSource";
+import { loadProfileContext, profilePath } from "@/lib/profiles";
+import { getDisplayTimeZone, loadSettings } from "@/lib/settings";
+import EventManager from "@/components/EventManager";
+import PageShell from "@/components/PageShell";
+import { TreatmentEvent } from "@/types";
+
+export const dynamic = "force-dynamic";
+
+interface EventsPageProps {
+  params: Promise<{ profile: string }>;
+}
+
+export default async function EventsPage({ params }: EventsPageProps) {
+  const context = await loadProfileContext((await params).profile);
+  if (!context) notFound();
+  const { profile, profiles } = context;
+
+  let events: TreatmentEvent[] = [];
+  let timeZone = "UTC";
+  let error: string | null = null;
+
+  try {
+    const [fetched, settings] = await Promise.all([
+      getRecordSource(profile).fetchEvents(),
+      loadSettings(profile),
+    ]);
+    events = fetched;
+    timeZone = getDisplayTimeZone(settings);
+  } catch (err) {
+    console.error("Error fetching events:", err);
+    error = err instanceof Error ? err.message : "Unknown error";
+  }
+
+  return (
+    <PageShell
+      profile={{ current: profile.id, profiles, subPath: "/events" }}
+      actions={
+        <Link href={profilePath(profile.id)} style={{ fontSize: "14px", color: "#3b82f6" }}>
+          返回记录
+        </Link>
+      }
+    >
+      {error ? (
+        <p style={{ color: "#dc2626" }}>Load failed: {error}</p>
+      ) : (
+        <EventManager profileId={profile.id} events={events} timeZone={timeZone} />
+      )}
+    </PageShell>
+  );
+}
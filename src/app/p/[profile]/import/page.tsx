@@ -0,0 +1,63 @@
+/**
+ * Import page for historical measurements
+ * Server component - loads existing records for duplicate detection
+ */
+
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { getRecordSource } from "@/lib/recordSource";
+import { loadProfileContext, profilePath } from "@/lib/profiles";
+import { getSessionOptions, loadSettings } from "@/lib/settings";
+import { DEFAULT_SESSION_OPTIONS, SessionOptions } from "@/lib/grouping";
+import ImportWizard from "@/components/ImportWizard";
+import PageShell from "@/components/PageShell";
+import { EyePressureRecord } from "@/types";
+
+export const dynamic = "force-dynamic";
+
+interface ImportPageProps {
+  params: Promise<{ profile: string }>;
+}
+
+export default async function ImportPage({ params }: ImportPageProps) {
+  const context = await loadProfileContext((await params).profile);
+  if (!context) notFound();
+  const { profile, profiles } = context;
+
+  let records: EyePressureRecord[] = [];
+  let sessionOptions: SessionOptions = DEFAULT_SESSION_OPTIONS;
+  let error: string | null = null;
+
+  try {
+    const [fetched, settings] = await Promise.all([
+      getRecordSource(profile).fetchAllRecords(),
+      loadSettings(profile),
+    ]);
+    records = fetched;
+    sessionOptions = getSessionOptions(settings);
+  } catch (err) {
+    console.error("Error fetching records:", err);
+    error = err instanceof Error ? err.message : "Unknown error";
+  }
+
+  return (
+    <PageShell
+      profile={{ current: profile.id, profiles, subPath: "/import" }}
+      actions={
+        <Link href={profilePath(profile.id)} style={{ fontSize: "14px", color: "#3b82f6" }}>
+          返回记录
+        </Link>
+      }
+    >
+      {error ? (
+        <p style={{ color: "#dc2626" }}>Load failed: {error}</p>
+      ) : (
+        <ImportWizard
+          profileId={profile.id}
+          existing={records}
+          sessionOptions={sessionOptions}
+        />
+      )}
+    </PageShell>
+  );
+}
@@ -0,0 +1,96 @@
+/**
+ * Main page for a patient profile
+ * Server component - fetches data from the profile's source and renders client components
+ */
+
+import { notFound } from "next/navigation";
+import { getRecordSource } from "@/lib/recordSource";
+import { getSessionOptions, loadSettings } from "@/lib/settings";
+import { DEFAULT_SESSION_OPTIONS, SessionOptions } from "@/lib/grouping";
+import { parseSleepWindow } from "@/lib/analytics";
+import { parseDashboardFilters } from "@/lib/filters";
+import { DEFAULT_READING_OPTIONS, ReadingOptions } from "@/lib/readings";
+import { loadProfileContext, profilePath } from "@/lib/profiles";
+import { checkAlerts } from "@/lib/alertStore";
+import { getVapidKeys } from "@/lib/webPush";
+import MainContent from "@/components/MainContent";
+import PageShell from "@/components/PageShell";
+import {
+  AlertEntry,
+  EyePressureRecord,
+  RecordIssue,
+  SessionPlan,
+  TargetPressure,
+  TreatmentEvent,
+} from "@/types";
+
+// Rendered per request for the filters in the URL; record sources cache and sync incrementally
+export const dynamic = "force-dynamic";
+
+interface ProfileHomeProps {
+  params: Promise<{ profile: string }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+export default async function ProfileHome({ params, searchParams }: ProfileHomeProps) {
+  const context = await loadProfileContext((await params).profile);
+  if (!context) notFound();
+  const { profile, profiles } = context;
+  const filters = parseDashboardFilters(await searchParams);
+  let records: EyePressureRecord[] = [];
+  let issues: RecordIssue[] = [];
+  let targets: TargetPressure[] = [];
+  let sessionOptions: SessionOptions = DEFAULT_SESSION_OPTIONS;
+  let readingOptions: ReadingOptions = DEFAULT_READING_OPTIONS;
+  let events: TreatmentEvent[] = [];
+  let alerts: AlertEntry[] = [];
+  let plans: SessionPlan[] = [];
+  let pushPublicKey: string | null = null;
+  let error: string | null = null;
+
+  try {
+    // Fetch all records from the profile's source (Notion or local file)
+    // Grouping happens client-side so optimistic edits can re-group immediately
+    const source = getRecordSource(profile);
+    records = await source.fetchAllRecords();
+    issues = await source.listIssues();
+    events = await source.fetchEvents();
+    const settings = await loadSettings(profile);
+    targets = settings.targets;
+    sessionOptions = getSessionOptions(settings);
+    readingOptions = settings.readings;
+    plans = settings.sessionPlans;
+    pushPublicKey = getVapidKeys()?.publicKey ?? null;
+    // New readings (including ones added directly in Notion) are checked whenever records are fetched;
+    // a failing alert store doesn't keep the records from showing (notifications are sent in the background)
+    try {
+      alerts = (await checkAlerts(profile, records, settings)).filter((alert) => !alert.acknowledgedAt);
+    } catch (err) {
+      console.error("Error checking alerts:", err);
+    }
+  } catch (err) {
+    console.error("Error fetching records:", err);
+    error = err instanceof Error ? err.message : "Unknown error";
+  }
+
+  return (
+    <PageShell profile={{ current: profile.id, profiles }}>
+      <MainContent
+        profileId={profile.id}
+        basePath={profilePath(profile.id)}
+        records={records}
+        issues={issues}
+        sleepWindow={parseSleepWindow(process.env.SLEEP_WINDOW)}
+        targets={targets}
+        sessionOptions={sessionOptions}
+        readingOptions={readingOptions}
+        events={events}
+        alerts={alerts}
+        plans={plans}
+        pushPublicKey={pushPublicKey}
+        filters={filters}
+        error={error}
+      />
+    </PageShell>
+  );
+}
@@ -0,0 +1,113 @@
+/**
+ * Clinical report page for doctor visits
+ * Server component - renders a print-optimized report for a selected date range
+ */
+
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { getRecordSource } from "@/lib/recordSource";
+import { loadProfileContext, profilePath } from "@/lib/profiles";
+import { getSessionOptions, loadSettings } from "@/lib/settings";
+import { parseSleepWindow } from "@/lib/analytics";
+import { ReportData, buildReport, parseReportRange, toRangeQuery } from "@/lib/report";
+import ReportView from "@/components/ReportView";
+import PrintButton from "@/components/PrintButton";
+
+export const dynamic = "force-dynamic";
+
+interface ReportPageProps {
+  params: Promise<{ profile: string }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+export default async function ReportPage({ params, searchParams }: ReportPageProps) {
+  const context = await loadProfileContext((await params).profile);
+  if (!context) notFound();
+  const { profile } = context;
+  const range = parseReportRange(await searchParams);
+
+  let report: ReportData | null = null;
+  let error: string | null = null;
+
+  try {
+    const [records, settings] = await Promise.all([
+      getRecordSource(profile).fetchAllRecords(),
+      loadSettings(profile),
+    ]);
+    report = buildReport(records, range, {
+      sleepWindow: parseSleepWindow(process.env.SLEEP_WINDOW),
+      targets: settings.targets,
+      readings: settings.readings,
+      sessionOptions: getSessionOptions(settings),
+    });
+  } catch (err) {
+    console.error("Error building report:", err);
+    error = err instanceof Error ? err.message : "Unknown error";
+  }
+
+  const inputStyle = {
+    padding: "6px 8px",
+    fontSize: "14px",
+    border: "1px solid #cbd5e1",
+    borderRadius: "6px",
+  };
+
+  return (
+    <div style={{ maxWidth: "800px", margin: "0 auto", padding: "24px 16px", background: "white" }}>
+      {/* Range selection and actions, hidden when printing */}
+      <form
+        className="no-print"
+        method="get"
+        style={{
+          display: "flex",
+          flexWrap: "wrap",
+          alignItems: "center",
+          gap: "8px",
+          marginBottom: "24px",
+          paddingBottom: "16px",
+          borderBottom: "1px solid #e2e8f0",
+        }}
+      >
+        <Link href={profilePath(profile.id)} style={{ fontSize: "14px", color: "#3b82f6", marginRight: "auto" }}>
+          返回记录
+        </Link>
+        <input type="date" name="from" defaultValue={range.from ?? ""} style={inputStyle} />
+        <span style={{ color: "#64748b" }}>至</span>
+        <input type="date" name="to" defaultValue={range.to ?? ""} style={inputStyle} />
+        <button
+          type="submit"
+          style={{
+            padding: "8px 16px",
+            backgroundColor: "#f1f5f9",
+            color: "#334155",
+            borderRadius: "8px",
+            border: "none",
+            cursor: "pointer",
+            fontSize: "14px",
+          }}
+        >
+          更新
+        </button>
+        <PrintButton />
+        <a
+          href={profilePath(profile.id, `/report/pdf${toRangeQuery(range)}`)}
+          style={{
+            padding: "8px 16px",
+            backgroundColor: "#0f172a",
+            color: "white",
+            borderRadius: "8px",
+            fontSize: "14px",
+          }}
+        >
+          下载 PDF
+        </a>
+      </form>
+
+      {report ? (
+        <ReportView report={report} />
+      ) : (
+        <p style={{ color: "#dc2626" }}>Load failed: {error}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+/**
+ * PDF download of the clinical report
+ * Generated server-side so it works without a browser window
+ */
+
+import { getRecordSource } from "@/lib/recordSource";
+import { findProfile } from "@/lib/profiles";
+import { getSessionOptions, loadSettings } from "@/lib/settings";
+import { parseSleepWindow } from "@/lib/analytics";
+import { buildReport, parseReportRange } from "@/lib/report";
+import { renderReportPdf } from "@/lib/reportPdf";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ profile: string }> }
+) {
+  const url = new URL(request.url);
+  const range = parseReportRange(Object.fromEntries(url.searchParams));
+
+  try {
+    const profile = await findProfile((await params).profile);
+    if (!profile) {
+      return Response.json({ error: "Unknown profile" }, { status: 404 });
+    }
+    const [records, settings] = await Promise.all([
+      getRecordSource(profile).fetchAllRecords(),
+      loadSettings(profile),
+    ]);
+    const report = buildReport(records, range, {
+      sleepWindow: parseSleepWindow(process.env.SLEEP_WINDOW),
+      targets: settings.targets,
+      readings: settings.readings,
+      sessionOptions: getSessionOptions(settings),
+    });
+    const pdf = await renderReportPdf(report, {
+      fontPath: process.env.REPORT_FONT_PATH || undefined,
+    });
+
+    const fileName = `eye-pressure-report-${range.from ?? "all"}-${range.to ?? "latest"}.pdf`;
+    return new Response(new Uint8Array(pdf), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+      },
+    });
+  } catch (err) {
+    console.error("Error generating report PDF:", err);
+    return Response.json(
+      { error: err instanceof Error ? err.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
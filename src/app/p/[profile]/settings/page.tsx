@@ -0,0 +1,93 @@
+/**
+ * Settings page for per-patient configuration
+ * Server component - loads target pressures, session overrides, the display time zone,
+ * reading options and alert rules from the profile's settings file, plus the profile's read-only share links
+ */
+
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { getRecordSource } from "@/lib/recordSource";
+import { loadProfileContext, profilePath } from "@/lib/profiles";
+import { AppSettings, getDisplayTimeZone, getSessionOptions, loadSettings } from "@/lib/settings";
+import { groupRecords } from "@/lib/grouping";
+import { listShares } from "@/lib/shares";
+import TargetSettings from "@/components/TargetSettings";
+import SessionOverrides from "@/components/SessionOverrides";
+import TimeZoneSettings from "@/components/TimeZoneSettings";
+import ReadingSettings from "@/components/ReadingSettings";
+import AlertSettings from "@/components/AlertSettings";
+import ShareLinks from "@/components/ShareLinks";
+import PageShell from "@/components/PageShell";
+import { EyePressureRecord, ShareLink } from "@/types";
+
+export const dynamic = "force-dynamic";
+
+interface SettingsPageProps {
+  params: Promise<{ profile: string }>;
+}
+
+export default async function SettingsPage({ params }: SettingsPageProps) {
+  const context = await loadProfileContext((await params).profile);
+  if (!context) notFound();
+  const { profile, profiles } = context;
+
+  let settings: AppSettings | null = null;
+  let timeZone = "UTC";
+  let records: EyePressureRecord[] = [];
+  let shares: ShareLink[] = [];
+  let error: string | null = null;
+
+  try {
+    settings = await loadSettings(profile);
+    timeZone = getDisplayTimeZone(settings);
+    // Records show when each session override applies and which groups can be shared
+    [records, shares] = await Promise.all([
+      getRecordSource(profile).fetchAllRecords(),
+      listShares(profile.id),
+    ]);
+  } catch (err) {
+    console.error("Error loading settings:", err);
+    error = err instanceof Error ? err.message : "Unknown error";
+  }
+
+  return (
+    <PageShell
+      profile={{ current: profile.id, profiles, subPath: "/settings" }}
+      actions={
+        <Link href={profilePath(profile.id)} style={{ fontSize: "14px", color: "#3b82f6" }}>
+          返回记录
+        </Link>
+      }
+    >
+      {error || !settings ? (
+        <p style={{ color: "#dc2626" }}>Load failed: {error}</p>
+      ) : (
+        <div style={{ display: "flex", flexDirection: "column", gap: "40px" }}>
+          <TimeZoneSettings
+            profileId={profile.id}
+            saved={settings.displayTimeZone}
+            effective={timeZone}
+          />
+          <TargetSettings profileId={profile.id} targets={settings.targets} timeZone={timeZone} />
+          <ReadingSettings profileId={profile.id} options={settings.readings} />
+          <AlertSettings profileId={profile.id} rules={settings.alerts} />
+          <SessionOverrides
+            profileId={profile.id}
+            overrides={settings.sessionOverrides}
+            records={records}
+            timeZone={timeZone}
+          />
+          <ShareLinks
+            profileId={profile.id}
+            shares={shares}
+            groups={groupRecords(records, getSessionOptions(settings)).map(({ id, title }) => ({
+              id,
+              title,
+            }))}
+            timeZone={timeZone}
+          />
+        </div>
+      )}
+    </PageShell>
+  );
+}
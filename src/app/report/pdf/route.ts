@@ -0,0 +1,14 @@
+/**
+ * PDF report route without a profile
+ * Redirects to the default (first) profile's PDF, keeping the query string
+ */
+
+import { defaultProfilePath } from "@/lib/profiles";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  const path = await defaultProfilePath("/report/pdf", Object.fromEntries(url.searchParams));
+  return Response.redirect(new URL(path, url), 307);
+}
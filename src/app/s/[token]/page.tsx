@@ -0,0 +1,107 @@
+/**
+ * Read-only shared view
+ * Server component - renders only the groups and dates a share link covers, without editing controls
+ */
+
+import { getRecordSource } from "@/lib/recordSource";
+import { findProfile } from "@/lib/profiles";
+import { getSessionOptions, loadSettings } from "@/lib/settings";
+import { groupRecords } from "@/lib/grouping";
+import { DEFAULT_READING_OPTIONS } from "@/lib/readings";
+import { planSlotsByGroup } from "@/lib/sessionPlans";
+import { parseSleepWindow } from "@/lib/analytics";
+import { resolveShare, scopeEvents, scopeGroups } from "@/lib/shares";
+import { formatZoned } from "@/lib/time";
+import PageShell from "@/components/PageShell";
+import RecordGroup from "@/components/RecordGroup";
+import { PlanSlot, RecordGroup as RecordGroupType, TargetPressure, TreatmentEvent } from "@/types";
+
+export const dynamic = "force-dynamic";
+
+interface SharePageProps {
+  params: Promise<{ token: string }>;
+}
+
+export default async function SharePage({ params }: SharePageProps) {
+  const share = await resolveShare((await params).token);
+  const profile = share ? await findProfile(share.profileId) : null;
+
+  if (!share || !profile) {
+    return (
+      <PageShell>
+        <p style={{ textAlign: "center", padding: "48px 0", color: "#64748b" }}>
+          链接无效、已过期或已被撤销
+        </p>
+      </PageShell>
+    );
+  }
+
+  let groups: RecordGroupType[] = [];
+  let targets: TargetPressure[] = [];
+  let readingOptions = DEFAULT_READING_OPTIONS;
+  let events: TreatmentEvent[] = [];
+  let planSlots: Record<string, PlanSlot[]> = {};
+  let timeZone = "UTC";
+  let error: string | null = null;
+
+  try {
+    // Scope on the server so nothing outside the link reaches the browser
+    const source = getRecordSource(profile);
+    const [records, allEvents, settings] = await Promise.all([
+      source.fetchAllRecords(),
+      source.fetchEvents(),
+      loadSettings(profile),
+    ]);
+    const sessionOptions = getSessionOptions(settings);
+    timeZone = sessionOptions.timeZone;
+    targets = settings.targets;
+    readingOptions = settings.readings;
+    const allGroups = groupRecords(records, sessionOptions);
+    // Slots are matched on the whole session, so readings outside the link's range aren't missed
+    planSlots = planSlotsByGroup(settings.sessionPlans, allGroups);
+    groups = scopeGroups(allGroups, share, targets, timeZone);
+    events = scopeEvents(allEvents, groups);
+  } catch (err) {
+    console.error("Error loading shared records:", err);
+    error = err instanceof Error ? err.message : "Unknown error";
+  }
+
+  const sleepWindow = parseSleepWindow(process.env.SLEEP_WINDOW);
+
+  return (
+    <PageShell>
+      <div style={{ display: "flex", flexDirection: "column", gap: "32px" }}>
+        <div
+          style={{
+            padding: "12px 16px",
+            borderRadius: "8px",
+            backgroundColor: "#eff6ff",
+            color: "#1e40af",
+            fontSize: "14px",
+          }}
+        >
+          只读分享{share.label && `：${share.label}`} · 有效期至{" "}
+          {formatZoned(share.expiresAt, timeZone)}
+        </div>
+        {error && <p style={{ color: "#dc2626" }}>Load failed: {error}</p>}
+        {!error && groups.length === 0 && (
+          <p style={{ textAlign: "center", padding: "48px 0", color: "#64748b" }}>
+            分享范围内没有记录
+          </p>
+        )}
+        {groups.map((group) => (
+          <RecordGroup
+            key={group.id}
+            group={group}
+            sleepWindow={sleepWindow}
+            targets={targets}
+            readingOptions={readingOptions}
+            events={events}
+            slots={planSlots[group.id] ?? null}
+            timeZone={timeZone}
+          />
+        ))}
+      </div>
+    </PageShell>
+  );
+}
@@ -0,0 +1,91 @@
+/**
+ * Banner for unacknowledged alerts
+ * Shows the newest alerts above the records, with a link to the alerts page and a way to acknowledge them
+ */
+
+"use client";
+
+import { useState, useTransition } from "react";
+import Link from "next/link";
+import { AlertEntry } from "@/types";
+import { ALERT_RULE_LABELS } from "@/lib/alerts";
+import { acknowledgeAlertsAction } from "@/app/actions";
+
+interface AlertBannerProps {
+  // Profile the acknowledgement is written to
+  profileId: string;
+  // Route prefix of the profile's pages, e.g. "/p/mom"
+  basePath: string;
+  // Unacknowledged alerts, newest first
+  alerts: AlertEntry[];
+}
+
+// Alerts listed in the banner; the rest are on the alerts page
+const SHOWN_ALERTS = 3;
+
+export default function AlertBanner({ profileId, basePath, alerts }: AlertBannerProps) {
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+
+  if (alerts.length === 0) return null;
+
+  const acknowledgeAll = () => {
+    setError(null);
+    startTransition(async () => {
+      const result = await acknowledgeAlertsAction(
+        profileId,
+        alerts.map((alert) => alert.id)
+      );
+      if (!result.ok) setError(result.error);
+    });
+  };
+
+  return (
+    <div
+      role="alert"
+      style={{
+        display: "flex",
+        flexDirection: "column",
+        gap: "8px",
+        padding: "12px 16px",
+        borderRadius: "8px",
+        backgroundColor: "#fef2f2",
+        border: "1px solid #fecaca",
+        color: "#991b1b",
+        fontSize: "14px",
+      }}
+    >
+      <div style={{ display: "flex", flexWrap: "wrap", alignItems: "center", gap: "12px" }}>
+        <strong style={{ fontWeight: 600 }}>{alerts.length} 条未确认的眼压提醒</strong>
+        <Link href={`${basePath}/alerts`} style={{ fontSize: "13px", color: "#991b1b" }}>
+          查看全部
+        </Link>
+        <button
+          onClick={acknowledgeAll}
+          disabled={isPending}
+          style={{
+            marginLeft: "auto",
+            padding: "4px 10px",
+            fontSize: "13px",
+            borderRadius: "6px",
+            border: "none",
+            cursor: isPending ? "default" : "pointer",
+            backgroundColor: "#fee2e2",
+            color: "#991b1b",
+          }}
+        >
+          {isPending ? "确认中…" : "全部确认"}
+        </button>
+      </div>
+      <ul style={{ paddingLeft: "20px", listStyle: "disc" }}>
+        {alerts.slice(0, SHOWN_ALERTS).map((alert) => (
+          <li key={alert.id}>
+            <span style={{ fontWeight: 500 }}>{ALERT_RULE_LABELS[alert.rule]}</span>：{alert.message}
+          </li>
+        ))}
+        {alerts.length > SHOWN_ALERTS && <li>另有 {alerts.length - SHOWN_ALERTS} 条…</li>}
+      </ul>
+      {error && <p style={{ fontSize: "13px", color: "#dc2626" }}>{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,214 @@
+/**
+ * List of a profile's alerts
+ * Shows each alert with its rule, reading and acknowledge state; alerts can be acknowledged one by one
+ * or all at once, and a test message can be sent through the configured notifiers
+ */
+
+"use client";
+
+import { useState, useTransition } from "react";
+import Link from "next/link";
+import { AlertEntry } from "@/types";
+import { ALERT_RULE_LABELS } from "@/lib/alerts";
+import { formatZoned } from "@/lib/time";
+import { acknowledgeAlertsAction, sendTestAlertAction } from "@/app/actions";
+
+interface AlertListProps {
+  // Profile the acknowledgements are written to
+  profileId: string;
+  // Settings page where the rule limits are edited
+  settingsPath: string;
+  // Newest first
+  alerts: AlertEntry[];
+  // Kinds of the configured notifiers (e.g. "webhook", "email")
+  notifiers: string[];
+  timeZone: string;
+}
+
+const EYE_LABELS = { left: "左眼", right: "右眼" };
+
+const NOTIFIER_LABELS: Record<string, string> = { webhook: "Webhook", email: "邮件" };
+
+export default function AlertList({
+  profileId,
+  settingsPath,
+  alerts,
+  notifiers,
+  timeZone,
+}: AlertListProps) {
+  const [isPending, startTransition] = useTransition();
+  const [showAcknowledged, setShowAcknowledged] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [testResult, setTestResult] = useState<string | null>(null);
+
+  const open = alerts.filter((alert) => !alert.acknowledgedAt);
+  const shown = showAcknowledged ? alerts : open;
+
+  const acknowledge = (ids: string[]) => {
+    setError(null);
+    startTransition(async () => {
+      const result = await acknowledgeAlertsAction(profileId, ids);
+      if (!result.ok) setError(result.error);
+    });
+  };
+
+  const sendTest = () => {
+    setError(null);
+    setTestResult(null);
+    startTransition(async () => {
+      const result = await sendTestAlertAction(profileId);
+      if (!result.ok) {
+        setError(result.error);
+        return;
+      }
+      setTestResult(
+        result.data
+          .map(
+            ({ kind, error: failure }) =>
+              `${NOTIFIER_LABELS[kind] ?? kind}：${failure ? `失败（${failure}）` : "已发送"}`
+          )
+          .join("；")
+      );
+    });
+  };
+
+  const thStyle = {
+    padding: "8px 12px",
+    textAlign: "left" as const,
+    fontSize: "12px",
+    fontWeight: 600,
+    color: "#475569",
+    backgroundColor: "#f8fafc",
+  };
+
+  const tdStyle = {
+    padding: "8px 12px",
+    fontSize: "14px",
+    color: "#334155",
+    borderTop: "1px solid #f1f5f9",
+  };
+
+  const buttonStyle = (primary: boolean) => ({
+    padding: "6px 12px",
+    fontSize: "13px",
+    borderRadius: "6px",
+    border: "none",
+    cursor: isPending ? "default" : "pointer",
+    backgroundColor: primary ? "#3b82f6" : "#f1f5f9",
+    color: primary ? "white" : "#475569",
+  });
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: "16px" }}>
+      <div>
+        <h2 style={{ fontSize: "20px", fontWeight: 700, color: "#0f172a" }}>眼压提醒</h2>
+        <p style={{ marginTop: "4px", fontSize: "13px", color: "#64748b" }}>
+          每次读取或保存记录时检查：高于目标、比近期平均骤升、双眼差异大、24 小时波动大。规则阈值在
+          <Link href={settingsPath} style={{ color: "#3b82f6" }}>
+            设置
+          </Link>
+          中修改。
+        </p>
+      </div>
+
+      <div style={{ display: "flex", flexWrap: "wrap", alignItems: "center", gap: "12px" }}>
+        <span style={{ fontSize: "14px", color: "#334155" }}>
+          未确认 {open.length} / 共 {alerts.length} 条
+        </span>
+        <label
+          style={{ display: "flex", alignItems: "center", gap: "6px", fontSize: "14px", color: "#475569" }}
+        >
+          <input
+            type="checkbox"
+            checked={showAcknowledged}
+            onChange={(e) => setShowAcknowledged(e.target.checked)}
+          />
+          显示已确认
+        </label>
+        {open.length > 0 && (
+          <button
+            onClick={() => acknowledge(open.map((alert) => alert.id))}
+            disabled={isPending}
+            style={buttonStyle(true)}
+          >
+            全部确认
+          </button>
+        )}
+        <span style={{ marginLeft: "auto", fontSize: "13px", color: "#64748b" }}>
+          通知：
+          {notifiers.length > 0
+            ? notifiers.map((kind) => NOTIFIER_LABELS[kind] ?? kind).join("、")
+            : "未配置（ALERT_WEBHOOK_URL / SMTP_HOST）"}
+        </span>
+        {notifiers.length > 0 && (
+          <button onClick={sendTest} disabled={isPending} style={buttonStyle(false)}>
+            发送测试通知
+          </button>
+        )}
+      </div>
+      {testResult && <p style={{ fontSize: "13px", color: "#15803d" }}>{testResult}</p>}
+      {error && <p style={{ fontSize: "13px", color: "#dc2626" }}>{error}</p>}
+
+      {shown.length === 0 ? (
+        <p style={{ fontSize: "14px", color: "#64748b" }}>
+          {alerts.length === 0 ? "近期没有提醒" : "没有未确认的提醒"}
+        </p>
+      ) : (
+        <div
+          style={{
+            backgroundColor: "white",
+            borderRadius: "8px",
+            border: "1px solid #e2e8f0",
+            overflowX: "auto",
+          }}
+        >
+          <table style={{ minWidth: "100%", borderCollapse: "collapse" }}>
+            <thead>
+              <tr>
+                <th style={thStyle}>规则</th>
+                <th style={thStyle}>眼别</th>
+                <th style={thStyle}>说明</th>
+                <th style={thStyle}>状态</th>
+                <th style={thStyle}></th>
+              </tr>
+            </thead>
+            <tbody>
+              {shown.map((alert) => (
+                <tr key={alert.id} style={{ opacity: alert.acknowledgedAt ? 0.6 : 1 }}>
+                  <td style={{ ...tdStyle, fontWeight: 600, color: "#b91c1c", whiteSpace: "nowrap" }}>
+                    {ALERT_RULE_LABELS[alert.rule]}
+                  </td>
+                  <td style={tdStyle}>{alert.eye ? EYE_LABELS[alert.eye] : "双眼"}</td>
+                  <td style={tdStyle}>{alert.message}</td>
+                  <td style={{ ...tdStyle, color: "#64748b", whiteSpace: "nowrap" }}>
+                    {alert.acknowledgedAt
+                      ? `已确认 ${formatZoned(alert.acknowledgedAt, timeZone)}`
+                      : `未确认（${formatZoned(alert.firstSeenAt, timeZone)} 发现）`}
+                  </td>
+                  <td style={{ ...tdStyle, textAlign: "right" }}>
+                    {!alert.acknowledgedAt && (
+                      <button
+                        onClick={() => acknowledge([alert.id])}
+                        disabled={isPending}
+                        style={{
+                          padding: "4px 8px",
+                          fontSize: "13px",
+                          color: "#3b82f6",
+                          backgroundColor: "transparent",
+                          border: "none",
+                          cursor: "pointer",
+                        }}
+                      >
+                        确认
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
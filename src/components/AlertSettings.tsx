@@ -0,0 +1,169 @@
+/**
+ * Editor for the alert rules
+ * Sets the limits new readings are checked against; an empty limit turns its rule off
+ */
+
+"use client";
+
+import { useState, useTransition } from "react";
+import { ALERT_RULE_LABELS, AlertRules } from "@/lib/alerts";
+import { saveAlertRulesAction } from "@/app/actions";
+
+interface AlertSettingsProps {
+  // Profile the changes are written to
+  profileId: string;
+  rules: AlertRules;
+}
+
+type LimitField = "jump" | "eyeDifference" | "fluctuation";
+
+const LIMIT_FIELDS: { field: LimitField; hint: string }[] = [
+  { field: "jump", hint: "比该眼此前 5 次平均升高超过" },
+  { field: "eyeDifference", hint: "同一次测量左右眼相差超过" },
+  { field: "fluctuation", hint: "一次 24 小时测量中峰谷差超过" },
+];
+
+export default function AlertSettings({ profileId, rules }: AlertSettingsProps) {
+  const [isPending, startTransition] = useTransition();
+  const [aboveTarget, setAboveTarget] = useState(rules.aboveTarget);
+  const [limits, setLimits] = useState<Record<LimitField, string>>({
+    jump: rules.jump?.toString() ?? "",
+    eyeDifference: rules.eyeDifference?.toString() ?? "",
+    fluctuation: rules.fluctuation?.toString() ?? "",
+  });
+  const [lookbackDays, setLookbackDays] = useState(rules.lookbackDays.toString());
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const parsed = {} as Record<LimitField, number | null>;
+    for (const { field } of LIMIT_FIELDS) {
+      const text = limits[field].trim();
+      const value = parseFloat(text);
+      if (text && (!Number.isFinite(value) || value <= 0)) {
+        setError(`${ALERT_RULE_LABELS[field]}的阈值应为正数`);
+        return;
+      }
+      parsed[field] = text ? value : null;
+    }
+    const days = parseInt(lookbackDays, 10);
+    if (!Number.isInteger(days) || days < 1 || days > 365) {
+      setError("检查范围应为 1–365 天");
+      return;
+    }
+    setError(null);
+    setSaved(false);
+    startTransition(async () => {
+      const result = await saveAlertRulesAction(profileId, {
+        aboveTarget,
+        ...parsed,
+        lookbackDays: days,
+      });
+      if (result.ok) setSaved(true);
+      else setError(result.error);
+    });
+  };
+
+  const inputStyle = {
+    padding: "6px 8px",
+    fontSize: "14px",
+    border: "1px solid #cbd5e1",
+    borderRadius: "6px",
+    color: "#0f172a",
+    backgroundColor: "white",
+  };
+
+  const rowStyle = {
+    display: "flex",
+    flexWrap: "wrap" as const,
+    alignItems: "center",
+    gap: "8px",
+    fontSize: "14px",
+    color: "#334155",
+  };
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: "16px" }}>
+      <div>
+        <h2 style={{ fontSize: "20px", fontWeight: 700, color: "#0f172a" }}>提醒规则</h2>
+        <p style={{ marginTop: "4px", fontSize: "13px", color: "#64748b" }}>
+          每次读取或保存记录时检查近期读数，触发的提醒显示在记录页顶部和提醒页，并通过配置的 Webhook 或邮件发送。阈值留空即关闭该规则。
+        </p>
+      </div>
+
+      <form
+        onSubmit={handleSubmit}
+        style={{
+          display: "flex",
+          flexDirection: "column",
+          gap: "12px",
+          padding: "16px",
+          backgroundColor: "white",
+          borderRadius: "8px",
+          border: "1px solid #e2e8f0",
+        }}
+      >
+        <label style={rowStyle}>
+          <input
+            type="checkbox"
+            checked={aboveTarget}
+            onChange={(e) => setAboveTarget(e.target.checked)}
+          />
+          {ALERT_RULE_LABELS.aboveTarget}：读数高于当时的目标眼压
+        </label>
+        {LIMIT_FIELDS.map(({ field, hint }) => (
+          <label key={field} style={rowStyle}>
+            <span style={{ width: "96px", fontWeight: 500 }}>{ALERT_RULE_LABELS[field]}</span>
+            {hint}
+            <input
+              type="number"
+              step="0.5"
+              min="0.5"
+              max="80"
+              value={limits[field]}
+              onChange={(e) => setLimits({ ...limits, [field]: e.target.value })}
+              placeholder="关闭"
+              style={{ ...inputStyle, width: "80px" }}
+            />
+            mmHg
+          </label>
+        ))}
+        <label style={rowStyle}>
+          <span style={{ width: "96px", fontWeight: 500 }}>检查范围</span>
+          最近
+          <input
+            type="number"
+            step="1"
+            min="1"
+            max="365"
+            value={lookbackDays}
+            onChange={(e) => setLookbackDays(e.target.value)}
+            style={{ ...inputStyle, width: "80px" }}
+          />
+          天内的读数
+        </label>
+        <div style={{ display: "flex", alignItems: "center", gap: "12px" }}>
+          <button
+            type="submit"
+            disabled={isPending}
+            style={{
+              padding: "7px 16px",
+              backgroundColor: "#3b82f6",
+              color: "white",
+              borderRadius: "6px",
+              border: "none",
+              cursor: isPending ? "default" : "pointer",
+              fontSize: "14px",
+              opacity: isPending ? 0.6 : 1,
+            }}
+          >
+            保存
+          </button>
+          {saved && <span style={{ fontSize: "13px", color: "#15803d" }}>已保存</span>}
+        </div>
+      </form>
+      {error && <p style={{ fontSize: "13px", color: "#dc2626" }}>{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,21 @@
+/**
+ * Offline cache cleanup
+ * Removes pages the service worker kept for offline use, so patient data doesn't stay
+ * on the device after logging out; queued unsynced records are kept
+ */
+
+"use client";
+
+import { useEffect } from "react";
+
+export default function ClearOfflineCache() {
+  useEffect(() => {
+    if (!("caches" in window)) return;
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.map((key) => caches.delete(key))))
+      .catch((err) => console.error("Error clearing offline cache:", err));
+  }, []);
+
+  return null;
+}
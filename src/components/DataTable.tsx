@@ -1,43 +1,112 @@
 /**
  * Data table component for displaying eye pressure records
- * Shows all fields in a scrollable table format
+ * Shows all fields in a scrollable table format, with optional inline edit/delete
+ * and filters for the measurement conditions; multiple readings are listed under their value
+ * with outliers struck through
  */
 
 "use client";
 
-import { EyePressureRecord } from "@/types";
+import { Fragment, useState } from "react";
+import {
+  BodyPosition,
+  EyePressureRecord,
+  EyePressureRecordInput,
+  Measurer,
+  TargetPressure,
+  Tonometer,
+} from "@/types";
+import { LEVEL_COLORS, getPressureLevel, getTargetAt } from "@/lib/targets";
+import { recordAverage } from "@/lib/analytics";
+import { formatZoneLabel, formatZoned } from "@/lib/time";
+import {
+  BODY_POSITIONS,
+  MEASURERS,
+  MEASURER_LABELS,
+  POSITION_LABELS,
+  TONOMETERS,
+  TONOMETER_LABELS,
+  correctedValue,
+  describeMeasurement,
+} from "@/lib/measurement";
+import { AGGREGATION_LABELS, ReadingOptions, recordReadings, summarizeReadings } from "@/lib/readings";
+import RecordForm from "./RecordForm";
 
 interface DataTableProps {
   records: EyePressureRecord[];
   type: "24h" | "regular";
+  targets: TargetPressure[];
+  // Aggregation and outlier deviation of multiple readings
+  readingOptions: ReadingOptions;
+  // Display zone for dates
+  timeZone: string;
+  onUpdate?: (id: string, input: EyePressureRecordInput) => void;
+  onDelete?: (id: string) => void;
+  // Start a new 24h session at this record
+  onSplit?: (id: string) => void;
 }
 
-export default function DataTable({ records, type }: DataTableProps) {
+export default function DataTable({
+  records,
+  type,
+  targets,
+  readingOptions,
+  timeZone,
+  onUpdate,
+  onDelete,
+  onSplit,
+}: DataTableProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [tonometer, setTonometer] = useState<Tonometer | "">("");
+  const [position, setPosition] = useState<BodyPosition | "">("");
+  const [measuredBy, setMeasuredBy] = useState<Measurer | "">("");
+  const editable = Boolean(onUpdate || onDelete || onSplit);
+
+  // Measurement conditions get a column and filters once any record carries them
+  const hasMeasurement = records.some((r) => describeMeasurement(r) !== "");
+  const columnCount =
+    4 + (hasMeasurement ? 1 : 0) + (type === "regular" ? 1 : 0) + (editable ? 1 : 0);
+  const visibleRecords = records.filter(
+    (r) =>
+      (!tonometer || r.tonometer === tonometer) &&
+      (!position || r.position === position) &&
+      (!measuredBy || r.measuredBy === measuredBy)
+  );
+
   // Format date based on group type
   const formatDateTime = (dateStr: string) => {
-    const d = new Date(dateStr);
     if (type === "24h") {
-      return d.toLocaleString("zh-CN", {
-        month: "2-digit",
-        day: "2-digit",
-        hour: "2-digit",
-        minute: "2-digit",
-      });
+      return `${formatZoned(dateStr, timeZone, "monthDay")} ${formatZoned(dateStr, timeZone, "time")}`;
     }
-    return d.toLocaleDateString("zh-CN", {
-      year: "numeric",
-      month: "2-digit",
-      day: "2-digit",
-    });
+    return formatZoned(dateStr, timeZone, "date");
   };
 
-  // Get color for value (>21 high, >18 warning)
-  const getValueColor = (value: number) => {
-    if (value > 21) return "#dc2626";
-    if (value > 18) return "#d97706";
-    return "#059669";
+  // Local time where the reading was taken, when its zone differs from the display zone
+  const formatOriginalTime = (record: EyePressureRecord) => {
+    if (!record.timeZone) return null;
+    const label = formatZoneLabel(record.date, record.timeZone);
+    if (label === formatZoneLabel(record.date, timeZone)) return null;
+    return `当地 ${formatZoned(record.date, record.timeZone, type === "24h" ? "time" : "dateTime")} ${label}`;
   };
 
+  // Color and weight for a value against the target in effect at the record's date
+  // (the average is compared with the mean of the measured eyes' targets)
+  const valueStyle = (record: EyePressureRecord, eye: "left" | "right" | "average") => {
+    const targetOf = (side: "left" | "right") =>
+      record[side] === null ? null : getTargetAt(targets, record.date, side, timeZone);
+    const target =
+      eye === "average"
+        ? recordAverage({ left: targetOf("left"), right: targetOf("right") })
+        : targetOf(eye);
+    const value = eye === "average" ? recordAverage(record) : record[eye];
+    if (value === null || target === null) return { color: "#94a3b8", fontWeight: 400 };
+    const level = getPressureLevel(value, target);
+    return { color: LEVEL_COLORS[level], fontWeight: level === "high" ? 700 : 400 };
+  };
+
+  // Value with two decimals; "—" for an eye that wasn't measured
+  const formatValue = (value: number | null) => (value === null ? "—" : value.toFixed(2));
+
   const thStyle = {
     padding: "12px 16px",
     textAlign: "left" as const,
@@ -49,92 +118,267 @@ export default function DataTable({ records, type }: DataTableProps) {
     backgroundColor: "#f8fafc",
   };
 
+  const actionButtonStyle = (color: string, disabled: boolean) => ({
+    marginLeft: "8px",
+    padding: "2px 8px",
+    fontSize: "13px",
+    border: "none",
+    background: "transparent",
+    color: disabled ? "#cbd5e1" : color,
+    cursor: disabled ? "default" : "pointer",
+  });
+
   const tdStyle = {
     padding: "12px 16px",
     fontSize: "14px",
     whiteSpace: "nowrap" as const,
   };
 
+  const selectStyle = {
+    padding: "4px 8px",
+    fontSize: "13px",
+    border: "1px solid #cbd5e1",
+    borderRadius: "6px",
+    backgroundColor: "white",
+    color: "#334155",
+  };
+
+  // Corneal thickness and corrected pressure under an eye's value
+  const renderCct = (record: EyePressureRecord, eye: "left" | "right") => {
+    const cct = eye === "left" ? record.cctLeft : record.cctRight;
+    if (cct === undefined) return null;
+    const corrected = correctedValue(record, eye);
+    return (
+      <div style={{ fontSize: "12px", fontWeight: 400, color: "#94a3b8" }} title="CCT 校正后眼压">
+        CCT {cct}
+        {corrected !== undefined && ` → ${corrected.toFixed(1)}`}
+      </div>
+    );
+  };
+
+  // Readings an eye's value was reduced from, outliers struck through in red
+  const renderReadings = (record: EyePressureRecord, eye: "left" | "right") => {
+    const readings = recordReadings(record, eye);
+    if (!readings) return null;
+    const { outliers } = summarizeReadings(readings, readingOptions);
+    return (
+      <div
+        style={{ fontSize: "12px", fontWeight: 400, color: "#94a3b8" }}
+        title={`${readings.length} 次测量的${AGGREGATION_LABELS[readingOptions.aggregation]}`}
+      >
+        {readings.map((value, i) => (
+          <Fragment key={i}>
+            {i > 0 && " "}
+            <span style={outliers[i] ? { color: "#dc2626", textDecoration: "line-through" } : undefined}>
+              {value}
+            </span>
+          </Fragment>
+        ))}
+      </div>
+    );
+  };
+
   return (
-    <div
-      style={{
-        overflowX: "auto",
-        borderRadius: "8px",
-        border: "1px solid #e2e8f0",
-        backgroundColor: "white",
-        boxShadow: "0 1px 3px rgba(0,0,0,0.1)",
-      }}
-    >
-      <table
+    <div style={{ display: "flex", flexDirection: "column", gap: "8px" }}>
+      {hasMeasurement && (
+        <div
+          style={{
+            display: "flex",
+            flexWrap: "wrap",
+            alignItems: "center",
+            gap: "8px",
+            fontSize: "13px",
+            color: "#64748b",
+          }}
+        >
+          <span>测量条件</span>
+          <select
+            value={tonometer}
+            onChange={(e) => setTonometer(e.target.value as Tonometer | "")}
+            style={selectStyle}
+          >
+            <option value="">全部眼压计</option>
+            {TONOMETERS.map((t) => (
+              <option key={t} value={t}>
+                {TONOMETER_LABELS[t]}
+              </option>
+            ))}
+          </select>
+          <select
+            value={position}
+            onChange={(e) => setPosition(e.target.value as BodyPosition | "")}
+            style={selectStyle}
+          >
+            <option value="">全部体位</option>
+            {BODY_POSITIONS.map((p) => (
+              <option key={p} value={p}>
+                {POSITION_LABELS[p]}
+              </option>
+            ))}
+          </select>
+          <select
+            value={measuredBy}
+            onChange={(e) => setMeasuredBy(e.target.value as Measurer | "")}
+            style={selectStyle}
+          >
+            <option value="">全部测量者</option>
+            {MEASURERS.map((m) => (
+              <option key={m} value={m}>
+                {MEASURER_LABELS[m]}
+              </option>
+            ))}
+          </select>
+          {visibleRecords.length < records.length && (
+            <span>
+              显示 {visibleRecords.length} / {records.length} 条
+            </span>
+          )}
+        </div>
+      )}
+      <div
         style={{
-          minWidth: "100%",
-          borderCollapse: "collapse",
+          overflowX: "auto",
+          borderRadius: "8px",
+          border: "1px solid #e2e8f0",
+          backgroundColor: "white",
+          boxShadow: "0 1px 3px rgba(0,0,0,0.1)",
         }}
       >
-        <thead>
-          <tr style={{ borderBottom: "1px solid #e2e8f0" }}>
-            <th style={thStyle}>{type === "24h" ? "时间" : "日期"}</th>
-            <th style={{ ...thStyle, textAlign: "center" }}>左眼</th>
-            <th style={{ ...thStyle, textAlign: "center" }}>右眼</th>
-            <th style={{ ...thStyle, textAlign: "center" }}>均值</th>
-            {type === "regular" && <th style={thStyle}>备注</th>}
-          </tr>
-        </thead>
-        <tbody>
-          {records.map((record, index) => {
-            const avg = (record.left + record.right) / 2;
-            return (
-              <tr
-                key={record.id}
-                style={{
-                  borderBottom:
-                    index < records.length - 1 ? "1px solid #f1f5f9" : "none",
-                  backgroundColor: index % 2 === 0 ? "white" : "#fafafa",
-                }}
-              >
-                <td style={{ ...tdStyle, color: "#334155" }}>
-                  {formatDateTime(record.date)}
-                </td>
-                <td
-                  style={{
-                    ...tdStyle,
-                    textAlign: "center",
-                    color: getValueColor(record.left),
-                    fontWeight: record.left > 21 ? 700 : 400,
-                  }}
-                >
-                  {record.left.toFixed(2)}
-                </td>
-                <td
-                  style={{
-                    ...tdStyle,
-                    textAlign: "center",
-                    color: getValueColor(record.right),
-                    fontWeight: record.right > 21 ? 700 : 400,
-                  }}
-                >
-                  {record.right.toFixed(2)}
-                </td>
-                <td
-                  style={{
-                    ...tdStyle,
-                    textAlign: "center",
-                    color: getValueColor(avg),
-                    fontWeight: avg > 21 ? 700 : 400,
-                  }}
-                >
-                  {avg.toFixed(2)}
-                </td>
-                {type === "regular" && (
-                  <td style={{ ...tdStyle, color: "#64748b" }}>
-                    {record.note || "-"}
-                  </td>
-                )}
-              </tr>
-            );
-          })}
-        </tbody>
-      </table>
+        <table
+          style={{
+            minWidth: "100%",
+            borderCollapse: "collapse",
+          }}
+        >
+          <thead>
+            <tr style={{ borderBottom: "1px solid #e2e8f0" }}>
+              <th style={thStyle}>{type === "24h" ? "时间" : "日期"}</th>
+              <th style={{ ...thStyle, textAlign: "center" }}>左眼</th>
+              <th style={{ ...thStyle, textAlign: "center" }}>右眼</th>
+              <th style={{ ...thStyle, textAlign: "center" }}>均值</th>
+              {hasMeasurement && <th style={thStyle}>测量条件</th>}
+              {type === "regular" && <th style={thStyle}>备注</th>}
+              {editable && <th style={{ ...thStyle, textAlign: "right" }}>操作</th>}
+            </tr>
+          </thead>
+          <tbody>
+            {visibleRecords.map((record, index) => {
+                // Records awaiting server confirmation can't be edited yet
+              const isPending = record.id.startsWith("pending-");
+              return (
+                <Fragment key={record.id}>
+                  <tr
+                    style={{
+                      borderBottom:
+                        index < visibleRecords.length - 1 ? "1px solid #f1f5f9" : "none",
+                      backgroundColor: index % 2 === 0 ? "white" : "#fafafa",
+                    }}
+                  >
+                    <td style={{ ...tdStyle, color: "#334155" }}>
+                      {formatDateTime(record.date)}
+                      {formatOriginalTime(record) && (
+                        <div style={{ fontSize: "12px", color: "#94a3b8" }} title={record.timeZone}>
+                          {formatOriginalTime(record)}
+                        </div>
+                      )}
+                    </td>
+                    <td
+                      style={{
+                        ...tdStyle,
+                        textAlign: "center",
+                        ...valueStyle(record, "left"),
+                      }}
+                    >
+                      {formatValue(record.left)}
+                      {renderReadings(record, "left")}
+                      {renderCct(record, "left")}
+                    </td>
+                    <td
+                      style={{
+                        ...tdStyle,
+                        textAlign: "center",
+                        ...valueStyle(record, "right"),
+                      }}
+                    >
+                      {formatValue(record.right)}
+                      {renderReadings(record, "right")}
+                      {renderCct(record, "right")}
+                    </td>
+                    <td
+                      style={{
+                        ...tdStyle,
+                        textAlign: "center",
+                        ...valueStyle(record, "average"),
+                      }}
+                    >
+                      {formatValue(recordAverage(record))}
+                    </td>
+                    {hasMeasurement && (
+                      <td style={{ ...tdStyle, color: "#64748b" }}>
+                        {describeMeasurement(record) || "-"}
+                      </td>
+                    )}
+                    {type === "regular" && (
+                      <td style={{ ...tdStyle, color: "#64748b" }}>
+                        {record.note || "-"}
+                      </td>
+                    )}
+                    {editable && (
+                      <td style={{ ...tdStyle, textAlign: "right" }}>
+                        {onUpdate && (
+                          <button
+                            onClick={() => setEditingId(editingId === record.id ? null : record.id)}
+                            disabled={isPending}
+                            style={actionButtonStyle("#3b82f6", isPending)}
+                          >
+                            编辑
+                          </button>
+                        )}
+                        {onDelete && (
+                          <button
+                            onClick={() => {
+                              if (window.confirm("确定删除这条记录？")) onDelete(record.id);
+                            }}
+                            disabled={isPending}
+                            style={actionButtonStyle("#dc2626", isPending)}
+                          >
+                            删除
+                          </button>
+                        )}
+                        {onSplit && record.id !== records[0].id && (
+                          <button
+                            onClick={() => onSplit(record.id)}
+                            disabled={isPending}
+                            title="从这次测量开始拆分为新的一组"
+                            style={actionButtonStyle("#64748b", isPending)}
+                          >
+                            拆分
+                          </button>
+                        )}
+                      </td>
+                    )}
+                  </tr>
+                  {editingId === record.id && onUpdate && (
+                    <tr style={{ backgroundColor: "#f8fafc" }}>
+                      <td colSpan={columnCount} style={{ padding: "12px 16px" }}>
+                        <RecordForm
+                          initial={record}
+                          readingOptions={readingOptions}
+                          onSubmit={(input) => {
+                            onUpdate(record.id, input);
+                            setEditingId(null);
+                          }}
+                          onCancel={() => setEditingId(null)}
+                        />
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
     </div>
   );
 }
@@ -0,0 +1,121 @@
+/**
+ * Before/after comparison card for treatment events
+ * Shows mean pressure per eye in a window before and after each event
+ */
+
+"use client";
+
+import { EventComparison as EventComparisonType, EVENT_EYE_LABELS, EVENT_TYPE_LABELS } from "@/lib/events";
+import { formatZoned } from "@/lib/time";
+
+interface EventComparisonProps {
+  comparisons: EventComparisonType[];
+  windowDays: number;
+  onWindowDaysChange: (days: number) => void;
+  timeZone: string;
+}
+
+const WINDOW_DAY_OPTIONS = [14, 30, 60, 90];
+
+const formatValue = (value: number | null) => (value === null ? "-" : value.toFixed(1));
+
+// Signed after-minus-before difference
+const formatChange = (before: number | null, after: number | null) => {
+  if (before === null || after === null) return "-";
+  const diff = after - before;
+  return `${diff >= 0 ? "+" : ""}${diff.toFixed(1)}`;
+};
+
+export default function EventComparison({
+  comparisons,
+  windowDays,
+  onWindowDaysChange,
+  timeZone,
+}: EventComparisonProps) {
+  const thStyle = {
+    padding: "6px 10px",
+    fontSize: "12px",
+    fontWeight: 600,
+    color: "#475569",
+    textAlign: "center" as const,
+  };
+
+  const tdStyle = {
+    padding: "6px 10px",
+    fontSize: "14px",
+    color: "#334155",
+    textAlign: "center" as const,
+    whiteSpace: "nowrap" as const,
+  };
+
+  return (
+    <div
+      style={{
+        backgroundColor: "white",
+        borderRadius: "8px",
+        border: "1px solid #e2e8f0",
+        boxShadow: "0 1px 3px rgba(0,0,0,0.1)",
+        padding: "12px 16px",
+        display: "flex",
+        flexDirection: "column",
+        gap: "8px",
+      }}
+    >
+      <div style={{ overflowX: "auto" }}>
+        <table style={{ minWidth: "100%", borderCollapse: "collapse" }}>
+          <thead>
+            <tr>
+              <th style={{ ...thStyle, textAlign: "left" }}>日期</th>
+              <th style={{ ...thStyle, textAlign: "left" }}>事件</th>
+              <th style={thStyle}>眼别</th>
+              <th style={thStyle}>前 {windowDays} 天 左/右</th>
+              <th style={thStyle}>后 {windowDays} 天 左/右</th>
+              <th style={thStyle}>变化 左/右</th>
+            </tr>
+          </thead>
+          <tbody>
+            {comparisons.map(({ event, before, after }) => (
+              <tr key={event.id} style={{ borderTop: "1px solid #f1f5f9" }}>
+                <td style={{ ...tdStyle, textAlign: "left" }}>{formatZoned(event.start, timeZone, "date")}</td>
+                <td style={{ ...tdStyle, textAlign: "left" }}>
+                  <span style={{ fontSize: "12px", color: "#64748b" }}>
+                    {EVENT_TYPE_LABELS[event.type]}
+                  </span>{" "}
+                  <span style={{ fontWeight: 600 }}>{event.title}</span>
+                  {event.dose && <span style={{ color: "#64748b" }}> {event.dose}</span>}
+                </td>
+                <td style={tdStyle}>{EVENT_EYE_LABELS[event.eye]}</td>
+                <td style={tdStyle}>
+                  {formatValue(before.left)} / {formatValue(before.right)}
+                  <span style={{ fontSize: "12px", color: "#94a3b8" }}>（{before.count}）</span>
+                </td>
+                <td style={tdStyle}>
+                  {formatValue(after.left)} / {formatValue(after.right)}
+                  <span style={{ fontSize: "12px", color: "#94a3b8" }}>（{after.count}）</span>
+                </td>
+                <td style={{ ...tdStyle, fontWeight: 600 }}>
+                  {formatChange(before.left, after.left)} / {formatChange(before.right, after.right)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div style={{ display: "flex", flexWrap: "wrap", alignItems: "center", gap: "8px", fontSize: "13px", color: "#64748b" }}>
+        <span>事件前后对比窗口：</span>
+        <select
+          value={windowDays}
+          onChange={(e) => onWindowDaysChange(Number(e.target.value))}
+          style={{ padding: "2px 6px", fontSize: "13px", border: "1px solid #cbd5e1", borderRadius: "6px" }}
+        >
+          {WINDOW_DAY_OPTIONS.map((days) => (
+            <option key={days} value={days}>
+              {days} 天
+            </option>
+          ))}
+        </select>
+        <span>· 用药期间的对比窗口截至停药日 · 括号内为测量次数 · 单位 mmHg</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,318 @@
+/**
+ * Editor for the treatment timeline
+ * Adds medication courses, procedures and clinic visits; stops or deletes existing ones
+ */
+
+"use client";
+
+import { useState, useTransition } from "react";
+import { TreatmentEvent, TreatmentEventInput, TreatmentEventType } from "@/types";
+import { EVENT_EYE_LABELS, EVENT_TYPES, EVENT_TYPE_LABELS } from "@/lib/events";
+import { createEventAction, deleteEventAction, updateEventAction } from "@/app/actions";
+import { formatZoned, zonedWallTimeToUtc } from "@/lib/time";
+
+interface EventManagerProps {
+  // Profile the changes are written to
+  profileId: string;
+  events: TreatmentEvent[];
+  // Display zone; event dates are whole days in it
+  timeZone: string;
+}
+
+export default function EventManager({ profileId, events, timeZone }: EventManagerProps) {
+  // YYYY-MM-DD for today, and midnight of a date input value as ISO, in the display zone
+  const today = () => formatZoned(new Date(), timeZone, "isoDate");
+  const fromDateInput = (value: string) => zonedWallTimeToUtc(value, timeZone).toISOString();
+  const formatDate = (iso: string) => formatZoned(iso, timeZone, "date");
+
+  const [isPending, startTransition] = useTransition();
+  const [type, setType] = useState<TreatmentEventType>("medication");
+  const [title, setTitle] = useState("");
+  const [start, setStart] = useState(today);
+  const [end, setEnd] = useState("");
+  const [eye, setEye] = useState<TreatmentEvent["eye"]>("both");
+  const [dose, setDose] = useState("");
+  const [note, setNote] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  // Newest first
+  const sorted = [...events].reverse();
+
+  // Run an action and surface its error
+  const run = (action: () => Promise<{ ok: boolean; error?: string }>, onSuccess?: () => void) => {
+    setError(null);
+    startTransition(async () => {
+      const result = await action();
+      if (!result.ok) {
+        setError(result.error ?? "Unknown error");
+        return;
+      }
+      onSuccess?.();
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!title.trim()) {
+      setError("请填写事件名称");
+      return;
+    }
+    const input: TreatmentEventInput = {
+      type,
+      title,
+      start: fromDateInput(start),
+      end: end ? fromDateInput(end) : null,
+      eye,
+      dose,
+      note,
+    };
+    run(
+      () => createEventAction(profileId, input),
+      () => {
+        setTitle("");
+        setEnd("");
+        setDose("");
+        setNote("");
+      }
+    );
+  };
+
+  // Set today as the end of an ongoing medication course
+  const handleStop = (event: TreatmentEvent) => {
+    const { id, ...input } = event;
+    run(() => updateEventAction(profileId, id, { ...input, end: fromDateInput(today()) }));
+  };
+
+  const handleDelete = (id: string) => {
+    run(() => deleteEventAction(profileId, id));
+  };
+
+  const labelStyle = {
+    display: "flex",
+    flexDirection: "column" as const,
+    gap: "4px",
+    fontSize: "12px",
+    fontWeight: 600,
+    color: "#475569",
+  };
+
+  const inputStyle = {
+    padding: "6px 8px",
+    fontSize: "14px",
+    border: "1px solid #cbd5e1",
+    borderRadius: "6px",
+    color: "#0f172a",
+    backgroundColor: "white",
+  };
+
+  const thStyle = {
+    padding: "8px 12px",
+    textAlign: "left" as const,
+    fontSize: "12px",
+    fontWeight: 600,
+    color: "#475569",
+    backgroundColor: "#f8fafc",
+  };
+
+  const tdStyle = {
+    padding: "8px 12px",
+    fontSize: "14px",
+    color: "#334155",
+    borderTop: "1px solid #f1f5f9",
+  };
+
+  const linkButtonStyle = (color: string) => ({
+    padding: "4px 8px",
+    fontSize: "13px",
+    color,
+    backgroundColor: "transparent",
+    border: "none",
+    cursor: "pointer",
+  });
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: "16px" }}>
+      <div>
+        <h2 style={{ fontSize: "20px", fontWeight: 700, color: "#0f172a" }}>治疗事件</h2>
+        <p style={{ marginTop: "4px", fontSize: "13px", color: "#64748b" }}>
+          用药疗程在图表中显示为阴影区间（未停药则延续至最新记录），手术、激光和就诊显示为竖线。
+        </p>
+      </div>
+
+      <form
+        onSubmit={handleSubmit}
+        style={{
+          display: "flex",
+          flexWrap: "wrap",
+          alignItems: "flex-end",
+          gap: "12px",
+          padding: "16px",
+          backgroundColor: "white",
+          borderRadius: "8px",
+          border: "1px solid #e2e8f0",
+        }}
+      >
+        <label style={labelStyle}>
+          类型
+          <select
+            value={type}
+            onChange={(e) => setType(e.target.value as TreatmentEventType)}
+            style={inputStyle}
+          >
+            {EVENT_TYPES.map((value) => (
+              <option key={value} value={value}>
+                {EVENT_TYPE_LABELS[value]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label style={{ ...labelStyle, flex: "1 1 140px" }}>
+          名称
+          <input
+            type="text"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder="如：拉坦前列素、SLT"
+            style={inputStyle}
+            required
+          />
+        </label>
+        <label style={labelStyle}>
+          开始
+          <input
+            type="date"
+            value={start}
+            onChange={(e) => setStart(e.target.value)}
+            style={inputStyle}
+            required
+          />
+        </label>
+        <label style={labelStyle}>
+          结束（可选）
+          <input
+            type="date"
+            value={end}
+            min={start}
+            onChange={(e) => setEnd(e.target.value)}
+            style={inputStyle}
+          />
+        </label>
+        <label style={labelStyle}>
+          眼别
+          <select
+            value={eye}
+            onChange={(e) => setEye(e.target.value as TreatmentEvent["eye"])}
+            style={inputStyle}
+          >
+            {(["both", "left", "right"] as const).map((value) => (
+              <option key={value} value={value}>
+                {EVENT_EYE_LABELS[value]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label style={labelStyle}>
+          剂量
+          <input
+            type="text"
+            value={dose}
+            onChange={(e) => setDose(e.target.value)}
+            placeholder="如：每晚 1 滴"
+            style={{ ...inputStyle, width: "120px" }}
+          />
+        </label>
+        <label style={{ ...labelStyle, flex: "1 1 160px" }}>
+          备注
+          <input
+            type="text"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            style={inputStyle}
+          />
+        </label>
+        <button
+          type="submit"
+          disabled={isPending}
+          style={{
+            padding: "7px 16px",
+            backgroundColor: "#3b82f6",
+            color: "white",
+            borderRadius: "6px",
+            border: "none",
+            cursor: isPending ? "wait" : "pointer",
+            fontSize: "14px",
+          }}
+        >
+          添加
+        </button>
+        {error && (
+          <p style={{ width: "100%", fontSize: "13px", color: "#dc2626" }}>{error}</p>
+        )}
+      </form>
+
+      {sorted.length === 0 ? (
+        <p style={{ fontSize: "14px", color: "#64748b" }}>尚无治疗事件</p>
+      ) : (
+        <div
+          style={{
+            backgroundColor: "white",
+            borderRadius: "8px",
+            border: "1px solid #e2e8f0",
+            overflowX: "auto",
+          }}
+        >
+          <table style={{ minWidth: "100%", borderCollapse: "collapse" }}>
+            <thead>
+              <tr>
+                <th style={thStyle}>日期</th>
+                <th style={thStyle}>类型</th>
+                <th style={thStyle}>名称</th>
+                <th style={thStyle}>眼别</th>
+                <th style={thStyle}>剂量</th>
+                <th style={thStyle}>备注</th>
+                <th style={thStyle}></th>
+              </tr>
+            </thead>
+            <tbody>
+              {sorted.map((event) => (
+                <tr key={event.id}>
+                  <td style={{ ...tdStyle, whiteSpace: "nowrap" }}>
+                    {formatDate(event.start)}
+                    {event.end
+                      ? ` – ${formatDate(event.end)}`
+                      : event.type === "medication"
+                        ? " – 至今"
+                        : ""}
+                  </td>
+                  <td style={tdStyle}>{EVENT_TYPE_LABELS[event.type]}</td>
+                  <td style={{ ...tdStyle, fontWeight: 600 }}>{event.title}</td>
+                  <td style={tdStyle}>{EVENT_EYE_LABELS[event.eye]}</td>
+                  <td style={tdStyle}>{event.dose || "-"}</td>
+                  <td style={{ ...tdStyle, color: "#64748b" }}>{event.note || "-"}</td>
+                  <td style={{ ...tdStyle, textAlign: "right", whiteSpace: "nowrap" }}>
+                    {event.type === "medication" && !event.end && (
+                      <button
+                        onClick={() => handleStop(event)}
+                        disabled={isPending}
+                        style={linkButtonStyle("#3b82f6")}
+                      >
+                        停药
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleDelete(event.id)}
+                      disabled={isPending}
+                      style={linkButtonStyle("#dc2626")}
+                    >
+                      删除
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
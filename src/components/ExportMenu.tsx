@@ -0,0 +1,67 @@
+/**
+ * Export buttons for a set of records
+ * Downloads CSV, JSON or FHIR Bundle files generated in the browser
+ */
+
+"use client";
+
+import { EyePressureRecord } from "@/types";
+import { EXPORT_FILE_TYPES, ExportFormat, exportRecords } from "@/lib/export";
+import { SessionMetrics } from "@/lib/analytics";
+
+interface ExportMenuProps {
+  records: EyePressureRecord[];
+  // 24h session metrics included in JSON exports
+  metrics?: SessionMetrics | null;
+  // File name without extension
+  fileName: string;
+}
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: "CSV",
+  json: "JSON",
+  fhir: "FHIR",
+};
+
+// Trigger a browser download for generated content
+function downloadFile(name: string, content: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = name;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export default function ExportMenu({ records, metrics, fileName }: ExportMenuProps) {
+  const handleExport = (format: ExportFormat) => {
+    const { extension, mimeType } = EXPORT_FILE_TYPES[format];
+    downloadFile(`${fileName}.${extension}`, exportRecords(records, format, { metrics }), mimeType);
+  };
+
+  return (
+    <div style={{ display: "flex", alignItems: "center", gap: "4px" }}>
+      <span style={{ fontSize: "13px", color: "#64748b", marginRight: "4px" }}>导出</span>
+      {(Object.keys(FORMAT_LABELS) as ExportFormat[]).map((format) => (
+        <button
+          key={format}
+          onClick={() => handleExport(format)}
+          disabled={records.length === 0}
+          title={format === "fhir" ? "HL7 FHIR R4 Observation Bundle" : undefined}
+          style={{
+            padding: "4px 8px",
+            fontSize: "12px",
+            fontWeight: 500,
+            borderRadius: "6px",
+            border: "1px solid #cbd5e1",
+            backgroundColor: "white",
+            color: "#475569",
+            cursor: records.length === 0 ? "default" : "pointer",
+          }}
+        >
+          {FORMAT_LABELS[format]}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+/**
+ * Dashboard filter bar
+ * Date range presets and pickers, note search and value filters shared by all groups
+ */
+
+"use client";
+
+import { ReportRange } from "@/lib/report";
+import {
+  DashboardFilters,
+  EMPTY_FILTERS,
+  RANGE_PRESET_LABELS,
+  RangePreset,
+  hasActiveFilters,
+} from "@/lib/filters";
+
+interface FilterBarProps {
+  filters: DashboardFilters;
+  // Range the filters resolve to (presets applied)
+  range: ReportRange;
+  shownCount: number;
+  totalCount: number;
+  onChange: (filters: DashboardFilters) => void;
+}
+
+export default function FilterBar({
+  filters,
+  range,
+  shownCount,
+  totalCount,
+  onChange,
+}: FilterBarProps) {
+  const update = (changes: Partial<DashboardFilters>) => onChange({ ...filters, ...changes });
+
+  const presetStyle = (isActive: boolean) => ({
+    padding: "4px 10px",
+    fontSize: "13px",
+    borderRadius: "9999px",
+    border: "1px solid #cbd5e1",
+    cursor: "pointer",
+    backgroundColor: isActive ? "#dbeafe" : "white",
+    color: isActive ? "#1d4ed8" : "#475569",
+  });
+
+  const inputStyle = {
+    padding: "4px 8px",
+    fontSize: "13px",
+    border: "1px solid #cbd5e1",
+    borderRadius: "6px",
+    color: "#0f172a",
+    backgroundColor: "white",
+  };
+
+  const labelStyle = {
+    display: "flex",
+    alignItems: "center",
+    gap: "6px",
+    fontSize: "13px",
+    color: "#475569",
+    cursor: "pointer",
+  };
+
+  const noRange = !filters.preset && !filters.from && !filters.to;
+
+  return (
+    <div
+      style={{
+        display: "flex",
+        flexWrap: "wrap",
+        alignItems: "center",
+        gap: "12px",
+        padding: "12px 16px",
+        backgroundColor: "white",
+        borderRadius: "8px",
+        border: "1px solid #e2e8f0",
+      }}
+    >
+      {/* Range presets; picking one replaces explicit dates */}
+      <div style={{ display: "flex", flexWrap: "wrap", gap: "6px" }}>
+        <button onClick={() => update({ preset: null, from: null, to: null })} style={presetStyle(noRange)}>
+          全部
+        </button>
+        {(Object.keys(RANGE_PRESET_LABELS) as RangePreset[]).map((preset) => (
+          <button
+            key={preset}
+            onClick={() => update({ preset, from: null, to: null })}
+            style={presetStyle(filters.preset === preset)}
+          >
+            {RANGE_PRESET_LABELS[preset]}
+          </button>
+        ))}
+      </div>
+
+      {/* Explicit dates; preset ranges are shown as their resolved dates */}
+      <div style={{ display: "flex", alignItems: "center", gap: "6px", fontSize: "13px", color: "#64748b" }}>
+        <input
+          type="date"
+          value={range.from ?? ""}
+          onChange={(e) => update({ preset: null, from: e.target.value || null, to: range.to })}
+          style={inputStyle}
+        />
+        至
+        <input
+          type="date"
+          value={range.to ?? ""}
+          onChange={(e) => update({ preset: null, from: range.from, to: e.target.value || null })}
+          style={inputStyle}
+        />
+      </div>
+
+      <input
+        type="search"
+        value={filters.query}
+        onChange={(e) => update({ query: e.target.value })}
+        placeholder="搜索备注"
+        style={{ ...inputStyle, width: "160px" }}
+      />
+
+      <label style={labelStyle}>
+        <input
+          type="checkbox"
+          checked={filters.aboveTarget}
+          onChange={(e) => update({ aboveTarget: e.target.checked })}
+        />
+        高于目标
+      </label>
+      <label style={labelStyle}>
+        <input
+          type="checkbox"
+          checked={filters.only24h}
+          onChange={(e) => update({ only24h: e.target.checked })}
+        />
+        仅 24 小时
+      </label>
+
+      {hasActiveFilters(filters) && (
+        <>
+          <span style={{ fontSize: "13px", color: "#64748b" }}>
+            显示 {shownCount} / {totalCount} 条
+          </span>
+          <button
+            onClick={() => onChange(EMPTY_FILTERS)}
+            style={{
+              padding: "4px 10px",
+              fontSize: "13px",
+              color: "#475569",
+              backgroundColor: "#f1f5f9",
+              border: "none",
+              borderRadius: "6px",
+              cursor: "pointer",
+            }}
+          >
+            清除筛选
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+/**
+ * 24h session chart folded onto a single 0-24h clock axis
+ * Each calendar day of a multi-day session is drawn as its own left/right series for overlay
+ */
+
+"use client";
+
+import { useMemo } from "react";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceLine,
+  ReferenceArea,
+} from "recharts";
+import { ChartDataPoint } from "@/types";
+import { foldByDay } from "@/lib/grouping";
+import { NORMAL_MIN } from "@/lib/targets";
+
+interface FoldedDayChartProps {
+  data: ChartDataPoint[];
+  width: number;
+  height: number;
+  yAxisDomain: number[];
+  yAxisTicks: number[];
+  showLeft: boolean;
+  showRight: boolean;
+  safeZoneMax: number;
+  uniformTarget: number | null;
+  timeZone: string;
+}
+
+// Shades per day (day 0 darkest), dashes distinguish days when colors are close
+const DAY_COLORS = {
+  left: ["#1d4ed8", "#3b82f6", "#60a5fa", "#93c5fd"],
+  right: ["#b91c1c", "#ef4444", "#f87171", "#fca5a5"],
+};
+const DAY_DASHES = ["", "6 3", "2 2", "8 3 2 3"];
+
+const CLOCK_TICKS = Array.from({ length: 13 }, (_, i) => i * 120);
+
+// "HH:mm" for minutes since midnight
+const formatClock = (minutes: number) =>
+  `${Math.floor(minutes / 60).toString().padStart(2, "0")}:${(minutes % 60).toString().padStart(2, "0")}`;
+
+// Label for a day offset, e.g. "第1天"
+const dayLabel = (day: number) => `第${day + 1}天`;
+
+export default function FoldedDayChart({
+  data,
+  width,
+  height,
+  yAxisDomain,
+  yAxisTicks,
+  showLeft,
+  showRight,
+  safeZoneMax,
+  uniformTarget,
+  timeZone,
+}: FoldedDayChartProps) {
+  const folded = useMemo(() => foldByDay(data, timeZone), [data, timeZone]);
+
+  const series = folded.days.flatMap((day, i) => [
+    ...(showLeft
+      ? [{ key: `left_${day}`, name: `左眼 ${dayLabel(day)}`, color: DAY_COLORS.left[i % 4], dash: DAY_DASHES[i % 4] }]
+      : []),
+    ...(showRight
+      ? [{ key: `right_${day}`, name: `右眼 ${dayLabel(day)}`, color: DAY_COLORS.right[i % 4], dash: DAY_DASHES[i % 4] }]
+      : []),
+  ]);
+
+  return (
+    <LineChart
+      width={width}
+      height={height}
+      data={folded.points}
+      margin={{ top: 10, right: 30, left: 0, bottom: 10 }}
+    >
+      <ReferenceArea y1={NORMAL_MIN} y2={safeZoneMax} fill="#22c55e" fillOpacity={0.08} />
+      <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+      {uniformTarget !== null && (
+        <ReferenceLine
+          y={uniformTarget}
+          stroke="#f59e0b"
+          strokeDasharray="5 5"
+          strokeWidth={2}
+          label={{ value: "目标眼压", position: "right", fill: "#f59e0b", fontSize: 11 }}
+        />
+      )}
+      <XAxis
+        dataKey="minutesOfDay"
+        type="number"
+        domain={[0, 1440]}
+        ticks={CLOCK_TICKS}
+        tickFormatter={formatClock}
+        tick={{ fontSize: 11, fill: "#64748b" }}
+        tickLine={{ stroke: "#cbd5e1" }}
+        axisLine={{ stroke: "#cbd5e1" }}
+      />
+      <YAxis
+        domain={yAxisDomain}
+        tick={{ fontSize: 12, fill: "#64748b" }}
+        tickLine={{ stroke: "#cbd5e1" }}
+        axisLine={{ stroke: "#cbd5e1" }}
+        ticks={yAxisTicks}
+      />
+      <Tooltip
+        contentStyle={{
+          backgroundColor: "white",
+          border: "1px solid #e2e8f0",
+          borderRadius: "8px",
+          boxShadow: "0 4px 6px -1px rgb(0 0 0 / 0.1)",
+        }}
+        labelFormatter={(value) => (typeof value === "number" ? formatClock(value) : value)}
+        formatter={(value: number, name: string) => [value.toFixed(2), name]}
+      />
+      <Legend wrapperStyle={{ fontSize: 12 }} />
+      {series.map(({ key, name, color, dash }) => (
+        <Line
+          key={key}
+          type="monotone"
+          dataKey={key}
+          name={name}
+          stroke={color}
+          strokeWidth={2}
+          strokeDasharray={dash}
+          dot={{ fill: color, strokeWidth: 1, r: 3 }}
+          activeDot={{ r: 5, fill: color }}
+          connectNulls
+        />
+      ))}
+    </LineChart>
+  );
+}
@@ -0,0 +1,407 @@
+/**
+ * Import wizard for CSV/XLSX measurements
+ * Parses the file, maps columns, previews grouping and duplicates, then writes to the source
+ */
+
+"use client";
+
+import { useMemo, useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { readSheet } from "read-excel-file/browser";
+import { EyePressureRecord } from "@/types";
+import { parseCsv } from "@/lib/csv";
+import { SessionOptions, groupRecords } from "@/lib/grouping";
+import { formatZoned } from "@/lib/time";
+import {
+  ColumnMapping,
+  DateOrder,
+  IMPORT_FIELD_LABELS,
+  IMPORT_FIELDS,
+  ImportCell,
+  ImportField,
+  ImportTable,
+  buildImportRecords,
+  findDuplicates,
+  guessColumnMapping,
+  toImportTable,
+} from "@/lib/importer";
+import { importRecordsAction } from "@/app/actions";
+
+interface ImportWizardProps {
+  // Profile the changes are written to
+  profileId: string;
+  existing: EyePressureRecord[];
+  // Session detection and display zone used for the grouping preview
+  sessionOptions: SessionOptions;
+}
+
+// Rows shown in the preview table
+const PREVIEW_LIMIT = 50;
+
+// Read a CSV or XLSX file into raw rows
+async function readFileRows(file: File): Promise<ImportCell[][]> {
+  if (/\.xlsx$/i.test(file.name)) {
+    return (await readSheet(file)) as ImportCell[][];
+  }
+  return parseCsv(await file.text());
+}
+
+export default function ImportWizard({
+  profileId,
+  existing,
+  sessionOptions,
+}: ImportWizardProps) {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [table, setTable] = useState<ImportTable | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [dateOrder, setDateOrder] = useState<DateOrder>("ymd");
+  const [timeZone, setTimeZone] = useState(
+    () => Intl.DateTimeFormat().resolvedOptions().timeZone
+  );
+  const [defaultIs24h, setDefaultIs24h] = useState(false);
+  const [mergeWindowMinutes, setMergeWindowMinutes] = useState(10);
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [readError, setReadError] = useState<string | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+  const router = useRouter();
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setReadError(null);
+    setStatus(null);
+    try {
+      const parsed = toImportTable(await readFileRows(file));
+      setFileName(file.name);
+      setTable(parsed);
+      setMapping(guessColumnMapping(parsed.headers));
+    } catch (err) {
+      setTable(null);
+      setReadError(err instanceof Error ? err.message : "无法读取文件");
+    }
+  };
+
+  // Parsed records, recomputed whenever the mapping or options change
+  const result = useMemo(
+    () =>
+      table
+        ? buildImportRecords(table, mapping, {
+            dateOrder,
+            timeZone,
+            is24h: defaultIs24h,
+            mergeWindowMinutes,
+          })
+        : null,
+    [table, mapping, dateOrder, timeZone, defaultIs24h, mergeWindowMinutes]
+  );
+
+  const duplicates = useMemo(
+    () => (result ? findDuplicates(result.rows, existing) : new Set<number>()),
+    [result, existing]
+  );
+
+  const toImport = useMemo(
+    () => (result ? result.rows.filter((_, i) => !(skipDuplicates && duplicates.has(i))) : []),
+    [result, duplicates, skipDuplicates]
+  );
+
+  // Preview of how the imported rows will be grouped
+  const previewGroups = useMemo(
+    () =>
+      groupRecords(
+        toImport.map((row, i) => ({ ...row.record, id: `import-${i}` })),
+        sessionOptions
+      ).map((group) => ({
+        group,
+        rowNumbers: group.records.flatMap(
+          (r) => toImport[Number(r.id.replace("import-", ""))].rowNumbers
+        ),
+      })),
+    [toImport, sessionOptions]
+  );
+
+  const handleImport = () => {
+    setStatus(null);
+    startTransition(async () => {
+      const response = await importRecordsAction(
+        profileId,
+        toImport.map((row) => row.record)
+      );
+      if (!response.ok) {
+        setStatus(`导入失败：${response.error}`);
+        return;
+      }
+      const { created, failed } = response.data;
+      // Reload existing records so duplicate detection includes this import
+      router.refresh();
+      setStatus(
+        failed.length === 0
+          ? `已导入 ${created} 条记录`
+          : `已导入 ${created} 条，${failed.length} 条失败：${failed
+              .map((f) => `第 ${toImport[f.index].rowNumbers.join("/")} 行 ${f.error}`)
+              .join("；")}`
+      );
+    });
+  };
+
+  const sectionStyle = {
+    padding: "16px",
+    backgroundColor: "white",
+    borderRadius: "8px",
+    border: "1px solid #e2e8f0",
+    boxShadow: "0 1px 3px rgba(0,0,0,0.1)",
+    display: "flex",
+    flexDirection: "column" as const,
+    gap: "12px",
+  };
+
+  const headingStyle = { fontSize: "16px", fontWeight: 600, color: "#0f172a" };
+
+  const labelStyle = {
+    display: "flex",
+    flexDirection: "column" as const,
+    gap: "4px",
+    fontSize: "12px",
+    fontWeight: 600,
+    color: "#475569",
+  };
+
+  const inputStyle = {
+    padding: "6px 8px",
+    fontSize: "14px",
+    border: "1px solid #cbd5e1",
+    borderRadius: "6px",
+    color: "#0f172a",
+    backgroundColor: "white",
+  };
+
+  const cellStyle = {
+    padding: "6px 10px",
+    fontSize: "13px",
+    borderBottom: "1px solid #f1f5f9",
+    whiteSpace: "nowrap" as const,
+    textAlign: "left" as const,
+  };
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: "24px" }}>
+      <h2 style={{ fontSize: "20px", fontWeight: 700, color: "#0f172a" }}>导入历史数据</h2>
+
+      {/* Step 1: file */}
+      <section style={sectionStyle}>
+        <h3 style={headingStyle}>1. 选择文件（CSV / XLSX）</h3>
+        <input
+          type="file"
+          accept=".csv,.txt,.xlsx,text/csv"
+          onChange={(e) => handleFile(e.target.files?.[0])}
+        />
+        {fileName && table && (
+          <p style={{ fontSize: "14px", color: "#64748b" }}>
+            {fileName}：{table.rows.length} 行，{table.headers.length} 列
+          </p>
+        )}
+        {readError && <p style={{ fontSize: "14px", color: "#dc2626" }}>{readError}</p>}
+      </section>
+
+      {table && result && (
+        <>
+          {/* Step 2: column mapping */}
+          <section style={sectionStyle}>
+            <h3 style={headingStyle}>2. 对应列</h3>
+            <p style={{ fontSize: "13px", color: "#64748b" }}>
+              每行一个时间点时选择左眼/右眼列；每行一只眼（如 iCare HOME 导出）时选择眼别和眼压值列。
+            </p>
+            <div style={{ display: "flex", flexWrap: "wrap", gap: "12px" }}>
+              {IMPORT_FIELDS.map((field: ImportField) => (
+                <label key={field} style={labelStyle}>
+                  {IMPORT_FIELD_LABELS[field]}
+                  <select
+                    value={mapping[field] ?? ""}
+                    onChange={(e) =>
+                      setMapping({
+                        ...mapping,
+                        [field]: e.target.value === "" ? undefined : Number(e.target.value),
+                      })
+                    }
+                    style={inputStyle}
+                  >
+                    <option value="">—</option>
+                    {table.headers.map((header, i) => (
+                      <option key={i} value={i}>
+                        {header}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+            <div style={{ display: "flex", flexWrap: "wrap", gap: "12px", alignItems: "flex-end" }}>
+              <label style={labelStyle}>
+                日期格式
+                <select
+                  value={dateOrder}
+                  onChange={(e) => setDateOrder(e.target.value as DateOrder)}
+                  style={inputStyle}
+                >
+                  <option value="ymd">年-月-日</option>
+                  <option value="dmy">日/月/年</option>
+                  <option value="mdy">月/日/年</option>
+                </select>
+              </label>
+              <label style={labelStyle}>
+                时区
+                <input
+                  type="text"
+                  value={timeZone}
+                  onChange={(e) => setTimeZone(e.target.value)}
+                  style={inputStyle}
+                />
+              </label>
+              <label style={labelStyle}>
+                双眼合并窗口（分钟）
+                <input
+                  type="number"
+                  min="0"
+                  value={mergeWindowMinutes}
+                  onChange={(e) => setMergeWindowMinutes(Number(e.target.value) || 0)}
+                  style={{ ...inputStyle, width: "96px" }}
+                />
+              </label>
+              {mapping.is24h === undefined && (
+                <label style={{ ...labelStyle, flexDirection: "row", alignItems: "center", paddingBottom: "8px" }}>
+                  <input
+                    type="checkbox"
+                    checked={defaultIs24h}
+                    onChange={(e) => setDefaultIs24h(e.target.checked)}
+                  />
+                  全部标记为24小时测量
+                </label>
+              )}
+            </div>
+          </section>
+
+          {/* Step 3: preview */}
+          <section style={sectionStyle}>
+            <h3 style={headingStyle}>3. 预览</h3>
+            <p style={{ fontSize: "14px", color: "#334155" }}>
+              可导入 {result.rows.length} 条，重复 {duplicates.size} 条，错误 {result.errors.length} 行
+            </p>
+            {duplicates.size > 0 && (
+              <label style={{ ...labelStyle, flexDirection: "row", alignItems: "center" }}>
+                <input
+                  type="checkbox"
+                  checked={skipDuplicates}
+                  onChange={(e) => setSkipDuplicates(e.target.checked)}
+                />
+                跳过与已有记录时间相同的行
+              </label>
+            )}
+
+            {previewGroups.length > 0 && (
+              <div>
+                <h4 style={{ fontSize: "14px", fontWeight: 600, color: "#475569", marginBottom: "4px" }}>
+                  分组结果
+                </h4>
+                <ul style={{ paddingLeft: "20px", listStyle: "disc", fontSize: "14px", color: "#334155" }}>
+                  {previewGroups.map(({ group, rowNumbers }) => (
+                    <li key={group.id}>
+                      {group.title}：{group.records.length} 条（第 {summarizeRows(rowNumbers)} 行）
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {result.errors.length > 0 && (
+              <ul style={{ paddingLeft: "20px", listStyle: "disc", fontSize: "13px", color: "#b45309" }}>
+                {result.errors.slice(0, PREVIEW_LIMIT).map((error, i) => (
+                  <li key={i}>
+                    {error.row > 0 ? `第 ${error.row} 行：` : ""}
+                    {error.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {result.rows.length > 0 && (
+              <div style={{ overflowX: "auto" }}>
+                <table style={{ minWidth: "100%", borderCollapse: "collapse" }}>
+                  <thead>
+                    <tr>
+                      <th style={cellStyle}>行</th>
+                      <th style={cellStyle}>时间</th>
+                      <th style={cellStyle}>左眼</th>
+                      <th style={cellStyle}>右眼</th>
+                      <th style={cellStyle}>24h</th>
+                      <th style={cellStyle}>备注</th>
+                      <th style={cellStyle}></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.rows.slice(0, PREVIEW_LIMIT).map((row, i) => (
+                      <tr key={i} style={{ color: duplicates.has(i) ? "#94a3b8" : "#334155" }}>
+                        <td style={cellStyle}>{row.rowNumbers.join("/")}</td>
+                        <td style={cellStyle}>{formatZoned(row.record.date, sessionOptions.timeZone)}</td>
+                        <td style={cellStyle}>{row.record.left ?? "—"}</td>
+                        <td style={cellStyle}>{row.record.right ?? "—"}</td>
+                        <td style={cellStyle}>{row.record.is24h ? "是" : ""}</td>
+                        <td style={cellStyle}>{row.record.note}</td>
+                        <td style={cellStyle}>{duplicates.has(i) ? "重复" : ""}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {result.rows.length > PREVIEW_LIMIT && (
+                  <p style={{ fontSize: "13px", color: "#64748b", marginTop: "8px" }}>
+                    仅显示前 {PREVIEW_LIMIT} 条
+                  </p>
+                )}
+              </div>
+            )}
+          </section>
+
+          {/* Step 4: write */}
+          <section style={sectionStyle}>
+            <h3 style={headingStyle}>4. 导入</h3>
+            <div style={{ display: "flex", alignItems: "center", gap: "12px" }}>
+              <button
+                onClick={handleImport}
+                disabled={isPending || toImport.length === 0}
+                style={{
+                  padding: "8px 16px",
+                  backgroundColor: isPending || toImport.length === 0 ? "#94a3b8" : "#3b82f6",
+                  color: "white",
+                  borderRadius: "8px",
+                  border: "none",
+                  cursor: isPending || toImport.length === 0 ? "default" : "pointer",
+                  fontSize: "14px",
+                }}
+              >
+                {isPending ? "导入中…" : `导入 ${toImport.length} 条记录`}
+              </button>
+              {status && <span style={{ fontSize: "14px", color: "#334155" }}>{status}</span>}
+            </div>
+          </section>
+        </>
+      )}
+    </div>
+  );
+}
+
+// Compress row numbers into ranges, e.g. "1-4, 7"
+function summarizeRows(rowNumbers: number[]): string {
+  const sorted = [...rowNumbers].sort((a, b) => a - b);
+  const ranges: string[] = [];
+  let start = sorted[0];
+  let prev = sorted[0];
+  for (const n of [...sorted.slice(1), NaN]) {
+    if (n === prev + 1) {
+      prev = n;
+      continue;
+    }
+    ranges.push(start === prev ? `${start}` : `${start}-${prev}`);
+    start = n;
+    prev = n;
+  }
+  return ranges.join(", ");
+}
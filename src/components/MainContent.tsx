@@ -1,19 +1,354 @@
 /**
  * Main content component for displaying eye pressure data
- * Client component - handles interactive display of grouped records
+ * Client component - groups records, handles writes with optimistic updates and
+ * keeps records added or edited offline in a device queue until they sync;
+ * planned 24h sessions are shown with their reminders, and readings added while one runs join it
  */
 
 "use client";
 
-import { RecordGroup as RecordGroupType } from "@/types";
+import { useCallback, useEffect, useMemo, useOptimistic, useRef, useState, useTransition } from "react";
+import Link from "next/link";
+import {
+  AlertEntry,
+  EyePressureRecord,
+  EyePressureRecordInput,
+  QueuedRecordChange,
+  RecordIssue,
+  SessionOverride,
+  SessionPlan,
+  TargetPressure,
+  TreatmentEvent,
+} from "@/types";
+import { SessionOptions, groupSessions } from "@/lib/grouping";
+import { SleepWindow } from "@/lib/analytics";
+import { ReadingOptions } from "@/lib/readings";
+import { activePlan, planSlotsByGroup } from "@/lib/sessionPlans";
+import {
+  DashboardFilters,
+  filterGroups,
+  resolveFilterRange,
+  toFilterQuery,
+} from "@/lib/filters";
+import {
+  ActionResult,
+  createRecordAction,
+  deleteRecordAction,
+  saveSessionOverrideAction,
+  syncQueuedRecordAction,
+  updateRecordAction,
+} from "@/app/actions";
+import {
+  QUEUED_ID_PREFIX,
+  applyQueue,
+  deleteQueued,
+  isOffline,
+  listQueued,
+  saveQueued,
+} from "@/lib/offlineQueue";
 import RecordGroup from "./RecordGroup";
+import RecordForm from "./RecordForm";
+import RecordIssues from "./RecordIssues";
+import SessionAmbiguities from "./SessionAmbiguities";
+import SessionComparison from "./SessionComparison";
+import ExportMenu from "./ExportMenu";
+import FilterBar from "./FilterBar";
+import PendingQueue from "./PendingQueue";
+import AlertBanner from "./AlertBanner";
+import SessionPlanner from "./SessionPlanner";
 
 interface MainContentProps {
-  groups: RecordGroupType[];
+  // Profile the changes are written to
+  profileId: string;
+  // Route prefix of the profile's pages, e.g. "/p/mom"
+  basePath: string;
+  records: EyePressureRecord[];
+  issues: RecordIssue[];
+  sleepWindow: SleepWindow;
+  targets: TargetPressure[];
+  sessionOptions: SessionOptions;
+  // How multiple readings per eye are reduced to one value
+  readingOptions: ReadingOptions;
+  events: TreatmentEvent[];
+  // Unacknowledged alerts, newest first
+  alerts: AlertEntry[];
+  // Planned 24h sessions
+  plans: SessionPlan[];
+  // VAPID public key for push reminders; null when the server doesn't send them
+  pushPublicKey: string | null;
+  // Filters from the URL query on first load
+  filters: DashboardFilters;
   error: string | null;
 }
 
-export default function MainContent({ groups, error }: MainContentProps) {
+// Pending change applied locally until the server confirms it
+type OptimisticChange =
+  | { type: "create"; record: EyePressureRecord }
+  | { type: "update"; record: EyePressureRecord }
+  | { type: "delete"; id: string };
+
+// Newer override for a record replaces the older one
+function applyOverride(overrides: SessionOverride[], override: SessionOverride) {
+  return [...overrides.filter((o) => o.recordId !== override.recordId), override];
+}
+
+function applyChange(records: EyePressureRecord[], change: OptimisticChange) {
+  switch (change.type) {
+    case "create":
+      return [...records, change.record];
+    case "update":
+      return records.map((r) => (r.id === change.record.id ? change.record : r));
+    case "delete":
+      return records.filter((r) => r.id !== change.id);
+  }
+}
+
+export default function MainContent({
+  profileId,
+  basePath,
+  records,
+  issues,
+  sleepWindow,
+  targets,
+  sessionOptions,
+  readingOptions,
+  events,
+  alerts,
+  plans,
+  pushPublicKey,
+  filters: initialFilters,
+  error,
+}: MainContentProps) {
+  const { timeZone } = sessionOptions;
+  // Changes saved on this device while offline, shown until they reach the source
+  const [queue, setQueue] = useState<QueuedRecordChange[]>([]);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const syncingRef = useRef(false);
+  const queuedRecords = useMemo(() => applyQueue(records, queue), [records, queue]);
+  const [optimisticRecords, addOptimistic] = useOptimistic(queuedRecords, applyChange);
+  const [optimisticOverrides, addOptimisticOverride] = useOptimistic(
+    sessionOptions.overrides,
+    applyOverride
+  );
+  const [, startTransition] = useTransition();
+  const [showForm, setShowForm] = useState(false);
+  // Defaults of the add form (a running planned session's 24h flag and session ID)
+  const [formInitial, setFormInitial] = useState<EyePressureRecordInput | undefined>(undefined);
+  const [showPlanForm, setShowPlanForm] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [filters, setFilters] = useState(initialFilters);
+
+  // Re-group on every change so charts and tables update immediately
+  const { groups, ambiguities } = useMemo(
+    () => groupSessions(optimisticRecords, { ...sessionOptions, overrides: optimisticOverrides }),
+    [optimisticRecords, sessionOptions, optimisticOverrides]
+  );
+
+  // Filters apply to the grouped records so sessions keep their boundaries
+  const range = useMemo(
+    () => resolveFilterRange(filters, events, new Date(), timeZone),
+    [filters, events, timeZone]
+  );
+  const visibleGroups = useMemo(
+    () => filterGroups(groups, filters, range, targets, timeZone),
+    [groups, filters, range, targets, timeZone]
+  );
+  // Planned vs taken readings come from the unfiltered sessions
+  const planSlots = useMemo(() => planSlotsByGroup(plans, groups), [plans, groups]);
+
+  // Keep the filters in the URL so a filtered view can be shared; replacing the history
+  // entry updates the address without reloading the page
+  const handleFiltersChange = (next: DashboardFilters) => {
+    setFilters(next);
+    window.history.replaceState(null, "", `${window.location.pathname}${toFilterQuery(next)}`);
+  };
+
+  // 24h sessions selected for overlay comparison, in chronological order
+  // (IDs no longer present after regrouping or filtered out are dropped)
+  const compareGroups = visibleGroups.filter(
+    (g) => g.type === "24h" && compareIds.includes(g.id)
+  );
+
+  const toggleCompare = (id: string) => {
+    setCompareIds((ids) => (ids.includes(id) ? ids.filter((i) => i !== id) : [...ids, id]));
+  };
+
+  // Automatically detected sessions after the first can be merged into the previous one
+  const firstDetectedSession = groups.find((g) => g.type === "24h" && !g.records[0].sessionId);
+  const isDetectedSession = (group: (typeof groups)[number]) =>
+    group.type === "24h" && !group.records[0].sessionId;
+
+  const refreshQueue = useCallback(async () => {
+    setQueue(await listQueued(profileId));
+  }, [profileId]);
+
+  // Write pending queued changes in order; conflicts and rejected changes stay queued for the user
+  // to resolve, and a lost connection stops the run until the next one
+  const syncQueue = useCallback(async () => {
+    if (syncingRef.current || !navigator.onLine) return;
+    syncingRef.current = true;
+    setIsSyncing(true);
+    try {
+      const pending = (await listQueued(profileId)).filter((c) => c.status === "pending");
+      for (const change of pending) {
+        let result;
+        try {
+          result = await syncQueuedRecordAction(profileId, change);
+        } catch (err) {
+          if (isOffline(err)) break;
+          throw err;
+        }
+        if (!result.ok) {
+          await saveQueued({ ...change, status: "error", error: result.error });
+        } else if (result.data.status === "conflict") {
+          await saveQueued({ ...change, status: "conflict", current: result.data.current });
+        } else {
+          await deleteQueued(change.id);
+        }
+        await refreshQueue();
+      }
+    } catch (err) {
+      console.error("Error syncing offline records:", err);
+    } finally {
+      syncingRef.current = false;
+      setIsSyncing(false);
+    }
+  }, [profileId, refreshQueue]);
+
+  // Load the queue and sync it on start and whenever the connection comes back
+  useEffect(() => {
+    refreshQueue()
+      .then(syncQueue)
+      .catch((err) => console.error("Error loading offline records:", err));
+    window.addEventListener("online", syncQueue);
+    return () => window.removeEventListener("online", syncQueue);
+  }, [refreshQueue, syncQueue]);
+
+  // Save a new record or an edit on this device; repeated edits of a record keep the
+  // version it had before the first one, so a sync still notices changes made elsewhere
+  const queueChange = (recordId: string | null, input: EyePressureRecordInput) => {
+    const existing = recordId === null ? undefined : queue.find((c) => c.recordId === recordId);
+    const change: QueuedRecordChange = existing
+      ? { ...existing, input, status: "pending", error: undefined }
+      : {
+          id: crypto.randomUUID(),
+          profileId,
+          recordId,
+          base: records.find((r) => r.id === recordId) ?? null,
+          input,
+          queuedAt: new Date().toISOString(),
+          status: "pending",
+        };
+    saveQueued(change)
+      .then(refreshQueue)
+      .catch((err) => setActionError(err instanceof Error ? err.message : "Unknown error"));
+  };
+
+  const updateQueued = (change: QueuedRecordChange) => {
+    saveQueued(change)
+      .then(refreshQueue)
+      .then(syncQueue)
+      .catch((err) => setActionError(err instanceof Error ? err.message : "Unknown error"));
+  };
+
+  const discardQueued = (id: string) => {
+    deleteQueued(id)
+      .then(refreshQueue)
+      .catch((err) => setActionError(err instanceof Error ? err.message : "Unknown error"));
+  };
+
+  // Apply a change optimistically, then run the server action; without a connection
+  // `onOffline` keeps the change on the device instead
+  const runWrite = (
+    change: OptimisticChange,
+    write: () => Promise<ActionResult<unknown>>,
+    onOffline?: () => void
+  ) => {
+    setActionError(null);
+    if (onOffline && !navigator.onLine) {
+      onOffline();
+      return;
+    }
+    startTransition(async () => {
+      addOptimistic(change);
+      try {
+        const result = await write();
+        if (!result.ok) setActionError(result.error);
+      } catch (err) {
+        if (!isOffline(err)) throw err;
+        if (onOffline) onOffline();
+        else setActionError("离线时无法完成此操作，请联网后重试");
+      }
+    });
+  };
+
+  // Queued change a record is shown from (records queued as new keep their local id until synced)
+  const queuedChangeFor = (id: string) =>
+    id.startsWith(QUEUED_ID_PREFIX)
+      ? queue.find((c) => c.id === id.slice(QUEUED_ID_PREFIX.length))
+      : queue.find((c) => c.recordId === id);
+
+  const handleCreate = (input: EyePressureRecordInput) => {
+    setShowForm(false);
+    runWrite(
+      { type: "create", record: { ...input, id: `pending-${Date.now()}` } },
+      () => createRecordAction(profileId, input),
+      () => queueChange(null, input)
+    );
+  };
+
+  const handleUpdate = (id: string, input: EyePressureRecordInput) => {
+    const queued = queuedChangeFor(id);
+    if (queued) {
+      updateQueued({ ...queued, input, status: "pending", error: undefined });
+      return;
+    }
+    runWrite(
+      { type: "update", record: { ...input, id } },
+      () => updateRecordAction(profileId, id, input),
+      () => queueChange(id, input)
+    );
+  };
+
+  const handleDelete = (id: string) => {
+    const queued = queuedChangeFor(id);
+    if (queued) discardQueued(queued.id);
+    if (queued?.recordId === null) return;
+    runWrite({ type: "delete", id }, () => deleteRecordAction(profileId, id));
+  };
+
+  // Open the add form; while a planned session runs, the new reading joins it
+  const toggleForm = () => {
+    if (!showForm) {
+      const now = new Date();
+      const plan = activePlan(plans, now);
+      setFormInitial(
+        plan
+          ? {
+              name: "",
+              date: now.toISOString(),
+              left: null,
+              right: null,
+              is24h: true,
+              note: "",
+              sessionId: plan.sessionId,
+            }
+          : undefined
+      );
+    }
+    setShowForm(!showForm);
+  };
+
+  const handleSessionOverride = (recordId: string, action: SessionOverride["action"]) => {
+    setActionError(null);
+    startTransition(async () => {
+      addOptimisticOverride({ id: `pending-${Date.now()}`, recordId, action });
+      const result = await saveSessionOverrideAction(profileId, recordId, action);
+      if (!result.ok) setActionError(result.error);
+    });
+  };
+
   if (error) {
     return (
       <div style={{ textAlign: "center", padding: "48px 0" }}>
@@ -73,54 +408,217 @@ export default function MainContent({ groups, error }: MainContentProps) {
     );
   }
 
-  if (groups.length === 0) {
-    return (
-      <div style={{ textAlign: "center", padding: "48px 0" }}>
+  // Alert banner, add-record toolbar and write error banner, shown above groups or empty state
+  const toolbar = (
+    <div style={{ display: "flex", flexDirection: "column", gap: "12px" }}>
+      <AlertBanner profileId={profileId} basePath={basePath} alerts={alerts} />
+      <div style={{ display: "flex", justifyContent: "flex-end", alignItems: "center", gap: "12px" }}>
+        <ExportMenu records={optimisticRecords} fileName="eye-pressure-records" />
+        <Link href={`${basePath}/report`} style={{ fontSize: "14px", color: "#3b82f6" }}>
+          报告
+        </Link>
+        <Link href={`${basePath}/import`} style={{ fontSize: "14px", color: "#3b82f6" }}>
+          导入
+        </Link>
+        <Link href={`${basePath}/events`} style={{ fontSize: "14px", color: "#3b82f6" }}>
+          治疗事件
+        </Link>
+        <Link href={`${basePath}/alerts`} style={{ fontSize: "14px", color: "#3b82f6" }}>
+          提醒
+        </Link>
+        <Link href={`${basePath}/settings`} style={{ fontSize: "14px", color: "#3b82f6" }}>
+          设置
+        </Link>
+        <button
+          onClick={() => setShowPlanForm(!showPlanForm)}
+          style={{
+            padding: 0,
+            fontSize: "14px",
+            color: "#3b82f6",
+            backgroundColor: "transparent",
+            border: "none",
+            cursor: "pointer",
+          }}
+        >
+          {showPlanForm ? "收起计划" : "计划 24 小时测量"}
+        </button>
+        <button
+          onClick={toggleForm}
+          style={{
+            padding: "8px 16px",
+            backgroundColor: showForm ? "#f1f5f9" : "#3b82f6",
+            color: showForm ? "#475569" : "white",
+            borderRadius: "8px",
+            border: "none",
+            cursor: "pointer",
+            fontSize: "14px",
+          }}
+        >
+          {showForm ? "收起" : "添加记录"}
+        </button>
+      </div>
+      {showForm && (
         <div
           style={{
-            display: "inline-flex",
-            alignItems: "center",
-            justifyContent: "center",
-            width: "64px",
-            height: "64px",
-            borderRadius: "50%",
-            backgroundColor: "#f1f5f9",
-            marginBottom: "16px",
+            padding: "16px",
+            backgroundColor: "white",
+            borderRadius: "8px",
+            border: "1px solid #e2e8f0",
+            boxShadow: "0 1px 3px rgba(0,0,0,0.1)",
           }}
         >
-          <svg
-            style={{ width: "32px", height: "32px", color: "#94a3b8" }}
-            fill="none"
-            stroke="currentColor"
-            viewBox="0 0 24 24"
-          >
-            <path
-              strokeLinecap="round"
-              strokeLinejoin="round"
-              strokeWidth={2}
-              d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"
-            />
-          </svg>
+          <RecordForm
+            initial={formInitial}
+            submitLabel="添加"
+            readingOptions={readingOptions}
+            onSubmit={handleCreate}
+            onCancel={() => setShowForm(false)}
+          />
         </div>
-        <h2
+      )}
+      <SessionPlanner
+        profileId={profileId}
+        plans={plans}
+        records={optimisticRecords}
+        timeZone={timeZone}
+        pushPublicKey={pushPublicKey}
+        showForm={showPlanForm}
+        onCloseForm={() => setShowPlanForm(false)}
+      />
+      {groups.length > 0 && (
+        <FilterBar
+          filters={filters}
+          range={range}
+          shownCount={visibleGroups.reduce((sum, g) => sum + g.records.length, 0)}
+          totalCount={optimisticRecords.length}
+          onChange={handleFiltersChange}
+        />
+      )}
+      <PendingQueue
+        queue={queue}
+        timeZone={timeZone}
+        isSyncing={isSyncing}
+        onSync={syncQueue}
+        onRetry={(change, force) =>
+          updateQueued({ ...change, status: "pending", force, current: undefined, error: undefined })
+        }
+        onDiscard={(change) => discardQueued(change.id)}
+      />
+      <RecordIssues issues={issues} timeZone={timeZone} />
+      <SessionAmbiguities
+        ambiguities={ambiguities}
+        timeZone={timeZone}
+        onResolve={handleSessionOverride}
+      />
+      {actionError && (
+        <div
           style={{
-            fontSize: "18px",
-            fontWeight: 600,
-            color: "#0f172a",
-            marginBottom: "8px",
+            padding: "12px 16px",
+            borderRadius: "8px",
+            backgroundColor: "#fee2e2",
+            color: "#b91c1c",
+            fontSize: "14px",
           }}
         >
-          No data
-        </h2>
-        <p style={{ color: "#64748b" }}>Please add eye pressure records in Notion database first</p>
+          Save failed: {actionError}
+        </div>
+      )}
+    </div>
+  );
+
+  if (groups.length === 0) {
+    return (
+      <div style={{ display: "flex", flexDirection: "column", gap: "32px" }}>
+        {toolbar}
+        <div style={{ textAlign: "center", padding: "48px 0" }}>
+          <div
+            style={{
+              display: "inline-flex",
+              alignItems: "center",
+              justifyContent: "center",
+              width: "64px",
+              height: "64px",
+              borderRadius: "50%",
+              backgroundColor: "#f1f5f9",
+              marginBottom: "16px",
+            }}
+          >
+            <svg
+              style={{ width: "32px", height: "32px", color: "#94a3b8" }}
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"
+              />
+            </svg>
+          </div>
+          <h2
+            style={{
+              fontSize: "18px",
+              fontWeight: 600,
+              color: "#0f172a",
+              marginBottom: "8px",
+            }}
+          >
+            No data
+          </h2>
+          <p style={{ color: "#64748b" }}>Please add eye pressure records to the data source first</p>
+        </div>
       </div>
     );
   }
 
   return (
     <div style={{ display: "flex", flexDirection: "column", gap: "32px" }}>
-      {groups.map((group) => (
-        <RecordGroup key={group.id} group={group} />
+      {toolbar}
+      {compareGroups.length === 1 && (
+        <div style={{ fontSize: "13px", color: "#64748b" }}>
+          已选择 1 组，再勾选一组 24 小时眼压即可叠加对比
+        </div>
+      )}
+      {compareGroups.length >= 2 && (
+        <SessionComparison
+          groups={compareGroups}
+          sleepWindow={sleepWindow}
+          timeZone={timeZone}
+          onClear={() => setCompareIds([])}
+        />
+      )}
+      {visibleGroups.length === 0 && (
+        <div style={{ textAlign: "center", padding: "48px 0", color: "#64748b" }}>
+          没有符合筛选条件的记录
+        </div>
+      )}
+      {visibleGroups.map((group) => (
+        <RecordGroup
+          key={group.id}
+          group={group}
+          sleepWindow={sleepWindow}
+          targets={targets}
+          readingOptions={readingOptions}
+          events={events}
+          slots={planSlots[group.id] ?? null}
+          timeZone={timeZone}
+          onUpdate={handleUpdate}
+          onDelete={handleDelete}
+          compareSelected={compareIds.includes(group.id)}
+          onToggleCompare={group.type === "24h" ? () => toggleCompare(group.id) : undefined}
+          onMergeWithPrevious={
+            isDetectedSession(group) && group !== firstDetectedSession
+              ? () => handleSessionOverride(group.records[0].id, "merge")
+              : undefined
+          }
+          onSplit={
+            isDetectedSession(group)
+              ? (id) => handleSessionOverride(id, "split")
+              : undefined
+          }
+        />
       ))}
     </div>
   );
@@ -0,0 +1,154 @@
+/**
+ * Page shell shared by all routes
+ * Renders the sticky header with the profile switcher and logout, main content container and footer
+ */
+
+import { ProfileSummary, profilePath } from "@/lib/profiles";
+import { isAuthEnabled } from "@/lib/auth";
+import ProfileSwitcher from "./ProfileSwitcher";
+
+interface PageShellProps {
+  children: React.ReactNode;
+  // Extra controls shown on the right side of the header
+  actions?: React.ReactNode;
+  // Profile the page belongs to; the switcher links to the same page (subPath) of each profile
+  profile?: {
+    current: string;
+    profiles: ProfileSummary[];
+    subPath?: string;
+  };
+}
+
+export default function PageShell({ children, actions, profile }: PageShellProps) {
+  const hasSwitcher = profile !== undefined && profile.profiles.length > 1;
+  // Pages of a profile are only reachable when logged in (when login is configured)
+  const showLogout = profile !== undefined && isAuthEnabled();
+
+  return (
+    <div
+      style={{
+        minHeight: "100vh",
+        background: "linear-gradient(to bottom right, #f8fafc, #eff6ff, #f1f5f9)",
+      }}
+    >
+      {/* Header */}
+      <header
+        style={{
+          position: "sticky",
+          top: 0,
+          zIndex: 50,
+          backdropFilter: "blur(8px)",
+          backgroundColor: "rgba(255,255,255,0.8)",
+          borderBottom: "1px solid #e2e8f0",
+        }}
+      >
+        <div
+          style={{
+            maxWidth: "1280px",
+            margin: "0 auto",
+            padding: "16px",
+          }}
+        >
+          <div style={{ display: "flex", alignItems: "center", gap: "12px" }}>
+            {/* Eye icon */}
+            <div
+              style={{
+                padding: "8px",
+                background: "linear-gradient(to bottom right, #3b82f6, #8b5cf6)",
+                borderRadius: "12px",
+                boxShadow: "0 4px 6px -1px rgba(59, 130, 246, 0.2)",
+              }}
+            >
+              <svg
+                style={{ width: "24px", height: "24px", color: "white" }}
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M15 12a3 3 0 11-6 0 3 3 0 016 0z"
+                />
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z"
+                />
+              </svg>
+            </div>
+            <div>
+              <h1 style={{ fontSize: "20px", fontWeight: 700, color: "#0f172a" }}>
+                眼压记录
+              </h1>
+              <p style={{ fontSize: "14px", color: "#64748b" }}>
+                Eye Pressure Records
+              </p>
+            </div>
+            {(actions || hasSwitcher || showLogout) && (
+              <div style={{ marginLeft: "auto", display: "flex", alignItems: "center", gap: "8px" }}>
+                {actions}
+                {hasSwitcher && (
+                  <ProfileSwitcher
+                    current={profile.current}
+                    profiles={profile.profiles.map(({ id, name }) => ({
+                      id,
+                      name,
+                      href: profilePath(id, profile.subPath),
+                    }))}
+                  />
+                )}
+                {showLogout && (
+                  <form action="/auth/logout" method="post">
+                    <button
+                      type="submit"
+                      style={{
+                        padding: "6px 12px",
+                        fontSize: "14px",
+                        color: "#475569",
+                        backgroundColor: "#f1f5f9",
+                        border: "none",
+                        borderRadius: "6px",
+                        cursor: "pointer",
+                      }}
+                    >
+                      退出
+                    </button>
+                  </form>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </header>
+
+      {/* Main content */}
+      <main
+        style={{
+          maxWidth: "1280px",
+          margin: "0 auto",
+          padding: "32px 16px",
+        }}
+      >
+        {children}
+      </main>
+
+      {/* Footer */}
+      <footer style={{ borderTop: "1px solid #e2e8f0", marginTop: "48px" }}>
+        <div
+          style={{
+            maxWidth: "1280px",
+            margin: "0 auto",
+            padding: "24px 16px",
+          }}
+        >
+          <p style={{ textAlign: "center", fontSize: "14px", color: "#64748b" }}>
+            All rights reserved.
+          </p>
+        </div>
+      </footer>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+/**
+ * Offline queue panel
+ * Shows records saved on this device while offline, their sync state and conflict choices
+ */
+
+"use client";
+
+import { useSyncExternalStore } from "react";
+import { EyePressureRecordInput, QueuedRecordChange } from "@/types";
+import { formatZoned } from "@/lib/time";
+
+interface PendingQueueProps {
+  queue: QueuedRecordChange[];
+  timeZone: string;
+  isSyncing: boolean;
+  onSync: () => void;
+  // Write the local version over the source version (conflicts) or try again (errors)
+  onRetry: (change: QueuedRecordChange, force: boolean) => void;
+  // Drop the local change and keep the source version
+  onDiscard: (change: QueuedRecordChange) => void;
+}
+
+function subscribeOnline(callback: () => void) {
+  window.addEventListener("online", callback);
+  window.addEventListener("offline", callback);
+  return () => {
+    window.removeEventListener("online", callback);
+    window.removeEventListener("offline", callback);
+  };
+}
+
+function describe(record: EyePressureRecordInput, timeZone: string): string {
+  const note = record.note ? ` · ${record.note}` : "";
+  return `${formatZoned(record.date, timeZone)} 左 ${record.left ?? "—"} / 右 ${record.right ?? "—"}${note}`;
+}
+
+export default function PendingQueue({
+  queue,
+  timeZone,
+  isSyncing,
+  onSync,
+  onRetry,
+  onDiscard,
+}: PendingQueueProps) {
+  // Rendered as online on the server; the cached page may be opened offline
+  const isOnline = useSyncExternalStore(subscribeOnline, () => navigator.onLine, () => true);
+
+  if (isOnline && queue.length === 0) return null;
+
+  const buttonStyle = (primary: boolean) => ({
+    padding: "4px 10px",
+    fontSize: "13px",
+    borderRadius: "6px",
+    border: "none",
+    cursor: "pointer",
+    backgroundColor: primary ? "#3b82f6" : "#f1f5f9",
+    color: primary ? "white" : "#475569",
+  });
+
+  const pendingCount = queue.filter((c) => c.status === "pending").length;
+
+  return (
+    <div
+      style={{
+        display: "flex",
+        flexDirection: "column",
+        gap: "8px",
+        padding: "12px 16px",
+        borderRadius: "8px",
+        backgroundColor: "#fffbeb",
+        border: "1px solid #fde68a",
+        fontSize: "14px",
+        color: "#92400e",
+      }}
+    >
+      <div style={{ display: "flex", flexWrap: "wrap", alignItems: "center", gap: "12px" }}>
+        <strong style={{ fontWeight: 600 }}>
+          {isOnline ? "本设备有未同步的记录" : "离线模式：显示的是上次加载的数据，新记录会先保存在本设备"}
+        </strong>
+        {queue.length > 0 && <span>待同步 {pendingCount} / {queue.length} 条</span>}
+        {isOnline && pendingCount > 0 && (
+          <button onClick={onSync} disabled={isSyncing} style={buttonStyle(true)}>
+            {isSyncing ? "同步中…" : "立即同步"}
+          </button>
+        )}
+      </div>
+
+      {queue.map((change) => (
+        <div
+          key={change.id}
+          style={{
+            display: "flex",
+            flexWrap: "wrap",
+            alignItems: "center",
+            gap: "8px 12px",
+            padding: "8px 0",
+            borderTop: "1px solid #fde68a",
+          }}
+        >
+          <span style={{ fontWeight: 500 }}>{change.recordId ? "修改" : "新增"}</span>
+          <span>{describe(change.input, timeZone)}</span>
+          {change.status === "pending" && <span style={{ color: "#b45309" }}>待同步</span>}
+
+          {change.status === "conflict" && (
+            <>
+              <span style={{ color: "#b91c1c" }}>
+                冲突：
+                {change.current
+                  ? `其他设备已改为 ${describe(change.current, timeZone)}`
+                  : "该记录已在其他设备删除"}
+              </span>
+              <button onClick={() => onRetry(change, true)} disabled={!isOnline} style={buttonStyle(true)}>
+                保留本设备版本
+              </button>
+              <button onClick={() => onDiscard(change)} style={buttonStyle(false)}>
+                {change.current ? "使用其他设备版本" : "放弃修改"}
+              </button>
+            </>
+          )}
+
+          {change.status === "error" && (
+            <>
+              <span style={{ color: "#b91c1c" }}>同步失败：{change.error}</span>
+              <button onClick={() => onRetry(change, false)} disabled={!isOnline} style={buttonStyle(true)}>
+                重试
+              </button>
+              <button onClick={() => onDiscard(change)} style={buttonStyle(false)}>
+                放弃
+              </button>
+            </>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+/**
+ * Planned vs taken readings of a 24h session plan
+ * One chip per planned reading time, coloured by whether a reading was taken for it
+ */
+
+"use client";
+
+import { PlanSlot } from "@/types";
+import { PLAN_SLOT_LABELS, countSlots } from "@/lib/sessionPlans";
+import { formatSessionTime } from "@/lib/grouping";
+
+interface PlanSlotsProps {
+  slots: PlanSlot[];
+  // Display zone for the slot times
+  timeZone: string;
+}
+
+const SLOT_COLORS: Record<PlanSlot["status"], { color: string; background: string }> = {
+  taken: { color: "#15803d", background: "#dcfce7" },
+  due: { color: "#b45309", background: "#fef3c7" },
+  missed: { color: "#b91c1c", background: "#fee2e2" },
+  upcoming: { color: "#64748b", background: "#f1f5f9" },
+};
+
+export default function PlanSlots({ slots, timeZone }: PlanSlotsProps) {
+  if (slots.length === 0) return null;
+  const counts = countSlots(slots);
+  const first = new Date(slots[0].time);
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: "8px" }}>
+      <div style={{ fontSize: "13px", color: "#475569" }}>
+        计划 {slots.length} 次：已测 {counts.taken}
+        {counts.missed > 0 && <span style={{ color: "#b91c1c" }}> · 漏测 {counts.missed}</span>}
+        {counts.due > 0 && <span style={{ color: "#b45309" }}> · 待测 {counts.due}</span>}
+        {counts.upcoming > 0 && <span> · 未到 {counts.upcoming}</span>}
+      </div>
+      <div style={{ display: "flex", flexWrap: "wrap", gap: "4px" }}>
+        {slots.map((slot) => (
+          <span
+            key={slot.time}
+            title={PLAN_SLOT_LABELS[slot.status]}
+            style={{
+              padding: "2px 8px",
+              borderRadius: "9999px",
+              fontSize: "12px",
+              fontVariantNumeric: "tabular-nums",
+              color: SLOT_COLORS[slot.status].color,
+              backgroundColor: SLOT_COLORS[slot.status].background,
+              textDecoration: slot.status === "missed" ? "line-through" : "none",
+            }}
+          >
+            {formatSessionTime(new Date(slot.time), first, timeZone)}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
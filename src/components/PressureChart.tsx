@@ -1,7 +1,12 @@
 /**
  * Interactive line chart for eye pressure visualization
- * Features: left/right/average lines, legend toggle, fullscreen mode
- * Supports time-proportional X axis for both 24h and regular measurements
+ * Features: left/right/average lines, trend and target overlays, treatment events,
+ * legend toggle, fullscreen mode, brush zoom reported to the parent,
+ * marker shapes per tonometer/body position and a CCT-corrected overlay;
+ * readings missing an eye leave a gap in that eye's line unless gaps are bridged
+ * Supports time-proportional X axis for both 24h and regular measurements;
+ * multi-day 24h sessions get day-offset labels, midnight separators and a folded clock view;
+ * planned 24h sessions mark missed reading times on the time axis
  */
 
 "use client";
@@ -17,13 +22,32 @@ import {
   Legend,
   ReferenceLine,
   ReferenceArea,
+  Brush,
+  ErrorBar,
 } from "recharts";
-import { ChartDataPoint } from "@/types";
+import { ChartDataPoint, PlanSlot, TreatmentEvent, TreatmentEventType } from "@/types";
+import { DEFAULT_TARGET_PRESSURE, NORMAL_MIN } from "@/lib/targets";
+import { eventEndTime, eventOverlaps, isSpanEvent } from "@/lib/events";
+import { dayOffset, formatSessionTime, midnightsBetween } from "@/lib/grouping";
+import { formatZoned } from "@/lib/time";
+import { MarkerShape, TONOMETER_LABELS, TONOMETER_MARKERS, TONOMETERS } from "@/lib/measurement";
+import FoldedDayChart from "./FoldedDayChart";
 
 interface PressureChartProps {
   data: ChartDataPoint[];
   title: string;
   is24h?: boolean; // Whether this is 24h measurement data
+  events?: TreatmentEvent[]; // Treatment timeline drawn as markers and spans
+  slots?: PlanSlot[]; // Planned reading times of a 24h session; missed ones are marked on the axis
+  timeZone: string; // Display zone for axis labels and day boundaries
+  brushRange?: BrushRange | null; // Zoomed index range of data; null shows everything
+  onBrushChange?: (range: BrushRange | null) => void; // Enables the brush when provided
+}
+
+// Inclusive index range of the data points selected with the brush
+export interface BrushRange {
+  startIndex: number;
+  endIndex: number;
 }
 
 // Color scheme for the chart lines
@@ -31,22 +55,177 @@ const COLORS = {
   left: "#3b82f6", // blue-500
   right: "#ef4444", // red-500
   average: "#8b5cf6", // violet-500
+  movingAverage: "#10b981", // emerald-500
+  trendLeft: "#93c5fd", // blue-300
+  trendRight: "#fca5a5", // red-300
+  target: "#f59e0b", // amber-500
+  correctedLeft: "#1e40af", // blue-800
+  correctedRight: "#991b1b", // red-800
+};
+
+// Marker and span colors per treatment event type
+const EVENT_COLORS: Record<TreatmentEventType, string> = {
+  medication: "#14b8a6", // teal-500
+  procedure: "#f97316", // orange-500
+  visit: "#64748b", // slate-500
+};
+
+// Tooltip names for each series
+const SERIES_NAMES: Record<string, string> = {
+  left: "左眼",
+  right: "右眼",
+  average: "均值",
+  movingAverage: "移动平均",
+  trendLeft: "左眼趋势",
+  trendRight: "右眼趋势",
+  targetLeft: "左眼目标",
+  targetRight: "右眼目标",
+  correctedLeft: "左眼校正",
+  correctedRight: "右眼校正",
 };
 
-// Normal pressure range
-const NORMAL_MIN = 10;
-const NORMAL_MAX = 21;
+// One reading's marker: the tonometer sets the shape, supine readings are drawn hollow
+function MarkerSymbol({
+  cx,
+  cy,
+  r,
+  shape,
+  color,
+  hollow,
+}: {
+  cx: number;
+  cy: number;
+  r: number;
+  shape: MarkerShape;
+  color: string;
+  hollow: boolean;
+}) {
+  const paint = { fill: hollow ? "white" : color, stroke: color, strokeWidth: 2 };
+  switch (shape) {
+    case "triangle":
+      return (
+        <polygon
+          points={`${cx},${cy - r * 1.2} ${cx - r * 1.1},${cy + r * 0.8} ${cx + r * 1.1},${cy + r * 0.8}`}
+          {...paint}
+        />
+      );
+    case "square":
+      return <rect x={cx - r * 0.9} y={cy - r * 0.9} width={r * 1.8} height={r * 1.8} {...paint} />;
+    case "diamond":
+      return (
+        <polygon
+          points={`${cx},${cy - r * 1.3} ${cx + r * 1.3},${cy} ${cx},${cy + r * 1.3} ${cx - r * 1.3},${cy}`}
+          {...paint}
+        />
+      );
+    case "circle":
+      return <circle cx={cx} cy={cy} r={r} {...paint} />;
+  }
+}
+
+// Dot renderer for an eye's line, drawing each reading with its measurement marker
+function measurementDot(color: string) {
+  function MeasurementDot({ cx, cy, payload }: { cx?: number; cy?: number; payload?: ChartDataPoint }) {
+    if (cx === undefined || cy === undefined) return null;
+    return (
+      <MarkerSymbol
+        cx={cx}
+        cy={cy}
+        r={4}
+        shape={payload?.tonometer ? TONOMETER_MARKERS[payload.tonometer] : "circle"}
+        color={color}
+        hollow={payload?.position === "supine"}
+      />
+    );
+  }
+  return MeasurementDot;
+}
 
-export default function PressureChart({ data, title, is24h = false }: PressureChartProps) {
+export default function PressureChart({
+  data,
+  title,
+  is24h = false,
+  events = [],
+  slots,
+  timeZone,
+  brushRange = null,
+  onBrushChange,
+}: PressureChartProps) {
   const [showLeft, setShowLeft] = useState(true);
   const [showRight, setShowRight] = useState(true);
   const [showAverage, setShowAverage] = useState(false);
+  const [showMovingAverage, setShowMovingAverage] = useState(false);
+  const [showTrend, setShowTrend] = useState(false);
+  const [showEvents, setShowEvents] = useState(true);
+  const [showCorrected, setShowCorrected] = useState(false);
+  const [showSpread, setShowSpread] = useState(true); // Error bars of multiple readings
+  const [connectGaps, setConnectGaps] = useState(true); // Bridge readings without a value for an eye
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [useTimeScale, setUseTimeScale] = useState(true); // Toggle for time-proportional vs uniform X axis
+  const [folded, setFolded] = useState(false); // Multi-day 24h sessions: overlay days on one clock axis
   const [dimensions, setDimensions] = useState({ width: 400, height: 300 });
   const chartContainerRef = useRef<HTMLDivElement>(null);
   const chartWrapperRef = useRef<HTMLDivElement>(null);
 
+  // Trend overlays are only offered when the data carries them (regular measurements)
+  const hasTrend = data.some((d) => d.movingAverage !== undefined);
+
+  // Single-eye readings leave gaps in the other eye's line
+  const hasGaps = data.some((d) => d.left === null || d.right === null);
+
+  // Corrected pressure is offered when some reading has a corneal thickness
+  const hasCorrected = data.some(
+    (d) => d.correctedLeft !== undefined || d.correctedRight !== undefined
+  );
+
+  // Error bars are offered when some reading was taken several times
+  const hasSpread = data.some((d) => d.spreadLeft !== undefined || d.spreadRight !== undefined);
+
+  // Tonometers and body positions in the data, explained in a marker key
+  const markerKey = useMemo(
+    () => ({
+      tonometers: TONOMETERS.filter((t) => data.some((d) => d.tonometer === t)),
+      supine: data.some((d) => d.position === "supine"),
+    }),
+    [data]
+  );
+  const leftDot = useMemo(() => measurementDot(COLORS.left), []);
+  const rightDot = useMemo(() => measurementDot(COLORS.right), []);
+
+  // Targets in effect across the data; one uniform target is drawn as a reference line,
+  // otherwise each eye gets a stepped target line
+  const targetValues = useMemo(() => {
+    const values = new Set<number>();
+    data.forEach((d) => {
+      values.add(d.targetLeft ?? DEFAULT_TARGET_PRESSURE);
+      values.add(d.targetRight ?? DEFAULT_TARGET_PRESSURE);
+    });
+    return values.size > 0 ? [...values] : [DEFAULT_TARGET_PRESSURE];
+  }, [data]);
+  const uniformTarget = targetValues.length === 1 ? targetValues[0] : null;
+  const safeZoneMax = Math.min(...targetValues);
+
+  // Events within the data range, positioned on the current X axis
+  // (minutes from the first reading, or the label of the nearest reading on a uniform axis)
+  const eventMarks = useMemo(() => {
+    if (data.length === 0) return [];
+    const first = new Date(data[0].dateStr).getTime();
+    const last = new Date(data[data.length - 1].dateStr).getTime();
+    const position = (time: number) => {
+      const clamped = Math.min(Math.max(time, first), last);
+      if (useTimeScale) return Math.round((clamped - first) / 60000);
+      return (data.find((d) => new Date(d.dateStr).getTime() >= clamped) ?? data[data.length - 1])
+        .label;
+    };
+    return events
+      .filter((event) => eventOverlaps(event, first, last))
+      .map((event) => ({
+        event,
+        x1: position(new Date(event.start).getTime()),
+        x2: isSpanEvent(event) ? position(eventEndTime(event)) : null,
+      }));
+  }, [data, events, useTimeScale]);
+
   // Build a map from minutesFromStart to formatted label (using original dateStr)
   const labelMap = useMemo(() => {
     const map = new Map<number, string>();
@@ -54,36 +233,76 @@ export default function PressureChart({ data, title, is24h = false }: PressureCh
       if (d.minutesFromStart !== undefined) {
         const date = new Date(d.dateStr);
         if (is24h) {
-          // For 24h data, show time (HH:mm)
-          const hours = date.getHours().toString().padStart(2, "0");
-          const minutes = date.getMinutes().toString().padStart(2, "0");
-          // Check if it's next day compared to first data point
-          const firstDate = data[0] ? new Date(data[0].dateStr) : date;
-          const dayDiff = date.getDate() !== firstDate.getDate();
-          map.set(d.minutesFromStart, dayDiff ? `+1 ${hours}:${minutes}` : `${hours}:${minutes}`);
+          // For 24h data, show time (HH:mm) with a "+N" calendar-day offset from the first reading
+          map.set(d.minutesFromStart, formatSessionTime(date, new Date(data[0].dateStr), timeZone));
         } else {
           // For regular data, show date (MM/DD)
-          const month = (date.getMonth() + 1).toString().padStart(2, "0");
-          const day = date.getDate().toString().padStart(2, "0");
-          map.set(d.minutesFromStart, `${month}/${day}`);
+          map.set(d.minutesFromStart, formatZoned(date, timeZone, "monthDay"));
         }
       }
     });
     return map;
-  }, [data, is24h]);
+  }, [data, is24h, timeZone]);
+
+  // Calendar days spanned by a 24h session and the midnights crossing it
+  const sessionStart = useMemo(
+    () => (data.length > 0 ? new Date(data[0].dateStr) : null),
+    [data]
+  );
+  const spansDays =
+    is24h &&
+    sessionStart !== null &&
+    dayOffset(new Date(data[data.length - 1].dateStr), sessionStart, timeZone) > 0;
+  const midnightMarks = useMemo(() => {
+    if (!spansDays || sessionStart === null) return [];
+    return midnightsBetween(sessionStart, new Date(data[data.length - 1].dateStr), timeZone).map(
+      ({ minutes, date }) => {
+        // Uniform axis: place the separator at the first reading of the new day
+        const firstOfDay = data.find((d) => new Date(d.dateStr).getTime() >= date.getTime());
+        return {
+          minutes,
+          label: firstOfDay?.label ?? null,
+          text: formatZoned(date, timeZone, "monthDay"),
+        };
+      }
+    );
+  }, [data, spansDays, sessionStart, timeZone]);
+
+  // Planned reading times as minutes from the first reading (earlier ones are negative)
+  const slotMarks = useMemo(() => {
+    if (!is24h || !slots || slots.length === 0 || sessionStart === null) return [];
+    return slots.map((slot) => ({
+      minutes: Math.round((new Date(slot.time).getTime() - sessionStart.getTime()) / 60000),
+      missed: slot.status === "missed",
+    }));
+  }, [is24h, slots, sessionStart]);
+  const missedMinutes = useMemo(
+    () => new Set(slotMarks.filter((mark) => mark.missed).map((mark) => mark.minutes)),
+    [slotMarks]
+  );
+  // Marked on the time axis only (not on a uniform or folded axis)
+  const showMissed = missedMinutes.size > 0 && useTimeScale && !(folded && spansDays);
 
   // Calculate Y axis domain based on data (min 0, max at least 40 or higher if data exceeds)
   const yAxisDomain = useMemo(() => {
     if (data.length === 0) return [0, 40];
     
-    const allValues = data.flatMap(d => [d.left, d.right, d.average]);
+    const allValues = data.flatMap(d => [
+      d.left ?? 0,
+      d.right ?? 0,
+      d.average ?? 0,
+      ...(showCorrected ? [d.correctedLeft ?? 0, d.correctedRight ?? 0] : []),
+      ...(showSpread
+        ? [(d.left ?? 0) + (d.spreadLeft?.[1] ?? 0), (d.right ?? 0) + (d.spreadRight?.[1] ?? 0)]
+        : []),
+    ]);
     const maxValue = Math.max(...allValues);
     
     // Round up to nearest 5, minimum 40
     const yMax = Math.max(40, Math.ceil(maxValue / 5) * 5 + 5);
     
     return [0, yMax];
-  }, [data]);
+  }, [data, showCorrected, showSpread]);
 
   // Generate Y axis ticks
   const yAxisTicks = useMemo(() => {
@@ -104,32 +323,101 @@ export default function PressureChart({ data, title, is24h = false }: PressureCh
     const ticks: number[] = [];
     
     if (is24h) {
-      // For 24h data: every 2 hours (120 minutes)
-      for (let m = 0; m <= maxMinutes + 60; m += 120) {
+      // For 24h data: every 2 hours, widened for longer sessions to keep labels readable
+      // A planned session's axis covers all planned times with ticks aligned to the first one,
+      // and every missed time gets a tick so it can be marked
+      const first = slotMarks.length > 0 ? Math.min(0, slotMarks[0].minutes) : 0;
+      const last = Math.max(maxMinutes, ...slotMarks.map((mark) => mark.minutes));
+      const span = last - first;
+      const step = span <= 30 * 60 ? 120 : span <= 54 * 60 ? 240 : 360;
+      const anchor = slotMarks.length > 0 ? slotMarks[0].minutes : 0;
+      for (let m = anchor - Math.floor((anchor - first) / step) * step; m <= last + 60; m += step) {
         ticks.push(m);
       }
+      missedMinutes.forEach((m) => {
+        if (!ticks.includes(m)) ticks.push(m);
+      });
+      ticks.sort((a, b) => a - b);
     } else {
       // For regular data: use actual data points as ticks
       minuteValues.forEach(m => ticks.push(m));
     }
+
+    // Keep only ticks inside the brushed window
+    if (brushRange) {
+      const min = minuteValues[brushRange.startIndex] ?? 0;
+      const max = minuteValues[brushRange.endIndex] ?? maxMinutes;
+      return ticks.filter((m) => m >= min && m <= max);
+    }
     
     return ticks;
-  }, [is24h, data]);
+  }, [is24h, data, brushRange, slotMarks, missedMinutes]);
+
+  // Time axis range: the readings, widened to the planned times unless zoomed in
+  const xAxisDomain = useMemo(() => {
+    if (slotMarks.length === 0 || brushRange) return ["dataMin", "dataMax"];
+    const minutes = slotMarks.map((mark) => mark.minutes);
+    return [
+      Math.min(0, ...minutes),
+      Math.max(...data.map((d) => d.minutesFromStart || 0), ...minutes),
+    ];
+  }, [slotMarks, brushRange, data]);
 
   // X axis tick formatter - use labelMap for accurate labels
+  // (24h ticks fall between readings, so they are formatted from the session start)
   const xAxisTickFormatter = useCallback((value: number) => {
+    if (is24h && sessionStart !== null) {
+      return formatSessionTime(
+        new Date(sessionStart.getTime() + value * 60000),
+        sessionStart,
+        timeZone
+      );
+    }
     return labelMap.get(value) || "";
-  }, [labelMap]);
+  }, [labelMap, is24h, sessionStart, timeZone]);
+
+  // Time axis tick; a missed planned reading is drawn in red with a dot on the axis line
+  const renderTimeTick = useCallback(
+    ({ x, y, payload }: { x: number; y: number; payload: { value: number } }) => {
+      const missed = missedMinutes.has(payload.value);
+      return (
+        <g transform={`translate(${x},${y})`}>
+          {missed && <circle cy={-8} r={3.5} fill="#dc2626" />}
+          <text
+            dy="0.71em"
+            textAnchor="middle"
+            fontSize={11}
+            fontWeight={missed ? 600 : 400}
+            fill={missed ? "#dc2626" : "#64748b"}
+          >
+            {xAxisTickFormatter(payload.value)}
+          </text>
+        </g>
+      );
+    },
+    [missedMinutes, xAxisTickFormatter]
+  );
+
+  // Brush below the plot for longer series; a selection covering all points clears the zoom
+  const showBrush = onBrushChange !== undefined && data.length > 2 && !(folded && spansDays);
+  const handleBrushChange = useCallback(
+    ({ startIndex, endIndex }: BrushRange) => {
+      onBrushChange?.(
+        startIndex === 0 && endIndex === data.length - 1 ? null : { startIndex, endIndex }
+      );
+    },
+    [onBrushChange, data.length]
+  );
 
   // Measure and update chart dimensions
   const updateDimensions = useCallback(() => {
     if (chartWrapperRef.current) {
       const rect = chartWrapperRef.current.getBoundingClientRect();
       const width = Math.max(rect.width - 32, 300);
-      const height = isFullscreen ? window.innerHeight - 200 : 300;
+      const height = (isFullscreen ? window.innerHeight - 200 : 300) + (showBrush ? 40 : 0);
       setDimensions({ width, height });
     }
-  }, [isFullscreen]);
+  }, [isFullscreen, showBrush]);
 
   // Update dimensions on mount and resize
   useEffect(() => {
@@ -269,6 +557,144 @@ export default function PressureChart({ data, title, is24h = false }: PressureCh
         />
         均值
       </button>
+      {hasTrend && (
+        <button
+          onClick={() => setShowMovingAverage(!showMovingAverage)}
+          style={{
+            display: "flex",
+            alignItems: "center",
+            gap: "8px",
+            padding: "6px 12px",
+            borderRadius: "9999px",
+            fontSize: "14px",
+            fontWeight: 500,
+            border: showMovingAverage ? "2px solid #10b981" : "none",
+            backgroundColor: showMovingAverage ? "#d1fae5" : "#f1f5f9",
+            color: showMovingAverage ? "#047857" : "#94a3b8",
+            cursor: "pointer",
+          }}
+        >
+          <span
+            style={{
+              width: "12px",
+              height: "12px",
+              borderRadius: "50%",
+              backgroundColor: showMovingAverage ? COLORS.movingAverage : "#cbd5e1",
+            }}
+          />
+          移动平均
+        </button>
+      )}
+      {hasTrend && (
+        <button
+          onClick={() => setShowTrend(!showTrend)}
+          style={{
+            display: "flex",
+            alignItems: "center",
+            gap: "8px",
+            padding: "6px 12px",
+            borderRadius: "9999px",
+            fontSize: "14px",
+            fontWeight: 500,
+            border: showTrend ? "2px solid #64748b" : "none",
+            backgroundColor: showTrend ? "#e2e8f0" : "#f1f5f9",
+            color: showTrend ? "#334155" : "#94a3b8",
+            cursor: "pointer",
+          }}
+        >
+          <span
+            style={{
+              width: "12px",
+              height: "2px",
+              backgroundColor: showTrend ? "#64748b" : "#cbd5e1",
+            }}
+          />
+          趋势线
+        </button>
+      )}
+      {hasCorrected && (
+        <button
+          onClick={() => setShowCorrected(!showCorrected)}
+          style={{
+            display: "flex",
+            alignItems: "center",
+            gap: "8px",
+            padding: "6px 12px",
+            borderRadius: "9999px",
+            fontSize: "14px",
+            fontWeight: 500,
+            border: showCorrected ? `2px solid ${COLORS.correctedLeft}` : "none",
+            backgroundColor: showCorrected ? "#e0e7ff" : "#f1f5f9",
+            color: showCorrected ? "#3730a3" : "#94a3b8",
+            cursor: "pointer",
+          }}
+          title="按中央角膜厚度校正的眼压（Ehlers 近似公式）"
+        >
+          <span
+            style={{
+              width: "12px",
+              height: "2px",
+              backgroundColor: showCorrected ? COLORS.correctedLeft : "#cbd5e1",
+            }}
+          />
+          CCT 校正
+        </button>
+      )}
+      {hasSpread && (
+        <button
+          onClick={() => setShowSpread(!showSpread)}
+          style={{
+            display: "flex",
+            alignItems: "center",
+            gap: "8px",
+            padding: "6px 12px",
+            borderRadius: "9999px",
+            fontSize: "14px",
+            fontWeight: 500,
+            border: showSpread ? "2px solid #64748b" : "none",
+            backgroundColor: showSpread ? "#e2e8f0" : "#f1f5f9",
+            color: showSpread ? "#334155" : "#94a3b8",
+            cursor: "pointer",
+          }}
+          title="多次测量的范围（不含异常值）"
+        >
+          <span
+            style={{
+              width: "2px",
+              height: "12px",
+              backgroundColor: showSpread ? "#64748b" : "#cbd5e1",
+            }}
+          />
+          测量范围
+        </button>
+      )}
+      {eventMarks.length > 0 && (
+        <button
+          onClick={() => setShowEvents(!showEvents)}
+          style={{
+            display: "flex",
+            alignItems: "center",
+            gap: "8px",
+            padding: "6px 12px",
+            borderRadius: "9999px",
+            fontSize: "14px",
+            fontWeight: 500,
+            border: showEvents ? `2px solid ${EVENT_COLORS.medication}` : "none",
+            backgroundColor: showEvents ? "#ccfbf1" : "#f1f5f9",
+            color: showEvents ? "#0f766e" : "#94a3b8",
+            cursor: "pointer",
+          }}
+        >
+          <span
+            style={{
+              width: "2px",
+              height: "12px",
+              backgroundColor: showEvents ? EVENT_COLORS.medication : "#cbd5e1",
+            }}
+          />
+          治疗事件
+        </button>
+      )}
       {/* X axis scale toggle */}
       <button
         onClick={() => setUseTimeScale(!useTimeScale)}
@@ -302,6 +728,50 @@ export default function PressureChart({ data, title, is24h = false }: PressureCh
         </svg>
         {useTimeScale ? "时间比例" : "均匀分布"}
       </button>
+      {/* Bridge or show gaps where an eye wasn't measured */}
+      {hasGaps && (
+        <button
+          onClick={() => setConnectGaps(!connectGaps)}
+          style={{
+            display: "flex",
+            alignItems: "center",
+            gap: "6px",
+            padding: "6px 12px",
+            borderRadius: "9999px",
+            fontSize: "13px",
+            fontWeight: 500,
+            border: "1px solid #cbd5e1",
+            backgroundColor: connectGaps ? "#fef3c7" : "#f1f5f9",
+            color: connectGaps ? "#92400e" : "#64748b",
+            cursor: "pointer",
+          }}
+          title={connectGaps ? "当前：跨过未测量的读数连线" : "当前：未测量处断开"}
+        >
+          {connectGaps ? "连接缺测" : "缺测断开"}
+        </button>
+      )}
+      {/* Fold multi-day 24h sessions onto one clock axis */}
+      {spansDays && (
+        <button
+          onClick={() => setFolded(!folded)}
+          style={{
+            display: "flex",
+            alignItems: "center",
+            gap: "6px",
+            padding: "6px 12px",
+            borderRadius: "9999px",
+            fontSize: "13px",
+            fontWeight: 500,
+            border: "1px solid #cbd5e1",
+            backgroundColor: folded ? "#fef3c7" : "#f1f5f9",
+            color: folded ? "#92400e" : "#64748b",
+            cursor: "pointer",
+          }}
+          title={folded ? "当前：各天按时钟叠加" : "当前：连续时间轴"}
+        >
+          {folded ? "按时钟折叠" : "连续显示"}
+        </button>
+      )}
     </div>
   );
 
@@ -378,153 +848,381 @@ export default function PressureChart({ data, title, is24h = false }: PressureCh
       {/* Legend controls */}
       {renderLegend()}
 
+      {/* Marker key for measurement conditions and missed planned readings */}
+      {(markerKey.tonometers.length > 0 || markerKey.supine || showMissed) && (
+        <div
+          style={{
+            display: "flex",
+            flexWrap: "wrap",
+            justifyContent: "center",
+            gap: "12px",
+            marginTop: "-8px",
+            marginBottom: "12px",
+            fontSize: "12px",
+            color: "#64748b",
+          }}
+        >
+          {markerKey.tonometers.map((tonometer) => (
+            <span key={tonometer} style={{ display: "flex", alignItems: "center", gap: "4px" }}>
+              <svg width="14" height="14">
+                <MarkerSymbol
+                  cx={7}
+                  cy={7}
+                  r={4}
+                  shape={TONOMETER_MARKERS[tonometer]}
+                  color="#64748b"
+                  hollow={false}
+                />
+              </svg>
+              {TONOMETER_LABELS[tonometer]}
+            </span>
+          ))}
+          {markerKey.supine && (
+            <span style={{ display: "flex", alignItems: "center", gap: "4px" }}>
+              <svg width="14" height="14">
+                <MarkerSymbol cx={7} cy={7} r={4} shape="circle" color="#64748b" hollow />
+              </svg>
+              空心：卧位
+            </span>
+          )}
+          {showMissed && (
+            <span style={{ display: "flex", alignItems: "center", gap: "4px", color: "#dc2626" }}>
+              <svg width="14" height="14">
+                <circle cx={7} cy={7} r={3.5} fill="#dc2626" />
+              </svg>
+              漏测的计划时间点（{missedMinutes.size}）
+            </span>
+          )}
+        </div>
+      )}
+
       {/* Chart container with explicit dimensions */}
       <div
         ref={chartWrapperRef}
         style={{
           width: "100%",
-          height: isFullscreen ? "calc(100% - 120px)" : "300px",
+          height: isFullscreen ? "calc(100% - 120px)" : showBrush ? "340px" : "300px",
           minHeight: "300px",
           display: "flex",
           justifyContent: "center",
           alignItems: "center",
         }}
       >
-        <LineChart
-          width={dimensions.width}
-          height={dimensions.height}
-          data={data}
-          margin={{ top: 10, right: 30, left: 0, bottom: 10 }}
-        >
-          <defs>
-            <linearGradient id="safeZone" x1="0" y1="0" x2="0" y2="1">
-              <stop offset="0%" stopColor="#22c55e" stopOpacity={0.15} />
-              <stop offset="100%" stopColor="#22c55e" stopOpacity={0.05} />
-            </linearGradient>
-          </defs>
-
-          {/* Safe zone background (10-21) */}
-          <ReferenceArea
-            y1={NORMAL_MIN}
-            y2={NORMAL_MAX}
-            fill="url(#safeZone)"
-            fillOpacity={1}
+        {folded && spansDays ? (
+          <FoldedDayChart
+            data={data}
+            width={dimensions.width}
+            height={dimensions.height}
+            yAxisDomain={yAxisDomain}
+            yAxisTicks={yAxisTicks}
+            showLeft={showLeft}
+            showRight={showRight}
+            safeZoneMax={safeZoneMax}
+            uniformTarget={uniformTarget}
+            timeZone={timeZone}
           />
+        ) : (
+          <LineChart
+            width={dimensions.width}
+            height={dimensions.height}
+            data={data}
+            margin={{ top: 10, right: 30, left: 0, bottom: 10 }}
+          >
+            <defs>
+              <linearGradient id="safeZone" x1="0" y1="0" x2="0" y2="1">
+                <stop offset="0%" stopColor="#22c55e" stopOpacity={0.15} />
+                <stop offset="100%" stopColor="#22c55e" stopOpacity={0.05} />
+              </linearGradient>
+            </defs>
 
-          <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
-
-          {/* Reference lines for normal range boundaries */}
-          <ReferenceLine
-            y={NORMAL_MIN}
-            stroke="#22c55e"
-            strokeDasharray="5 5"
-            strokeWidth={1}
-            label={{
-              value: "正常下限",
-              position: "right",
-              fill: "#22c55e",
-              fontSize: 11,
-            }}
-          />
-          <ReferenceLine
-            y={NORMAL_MAX}
-            stroke="#f59e0b"
-            strokeDasharray="5 5"
-            strokeWidth={2}
-            label={{
-              value: "正常上限",
-              position: "right",
-              fill: "#f59e0b",
-              fontSize: 11,
-            }}
-          />
+            {/* Safe zone background (normal lower bound up to the lowest target) */}
+            <ReferenceArea
+              y1={NORMAL_MIN}
+              y2={safeZoneMax}
+              fill="url(#safeZone)"
+              fillOpacity={1}
+            />
 
-          {/* X Axis: time-proportional or uniform based on toggle */}
-          {useTimeScale ? (
-            <XAxis
-              dataKey="minutesFromStart"
-              type="number"
-              domain={["dataMin", "dataMax"]}
-              ticks={xAxisTicks}
-              tickFormatter={xAxisTickFormatter}
-              tick={{ fontSize: 11, fill: "#64748b" }}
-              tickLine={{ stroke: "#cbd5e1" }}
-              axisLine={{ stroke: "#cbd5e1" }}
+            <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+
+            {/* Treatment events: shaded spans for courses, vertical markers for one-off events */}
+            {showEvents &&
+              eventMarks.map(({ event, x1, x2 }) =>
+                x2 !== null ? (
+                  <ReferenceArea
+                    key={event.id}
+                    x1={x1}
+                    x2={x2}
+                    fill={EVENT_COLORS[event.type]}
+                    fillOpacity={0.08}
+                    stroke={EVENT_COLORS[event.type]}
+                    strokeOpacity={0.3}
+                    label={{
+                      value: event.title,
+                      position: "insideTopLeft",
+                      fill: EVENT_COLORS[event.type],
+                      fontSize: 11,
+                    }}
+                  />
+                ) : (
+                  <ReferenceLine
+                    key={event.id}
+                    x={x1}
+                    stroke={EVENT_COLORS[event.type]}
+                    strokeWidth={1.5}
+                    label={{
+                      value: event.title,
+                      position: "insideTopRight",
+                      fill: EVENT_COLORS[event.type],
+                      fontSize: 11,
+                    }}
+                  />
+                )
+              )}
+
+            {/* Reference lines for normal range boundaries */}
+            <ReferenceLine
+              y={NORMAL_MIN}
+              stroke="#22c55e"
+              strokeDasharray="5 5"
+              strokeWidth={1}
+              label={{
+                value: "正常下限",
+                position: "right",
+                fill: "#22c55e",
+                fontSize: 11,
+              }}
             />
-          ) : (
-            <XAxis
-              dataKey="label"
-              tick={{ fontSize: 11, fill: "#64748b" }}
+            {uniformTarget !== null && (
+              <ReferenceLine
+                y={uniformTarget}
+                stroke={COLORS.target}
+                strokeDasharray="5 5"
+                strokeWidth={2}
+                label={{
+                  value: "目标眼压",
+                  position: "right",
+                  fill: COLORS.target,
+                  fontSize: 11,
+                }}
+              />
+            )}
+
+            {/* Midnight separators for sessions crossing calendar days */}
+            {midnightMarks.map(({ minutes, label, text }) =>
+              useTimeScale || label !== null ? (
+                <ReferenceLine
+                  key={text}
+                  x={useTimeScale ? minutes : label ?? undefined}
+                  stroke="#94a3b8"
+                  strokeDasharray="2 4"
+                  label={{ value: text, position: "insideTopLeft", fill: "#64748b", fontSize: 11 }}
+                />
+              ) : null
+            )}
+
+            {/* X Axis: time-proportional or uniform based on toggle */}
+            {useTimeScale ? (
+              <XAxis
+                dataKey="minutesFromStart"
+                type="number"
+                domain={xAxisDomain}
+                ticks={xAxisTicks}
+                tickFormatter={xAxisTickFormatter}
+                // Missed planned times are never skipped to make room for other labels
+                interval={missedMinutes.size > 0 ? 0 : "preserveEnd"}
+                tick={missedMinutes.size > 0 ? renderTimeTick : { fontSize: 11, fill: "#64748b" }}
+                tickLine={{ stroke: "#cbd5e1" }}
+                axisLine={{ stroke: "#cbd5e1" }}
+              />
+            ) : (
+              <XAxis
+                dataKey="label"
+                tick={{ fontSize: 11, fill: "#64748b" }}
+                tickLine={{ stroke: "#cbd5e1" }}
+                axisLine={{ stroke: "#cbd5e1" }}
+              />
+            )}
+
+            <YAxis
+              domain={yAxisDomain}
+              tick={{ fontSize: 12, fill: "#64748b" }}
               tickLine={{ stroke: "#cbd5e1" }}
               axisLine={{ stroke: "#cbd5e1" }}
+              ticks={yAxisTicks}
             />
-          )}
-
-          <YAxis
-            domain={yAxisDomain}
-            tick={{ fontSize: 12, fill: "#64748b" }}
-            tickLine={{ stroke: "#cbd5e1" }}
-            axisLine={{ stroke: "#cbd5e1" }}
-            ticks={yAxisTicks}
-          />
-          <Tooltip
-            contentStyle={{
-              backgroundColor: "white",
-              border: "1px solid #e2e8f0",
-              borderRadius: "8px",
-              boxShadow: "0 4px 6px -1px rgb(0 0 0 / 0.1)",
-            }}
-            labelFormatter={(value) => {
-              // Use labelMap for accurate time display
-              if (useTimeScale && typeof value === "number") {
-                return labelMap.get(value) || value;
-              }
-              return value;
-            }}
-            formatter={(value: number, name: string) => [
-              value.toFixed(2),
-              name === "left" ? "左眼" : name === "right" ? "右眼" : "均值",
-            ]}
-          />
-          <Legend content={() => null} />
-
-          {showLeft && (
-            <Line
-              type="monotone"
-              dataKey="left"
-              stroke={COLORS.left}
-              strokeWidth={2}
-              dot={{ fill: COLORS.left, strokeWidth: 2, r: 4 }}
-              activeDot={{ r: 6, fill: COLORS.left }}
-              name="left"
+            <Tooltip
+              contentStyle={{
+                backgroundColor: "white",
+                border: "1px solid #e2e8f0",
+                borderRadius: "8px",
+                boxShadow: "0 4px 6px -1px rgb(0 0 0 / 0.1)",
+              }}
+              labelFormatter={(value) => {
+                // Use labelMap for accurate time display
+                if (useTimeScale && typeof value === "number") {
+                  return labelMap.get(value) || value;
+                }
+                return value;
+              }}
+              formatter={(value: number, name: string) => [
+                value.toFixed(2),
+                SERIES_NAMES[name] ?? name,
+              ]}
             />
-          )}
+            <Legend content={() => null} />
 
-          {showRight && (
-            <Line
-              type="monotone"
-              dataKey="right"
-              stroke={COLORS.right}
-              strokeWidth={2}
-              dot={{ fill: COLORS.right, strokeWidth: 2, r: 4 }}
-              activeDot={{ r: 6, fill: COLORS.right }}
-              name="right"
-            />
-          )}
+            {showBrush && (
+              <Brush
+                dataKey="label"
+                height={24}
+                stroke="#94a3b8"
+                travellerWidth={8}
+                startIndex={brushRange?.startIndex ?? 0}
+                endIndex={brushRange?.endIndex ?? data.length - 1}
+                onChange={handleBrushChange}
+              />
+            )}
 
-          {showAverage && (
-            <Line
-              type="monotone"
-              dataKey="average"
-              stroke={COLORS.average}
-              strokeWidth={2}
-              strokeDasharray="5 5"
-              dot={{ fill: COLORS.average, strokeWidth: 2, r: 4 }}
-              activeDot={{ r: 6, fill: COLORS.average }}
-              name="average"
-            />
-          )}
-        </LineChart>
+            {showLeft && (
+              <Line
+                type="monotone"
+                dataKey="left"
+                stroke={COLORS.left}
+                strokeWidth={2}
+                dot={leftDot}
+                activeDot={{ r: 6, fill: COLORS.left }}
+                connectNulls={connectGaps}
+                name="left"
+              >
+                {hasSpread && showSpread && (
+                  <ErrorBar dataKey="spreadLeft" width={4} stroke={COLORS.left} direction="y" />
+                )}
+              </Line>
+            )}
+
+            {showRight && (
+              <Line
+                type="monotone"
+                dataKey="right"
+                stroke={COLORS.right}
+                strokeWidth={2}
+                dot={rightDot}
+                activeDot={{ r: 6, fill: COLORS.right }}
+                connectNulls={connectGaps}
+                name="right"
+              >
+                {hasSpread && showSpread && (
+                  <ErrorBar dataKey="spreadRight" width={4} stroke={COLORS.right} direction="y" />
+                )}
+              </Line>
+            )}
+
+            {showAverage && (
+              <Line
+                type="monotone"
+                dataKey="average"
+                stroke={COLORS.average}
+                strokeWidth={2}
+                strokeDasharray="5 5"
+                dot={{ fill: COLORS.average, strokeWidth: 2, r: 4 }}
+                activeDot={{ r: 6, fill: COLORS.average }}
+                connectNulls={connectGaps}
+                name="average"
+              />
+            )}
+
+            {hasCorrected && showCorrected && showLeft && (
+              <Line
+                type="monotone"
+                dataKey="correctedLeft"
+                stroke={COLORS.correctedLeft}
+                strokeWidth={2}
+                strokeDasharray="3 3"
+                dot={{ fill: COLORS.correctedLeft, r: 2 }}
+                connectNulls
+                name="correctedLeft"
+              />
+            )}
+
+            {hasCorrected && showCorrected && showRight && (
+              <Line
+                type="monotone"
+                dataKey="correctedRight"
+                stroke={COLORS.correctedRight}
+                strokeWidth={2}
+                strokeDasharray="3 3"
+                dot={{ fill: COLORS.correctedRight, r: 2 }}
+                connectNulls
+                name="correctedRight"
+              />
+            )}
+
+            {hasTrend && showMovingAverage && (
+              <Line
+                type="monotone"
+                dataKey="movingAverage"
+                stroke={COLORS.movingAverage}
+                strokeWidth={2}
+                dot={false}
+                name="movingAverage"
+              />
+            )}
+
+            {hasTrend && showTrend && (
+              <Line
+                type="linear"
+                dataKey="trendLeft"
+                stroke={COLORS.trendLeft}
+                strokeWidth={2}
+                strokeDasharray="8 4"
+                dot={false}
+                activeDot={false}
+                name="trendLeft"
+              />
+            )}
+
+            {hasTrend && showTrend && (
+              <Line
+                type="linear"
+                dataKey="trendRight"
+                stroke={COLORS.trendRight}
+                strokeWidth={2}
+                strokeDasharray="8 4"
+                dot={false}
+                activeDot={false}
+                name="trendRight"
+              />
+            )}
+
+            {/* Stepped per-eye targets when they change over the range */}
+            {uniformTarget === null && (
+              <Line
+                type="stepAfter"
+                dataKey="targetLeft"
+                stroke={COLORS.trendLeft}
+                strokeWidth={2}
+                strokeDasharray="5 5"
+                dot={false}
+                activeDot={false}
+                name="targetLeft"
+              />
+            )}
+
+            {uniformTarget === null && (
+              <Line
+                type="stepAfter"
+                dataKey="targetRight"
+                stroke={COLORS.trendRight}
+                strokeWidth={2}
+                strokeDasharray="5 5"
+                dot={false}
+                activeDot={false}
+                name="targetRight"
+              />
+            )}
+          </LineChart>
+        )}
       </div>
     </div>
   );
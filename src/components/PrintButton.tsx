@@ -0,0 +1,24 @@
+/**
+ * Button that opens the browser print dialog
+ */
+
+"use client";
+
+export default function PrintButton() {
+  return (
+    <button
+      onClick={() => window.print()}
+      style={{
+        padding: "8px 16px",
+        backgroundColor: "#3b82f6",
+        color: "white",
+        borderRadius: "8px",
+        border: "none",
+        cursor: "pointer",
+        fontSize: "14px",
+      }}
+    >
+      打印
+    </button>
+  );
+}
@@ -0,0 +1,43 @@
+/**
+ * Header switcher between patient profiles
+ * Navigates to the same page of the selected profile
+ */
+
+"use client";
+
+import { useRouter } from "next/navigation";
+
+interface ProfileSwitcherProps {
+  // Profiles with the link to the current page in each
+  profiles: { id: string; name: string; href: string }[];
+  current: string;
+}
+
+export default function ProfileSwitcher({ profiles, current }: ProfileSwitcherProps) {
+  const router = useRouter();
+
+  return (
+    <select
+      value={current}
+      onChange={(e) => {
+        const target = profiles.find((p) => p.id === e.target.value);
+        if (target) router.push(target.href);
+      }}
+      title="切换患者"
+      style={{
+        padding: "6px 8px",
+        fontSize: "14px",
+        border: "1px solid #cbd5e1",
+        borderRadius: "6px",
+        color: "#0f172a",
+        backgroundColor: "white",
+      }}
+    >
+      {profiles.map((profile) => (
+        <option key={profile.id} value={profile.id}>
+          {profile.name}
+        </option>
+      ))}
+    </select>
+  );
+}
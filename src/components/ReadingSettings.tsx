@@ -0,0 +1,117 @@
+/**
+ * Editor for multiple readings per timepoint
+ * Sets how several readings of an eye are reduced to the stored value and when one is an outlier
+ */
+
+"use client";
+
+import { useState, useTransition } from "react";
+import { AGGREGATION_LABELS, ReadingAggregation, ReadingOptions } from "@/lib/readings";
+import { saveReadingOptionsAction } from "@/app/actions";
+
+interface ReadingSettingsProps {
+  // Profile the changes are written to
+  profileId: string;
+  options: ReadingOptions;
+}
+
+export default function ReadingSettings({ profileId, options }: ReadingSettingsProps) {
+  const [isPending, startTransition] = useTransition();
+  const [aggregation, setAggregation] = useState<ReadingAggregation>(options.aggregation);
+  const [deviation, setDeviation] = useState(options.outlierDeviation.toString());
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const outlierDeviation = parseFloat(deviation);
+    if (!Number.isFinite(outlierDeviation) || outlierDeviation <= 0) {
+      setError("异常值阈值应为正数");
+      return;
+    }
+    setError(null);
+    startTransition(async () => {
+      const result = await saveReadingOptionsAction(profileId, { aggregation, outlierDeviation });
+      if (!result.ok) setError(result.error);
+    });
+  };
+
+  const inputStyle = {
+    padding: "6px 8px",
+    fontSize: "14px",
+    border: "1px solid #cbd5e1",
+    borderRadius: "6px",
+    color: "#0f172a",
+    backgroundColor: "white",
+  };
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: "16px" }}>
+      <div>
+        <h2 style={{ fontSize: "20px", fontWeight: 700, color: "#0f172a" }}>多次测量</h2>
+        <p style={{ marginTop: "4px", fontSize: "13px", color: "#64748b" }}>
+          同一时间点填写多个读数（如回弹式眼压计连测 3 次）时，记录的眼压取这些读数的均值或中位数；
+          与中位数相差超过阈值的读数视为异常值，不参与计算并在表格中标出。修改只影响之后保存的记录。
+        </p>
+      </div>
+
+      <form
+        onSubmit={handleSubmit}
+        style={{
+          display: "flex",
+          flexWrap: "wrap",
+          alignItems: "center",
+          gap: "12px",
+          padding: "16px",
+          backgroundColor: "white",
+          borderRadius: "8px",
+          border: "1px solid #e2e8f0",
+        }}
+      >
+        <label style={{ display: "flex", alignItems: "center", gap: "8px", fontSize: "14px", color: "#334155" }}>
+          取值
+          <select
+            value={aggregation}
+            onChange={(e) => setAggregation(e.target.value as ReadingAggregation)}
+            style={inputStyle}
+          >
+            {(Object.keys(AGGREGATION_LABELS) as ReadingAggregation[]).map((key) => (
+              <option key={key} value={key}>
+                {AGGREGATION_LABELS[key]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label style={{ display: "flex", alignItems: "center", gap: "8px", fontSize: "14px", color: "#334155" }}>
+          异常值阈值
+          <input
+            type="number"
+            step="0.5"
+            min="0.5"
+            max="20"
+            value={deviation}
+            onChange={(e) => setDeviation(e.target.value)}
+            style={{ ...inputStyle, width: "80px" }}
+          />
+          mmHg
+        </label>
+        <button
+          type="submit"
+          disabled={isPending}
+          style={{
+            padding: "7px 16px",
+            backgroundColor: "#3b82f6",
+            color: "white",
+            borderRadius: "6px",
+            border: "none",
+            cursor: isPending ? "default" : "pointer",
+            fontSize: "14px",
+            opacity: isPending ? 0.6 : 1,
+          }}
+        >
+          保存
+        </button>
+      </form>
+      {error && <p style={{ fontSize: "13px", color: "#dc2626" }}>{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,359 @@
+/**
+ * Form for adding or editing an eye pressure record
+ * Collects the eye values (one may be left empty), measurement time and zone, 24h flag, optional session ID and note,
+ * and the optional measurement conditions (tonometer, position, measurer, CCT);
+ * an eye may hold several readings (e.g. "17 18 21"), reduced to one value by the profile's reading options
+ */
+
+"use client";
+
+import { useState } from "react";
+import { BodyPosition, EyePressureRecordInput, Measurer, Tonometer } from "@/types";
+import { isValidTimeZone, toZonedWallTime, zonedWallTimeToUtc } from "@/lib/time";
+import {
+  BODY_POSITIONS,
+  CCT_MAX,
+  CCT_MIN,
+  MEASURERS,
+  MEASURER_LABELS,
+  POSITION_LABELS,
+  TONOMETERS,
+  TONOMETER_LABELS,
+  parseCct,
+} from "@/lib/measurement";
+import {
+  AGGREGATION_LABELS,
+  MAX_READINGS,
+  ReadingOptions,
+  applyReadings,
+  formatReadings,
+  parseReadings,
+  summarizeReadings,
+} from "@/lib/readings";
+
+interface RecordFormProps {
+  initial?: EyePressureRecordInput;
+  submitLabel?: string;
+  // Aggregation of multiple readings, applied here so the saved value shows right away
+  readingOptions: ReadingOptions;
+  onSubmit: (input: EyePressureRecordInput) => void;
+  onCancel?: () => void;
+}
+
+// Input text of an eye: its readings when there are several, otherwise its value
+function eyeText(readings: number[] | undefined, value: number | null | undefined): string {
+  return readings && readings.length > 1 ? formatReadings(readings) : (value?.toString() ?? "");
+}
+
+export default function RecordForm({
+  initial,
+  submitLabel = "保存",
+  readingOptions,
+  onSubmit,
+  onCancel,
+}: RecordFormProps) {
+  // The time is entered as wall-clock time in the zone the reading was taken in
+  // (the record's own zone when editing, otherwise the browser's current zone)
+  const [timeZone, setTimeZone] = useState(
+    () => initial?.timeZone ?? Intl.DateTimeFormat().resolvedOptions().timeZone
+  );
+  const [date, setDate] = useState(() =>
+    toZonedWallTime(initial?.date ?? new Date().toISOString(), timeZone)
+  );
+  const [left, setLeft] = useState(() => eyeText(initial?.readingsLeft, initial?.left));
+  const [right, setRight] = useState(() => eyeText(initial?.readingsRight, initial?.right));
+  const [is24h, setIs24h] = useState(initial?.is24h ?? false);
+  const [note, setNote] = useState(initial?.note ?? "");
+  const [sessionId, setSessionId] = useState(initial?.sessionId ?? "");
+  const [tonometer, setTonometer] = useState<Tonometer | "">(initial?.tonometer ?? "");
+  const [position, setPosition] = useState<BodyPosition | "">(initial?.position ?? "");
+  const [measuredBy, setMeasuredBy] = useState<Measurer | "">(initial?.measuredBy ?? "");
+  const [cctLeft, setCctLeft] = useState(initial?.cctLeft?.toString() ?? "");
+  const [cctRight, setCctRight] = useState(initial?.cctRight?.toString() ?? "");
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    // An empty eye wasn't measured
+    const leftReadings = parseReadings(left);
+    const rightReadings = parseReadings(right);
+    if (!left.trim() && !right.trim()) {
+      setError("请至少填写一只眼的眼压");
+      return;
+    }
+    for (const [text, readings] of [[left, leftReadings], [right, rightReadings]] as const) {
+      if (!text.trim()) continue;
+      if (readings === null || readings.some((value) => value < 0 || value > 80)) {
+        setError("眼压应为 0–80 之间的数字，多次测量用空格分隔");
+        return;
+      }
+      if (readings.length > MAX_READINGS) {
+        setError(`每只眼最多填写 ${MAX_READINGS} 次测量`);
+        return;
+      }
+    }
+    if (!date) {
+      setError("请填写测量时间");
+      return;
+    }
+    const zone = timeZone.trim();
+    if (!isValidTimeZone(zone)) {
+      setError(`无效的时区：${zone}`);
+      return;
+    }
+    const cctLeftValue = parseCct(cctLeft);
+    const cctRightValue = parseCct(cctRight);
+    if ((cctLeft && cctLeftValue === null) || (cctRight && cctRightValue === null)) {
+      setError(`角膜厚度应在 ${CCT_MIN}–${CCT_MAX} μm 之间`);
+      return;
+    }
+    setError(null);
+    onSubmit(
+      applyReadings(
+        {
+          name: initial?.name ?? "",
+          date: zonedWallTimeToUtc(date, zone).toISOString(),
+          timeZone: zone,
+          left: null,
+          right: null,
+          ...(leftReadings && { readingsLeft: leftReadings }),
+          ...(rightReadings && { readingsRight: rightReadings }),
+          is24h,
+          note,
+          sessionId: sessionId.trim() || undefined,
+          ...(tonometer && { tonometer }),
+          ...(position && { position }),
+          ...(measuredBy && { measuredBy }),
+          ...(cctLeftValue !== null && { cctLeft: cctLeftValue }),
+          ...(cctRightValue !== null && { cctRight: cctRightValue }),
+        },
+        readingOptions
+      )
+    );
+  };
+
+  // Value several readings reduce to, shown under the input
+  const readingsHint = (text: string) => {
+    const readings = parseReadings(text);
+    if (!readings || readings.length < 2) return null;
+    const { value, outliers } = summarizeReadings(readings, readingOptions);
+    const excluded = outliers.filter(Boolean).length;
+    return (
+      <span style={{ fontSize: "11px", fontWeight: 400, color: "#64748b" }}>
+        {AGGREGATION_LABELS[readingOptions.aggregation]} {Number(value.toFixed(2))}
+        {excluded > 0 && `（排除 ${excluded} 个异常值）`}
+      </span>
+    );
+  };
+
+  const labelStyle = {
+    display: "flex",
+    flexDirection: "column" as const,
+    gap: "4px",
+    fontSize: "12px",
+    fontWeight: 600,
+    color: "#475569",
+  };
+
+  const inputStyle = {
+    padding: "6px 8px",
+    fontSize: "14px",
+    border: "1px solid #cbd5e1",
+    borderRadius: "6px",
+    color: "#0f172a",
+    backgroundColor: "white",
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      style={{
+        display: "flex",
+        flexWrap: "wrap",
+        alignItems: "flex-end",
+        gap: "12px",
+      }}
+    >
+      <label style={labelStyle}>
+        测量时间
+        <input
+          type="datetime-local"
+          value={date}
+          onChange={(e) => setDate(e.target.value)}
+          style={inputStyle}
+          required
+        />
+      </label>
+      <label style={labelStyle}>
+        时区
+        <input
+          type="text"
+          value={timeZone}
+          onChange={(e) => setTimeZone(e.target.value)}
+          title="测量时所在的时区（IANA 名称如 Asia/Shanghai，或 +08:00）"
+          style={{ ...inputStyle, width: "136px" }}
+          required
+        />
+      </label>
+      <label style={labelStyle}>
+        左眼
+        <input
+          type="text"
+          inputMode="decimal"
+          value={left}
+          onChange={(e) => setLeft(e.target.value)}
+          placeholder="未测"
+          title="多次测量用空格分隔，如 17 18 21"
+          style={{ ...inputStyle, width: "112px" }}
+        />
+        {readingsHint(left)}
+      </label>
+      <label style={labelStyle}>
+        右眼
+        <input
+          type="text"
+          inputMode="decimal"
+          value={right}
+          onChange={(e) => setRight(e.target.value)}
+          placeholder="未测"
+          title="多次测量用空格分隔，如 17 18 21"
+          style={{ ...inputStyle, width: "112px" }}
+        />
+        {readingsHint(right)}
+      </label>
+      <label style={{ ...labelStyle, flexDirection: "row", alignItems: "center", paddingBottom: "8px" }}>
+        <input type="checkbox" checked={is24h} onChange={(e) => setIs24h(e.target.checked)} />
+        24小时测量
+      </label>
+      <label style={labelStyle}>
+        会话编号
+        <input
+          type="text"
+          value={sessionId}
+          onChange={(e) => setSessionId(e.target.value)}
+          placeholder="可选"
+          title="相同编号的测量归为同一组 24 小时眼压"
+          style={{ ...inputStyle, width: "96px" }}
+        />
+      </label>
+      <label style={labelStyle}>
+        眼压计
+        <select
+          value={tonometer}
+          onChange={(e) => setTonometer(e.target.value as Tonometer | "")}
+          style={inputStyle}
+        >
+          <option value="">未填写</option>
+          {TONOMETERS.map((t) => (
+            <option key={t} value={t}>
+              {TONOMETER_LABELS[t]}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label style={labelStyle}>
+        体位
+        <select
+          value={position}
+          onChange={(e) => setPosition(e.target.value as BodyPosition | "")}
+          style={inputStyle}
+        >
+          <option value="">未填写</option>
+          {BODY_POSITIONS.map((p) => (
+            <option key={p} value={p}>
+              {POSITION_LABELS[p]}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label style={labelStyle}>
+        测量者
+        <select
+          value={measuredBy}
+          onChange={(e) => setMeasuredBy(e.target.value as Measurer | "")}
+          style={inputStyle}
+        >
+          <option value="">未填写</option>
+          {MEASURERS.map((m) => (
+            <option key={m} value={m}>
+              {MEASURER_LABELS[m]}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label style={labelStyle}>
+        左眼 CCT
+        <input
+          type="number"
+          step="1"
+          min={CCT_MIN}
+          max={CCT_MAX}
+          value={cctLeft}
+          onChange={(e) => setCctLeft(e.target.value)}
+          placeholder="μm"
+          title="中央角膜厚度（μm），用于校正眼压"
+          style={{ ...inputStyle, width: "88px" }}
+        />
+      </label>
+      <label style={labelStyle}>
+        右眼 CCT
+        <input
+          type="number"
+          step="1"
+          min={CCT_MIN}
+          max={CCT_MAX}
+          value={cctRight}
+          onChange={(e) => setCctRight(e.target.value)}
+          placeholder="μm"
+          title="中央角膜厚度（μm），用于校正眼压"
+          style={{ ...inputStyle, width: "88px" }}
+        />
+      </label>
+      <label style={{ ...labelStyle, flex: "1 1 160px" }}>
+        备注
+        <input
+          type="text"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          style={inputStyle}
+        />
+      </label>
+      <div style={{ display: "flex", gap: "8px" }}>
+        <button
+          type="submit"
+          style={{
+            padding: "7px 16px",
+            backgroundColor: "#3b82f6",
+            color: "white",
+            borderRadius: "6px",
+            border: "none",
+            cursor: "pointer",
+            fontSize: "14px",
+          }}
+        >
+          {submitLabel}
+        </button>
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            style={{
+              padding: "7px 16px",
+              backgroundColor: "#f1f5f9",
+              color: "#475569",
+              borderRadius: "6px",
+              border: "none",
+              cursor: "pointer",
+              fontSize: "14px",
+            }}
+          >
+            取消
+          </button>
+        )}
+      </div>
+      {error && (
+        <p style={{ width: "100%", fontSize: "13px", color: "#dc2626" }}>{error}</p>
+      )}
+    </form>
+  );
+}
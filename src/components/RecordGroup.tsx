@@ -1,23 +1,134 @@
 /**
  * Record group component combining table and chart
- * Displays one group of eye pressure measurements
+ * Displays one group of eye pressure measurements; a planned 24h session also shows
+ * its planned vs taken readings, with missed ones marked on the chart
  */
 
 "use client";
 
-import { useState } from "react";
-import { RecordGroup as RecordGroupType } from "@/types";
+import { useMemo, useState } from "react";
+import {
+  EyePressureRecordInput,
+  PlanSlot,
+  RecordGroup as RecordGroupType,
+  TargetPressure,
+  TreatmentEvent,
+} from "@/types";
 import { toChartData } from "@/lib/grouping";
+import {
+  DEFAULT_TREND_OPTIONS,
+  SleepWindow,
+  computeSessionMetrics,
+  computeTrendMetrics,
+  withTrendSeries,
+} from "@/lib/analytics";
+import { withTargetSeries } from "@/lib/targets";
+import { ReadingOptions } from "@/lib/readings";
+import { DEFAULT_EVENT_WINDOW_DAYS, compareAroundEvent, eventOverlaps } from "@/lib/events";
 import DataTable from "./DataTable";
-import PressureChart from "./PressureChart";
+import PressureChart, { BrushRange } from "./PressureChart";
+import ExportMenu from "./ExportMenu";
+import SessionSummary from "./SessionSummary";
+import TrendSummary from "./TrendSummary";
+import EventComparison from "./EventComparison";
+import PlanSlots from "./PlanSlots";
 
 interface RecordGroupProps {
   group: RecordGroupType;
+  sleepWindow: SleepWindow;
+  targets: TargetPressure[];
+  // Outlier deviation for reading error bars and table flags
+  readingOptions: ReadingOptions;
+  events: TreatmentEvent[];
+  // Planned reading times of the 24h session, matched against all of its readings
+  // (not just those left by a filter)
+  slots?: PlanSlot[] | null;
+  // Display zone for dates, day boundaries and the sleep window
+  timeZone: string;
+  onUpdate?: (id: string, input: EyePressureRecordInput) => void;
+  onDelete?: (id: string) => void;
+  // Selection for the 24h session overlay comparison
+  compareSelected?: boolean;
+  onToggleCompare?: () => void;
+  // Session corrections, offered for automatically detected 24h sessions
+  onMergeWithPrevious?: () => void;
+  onSplit?: (id: string) => void;
 }
 
-export default function RecordGroup({ group }: RecordGroupProps) {
+export default function RecordGroup({
+  group,
+  sleepWindow,
+  targets,
+  readingOptions,
+  events,
+  slots = null,
+  timeZone,
+  onUpdate,
+  onDelete,
+  compareSelected = false,
+  onToggleCompare,
+  onMergeWithPrevious,
+  onSplit,
+}: RecordGroupProps) {
   const [view, setView] = useState<"chart" | "table" | "both">("both");
-  const chartData = toChartData(group);
+  const [recentWeeks, setRecentWeeks] = useState(DEFAULT_TREND_OPTIONS.recentWeeks);
+  const [eventWindowDays, setEventWindowDays] = useState(DEFAULT_EVENT_WINDOW_DAYS);
+  // Brushed chart range, tied to the records it was made on so regrouping or filtering resets it
+  const [brush, setBrush] = useState<{ records: RecordGroupType["records"]; range: BrushRange } | null>(
+    null
+  );
+  const brushRange = brush?.records === group.records ? brush.range : null;
+
+  // Table rows follow the chart zoom (chart points are built one per record)
+  const tableRecords = useMemo(
+    () =>
+      brushRange ? group.records.slice(brushRange.startIndex, brushRange.endIndex + 1) : group.records,
+    [group, brushRange]
+  );
+
+  // Events overlapping this group's time range
+  const groupEvents = useMemo(() => {
+    if (group.records.length === 0) return [];
+    const first = new Date(group.records[0].date).getTime();
+    const last = new Date(group.records[group.records.length - 1].date).getTime();
+    return events.filter((event) => eventOverlaps(event, first, last));
+  }, [group, events]);
+
+  // Before/after means for events that start within regular measurements
+  const comparisons = useMemo(
+    () =>
+      group.type === "regular"
+        ? groupEvents.map((event) => compareAroundEvent(group.records, event, eventWindowDays))
+        : [],
+    [group, groupEvents, eventWindowDays]
+  );
+
+  // Clinical metrics for 24h sessions (peak, trough, fluctuation, day/night)
+  const metrics = useMemo(
+    () =>
+      group.type === "24h" ? computeSessionMetrics(group.records, sleepWindow, timeZone) : null,
+    [group, sleepWindow, timeZone]
+  );
+
+  // Long-term trend for regular measurements
+  const trend = useMemo(
+    () =>
+      group.type === "regular"
+        ? computeTrendMetrics(group.records, {
+            ...DEFAULT_TREND_OPTIONS,
+            targets,
+            timeZone,
+            recentWeeks,
+          })
+        : null,
+    [group, targets, timeZone, recentWeeks]
+  );
+
+  // Chart points with targets, plus moving average and regression overlays for regular measurements
+  const chartData = useMemo(() => {
+    const data = withTargetSeries(toChartData(group, timeZone, readingOptions), group.records, targets, timeZone);
+    return trend ? withTrendSeries(data, group.records, trend) : data;
+  }, [group, targets, timeZone, trend, readingOptions]);
 
   const buttonStyle = (isActive: boolean) => ({
     padding: "6px 12px",
@@ -48,27 +159,95 @@ export default function RecordGroup({ group }: RecordGroupProps) {
           {group.title}
         </h2>
 
-        {/* View toggle buttons */}
+        <div style={{ display: "flex", flexWrap: "wrap", alignItems: "center", gap: "16px" }}>
+          {onToggleCompare && (
+            <label
+              title="选择两组或以上 24 小时眼压进行叠加对比"
+              style={{ display: "flex", alignItems: "center", gap: "6px", fontSize: "13px", color: "#475569", cursor: "pointer" }}
+            >
+              <input type="checkbox" checked={compareSelected} onChange={onToggleCompare} />
+              对比
+            </label>
+          )}
+          {onMergeWithPrevious && (
+            <button
+              onClick={onMergeWithPrevious}
+              title="将本组并入上一组 24 小时眼压"
+              style={{
+                padding: "6px 12px",
+                fontSize: "13px",
+                color: "#475569",
+                backgroundColor: "#f1f5f9",
+                border: "none",
+                borderRadius: "6px",
+                cursor: "pointer",
+              }}
+            >
+              与上一组合并
+            </button>
+          )}
+          <ExportMenu
+            records={group.records}
+            metrics={metrics}
+            fileName={`eye-pressure-${group.id}`}
+          />
+
+          {/* View toggle buttons */}
+          <div
+            style={{
+              display: "flex",
+              gap: "4px",
+              padding: "4px",
+              backgroundColor: "#f1f5f9",
+              borderRadius: "8px",
+            }}
+          >
+            <button onClick={() => setView("chart")} style={buttonStyle(view === "chart")}>
+              图表
+            </button>
+            <button onClick={() => setView("table")} style={buttonStyle(view === "table")}>
+              表格
+            </button>
+            <button onClick={() => setView("both")} style={buttonStyle(view === "both")}>
+              全部
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {metrics && (
+        <div style={{ marginBottom: "16px" }}>
+          <SessionSummary metrics={metrics} timeZone={timeZone} />
+        </div>
+      )}
+      {slots && (
         <div
           style={{
-            display: "flex",
-            gap: "4px",
-            padding: "4px",
-            backgroundColor: "#f1f5f9",
+            marginBottom: "16px",
+            padding: "12px 16px",
+            backgroundColor: "white",
             borderRadius: "8px",
+            border: "1px solid #e2e8f0",
           }}
         >
-          <button onClick={() => setView("chart")} style={buttonStyle(view === "chart")}>
-            图表
-          </button>
-          <button onClick={() => setView("table")} style={buttonStyle(view === "table")}>
-            表格
-          </button>
-          <button onClick={() => setView("both")} style={buttonStyle(view === "both")}>
-            全部
-          </button>
+          <PlanSlots slots={slots} timeZone={timeZone} />
         </div>
-      </div>
+      )}
+      {trend && (
+        <div style={{ marginBottom: "16px" }}>
+          <TrendSummary trend={trend} onRecentWeeksChange={setRecentWeeks} />
+        </div>
+      )}
+      {comparisons.length > 0 && (
+        <div style={{ marginBottom: "16px" }}>
+          <EventComparison
+            comparisons={comparisons}
+            windowDays={eventWindowDays}
+            onWindowDaysChange={setEventWindowDays}
+            timeZone={timeZone}
+          />
+        </div>
+      )}
 
       {/* Content based on view selection */}
       <div
@@ -80,12 +259,60 @@ export default function RecordGroup({ group }: RecordGroupProps) {
       >
         {(view === "chart" || view === "both") && (
           <div style={view === "both" ? {} : { maxWidth: "900px", margin: "0 auto", width: "100%" }}>
-            <PressureChart data={chartData} title="眼压趋势" is24h={group.type === "24h"} />
+            <PressureChart
+              data={chartData}
+              title="眼压趋势"
+              is24h={group.type === "24h"}
+              events={groupEvents}
+              slots={slots ?? undefined}
+              timeZone={timeZone}
+              brushRange={brushRange}
+              onBrushChange={(range) => setBrush(range && { records: group.records, range })}
+            />
           </div>
         )}
         {(view === "table" || view === "both") && (
           <div style={view === "both" ? {} : { maxWidth: "900px", margin: "0 auto", width: "100%" }}>
-            <DataTable records={group.records} type={group.type} />
+            {brushRange && (
+              <div
+                style={{
+                  display: "flex",
+                  justifyContent: "space-between",
+                  alignItems: "center",
+                  marginBottom: "8px",
+                  fontSize: "13px",
+                  color: "#64748b",
+                }}
+              >
+                <span>
+                  已缩放：显示 {tableRecords.length} / {group.records.length} 条
+                </span>
+                <button
+                  onClick={() => setBrush(null)}
+                  style={{
+                    padding: "4px 10px",
+                    fontSize: "13px",
+                    color: "#475569",
+                    backgroundColor: "#f1f5f9",
+                    border: "none",
+                    borderRadius: "6px",
+                    cursor: "pointer",
+                  }}
+                >
+                  重置缩放
+                </button>
+              </div>
+            )}
+            <DataTable
+              records={tableRecords}
+              type={group.type}
+              targets={targets}
+              readingOptions={readingOptions}
+              timeZone={timeZone}
+              onUpdate={onUpdate}
+              onDelete={onDelete}
+              onSplit={onSplit}
+            />
           </div>
         )}
       </div>
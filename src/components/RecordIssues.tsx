@@ -0,0 +1,61 @@
+/**
+ * Warning panel listing source entries excluded by validation
+ * e.g. Notion pages with a missing eye value
+ */
+
+"use client";
+
+import { useState } from "react";
+import { RecordIssue } from "@/types";
+import { formatZoned } from "@/lib/time";
+
+interface RecordIssuesProps {
+  issues: RecordIssue[];
+  timeZone: string;
+}
+
+export default function RecordIssues({ issues, timeZone }: RecordIssuesProps) {
+  const [expanded, setExpanded] = useState(false);
+
+  if (issues.length === 0) return null;
+
+  return (
+    <div
+      style={{
+        padding: "12px 16px",
+        borderRadius: "8px",
+        backgroundColor: "#fef3c7",
+        border: "1px solid #fde68a",
+        color: "#92400e",
+        fontSize: "14px",
+      }}
+    >
+      <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: "12px" }}>
+        <span>{issues.length} 条记录数据不完整，未显示在图表中</span>
+        <button
+          onClick={() => setExpanded(!expanded)}
+          style={{
+            border: "none",
+            background: "transparent",
+            color: "#92400e",
+            cursor: "pointer",
+            fontSize: "13px",
+            textDecoration: "underline",
+          }}
+        >
+          {expanded ? "收起" : "查看"}
+        </button>
+      </div>
+      {expanded && (
+        <ul style={{ marginTop: "8px", paddingLeft: "20px", listStyle: "disc" }}>
+          {issues.map((issue) => (
+            <li key={issue.id}>
+              {issue.date ? formatZoned(issue.date, timeZone) : issue.id}
+              {issue.name && ` · ${issue.name}`}: {issue.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+/**
+ * Print-optimized clinical report
+ * Server component - renders summary statistics, static charts and record tables
+ */
+
+import { ReportData, toReportChartData } from "@/lib/report";
+import { RecordsSummary, SessionMetrics } from "@/lib/analytics";
+import { renderChartSvg } from "@/lib/svgChart";
+import { formatZoned } from "@/lib/time";
+import DataTable from "./DataTable";
+
+interface ReportViewProps {
+  report: ReportData;
+}
+
+const CHART_SIZE = { width: 720, height: 260 };
+const CHART_LABELS = { left: "左眼", right: "右眼" };
+
+const thStyle = {
+  padding: "6px 10px",
+  fontSize: "12px",
+  fontWeight: 600,
+  color: "#475569",
+  textAlign: "left" as const,
+  borderBottom: "1px solid #e2e8f0",
+};
+
+const tdStyle = {
+  padding: "6px 10px",
+  fontSize: "13px",
+  color: "#334155",
+  borderBottom: "1px solid #f1f5f9",
+};
+
+const sectionTitleStyle = {
+  fontSize: "16px",
+  fontWeight: 700,
+  color: "#0f172a",
+  marginBottom: "8px",
+};
+
+// Per-eye statistics table
+function SummaryTable({ summary, timeZone }: { summary: RecordsSummary; timeZone: string }) {
+  const rows = [
+    { label: "左眼", eye: summary.left },
+    { label: "右眼", eye: summary.right },
+  ];
+  return (
+    <table style={{ width: "100%", borderCollapse: "collapse" }}>
+      <thead>
+        <tr>
+          <th style={thStyle}></th>
+          <th style={thStyle}>均值</th>
+          <th style={thStyle}>峰值</th>
+          <th style={thStyle}>峰值时间</th>
+          <th style={thStyle}>谷值</th>
+          <th style={thStyle}>谷值时间</th>
+          <th style={thStyle}>波动</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map(({ label, eye }) => (
+          <tr key={label}>
+            <td style={{ ...tdStyle, fontWeight: 600 }}>{label}</td>
+            {eye ? (
+              <>
+                <td style={tdStyle}>{eye.mean.toFixed(1)}</td>
+                <td style={tdStyle}>{eye.max.toFixed(1)}</td>
+                <td style={tdStyle}>{formatZoned(eye.peakTime, timeZone)}</td>
+                <td style={tdStyle}>{eye.min.toFixed(1)}</td>
+                <td style={tdStyle}>{formatZoned(eye.troughTime, timeZone)}</td>
+                <td style={tdStyle}>{eye.fluctuation.toFixed(1)}</td>
+              </>
+            ) : (
+              <td style={{ ...tdStyle, color: "#94a3b8" }} colSpan={6}>
+                未测量
+              </td>
+            )}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+// Inter-eye asymmetry and day/night means for a session
+function SessionNotes({ metrics }: { metrics: SessionMetrics }) {
+  const mean = (value: number | null) => (value === null ? "-" : value.toFixed(1));
+  return (
+    <p style={{ fontSize: "12px", color: "#475569", marginTop: "4px" }}>
+      标准差 左 {mean(metrics.left?.stdDev ?? null)} / 右 {mean(metrics.right?.stdDev ?? null)} · 双眼差 均值{" "}
+      {mean(metrics.asymmetry?.mean ?? null)} / 最大 {mean(metrics.asymmetry?.max ?? null)} · 日间均值 左{" "}
+      {mean(metrics.diurnal.left)} / 右 {mean(metrics.diurnal.right)} · 夜间（{metrics.sleepWindow.start}–
+      {metrics.sleepWindow.end}）均值 左 {mean(metrics.nocturnal.left)} / 右 {mean(metrics.nocturnal.right)}
+    </p>
+  );
+}
+
+// Static SVG chart embedded as markup
+function ReportChart({ svg }: { svg: string }) {
+  return <div style={{ overflowX: "auto" }} dangerouslySetInnerHTML={{ __html: svg }} />;
+}
+
+export default function ReportView({ report }: ReportViewProps) {
+  const { range, summary, regular, sessions, timeZone } = report;
+  const rangeText = `${range.from ?? "最早"} 至 ${range.to ?? "最新"}`;
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: "24px", color: "#0f172a" }}>
+      <header>
+        <h1 style={{ fontSize: "22px", fontWeight: 700 }}>眼压报告</h1>
+        <p style={{ fontSize: "13px", color: "#64748b" }}>
+          {rangeText} · 共 {report.records.length} 条记录 · 生成于{" "}
+          {formatZoned(report.generatedAt, timeZone)} · 时区 {timeZone}
+        </p>
+      </header>
+
+      {!summary ? (
+        <p style={{ color: "#64748b" }}>所选日期范围内没有记录</p>
+      ) : (
+        <section className="print-avoid-break">
+          <h2 style={sectionTitleStyle}>总体统计</h2>
+          <SummaryTable summary={summary} timeZone={timeZone} />
+        </section>
+      )}
+
+      {regular && (
+        <section className="print-avoid-break">
+          <h2 style={sectionTitleStyle}>常规眼压趋势</h2>
+          <ReportChart svg={renderChartSvg(toReportChartData(report, regular), { ...CHART_SIZE, labels: CHART_LABELS })} />
+        </section>
+      )}
+
+      {sessions.map(({ group, metrics }) => (
+        <section key={group.id} className="print-avoid-break">
+          <h2 style={sectionTitleStyle}>{group.title}</h2>
+          <ReportChart svg={renderChartSvg(toReportChartData(report, group), { ...CHART_SIZE, labels: CHART_LABELS })} />
+          <div style={{ marginTop: "8px" }}>
+            <SummaryTable summary={metrics} timeZone={timeZone} />
+            <SessionNotes metrics={metrics} />
+          </div>
+        </section>
+      ))}
+
+      {regular && (
+        <section>
+          <h2 style={sectionTitleStyle}>常规测量记录</h2>
+          <DataTable
+            records={regular.records}
+            type="regular"
+            targets={report.targets}
+            readingOptions={report.readings}
+            timeZone={timeZone}
+          />
+        </section>
+      )}
+
+      {sessions.map(({ group }) => (
+        <section key={`${group.id}-table`}>
+          <h2 style={sectionTitleStyle}>{group.title} 记录</h2>
+          <DataTable
+            records={group.records}
+            type="24h"
+            targets={report.targets}
+            readingOptions={report.readings}
+            timeZone={timeZone}
+          />
+        </section>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,20 @@
+/**
+ * Service worker registration
+ * Installs public/sw.js so pages and charts open offline from the last fetched data
+ */
+
+"use client";
+
+import { useEffect } from "react";
+
+export default function ServiceWorkerRegistration() {
+  useEffect(() => {
+    // Development builds change on every edit, so caching them would only serve stale code
+    if (process.env.NODE_ENV !== "production" || !("serviceWorker" in navigator)) return;
+    navigator.serviceWorker
+      .register("/sw.js")
+      .catch((err) => console.error("Service worker registration failed:", err));
+  }, []);
+
+  return null;
+}
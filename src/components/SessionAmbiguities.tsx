@@ -0,0 +1,85 @@
+/**
+ * Panel listing 24h session boundaries the automatic detection wasn't sure about
+ * Each entry offers the suggested merge/split or keeping the current grouping
+ */
+
+"use client";
+
+import { useState } from "react";
+import { SessionOverride } from "@/types";
+import { SessionAmbiguity } from "@/lib/grouping";
+import { formatZoned } from "@/lib/time";
+
+interface SessionAmbiguitiesProps {
+  ambiguities: SessionAmbiguity[];
+  timeZone: string;
+  onResolve: (recordId: string, action: SessionOverride["action"]) => void;
+}
+
+export default function SessionAmbiguities({
+  ambiguities,
+  timeZone,
+  onResolve,
+}: SessionAmbiguitiesProps) {
+  const [expanded, setExpanded] = useState(false);
+
+  if (ambiguities.length === 0) return null;
+
+  const buttonStyle = {
+    marginLeft: "8px",
+    border: "none",
+    background: "transparent",
+    color: "#1d4ed8",
+    cursor: "pointer",
+    fontSize: "13px",
+    textDecoration: "underline",
+  };
+
+  return (
+    <div
+      style={{
+        padding: "12px 16px",
+        borderRadius: "8px",
+        backgroundColor: "#eff6ff",
+        border: "1px solid #bfdbfe",
+        color: "#1e3a8a",
+        fontSize: "14px",
+      }}
+    >
+      <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: "12px" }}>
+        <span>{ambiguities.length} 处 24 小时眼压分组可能需要确认</span>
+        <button
+          onClick={() => setExpanded(!expanded)}
+          style={{ ...buttonStyle, marginLeft: 0, color: "#1e3a8a" }}
+        >
+          {expanded ? "收起" : "查看"}
+        </button>
+      </div>
+      {expanded && (
+        <ul style={{ marginTop: "8px", paddingLeft: "20px", listStyle: "disc" }}>
+          {ambiguities.map((ambiguity) => (
+            <li key={`${ambiguity.kind}-${ambiguity.recordId}`} style={{ marginBottom: "4px" }}>
+              {formatZoned(ambiguity.date, timeZone)}：{ambiguity.message}
+              {ambiguity.suggestion === "merge" && (
+                <button onClick={() => onResolve(ambiguity.recordId, "merge")} style={buttonStyle}>
+                  并入上一组
+                </button>
+              )}
+              {ambiguity.suggestion === "split" && (
+                <button onClick={() => onResolve(ambiguity.recordId, "split")} style={buttonStyle}>
+                  在此拆分
+                </button>
+              )}
+              <button
+                onClick={() => onResolve(ambiguity.recordId, ambiguity.isBoundary ? "split" : "merge")}
+                style={{ ...buttonStyle, color: "#64748b" }}
+              >
+                保持现状
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
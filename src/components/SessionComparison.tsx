@@ -0,0 +1,325 @@
+/**
+ * Overlay comparison of selected 24h sessions
+ * Plots sessions aligned by clock time, their difference from the baseline session and a metrics table
+ */
+
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceLine,
+} from "recharts";
+import { RecordGroup } from "@/types";
+import { SessionMetrics, SleepWindow, computeSessionMetrics } from "@/lib/analytics";
+import {
+  COMPARE_SERIES_LABELS,
+  CompareSeries,
+  formatClockOffset,
+  overlaySessions,
+} from "@/lib/sessionCompare";
+
+interface SessionComparisonProps {
+  // Selected sessions in chronological order; the first is the baseline
+  groups: RecordGroup[];
+  sleepWindow: SleepWindow;
+  // Display zone sessions are aligned and labelled in
+  timeZone: string;
+  onClear: () => void;
+}
+
+// One color per compared session
+const SESSION_COLORS = ["#334155", "#3b82f6", "#ef4444", "#10b981", "#f59e0b", "#8b5cf6"];
+
+const sessionColor = (index: number) => SESSION_COLORS[index % SESSION_COLORS.length];
+
+// Metric rows of the side-by-side table
+const METRIC_ROWS: { label: string; value: (m: SessionMetrics) => number | null }[] = [
+  { label: "左眼均值", value: (m) => m.left?.mean ?? null },
+  { label: "左眼峰值", value: (m) => m.left?.max ?? null },
+  { label: "左眼谷值", value: (m) => m.left?.min ?? null },
+  { label: "左眼波动", value: (m) => m.left?.fluctuation ?? null },
+  { label: "左眼夜间均值", value: (m) => m.nocturnal.left },
+  { label: "右眼均值", value: (m) => m.right?.mean ?? null },
+  { label: "右眼峰值", value: (m) => m.right?.max ?? null },
+  { label: "右眼谷值", value: (m) => m.right?.min ?? null },
+  { label: "右眼波动", value: (m) => m.right?.fluctuation ?? null },
+  { label: "右眼夜间均值", value: (m) => m.nocturnal.right },
+  { label: "双眼差均值", value: (m) => m.asymmetry?.mean ?? null },
+];
+
+const formatValue = (value: number | null) => (value === null ? "-" : value.toFixed(1));
+
+// Signed difference from the baseline session
+const formatChange = (base: number | null, value: number | null) => {
+  if (base === null || value === null) return "";
+  const diff = value - base;
+  return `${diff >= 0 ? "+" : ""}${diff.toFixed(1)}`;
+};
+
+export default function SessionComparison({
+  groups,
+  sleepWindow,
+  timeZone,
+  onClear,
+}: SessionComparisonProps) {
+  const [series, setSeries] = useState<CompareSeries>("left");
+  const [width, setWidth] = useState(400);
+  const wrapperRef = useRef<HTMLDivElement>(null);
+
+  const overlay = useMemo(
+    () => overlaySessions(groups, series, timeZone),
+    [groups, series, timeZone]
+  );
+  const metrics = useMemo(
+    () => groups.map((group) => computeSessionMetrics(group.records, sleepWindow, timeZone)),
+    [groups, sleepWindow, timeZone]
+  );
+
+  // Ticks every 2 hours from the earliest clock time, widened for multi-day sessions
+  const xAxisTicks = useMemo(() => {
+    if (overlay.points.length === 0) return [];
+    const min = overlay.points[0].minutes;
+    const step = overlay.maxMinutes - min <= 30 * 60 ? 120 : 240;
+    const ticks: number[] = [];
+    for (let m = Math.floor(min / step) * step; m <= overlay.maxMinutes + step / 2; m += step) {
+      ticks.push(m);
+    }
+    return ticks;
+  }, [overlay]);
+
+  // Measure the wrapper so the charts fill the card
+  const updateWidth = useCallback(() => {
+    if (wrapperRef.current) {
+      setWidth(Math.max(wrapperRef.current.getBoundingClientRect().width, 300));
+    }
+  }, []);
+
+  useEffect(() => {
+    const timer = setTimeout(updateWidth, 100);
+    window.addEventListener("resize", updateWidth);
+    return () => {
+      clearTimeout(timer);
+      window.removeEventListener("resize", updateWidth);
+    };
+  }, [updateWidth]);
+
+  const sessionName = (index: number) =>
+    `${groups[index].title.replace(/^24小时眼压 - /, "")}${index === 0 ? "（基准）" : ""}`;
+
+  const thStyle = {
+    padding: "6px 10px",
+    fontSize: "12px",
+    fontWeight: 600,
+    color: "#475569",
+    textAlign: "center" as const,
+  };
+
+  const tdStyle = {
+    padding: "6px 10px",
+    fontSize: "14px",
+    color: "#334155",
+    textAlign: "center" as const,
+    whiteSpace: "nowrap" as const,
+  };
+
+  const axisProps = {
+    tick: { fontSize: 11, fill: "#64748b" },
+    tickLine: { stroke: "#cbd5e1" },
+    axisLine: { stroke: "#cbd5e1" },
+  };
+
+  const tooltipStyle = {
+    backgroundColor: "white",
+    border: "1px solid #e2e8f0",
+    borderRadius: "8px",
+    boxShadow: "0 4px 6px -1px rgb(0 0 0 / 0.1)",
+  };
+
+  return (
+    <div
+      style={{
+        backgroundColor: "white",
+        borderRadius: "8px",
+        border: "1px solid #e2e8f0",
+        boxShadow: "0 1px 3px rgba(0,0,0,0.1)",
+        padding: "16px",
+        display: "flex",
+        flexDirection: "column",
+        gap: "12px",
+      }}
+    >
+      <div
+        style={{
+          display: "flex",
+          flexWrap: "wrap",
+          alignItems: "center",
+          justifyContent: "space-between",
+          gap: "12px",
+        }}
+      >
+        <h2 style={{ fontSize: "20px", fontWeight: 700, color: "#0f172a" }}>24小时眼压对比</h2>
+        <div style={{ display: "flex", alignItems: "center", gap: "12px", fontSize: "13px", color: "#64748b" }}>
+          <select
+            value={series}
+            onChange={(e) => setSeries(e.target.value as CompareSeries)}
+            style={{ padding: "4px 8px", fontSize: "13px", border: "1px solid #cbd5e1", borderRadius: "6px" }}
+          >
+            {(Object.keys(COMPARE_SERIES_LABELS) as CompareSeries[]).map((key) => (
+              <option key={key} value={key}>
+                {COMPARE_SERIES_LABELS[key]}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={onClear}
+            style={{
+              padding: "6px 12px",
+              fontSize: "13px",
+              color: "#475569",
+              backgroundColor: "#f1f5f9",
+              border: "none",
+              borderRadius: "6px",
+              cursor: "pointer",
+            }}
+          >
+            清除选择
+          </button>
+        </div>
+      </div>
+
+      <div ref={wrapperRef} style={{ width: "100%" }}>
+        {/* Sessions aligned by clock time */}
+        <LineChart
+          width={width}
+          height={300}
+          data={overlay.points}
+          margin={{ top: 10, right: 30, left: 0, bottom: 10 }}
+        >
+          <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+          <XAxis
+            dataKey="minutes"
+            type="number"
+            domain={["dataMin", "dataMax"]}
+            ticks={xAxisTicks}
+            tickFormatter={formatClockOffset}
+            {...axisProps}
+          />
+          <YAxis {...axisProps} />
+          <Tooltip
+            contentStyle={tooltipStyle}
+            labelFormatter={(value) => (typeof value === "number" ? formatClockOffset(value) : value)}
+            formatter={(value: number, name: string) => [value.toFixed(2), name]}
+          />
+          <Legend wrapperStyle={{ fontSize: 12 }} />
+          {groups.map((group, index) => (
+            <Line
+              key={group.id}
+              type="monotone"
+              dataKey={`session_${index}`}
+              name={sessionName(index)}
+              stroke={sessionColor(index)}
+              strokeWidth={2}
+              strokeDasharray={index === 0 ? "5 5" : undefined}
+              dot={{ fill: sessionColor(index), strokeWidth: 1, r: 3 }}
+              activeDot={{ r: 5, fill: sessionColor(index) }}
+              connectNulls
+            />
+          ))}
+        </LineChart>
+
+        {/* Difference from the baseline session at the same clock time */}
+        <div style={{ fontSize: "13px", fontWeight: 600, color: "#475569", margin: "8px 0 4px" }}>
+          与基准的差值（{COMPARE_SERIES_LABELS[series]}，mmHg）
+        </div>
+        <LineChart
+          width={width}
+          height={180}
+          data={overlay.points}
+          margin={{ top: 10, right: 30, left: 0, bottom: 10 }}
+        >
+          <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+          <ReferenceLine y={0} stroke="#94a3b8" />
+          <XAxis
+            dataKey="minutes"
+            type="number"
+            domain={["dataMin", "dataMax"]}
+            ticks={xAxisTicks}
+            tickFormatter={formatClockOffset}
+            {...axisProps}
+          />
+          <YAxis {...axisProps} />
+          <Tooltip
+            contentStyle={tooltipStyle}
+            labelFormatter={(value) => (typeof value === "number" ? formatClockOffset(value) : value)}
+            formatter={(value: number, name: string) => [
+              `${value >= 0 ? "+" : ""}${value.toFixed(2)}`,
+              name,
+            ]}
+          />
+          {groups.slice(1).map((group, i) => (
+            <Line
+              key={group.id}
+              type="monotone"
+              dataKey={`diff_${i + 1}`}
+              name={sessionName(i + 1)}
+              stroke={sessionColor(i + 1)}
+              strokeWidth={2}
+              dot={{ fill: sessionColor(i + 1), strokeWidth: 1, r: 3 }}
+              connectNulls
+            />
+          ))}
+        </LineChart>
+      </div>
+
+      {/* Side-by-side session metrics with change from the baseline */}
+      <div style={{ overflowX: "auto" }}>
+        <table style={{ minWidth: "100%", borderCollapse: "collapse" }}>
+          <thead>
+            <tr>
+              <th style={{ ...thStyle, textAlign: "left" }}></th>
+              {groups.map((group, index) => (
+                <th key={group.id} style={{ ...thStyle, color: sessionColor(index) }}>
+                  {sessionName(index)}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {METRIC_ROWS.map(({ label, value }) => {
+              const base = metrics[0] ? value(metrics[0]) : null;
+              return (
+                <tr key={label} style={{ borderTop: "1px solid #f1f5f9" }}>
+                  <td style={{ ...tdStyle, textAlign: "left", fontWeight: 600 }}>{label}</td>
+                  {metrics.map((m, index) => {
+                    const current = m ? value(m) : null;
+                    return (
+                      <td key={groups[index].id} style={tdStyle}>
+                        {formatValue(current)}
+                        {index > 0 && (
+                          <span style={{ fontSize: "12px", color: "#94a3b8" }}>
+                            {" "}
+                            {formatChange(base, current)}
+                          </span>
+                        )}
+                      </td>
+                    );
+                  })}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      <div style={{ fontSize: "13px", color: "#64748b" }}>
+        按时钟时间对齐 · 差值为各组读数减去同一时刻基准组的插值 · 单位 mmHg
+      </div>
+    </div>
+  );
+}
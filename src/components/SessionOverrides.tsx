@@ -0,0 +1,123 @@
+/**
+ * List of manual 24h session corrections
+ * Removing one returns that reading to automatic session detection
+ */
+
+"use client";
+
+import { useTransition } from "react";
+import { EyePressureRecord, SessionOverride } from "@/types";
+import { deleteSessionOverrideAction } from "@/app/actions";
+import { formatZoned } from "@/lib/time";
+
+interface SessionOverridesProps {
+  // Profile the changes are written to
+  profileId: string;
+  overrides: SessionOverride[];
+  records: EyePressureRecord[];
+  timeZone: string;
+}
+
+const ACTION_LABELS: Record<SessionOverride["action"], string> = {
+  split: "从此拆分",
+  merge: "并入上一组",
+};
+
+export default function SessionOverrides({
+  profileId,
+  overrides,
+  records,
+  timeZone,
+}: SessionOverridesProps) {
+  const [isPending, startTransition] = useTransition();
+
+  const recordsById = new Map(records.map((r) => [r.id, r]));
+
+  const handleDelete = (id: string) => {
+    startTransition(async () => {
+      const result = await deleteSessionOverrideAction(profileId, id);
+      if (!result.ok) window.alert(result.error);
+    });
+  };
+
+  const thStyle = {
+    padding: "8px 12px",
+    textAlign: "left" as const,
+    fontSize: "12px",
+    fontWeight: 600,
+    color: "#475569",
+    backgroundColor: "#f8fafc",
+  };
+
+  const tdStyle = {
+    padding: "8px 12px",
+    fontSize: "14px",
+    color: "#334155",
+    borderTop: "1px solid #f1f5f9",
+  };
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: "16px" }}>
+      <div>
+        <h2 style={{ fontSize: "20px", fontWeight: 700, color: "#0f172a" }}>24小时分组调整</h2>
+        <p style={{ marginTop: "4px", fontSize: "13px", color: "#64748b" }}>
+          在记录页合并或拆分 24 小时眼压分组后会保存在这里。设置了会话编号的记录始终按编号分组。
+        </p>
+      </div>
+
+      {overrides.length === 0 ? (
+        <p style={{ fontSize: "14px", color: "#64748b" }}>暂无手动调整</p>
+      ) : (
+        <div
+          style={{
+            backgroundColor: "white",
+            borderRadius: "8px",
+            border: "1px solid #e2e8f0",
+            overflowX: "auto",
+          }}
+        >
+          <table style={{ minWidth: "100%", borderCollapse: "collapse" }}>
+            <thead>
+              <tr>
+                <th style={thStyle}>测量时间</th>
+                <th style={thStyle}>调整</th>
+                <th style={thStyle}></th>
+              </tr>
+            </thead>
+            <tbody>
+              {overrides.map((override) => {
+                const record = recordsById.get(override.recordId);
+                return (
+                  <tr key={override.id}>
+                    <td style={tdStyle}>
+                      {record
+                        ? formatZoned(record.date, timeZone)
+                        : `记录已删除（${override.recordId}）`}
+                    </td>
+                    <td style={tdStyle}>{ACTION_LABELS[override.action]}</td>
+                    <td style={{ ...tdStyle, textAlign: "right" }}>
+                      <button
+                        onClick={() => handleDelete(override.id)}
+                        disabled={isPending}
+                        style={{
+                          padding: "4px 10px",
+                          fontSize: "13px",
+                          color: "#dc2626",
+                          backgroundColor: "transparent",
+                          border: "none",
+                          cursor: "pointer",
+                        }}
+                      >
+                        撤销
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,463 @@
+/**
+ * Planner for 24h sessions
+ * Plans a session (start, interval, end), shows the running and upcoming plans with their
+ * planned vs taken readings, and turns on reminders for each planned reading on this device:
+ * pushed by the server when configured, otherwise shown while the page is open
+ */
+
+"use client";
+
+import { useEffect, useRef, useState, useSyncExternalStore, useTransition } from "react";
+import { EyePressureRecord, SessionPlan } from "@/types";
+import {
+  DEFAULT_PLAN_INTERVAL,
+  MAX_PLAN_HOURS,
+  PLAN_INTERVALS,
+  isPlanOver,
+  matchPlanSlots,
+  planSlotTimes,
+} from "@/lib/sessionPlans";
+import { formatZoned, toZonedWallTime, zonedWallTimeToUtc } from "@/lib/time";
+import {
+  currentPushEndpoint,
+  loadReminderMode,
+  requestNotificationPermission,
+  saveReminderMode,
+  showPageReminder,
+  subscribeReminderMode,
+  subscribeToPush,
+} from "@/lib/reminderClient";
+import {
+  deletePushSubscriptionAction,
+  deleteSessionPlanAction,
+  savePushSubscriptionAction,
+  saveSessionPlanAction,
+  sendTestReminderAction,
+} from "@/app/actions";
+import PlanSlots from "./PlanSlots";
+
+interface SessionPlannerProps {
+  // Profile the plans and reminders belong to
+  profileId: string;
+  plans: SessionPlan[];
+  // Readings matched to the planned times
+  records: EyePressureRecord[];
+  // Zone plan times are entered and shown in
+  timeZone: string;
+  // VAPID public key; null when the server doesn't send push reminders
+  pushPublicKey: string | null;
+  showForm: boolean;
+  onCloseForm: () => void;
+}
+
+// Slots and the displayed countdown are refreshed this often; page reminders fire on these ticks
+const TICK_MS = 30 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+const intervalLabel = (minutes: number) => `${minutes / 60} 小时`;
+
+// Time until a slot, e.g. "1 小时 20 分钟后"
+function formatWait(ms: number): string {
+  const minutes = Math.max(1, Math.round(ms / 60000));
+  const hours = Math.floor(minutes / 60);
+  return hours > 0 ? `${hours} 小时 ${minutes % 60} 分钟后` : `${minutes} 分钟后`;
+}
+
+export default function SessionPlanner({
+  profileId,
+  plans,
+  records,
+  timeZone,
+  pushPublicKey,
+  showForm,
+  onCloseForm,
+}: SessionPlannerProps) {
+  const [isPending, startTransition] = useTransition();
+  const [now, setNow] = useState(() => new Date());
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  // Reminders are a choice of this device; off on the server render
+  const mode = useSyncExternalStore(
+    subscribeReminderMode,
+    () => loadReminderMode(profileId),
+    () => null
+  );
+
+  // Latest readings for the reminder check, without restarting the tick on every edit
+  const recordsRef = useRef(records);
+  const lastTickRef = useRef<number | null>(null);
+  useEffect(() => {
+    recordsRef.current = records;
+  }, [records]);
+
+  // Refresh the slots; with page reminders, remind of slots that came due since the last tick
+  // (unless a reading was already taken for them)
+  useEffect(() => {
+    const tick = () => {
+      const current = new Date();
+      const since = lastTickRef.current ?? current.getTime();
+      lastTickRef.current = current.getTime();
+      setNow(current);
+      if (mode !== "page") return;
+      for (const plan of plans) {
+        const slots = matchPlanSlots(plan, recordsRef.current, current);
+        planSlotTimes(plan).forEach((time, index) => {
+          if (time <= since || time > current.getTime() || slots[index].status === "taken") return;
+          showPageReminder(
+            "该测眼压了",
+            `24 小时测量第 ${index + 1}/${slots.length} 次（${formatZoned(time, timeZone, "time")}）`,
+            plan.id
+          ).catch((err) => console.error("Error showing reminder:", err));
+        });
+      }
+    };
+    const timer = setInterval(tick, TICK_MS);
+    return () => clearInterval(timer);
+  }, [mode, plans, timeZone]);
+
+  const currentPlans = plans.filter((plan) => !isPlanOver(plan, now));
+
+  const enableReminders = () => {
+    setError(null);
+    setNotice(null);
+    startTransition(async () => {
+      if (!(await requestNotificationPermission())) {
+        setError("浏览器未允许通知，请在浏览器或系统设置中允许本站通知");
+        return;
+      }
+      if (pushPublicKey) {
+        let subscription = null;
+        try {
+          subscription = await subscribeToPush(pushPublicKey);
+        } catch (err) {
+          console.error("Push subscription failed:", err);
+        }
+        if (subscription) {
+          const result = await savePushSubscriptionAction(profileId, subscription);
+          if (!result.ok) {
+            setError(result.error);
+            return;
+          }
+          saveReminderMode(profileId, "push");
+          return;
+        }
+      }
+      saveReminderMode(profileId, "page");
+    });
+  };
+
+  const disableReminders = () => {
+    setError(null);
+    setNotice(null);
+    startTransition(async () => {
+      const endpoint = mode === "push" ? await currentPushEndpoint() : null;
+      if (endpoint) {
+        const result = await deletePushSubscriptionAction(profileId, endpoint);
+        if (!result.ok) {
+          setError(result.error);
+          return;
+        }
+      }
+      saveReminderMode(profileId, null);
+    });
+  };
+
+  const sendTest = () => {
+    setError(null);
+    setNotice(null);
+    startTransition(async () => {
+      const endpoint = mode === "push" ? await currentPushEndpoint() : null;
+      if (endpoint) {
+        const result = await sendTestReminderAction(profileId, endpoint);
+        if (!result.ok) {
+          setError(result.error);
+          return;
+        }
+      } else {
+        await showPageReminder("测试提醒", "测量提醒已开启", "test");
+      }
+      setNotice("已发送测试提醒");
+    });
+  };
+
+  const deletePlan = (plan: SessionPlan) => {
+    if (!window.confirm("取消这个测量计划？已测的记录不受影响。")) return;
+    setError(null);
+    startTransition(async () => {
+      const result = await deleteSessionPlanAction(profileId, plan.id);
+      if (!result.ok) setError(result.error);
+    });
+  };
+
+  if (!showForm && currentPlans.length === 0) return null;
+
+  const buttonStyle = (primary: boolean) => ({
+    padding: "4px 10px",
+    fontSize: "13px",
+    borderRadius: "6px",
+    border: "none",
+    cursor: isPending ? "default" : "pointer",
+    backgroundColor: primary ? "#3b82f6" : "#f1f5f9",
+    color: primary ? "white" : "#475569",
+  });
+
+  return (
+    <div
+      style={{
+        display: "flex",
+        flexDirection: "column",
+        gap: "12px",
+        padding: "16px",
+        backgroundColor: "white",
+        borderRadius: "8px",
+        border: "1px solid #e2e8f0",
+        boxShadow: "0 1px 3px rgba(0,0,0,0.1)",
+      }}
+    >
+      {showForm && (
+        <PlanForm
+          profileId={profileId}
+          timeZone={timeZone}
+          onSaved={onCloseForm}
+          onCancel={onCloseForm}
+        />
+      )}
+
+      {currentPlans.map((plan) => {
+        const slots = matchPlanSlots(plan, records, now);
+        const next = slots.find((slot) => slot.status === "due" || slot.status === "upcoming");
+        return (
+          <div key={plan.id} style={{ display: "flex", flexDirection: "column", gap: "8px" }}>
+            <div style={{ display: "flex", flexWrap: "wrap", alignItems: "center", gap: "12px" }}>
+              <strong style={{ fontSize: "15px", color: "#0f172a" }}>
+                24 小时测量计划 {formatZoned(plan.start, timeZone)} – {formatZoned(plan.end, timeZone)}
+              </strong>
+              <span style={{ fontSize: "13px", color: "#64748b" }}>
+                每 {intervalLabel(plan.intervalMinutes)}
+              </span>
+              {next && (
+                <span
+                  // The countdown may be a minute apart between server and browser render
+                  suppressHydrationWarning
+                  style={{ fontSize: "13px", color: next.status === "due" ? "#b45309" : "#475569" }}
+                >
+                  {next.status === "due"
+                    ? `现在该测了（${formatZoned(next.time, timeZone, "time")}）`
+                    : `下一次 ${formatZoned(next.time, timeZone, "time")}，${formatWait(
+                        new Date(next.time).getTime() - now.getTime()
+                      )}`}
+                </span>
+              )}
+              <button
+                onClick={() => deletePlan(plan)}
+                disabled={isPending}
+                style={{ ...buttonStyle(false), marginLeft: "auto" }}
+              >
+                取消计划
+              </button>
+            </div>
+            <PlanSlots slots={slots} timeZone={timeZone} />
+          </div>
+        );
+      })}
+
+      {currentPlans.length > 0 && (
+        <div
+          style={{
+            display: "flex",
+            flexWrap: "wrap",
+            alignItems: "center",
+            gap: "12px",
+            paddingTop: "8px",
+            borderTop: "1px solid #f1f5f9",
+            fontSize: "13px",
+            color: "#475569",
+          }}
+        >
+          <span>
+            {mode === "push"
+              ? "本设备已开启测量提醒（推送，应用关闭时也会提醒）"
+              : mode === "page"
+                ? "本设备已开启测量提醒（仅在此页面打开时提醒）"
+                : "测量提醒未开启"}
+          </span>
+          {mode ? (
+            <>
+              <button onClick={sendTest} disabled={isPending} style={buttonStyle(false)}>
+                发送测试提醒
+              </button>
+              <button onClick={disableReminders} disabled={isPending} style={buttonStyle(false)}>
+                关闭提醒
+              </button>
+            </>
+          ) : (
+            <button onClick={enableReminders} disabled={isPending} style={buttonStyle(true)}>
+              开启提醒
+            </button>
+          )}
+          {notice && <span style={{ color: "#15803d" }}>{notice}</span>}
+        </div>
+      )}
+      {error && <p style={{ fontSize: "13px", color: "#dc2626" }}>{error}</p>}
+    </div>
+  );
+}
+
+// Form for a new plan; times are wall-clock times in the display zone
+function PlanForm({
+  profileId,
+  timeZone,
+  onSaved,
+  onCancel,
+}: {
+  profileId: string;
+  timeZone: string;
+  onSaved: () => void;
+  onCancel: () => void;
+}) {
+  const [isPending, startTransition] = useTransition();
+  // Starts at the next full hour and runs 24 hours by default
+  const [start, setStart] = useState(() =>
+    toZonedWallTime(Math.ceil(Date.now() / HOUR_MS) * HOUR_MS, timeZone)
+  );
+  const [end, setEnd] = useState(() =>
+    toZonedWallTime(Math.ceil(Date.now() / HOUR_MS) * HOUR_MS + 24 * HOUR_MS, timeZone)
+  );
+  const [intervalMinutes, setIntervalMinutes] = useState(DEFAULT_PLAN_INTERVAL);
+  const [error, setError] = useState<string | null>(null);
+
+  const startTime = start ? zonedWallTimeToUtc(start, timeZone).getTime() : NaN;
+  const endTime = end ? zonedWallTimeToUtc(end, timeZone).getTime() : NaN;
+  const slotCount =
+    endTime > startTime ? Math.floor((endTime - startTime) / (intervalMinutes * 60000)) + 1 : 0;
+
+  // Moving the start keeps the planned duration
+  const handleStartChange = (value: string) => {
+    if (value && !isNaN(startTime) && !isNaN(endTime)) {
+      const shifted = zonedWallTimeToUtc(value, timeZone).getTime() + (endTime - startTime);
+      setEnd(toZonedWallTime(shifted, timeZone));
+    }
+    setStart(value);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isNaN(startTime) || isNaN(endTime)) {
+      setError("请填写开始和结束时间");
+      return;
+    }
+    if (endTime <= startTime) {
+      setError("结束时间应晚于开始时间");
+      return;
+    }
+    if (endTime - startTime > MAX_PLAN_HOURS * HOUR_MS) {
+      setError(`计划最长 ${MAX_PLAN_HOURS} 小时`);
+      return;
+    }
+    setError(null);
+    startTransition(async () => {
+      const result = await saveSessionPlanAction(profileId, {
+        start: new Date(startTime).toISOString(),
+        end: new Date(endTime).toISOString(),
+        intervalMinutes,
+      });
+      if (result.ok) onSaved();
+      else setError(result.error);
+    });
+  };
+
+  const inputStyle = {
+    padding: "6px 8px",
+    fontSize: "14px",
+    border: "1px solid #cbd5e1",
+    borderRadius: "6px",
+    color: "#0f172a",
+    backgroundColor: "white",
+  };
+
+  const labelStyle = {
+    display: "flex",
+    alignItems: "center",
+    gap: "6px",
+    fontSize: "14px",
+    color: "#334155",
+  };
+
+  return (
+    <form onSubmit={handleSubmit} style={{ display: "flex", flexDirection: "column", gap: "12px" }}>
+      <strong style={{ fontSize: "15px", color: "#0f172a" }}>计划 24 小时测量</strong>
+      <div style={{ display: "flex", flexWrap: "wrap", alignItems: "center", gap: "16px" }}>
+        <label style={labelStyle}>
+          开始
+          <input
+            type="datetime-local"
+            value={start}
+            onChange={(e) => handleStartChange(e.target.value)}
+            style={inputStyle}
+          />
+        </label>
+        <label style={labelStyle}>
+          每
+          <select
+            value={intervalMinutes}
+            onChange={(e) => setIntervalMinutes(Number(e.target.value))}
+            style={inputStyle}
+          >
+            {PLAN_INTERVALS.map((minutes) => (
+              <option key={minutes} value={minutes}>
+                {intervalLabel(minutes)}
+              </option>
+            ))}
+          </select>
+          测一次
+        </label>
+        <label style={labelStyle}>
+          结束
+          <input
+            type="datetime-local"
+            value={end}
+            onChange={(e) => setEnd(e.target.value)}
+            style={inputStyle}
+          />
+        </label>
+      </div>
+      <div style={{ display: "flex", flexWrap: "wrap", alignItems: "center", gap: "12px" }}>
+        <button
+          type="submit"
+          disabled={isPending}
+          style={{
+            padding: "7px 16px",
+            backgroundColor: "#3b82f6",
+            color: "white",
+            borderRadius: "6px",
+            border: "none",
+            cursor: isPending ? "default" : "pointer",
+            fontSize: "14px",
+            opacity: isPending ? 0.6 : 1,
+          }}
+        >
+          保存计划
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          style={{
+            padding: "7px 16px",
+            backgroundColor: "#f1f5f9",
+            color: "#475569",
+            borderRadius: "6px",
+            border: "none",
+            cursor: "pointer",
+            fontSize: "14px",
+          }}
+        >
+          取消
+        </button>
+        {slotCount > 0 && (
+          <span style={{ fontSize: "13px", color: "#64748b" }}>共 {slotCount} 次测量</span>
+        )}
+      </div>
+      {error && <p style={{ fontSize: "13px", color: "#dc2626" }}>{error}</p>}
+    </form>
+  );
+}
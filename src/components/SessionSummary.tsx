@@ -0,0 +1,117 @@
+/**
+ * Summary card for a 24h session
+ * Shows per-eye peak/trough/mean/fluctuation, inter-eye asymmetry and day/night means
+ */
+
+"use client";
+
+import { SessionMetrics } from "@/lib/analytics";
+import { formatZoned } from "@/lib/time";
+
+interface SessionSummaryProps {
+  metrics: SessionMetrics;
+  timeZone: string;
+}
+
+const formatValue = (value: number | null) => (value === null ? "-" : value.toFixed(1));
+
+export default function SessionSummary({ metrics, timeZone }: SessionSummaryProps) {
+  // "HH:mm" for peak/trough times
+  const formatTime = (iso: string) => formatZoned(iso, timeZone, "time");
+
+  const thStyle = {
+    padding: "6px 10px",
+    fontSize: "12px",
+    fontWeight: 600,
+    color: "#475569",
+    textAlign: "center" as const,
+  };
+
+  const tdStyle = {
+    padding: "6px 10px",
+    fontSize: "14px",
+    color: "#334155",
+    textAlign: "center" as const,
+    whiteSpace: "nowrap" as const,
+  };
+
+  const eyes = [
+    { label: "左眼", key: "left" as const, color: "#1d4ed8" },
+    { label: "右眼", key: "right" as const, color: "#b91c1c" },
+  ];
+
+  return (
+    <div
+      style={{
+        backgroundColor: "white",
+        borderRadius: "8px",
+        border: "1px solid #e2e8f0",
+        boxShadow: "0 1px 3px rgba(0,0,0,0.1)",
+        padding: "12px 16px",
+        display: "flex",
+        flexDirection: "column",
+        gap: "8px",
+      }}
+    >
+      <div style={{ overflowX: "auto" }}>
+        <table style={{ minWidth: "100%", borderCollapse: "collapse" }}>
+          <thead>
+            <tr>
+              <th style={{ ...thStyle, textAlign: "left" }}></th>
+              <th style={thStyle}>峰值</th>
+              <th style={thStyle}>谷值</th>
+              <th style={thStyle}>均值</th>
+              <th style={thStyle}>波动</th>
+              <th style={thStyle}>标准差</th>
+              <th style={thStyle}>日间均值</th>
+              <th style={thStyle}>夜间均值</th>
+            </tr>
+          </thead>
+          <tbody>
+            {eyes.map(({ label, key, color }) => {
+              const eye = metrics[key];
+              if (!eye) {
+                return (
+                  <tr key={key} style={{ borderTop: "1px solid #f1f5f9" }}>
+                    <td style={{ ...tdStyle, textAlign: "left", fontWeight: 600, color }}>{label}</td>
+                    <td style={{ ...tdStyle, color: "#94a3b8" }} colSpan={7}>
+                      未测量
+                    </td>
+                  </tr>
+                );
+              }
+              return (
+                <tr key={key} style={{ borderTop: "1px solid #f1f5f9" }}>
+                  <td style={{ ...tdStyle, textAlign: "left", fontWeight: 600, color }}>{label}</td>
+                  <td style={tdStyle}>
+                    {eye.max.toFixed(1)}
+                    <span style={{ fontSize: "12px", color: "#94a3b8" }}> @{formatTime(eye.peakTime)}</span>
+                  </td>
+                  <td style={tdStyle}>
+                    {eye.min.toFixed(1)}
+                    <span style={{ fontSize: "12px", color: "#94a3b8" }}> @{formatTime(eye.troughTime)}</span>
+                  </td>
+                  <td style={tdStyle}>{eye.mean.toFixed(1)}</td>
+                  <td style={{ ...tdStyle, fontWeight: 600 }}>{eye.fluctuation.toFixed(1)}</td>
+                  <td style={tdStyle}>{eye.stdDev.toFixed(1)}</td>
+                  <td style={tdStyle}>{formatValue(metrics.diurnal[key])}</td>
+                  <td style={tdStyle}>{formatValue(metrics.nocturnal[key])}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      <p style={{ fontSize: "13px", color: "#64748b" }}>
+        {metrics.asymmetry && (
+          <>
+            双眼差 均值 {metrics.asymmetry.mean.toFixed(1)} / 最大 {metrics.asymmetry.max.toFixed(1)}
+            （{formatTime(metrics.asymmetry.maxTime)}）·{" "}
+          </>
+        )}
+        夜间 {metrics.sleepWindow.start}–
+        {metrics.sleepWindow.end}（{metrics.nocturnal.count} 次）· 单位 mmHg
+      </p>
+    </div>
+  );
+}
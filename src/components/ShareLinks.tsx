@@ -0,0 +1,275 @@
+/**
+ * Read-only share link manager
+ * Creates expiring links limited to a date range and/or groups, and revokes them
+ */
+
+"use client";
+
+import { useState, useTransition } from "react";
+import { ShareLink } from "@/types";
+import { createShareAction, revokeShareAction } from "@/app/actions";
+import { formatZoned } from "@/lib/time";
+
+interface ShareLinksProps {
+  // Profile the links belong to
+  profileId: string;
+  shares: ShareLink[];
+  // Groups that can be picked as the link's scope
+  groups: { id: string; title: string }[];
+  timeZone: string;
+}
+
+const DEFAULT_EXPIRY_DAYS = 30;
+
+function shareStatus(share: ShareLink, now: Date): { label: string; color: string } {
+  if (share.revokedAt) return { label: "已撤销", color: "#94a3b8" };
+  if (new Date(share.expiresAt) <= now) return { label: "已过期", color: "#94a3b8" };
+  return { label: "有效", color: "#16a34a" };
+}
+
+export default function ShareLinks({ profileId, shares, groups, timeZone }: ShareLinksProps) {
+  const [isPending, startTransition] = useTransition();
+  const [label, setLabel] = useState("");
+  const [expiresInDays, setExpiresInDays] = useState(String(DEFAULT_EXPIRY_DAYS));
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [groupIds, setGroupIds] = useState<string[]>([]);
+  // Full URL of the link just created; the token can't be shown again later
+  const [createdUrl, setCreatedUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleGroup = (id: string) => {
+    setGroupIds((ids) => (ids.includes(id) ? ids.filter((g) => g !== id) : [...ids, id]));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setCreatedUrl(null);
+    startTransition(async () => {
+      const result = await createShareAction(profileId, {
+        label,
+        expiresInDays: Number(expiresInDays),
+        from: from || null,
+        to: to || null,
+        groupIds,
+      });
+      if (!result.ok) {
+        setError(result.error);
+        return;
+      }
+      setCreatedUrl(`${window.location.origin}/s/${result.data.token}`);
+      setLabel("");
+      setGroupIds([]);
+    });
+  };
+
+  const handleRevoke = (share: ShareLink) => {
+    if (!window.confirm(`撤销分享链接「${share.label || "未命名"}」？撤销后立即失效。`)) return;
+    startTransition(async () => {
+      const result = await revokeShareAction(profileId, share.id);
+      if (!result.ok) window.alert(result.error);
+    });
+  };
+
+  const inputStyle = {
+    padding: "6px 8px",
+    fontSize: "14px",
+    border: "1px solid #cbd5e1",
+    borderRadius: "6px",
+    color: "#0f172a",
+    backgroundColor: "white",
+  };
+
+  const thStyle = {
+    padding: "8px 12px",
+    textAlign: "left" as const,
+    fontSize: "12px",
+    fontWeight: 600,
+    color: "#475569",
+    backgroundColor: "#f8fafc",
+  };
+
+  const tdStyle = {
+    padding: "8px 12px",
+    fontSize: "14px",
+    color: "#334155",
+    borderTop: "1px solid #f1f5f9",
+  };
+
+  const now = new Date();
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: "16px" }}>
+      <div>
+        <h2 style={{ fontSize: "20px", fontWeight: 700, color: "#0f172a" }}>只读分享链接</h2>
+        <p style={{ marginTop: "4px", fontSize: "13px", color: "#64748b" }}>
+          生成无需登录即可查看的只读链接，例如发给医生。可限定日期范围和分组；不选分组则分享范围内的全部记录。
+        </p>
+      </div>
+
+      <form
+        onSubmit={handleSubmit}
+        style={{
+          display: "flex",
+          flexDirection: "column",
+          gap: "12px",
+          padding: "16px",
+          backgroundColor: "white",
+          borderRadius: "8px",
+          border: "1px solid #e2e8f0",
+        }}
+      >
+        <div style={{ display: "flex", flexWrap: "wrap", alignItems: "center", gap: "12px" }}>
+          <input
+            type="text"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            placeholder="备注，如：王医生 复诊"
+            style={{ ...inputStyle, width: "200px" }}
+          />
+          <label style={{ display: "flex", alignItems: "center", gap: "6px", fontSize: "14px", color: "#475569" }}>
+            有效
+            <input
+              type="number"
+              min={1}
+              max={365}
+              value={expiresInDays}
+              onChange={(e) => setExpiresInDays(e.target.value)}
+              style={{ ...inputStyle, width: "72px" }}
+            />
+            天
+          </label>
+          <div style={{ display: "flex", alignItems: "center", gap: "6px", fontSize: "14px", color: "#64748b" }}>
+            <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} style={inputStyle} />
+            至
+            <input type="date" value={to} onChange={(e) => setTo(e.target.value)} style={inputStyle} />
+          </div>
+        </div>
+
+        {groups.length > 0 && (
+          <div style={{ display: "flex", flexWrap: "wrap", gap: "8px 16px" }}>
+            {groups.map((group) => (
+              <label
+                key={group.id}
+                style={{ display: "flex", alignItems: "center", gap: "6px", fontSize: "13px", color: "#475569", cursor: "pointer" }}
+              >
+                <input
+                  type="checkbox"
+                  checked={groupIds.includes(group.id)}
+                  onChange={() => toggleGroup(group.id)}
+                />
+                {group.title}
+              </label>
+            ))}
+          </div>
+        )}
+
+        <div>
+          <button
+            type="submit"
+            disabled={isPending}
+            style={{
+              padding: "7px 16px",
+              backgroundColor: "#3b82f6",
+              color: "white",
+              borderRadius: "6px",
+              border: "none",
+              cursor: isPending ? "default" : "pointer",
+              fontSize: "14px",
+              opacity: isPending ? 0.6 : 1,
+            }}
+          >
+            生成链接
+          </button>
+        </div>
+      </form>
+      {error && <p style={{ fontSize: "13px", color: "#dc2626" }}>{error}</p>}
+      {createdUrl && (
+        <div
+          style={{
+            padding: "12px 16px",
+            borderRadius: "8px",
+            backgroundColor: "#f0fdf4",
+            border: "1px solid #bbf7d0",
+            fontSize: "14px",
+            color: "#166534",
+          }}
+        >
+          链接已生成（仅显示这一次，请立即复制）：
+          <input
+            type="text"
+            readOnly
+            value={createdUrl}
+            onFocus={(e) => e.target.select()}
+            style={{ ...inputStyle, display: "block", width: "100%", marginTop: "8px" }}
+          />
+        </div>
+      )}
+
+      {shares.length === 0 ? (
+        <p style={{ fontSize: "14px", color: "#64748b" }}>暂无分享链接</p>
+      ) : (
+        <div
+          style={{
+            backgroundColor: "white",
+            borderRadius: "8px",
+            border: "1px solid #e2e8f0",
+            overflowX: "auto",
+          }}
+        >
+          <table style={{ minWidth: "100%", borderCollapse: "collapse" }}>
+            <thead>
+              <tr>
+                <th style={thStyle}>备注</th>
+                <th style={thStyle}>范围</th>
+                <th style={thStyle}>创建</th>
+                <th style={thStyle}>有效期至</th>
+                <th style={thStyle}>状态</th>
+                <th style={thStyle}></th>
+              </tr>
+            </thead>
+            <tbody>
+              {shares.map((share) => {
+                const status = shareStatus(share, now);
+                const range =
+                  share.from || share.to ? `${share.from ?? "…"} 至 ${share.to ?? "…"}` : "全部日期";
+                return (
+                  <tr key={share.id}>
+                    <td style={tdStyle}>{share.label || "未命名"}</td>
+                    <td style={tdStyle}>
+                      {range}
+                      {share.groupIds.length > 0 && `，${share.groupIds.length} 个分组`}
+                    </td>
+                    <td style={tdStyle}>{formatZoned(share.createdAt, timeZone)}</td>
+                    <td style={tdStyle}>{formatZoned(share.expiresAt, timeZone)}</td>
+                    <td style={{ ...tdStyle, color: status.color }}>{status.label}</td>
+                    <td style={{ ...tdStyle, textAlign: "right" }}>
+                      {!share.revokedAt && (
+                        <button
+                          onClick={() => handleRevoke(share)}
+                          disabled={isPending}
+                          style={{
+                            padding: "4px 10px",
+                            fontSize: "13px",
+                            color: "#dc2626",
+                            backgroundColor: "#fef2f2",
+                            border: "none",
+                            borderRadius: "6px",
+                            cursor: "pointer",
+                          }}
+                        >
+                          撤销
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,244 @@
+/**
+ * Editor for per-eye target pressures
+ * Each entry applies from its effective date until the next one
+ */
+
+"use client";
+
+import { useState, useTransition } from "react";
+import { TargetPressure } from "@/types";
+import { DEFAULT_TARGET_PRESSURE, WARNING_MARGIN, sortTargets } from "@/lib/targets";
+import { formatZoned } from "@/lib/time";
+import { deleteTargetAction, saveTargetAction } from "@/app/actions";
+
+interface TargetSettingsProps {
+  // Profile the changes are written to
+  profileId: string;
+  targets: TargetPressure[];
+  // Display zone; effective dates are whole days in it
+  timeZone: string;
+}
+
+export default function TargetSettings({ profileId, targets, timeZone }: TargetSettingsProps) {
+  const [isPending, startTransition] = useTransition();
+  const [effectiveFrom, setEffectiveFrom] = useState(() =>
+    formatZoned(new Date(), timeZone, "isoDate")
+  );
+  const [left, setLeft] = useState("");
+  const [right, setRight] = useState("");
+  const [note, setNote] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  // Newest first
+  const sorted = sortTargets(targets).reverse();
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const leftValue = parseFloat(left);
+    const rightValue = parseFloat(right);
+    if (isNaN(leftValue) || isNaN(rightValue)) {
+      setError("请填写左右眼目标眼压");
+      return;
+    }
+    setError(null);
+    startTransition(async () => {
+      const result = await saveTargetAction(profileId, {
+        effectiveFrom,
+        left: leftValue,
+        right: rightValue,
+        note,
+      });
+      if (!result.ok) {
+        setError(result.error);
+        return;
+      }
+      setLeft("");
+      setRight("");
+      setNote("");
+    });
+  };
+
+  const handleDelete = (id: string) => {
+    setError(null);
+    startTransition(async () => {
+      const result = await deleteTargetAction(profileId, id);
+      if (!result.ok) setError(result.error);
+    });
+  };
+
+  const labelStyle = {
+    display: "flex",
+    flexDirection: "column" as const,
+    gap: "4px",
+    fontSize: "12px",
+    fontWeight: 600,
+    color: "#475569",
+  };
+
+  const inputStyle = {
+    padding: "6px 8px",
+    fontSize: "14px",
+    border: "1px solid #cbd5e1",
+    borderRadius: "6px",
+    color: "#0f172a",
+    backgroundColor: "white",
+  };
+
+  const thStyle = {
+    padding: "8px 12px",
+    textAlign: "left" as const,
+    fontSize: "12px",
+    fontWeight: 600,
+    color: "#475569",
+    backgroundColor: "#f8fafc",
+  };
+
+  const tdStyle = {
+    padding: "8px 12px",
+    fontSize: "14px",
+    color: "#334155",
+    borderTop: "1px solid #f1f5f9",
+  };
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: "16px" }}>
+      <div>
+        <h2 style={{ fontSize: "20px", fontWeight: 700, color: "#0f172a" }}>目标眼压</h2>
+        <p style={{ marginTop: "4px", fontSize: "13px", color: "#64748b" }}>
+          每条目标自生效日期起适用，直到下一条生效。高于目标显示为红色，低于目标 {WARNING_MARGIN}{" "}
+          mmHg 以内显示为黄色。未设置时使用 {DEFAULT_TARGET_PRESSURE} mmHg。
+        </p>
+      </div>
+
+      <form
+        onSubmit={handleSubmit}
+        style={{
+          display: "flex",
+          flexWrap: "wrap",
+          alignItems: "flex-end",
+          gap: "12px",
+          padding: "16px",
+          backgroundColor: "white",
+          borderRadius: "8px",
+          border: "1px solid #e2e8f0",
+        }}
+      >
+        <label style={labelStyle}>
+          生效日期
+          <input
+            type="date"
+            value={effectiveFrom}
+            onChange={(e) => setEffectiveFrom(e.target.value)}
+            style={inputStyle}
+            required
+          />
+        </label>
+        <label style={labelStyle}>
+          左眼目标
+          <input
+            type="number"
+            step="0.5"
+            min="1"
+            max="80"
+            value={left}
+            onChange={(e) => setLeft(e.target.value)}
+            style={{ ...inputStyle, width: "88px" }}
+            required
+          />
+        </label>
+        <label style={labelStyle}>
+          右眼目标
+          <input
+            type="number"
+            step="0.5"
+            min="1"
+            max="80"
+            value={right}
+            onChange={(e) => setRight(e.target.value)}
+            style={{ ...inputStyle, width: "88px" }}
+            required
+          />
+        </label>
+        <label style={{ ...labelStyle, flex: "1 1 160px" }}>
+          备注
+          <input
+            type="text"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="如：术后调整"
+            style={inputStyle}
+          />
+        </label>
+        <button
+          type="submit"
+          disabled={isPending}
+          style={{
+            padding: "7px 16px",
+            backgroundColor: "#3b82f6",
+            color: "white",
+            borderRadius: "6px",
+            border: "none",
+            cursor: isPending ? "wait" : "pointer",
+            fontSize: "14px",
+          }}
+        >
+          添加
+        </button>
+        {error && (
+          <p style={{ width: "100%", fontSize: "13px", color: "#dc2626" }}>{error}</p>
+        )}
+      </form>
+
+      {sorted.length === 0 ? (
+        <p style={{ fontSize: "14px", color: "#64748b" }}>尚未设置目标眼压</p>
+      ) : (
+        <div
+          style={{
+            backgroundColor: "white",
+            borderRadius: "8px",
+            border: "1px solid #e2e8f0",
+            overflowX: "auto",
+          }}
+        >
+          <table style={{ minWidth: "100%", borderCollapse: "collapse" }}>
+            <thead>
+              <tr>
+                <th style={thStyle}>生效日期</th>
+                <th style={thStyle}>左眼</th>
+                <th style={thStyle}>右眼</th>
+                <th style={thStyle}>备注</th>
+                <th style={thStyle}></th>
+              </tr>
+            </thead>
+            <tbody>
+              {sorted.map((target) => (
+                <tr key={target.id}>
+                  <td style={tdStyle}>{target.effectiveFrom}</td>
+                  <td style={tdStyle}>{target.left}</td>
+                  <td style={tdStyle}>{target.right}</td>
+                  <td style={{ ...tdStyle, color: "#64748b" }}>{target.note || "-"}</td>
+                  <td style={{ ...tdStyle, textAlign: "right" }}>
+                    <button
+                      onClick={() => handleDelete(target.id)}
+                      disabled={isPending}
+                      style={{
+                        padding: "4px 10px",
+                        fontSize: "13px",
+                        color: "#dc2626",
+                        backgroundColor: "transparent",
+                        border: "none",
+                        cursor: "pointer",
+                      }}
+                    >
+                      删除
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
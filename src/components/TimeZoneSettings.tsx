@@ -0,0 +1,146 @@
+/**
+ * Editor for the display time zone
+ * All dates are grouped and labelled in this zone on both server and client
+ */
+
+"use client";
+
+import { useState, useTransition } from "react";
+import { formatZoneLabel } from "@/lib/time";
+import { saveDisplayTimeZoneAction } from "@/app/actions";
+
+interface TimeZoneSettingsProps {
+  // Profile the changes are written to
+  profileId: string;
+  // Zone saved in the settings file; null when falling back to the default
+  saved: string | null;
+  // Zone currently in effect (saved, DISPLAY_TIME_ZONE or the server's zone)
+  effective: string;
+}
+
+// Common zones offered as suggestions; any IANA name or "+08:00" offset is accepted
+const SUGGESTED_ZONES = [
+  "Asia/Shanghai",
+  "Asia/Hong_Kong",
+  "Asia/Taipei",
+  "Asia/Tokyo",
+  "Asia/Singapore",
+  "Europe/London",
+  "Europe/Berlin",
+  "America/New_York",
+  "America/Los_Angeles",
+  "Australia/Sydney",
+  "UTC",
+];
+
+export default function TimeZoneSettings({
+  profileId,
+  saved,
+  effective,
+}: TimeZoneSettingsProps) {
+  const [isPending, startTransition] = useTransition();
+  const [timeZone, setTimeZone] = useState(saved ?? "");
+  const [error, setError] = useState<string | null>(null);
+
+  const save = (value: string | null) => {
+    setError(null);
+    startTransition(async () => {
+      const result = await saveDisplayTimeZoneAction(profileId, value);
+      if (!result.ok) setError(result.error);
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    save(timeZone);
+  };
+
+  const inputStyle = {
+    padding: "6px 8px",
+    fontSize: "14px",
+    border: "1px solid #cbd5e1",
+    borderRadius: "6px",
+    color: "#0f172a",
+    backgroundColor: "white",
+  };
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: "16px" }}>
+      <div>
+        <h2 style={{ fontSize: "20px", fontWeight: 700, color: "#0f172a" }}>显示时区</h2>
+        <p style={{ marginTop: "4px", fontSize: "13px", color: "#64748b" }}>
+          图表、表格、24 小时分组和报告均按此时区显示。每条记录仍保留测量时所在的时区，与显示时区不同时在表格中另行标注当地时间。
+        </p>
+      </div>
+
+      <form
+        onSubmit={handleSubmit}
+        style={{
+          display: "flex",
+          flexWrap: "wrap",
+          alignItems: "center",
+          gap: "12px",
+          padding: "16px",
+          backgroundColor: "white",
+          borderRadius: "8px",
+          border: "1px solid #e2e8f0",
+        }}
+      >
+        <input
+          type="text"
+          list="display-time-zones"
+          value={timeZone}
+          onChange={(e) => setTimeZone(e.target.value)}
+          placeholder={effective}
+          style={{ ...inputStyle, width: "200px" }}
+        />
+        <datalist id="display-time-zones">
+          {SUGGESTED_ZONES.map((zone) => (
+            <option key={zone} value={zone} />
+          ))}
+        </datalist>
+        <button
+          type="submit"
+          disabled={isPending}
+          style={{
+            padding: "7px 16px",
+            backgroundColor: "#3b82f6",
+            color: "white",
+            borderRadius: "6px",
+            border: "none",
+            cursor: isPending ? "default" : "pointer",
+            fontSize: "14px",
+            opacity: isPending ? 0.6 : 1,
+          }}
+        >
+          保存
+        </button>
+        {saved && (
+          <button
+            type="button"
+            disabled={isPending}
+            onClick={() => {
+              setTimeZone("");
+              save(null);
+            }}
+            style={{
+              padding: "7px 16px",
+              backgroundColor: "#f1f5f9",
+              color: "#475569",
+              borderRadius: "6px",
+              border: "none",
+              cursor: "pointer",
+              fontSize: "14px",
+            }}
+          >
+            恢复默认
+          </button>
+        )}
+        <span style={{ fontSize: "13px", color: "#64748b" }}>
+          当前：{effective}（{formatZoneLabel(new Date(), effective)}）
+        </span>
+      </form>
+      {error && <p style={{ fontSize: "13px", color: "#dc2626" }}>{error}</p>}
+    </div>
+  );
+}
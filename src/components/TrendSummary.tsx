@@ -0,0 +1,124 @@
+/**
+ * Long-term trend card for regular measurements
+ * Shows regression slope, fluctuation, time above target and recent vs previous period
+ */
+
+"use client";
+
+import { TrendMetrics } from "@/lib/analytics";
+
+interface TrendSummaryProps {
+  trend: TrendMetrics;
+  onRecentWeeksChange: (weeks: number) => void;
+}
+
+const RECENT_WEEK_OPTIONS = [4, 8, 12, 26, 52];
+
+const formatValue = (value: number | null) => (value === null ? "-" : value.toFixed(1));
+
+// Signed slope, e.g. "+0.25"
+const formatSlope = (value: number | undefined) =>
+  value === undefined ? "-" : `${value >= 0 ? "+" : ""}${value.toFixed(2)}`;
+
+export default function TrendSummary({ trend, onRecentWeeksChange }: TrendSummaryProps) {
+  const { summary, comparison, options } = trend;
+
+  const thStyle = {
+    padding: "6px 10px",
+    fontSize: "12px",
+    fontWeight: 600,
+    color: "#475569",
+    textAlign: "center" as const,
+  };
+
+  const tdStyle = {
+    padding: "6px 10px",
+    fontSize: "14px",
+    color: "#334155",
+    textAlign: "center" as const,
+    whiteSpace: "nowrap" as const,
+  };
+
+  const eyes = [
+    { label: "左眼", key: "left" as const, color: "#1d4ed8" },
+    { label: "右眼", key: "right" as const, color: "#b91c1c" },
+  ];
+
+  // Difference between recent and previous period means
+  const change = (eye: "left" | "right") => {
+    const recent = comparison.recent[eye];
+    const previous = comparison.previous[eye];
+    if (recent === null || previous === null) return "-";
+    const diff = recent - previous;
+    return `${diff >= 0 ? "+" : ""}${diff.toFixed(1)}`;
+  };
+
+  return (
+    <div
+      style={{
+        backgroundColor: "white",
+        borderRadius: "8px",
+        border: "1px solid #e2e8f0",
+        boxShadow: "0 1px 3px rgba(0,0,0,0.1)",
+        padding: "12px 16px",
+        display: "flex",
+        flexDirection: "column",
+        gap: "8px",
+      }}
+    >
+      <div style={{ overflowX: "auto" }}>
+        <table style={{ minWidth: "100%", borderCollapse: "collapse" }}>
+          <thead>
+            <tr>
+              <th style={{ ...thStyle, textAlign: "left" }}></th>
+              <th style={thStyle}>均值</th>
+              <th style={thStyle}>趋势（mmHg/月）</th>
+              <th style={thStyle}>标准差</th>
+              <th style={thStyle}>波动</th>
+              <th style={thStyle}>高于目标</th>
+              <th style={thStyle}>近 {options.recentWeeks} 周均值</th>
+              <th style={thStyle}>前 {options.recentWeeks} 周均值</th>
+              <th style={thStyle}>变化</th>
+            </tr>
+          </thead>
+          <tbody>
+            {eyes.map(({ label, key, color }) => (
+              <tr key={key} style={{ borderTop: "1px solid #f1f5f9" }}>
+                <td style={{ ...tdStyle, textAlign: "left", fontWeight: 600, color }}>{label}</td>
+                <td style={tdStyle}>{formatValue(summary[key]?.mean ?? null)}</td>
+                <td style={{ ...tdStyle, fontWeight: 600 }}>
+                  {formatSlope(trend[key].regression?.slopePerMonth)}
+                </td>
+                <td style={tdStyle}>{formatValue(summary[key]?.stdDev ?? null)}</td>
+                <td style={tdStyle}>{formatValue(summary[key]?.fluctuation ?? null)}</td>
+                <td style={tdStyle}>
+                  {summary[key] ? `${trend[key].percentAboveTarget.toFixed(0)}%` : "-"}
+                </td>
+                <td style={tdStyle}>{formatValue(comparison.recent[key])}</td>
+                <td style={tdStyle}>{formatValue(comparison.previous[key])}</td>
+                <td style={tdStyle}>{change(key)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div style={{ display: "flex", flexWrap: "wrap", alignItems: "center", gap: "8px", fontSize: "13px", color: "#64748b" }}>
+        <span>
+          近期（{comparison.recent.count} 次）对比前一时段（{comparison.previous.count} 次）：
+        </span>
+        <select
+          value={options.recentWeeks}
+          onChange={(e) => onRecentWeeksChange(Number(e.target.value))}
+          style={{ padding: "2px 6px", fontSize: "13px", border: "1px solid #cbd5e1", borderRadius: "6px" }}
+        >
+          {RECENT_WEEK_OPTIONS.map((weeks) => (
+            <option key={weeks} value={weeks}>
+              {weeks} 周
+            </option>
+          ))}
+        </select>
+        <span>· 移动平均窗口 {options.rollingDays} 天 · 单位 mmHg</span>
+      </div>
+    </div>
+  );
+}
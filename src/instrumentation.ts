@@ -0,0 +1,36 @@
+/**
+ * Server startup hook
+ * Checks each profile's record source configuration and schema once when the server boots,
+ * then starts the measurement reminder schedule
+ */
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+
+  const { getRecordSource } = await import("@/lib/recordSource");
+  const { loadProfiles } = await import("@/lib/profiles");
+  try {
+    for (const profile of await loadProfiles()) {
+      try {
+        const source = getRecordSource(profile);
+        await source.validate();
+        console.log(`Record source ready for profile ${profile.id}: ${source.kind}`);
+      } catch (err) {
+        // Don't block startup; the page reports the same error to the user
+        console.error(
+          `Record source check failed for profile ${profile.id}:`,
+          err instanceof Error ? err.message : err
+        );
+      }
+    }
+  } catch (err) {
+    console.error("Profiles check failed:", err instanceof Error ? err.message : err);
+  }
+
+  const { startReminderScheduler } = await import("@/lib/reminders");
+  try {
+    startReminderScheduler();
+  } catch (err) {
+    console.error("Reminder schedule failed to start:", err instanceof Error ? err.message : err);
+  }
+}
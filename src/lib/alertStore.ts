@@ -0,0 +1,146 @@
+/**
+ * Stored alerts
+ * Keeps each profile's current alerts with their acknowledge state in a JSON file;
+ * alerts found for the first time are sent through the configured notifiers
+ */
+
+import { Alert, AlertEntry, EyePressureRecord } from "@/types";
+import { readJsonFile, resolveDataPath, updateJsonFile } from "./jsonFile";
+import { evaluateAlerts } from "./alerts";
+import { AppSettings, getSessionOptions } from "./settings";
+import { Notifier, NotifyResult } from "./notifier";
+import { createWebhookNotifier } from "./webhookNotifier";
+import { createEmailNotifier } from "./emailNotifier";
+import type { Profile, ProfileSummary } from "./profiles";
+
+interface AlertsFile {
+  alerts: AlertEntry[];
+}
+
+const DEFAULT_ALERTS_FILE = "data/alerts.json";
+
+function alertsPath(): string {
+  return resolveDataPath(process.env.ALERTS_FILE || DEFAULT_ALERTS_FILE);
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function parseAlertsFile(raw: any): AlertsFile {
+  return { alerts: Array.isArray(raw?.alerts) ? raw.alerts : [] };
+}
+
+// Whether a stored alert still says the same as a fresh finding
+function sameFinding(entry: AlertEntry, alert: Alert): boolean {
+  return entry.message === alert.message && entry.value === alert.value && entry.limit === alert.limit;
+}
+
+// A profile's alerts, newest reading first
+export async function listAlerts(profileId: string): Promise<AlertEntry[]> {
+  const { alerts } = await readJsonFile(alertsPath(), parseAlertsFile);
+  return alerts
+    .filter((alert) => alert.profileId === profileId)
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+}
+
+// Evaluate the rules on a profile's records (after fetching or writing them) and store the result:
+// findings that no longer apply are dropped, new ones are notified
+// Notifications are sent without waiting and their failures only logged, so they never block
+// or fail reading or saving records
+export async function checkAlerts(
+  profile: Profile,
+  records: EyePressureRecord[],
+  settings: AppSettings
+): Promise<AlertEntry[]> {
+  const found = evaluateAlerts(records, {
+    rules: settings.alerts,
+    targets: settings.targets,
+    sessionOptions: getSessionOptions(settings),
+  });
+
+  // Most checks find nothing new, so the file is only rewritten when something changed
+  const stored = await listAlerts(profile.id);
+  const storedById = new Map(stored.map((entry) => [entry.id, entry]));
+  const unchanged =
+    stored.length === found.length &&
+    found.every((alert) => storedById.has(alert.id) && sameFinding(storedById.get(alert.id)!, alert));
+  if (unchanged) return stored;
+
+  // Compared again inside the serialized write so concurrent checks notify an alert once
+  const added = await updateJsonFile(alertsPath(), parseAlertsFile, (data) => {
+    const previous = new Map(
+      data.alerts.filter((entry) => entry.profileId === profile.id).map((entry) => [entry.id, entry])
+    );
+    const now = new Date().toISOString();
+    const current = found.map(
+      (alert): AlertEntry => ({
+        ...alert,
+        profileId: profile.id,
+        firstSeenAt: previous.get(alert.id)?.firstSeenAt ?? now,
+        acknowledgedAt: previous.get(alert.id)?.acknowledgedAt ?? null,
+      })
+    );
+    data.alerts = [...data.alerts.filter((entry) => entry.profileId !== profile.id), ...current];
+    return found.filter((alert) => !previous.has(alert.id));
+  });
+
+  // Sent in the background so a slow or unreachable notifier doesn't hold up the request
+  void notifyAlerts(profile, added).catch((err) => console.error("Error sending alerts:", err));
+  return listAlerts(profile.id);
+}
+
+// Mark alerts as seen; unknown IDs are ignored
+export async function acknowledgeAlerts(profileId: string, ids: string[]): Promise<void> {
+  const now = new Date().toISOString();
+  await updateJsonFile(alertsPath(), parseAlertsFile, (data) => {
+    for (const entry of data.alerts) {
+      if (entry.profileId === profileId && ids.includes(entry.id) && !entry.acknowledgedAt) {
+        entry.acknowledgedAt = now;
+      }
+    }
+  });
+}
+
+// Create the notifiers configured in the environment (none when nothing is set)
+export function getNotifiers(): Notifier[] {
+  const notifiers: Notifier[] = [];
+  if (process.env.ALERT_WEBHOOK_URL) {
+    notifiers.push(createWebhookNotifier(process.env.ALERT_WEBHOOK_URL));
+  }
+  if (process.env.SMTP_HOST) {
+    const to = (process.env.ALERT_EMAIL_TO ?? "")
+      .split(",")
+      .map((address) => address.trim())
+      .filter(Boolean);
+    if (to.length === 0) throw new Error("ALERT_EMAIL_TO is required when SMTP_HOST is set");
+    const secure = process.env.SMTP_SECURE === "true";
+    notifiers.push(
+      createEmailNotifier({
+        host: process.env.SMTP_HOST,
+        port: Number(process.env.SMTP_PORT) || (secure ? 465 : 25),
+        secure,
+        user: process.env.SMTP_USER || undefined,
+        password: process.env.SMTP_PASSWORD || undefined,
+        from: process.env.SMTP_FROM || process.env.SMTP_USER || "eye-pressure-record@localhost",
+        to,
+      })
+    );
+  }
+  return notifiers;
+}
+
+// Send alerts through every configured notifier; a failing channel doesn't stop the others
+export async function notifyAlerts(
+  profile: ProfileSummary,
+  alerts: Alert[],
+  notifiers: Notifier[] = getNotifiers()
+): Promise<NotifyResult[]> {
+  if (alerts.length === 0) return [];
+  const settled = await Promise.allSettled(notifiers.map((n) => n.send(profile, alerts)));
+  return settled.map((result, i) => {
+    if (result.status === "fulfilled") return { kind: notifiers[i].kind, error: null };
+    console.error(`Failed to send alerts via ${notifiers[i].kind}:`, result.reason);
+    return {
+      kind: notifiers[i].kind,
+      error: result.reason instanceof Error ? result.reason.message : String(result.reason),
+    };
+  });
+}
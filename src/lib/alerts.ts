@@ -0,0 +1,184 @@
+/**
+ * Alert rules for new readings
+ * Flags readings above target, sudden jumps over an eye's recent baseline, large inter-eye
+ * differences and 24h sessions whose fluctuation exceeds a limit
+ */
+
+import { Alert, AlertRule, EyePressureRecord, TargetPressure } from "@/types";
+import { SessionOptions, groupRecords } from "./grouping";
+import { getTargetAt } from "./targets";
+import { formatZoned } from "./time";
+
+export interface AlertRules {
+  // Readings above the target in effect at their date
+  aboveTarget: boolean;
+  // Rise over the mean of the eye's previous readings (mmHg); null turns a rule off
+  jump: number | null;
+  // Left/right difference in one reading (mmHg)
+  eyeDifference: number | null;
+  // Peak minus trough of an eye within a 24h session (mmHg)
+  fluctuation: number | null;
+  // Readings older than this aren't checked, so history doesn't raise a flood of alerts
+  lookbackDays: number;
+}
+
+export const DEFAULT_ALERT_RULES: AlertRules = {
+  aboveTarget: true,
+  jump: 5,
+  eyeDifference: 5,
+  fluctuation: 6,
+  lookbackDays: 30,
+};
+
+export const ALERT_RULE_LABELS: Record<AlertRule, string> = {
+  aboveTarget: "高于目标",
+  jump: "骤升",
+  eyeDifference: "双眼差异大",
+  fluctuation: "24 小时波动大",
+};
+
+// Previous readings of an eye the jump baseline is the mean of
+const BASELINE_READINGS = 5;
+// Fewer previous readings than this aren't a baseline
+const MIN_BASELINE_READINGS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const EYES = ["left", "right"] as const;
+const EYE_LABELS = { left: "左眼", right: "右眼" };
+
+// Read settings, falling back to the defaults for missing or invalid values; null keeps a rule off
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function parseAlertRules(raw: any): AlertRules {
+  const limit = (value: unknown, fallback: number | null) => {
+    if (value === null) return null;
+    const parsed = Number(value);
+    return value !== undefined && Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+  };
+  const lookbackDays = Number(raw?.lookbackDays);
+  return {
+    aboveTarget:
+      typeof raw?.aboveTarget === "boolean" ? raw.aboveTarget : DEFAULT_ALERT_RULES.aboveTarget,
+    jump: limit(raw?.jump, DEFAULT_ALERT_RULES.jump),
+    eyeDifference: limit(raw?.eyeDifference, DEFAULT_ALERT_RULES.eyeDifference),
+    fluctuation: limit(raw?.fluctuation, DEFAULT_ALERT_RULES.fluctuation),
+    lookbackDays:
+      Number.isInteger(lookbackDays) && lookbackDays > 0
+        ? lookbackDays
+        : DEFAULT_ALERT_RULES.lookbackDays,
+  };
+}
+
+export interface AlertContext {
+  rules: AlertRules;
+  targets: TargetPressure[];
+  // 24h sessions are detected as on the dashboard; dates in messages use its zone
+  sessionOptions: SessionOptions;
+}
+
+const mmHg = (value: number) => `${Number(value.toFixed(1))} mmHg`;
+
+// Evaluate the rules on a profile's records, newest alert first
+export function evaluateAlerts(
+  records: EyePressureRecord[],
+  context: AlertContext,
+  now = new Date()
+): Alert[] {
+  const { rules, targets, sessionOptions } = context;
+  const { timeZone } = sessionOptions;
+  const since = now.getTime() - rules.lookbackDays * DAY_MS;
+  const isRecent = (record: EyePressureRecord) => new Date(record.date).getTime() >= since;
+  const sorted = [...records].sort(
+    (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()
+  );
+  const alerts: Alert[] = [];
+
+  const add = (
+    rule: AlertRule,
+    record: EyePressureRecord,
+    eye: Alert["eye"],
+    value: number,
+    limit: number,
+    message: string,
+    key = record.id
+  ) => {
+    alerts.push({
+      id: `${rule}:${key}:${eye ?? "both"}`,
+      rule,
+      eye,
+      recordId: record.id,
+      date: record.date,
+      value,
+      limit,
+      message: `${formatZoned(record.date, timeZone)} ${message}`,
+    });
+  };
+
+  // Each eye's readings so far, for the jump baseline
+  const history: Record<"left" | "right", number[]> = { left: [], right: [] };
+
+  for (const record of sorted) {
+    const recent = isRecent(record);
+
+    for (const eye of EYES) {
+      const value = record[eye];
+      if (value === null) continue;
+
+      if (recent && rules.aboveTarget) {
+        const target = getTargetAt(targets, record.date, eye, timeZone);
+        if (value > target) {
+          const message = `${EYE_LABELS[eye]} ${mmHg(value)} 高于目标 ${mmHg(target)}`;
+          add("aboveTarget", record, eye, value, target, message);
+        }
+      }
+
+      const previous = history[eye].slice(-BASELINE_READINGS);
+      if (recent && rules.jump !== null && previous.length >= MIN_BASELINE_READINGS) {
+        const baseline = previous.reduce((acc, v) => acc + v, 0) / previous.length;
+        const rise = value - baseline;
+        if (rise > rules.jump) {
+          const message =
+            `${EYE_LABELS[eye]} ${mmHg(value)}，` +
+            `比此前 ${previous.length} 次平均 ${mmHg(baseline)} 升高 ${mmHg(rise)}`;
+          add("jump", record, eye, rise, rules.jump, message);
+        }
+      }
+      history[eye].push(value);
+    }
+
+    if (recent && rules.eyeDifference !== null && record.left !== null && record.right !== null) {
+      const difference = Math.abs(record.left - record.right);
+      if (difference > rules.eyeDifference) {
+        add(
+          "eyeDifference",
+          record,
+          null,
+          difference,
+          rules.eyeDifference,
+          `左右眼相差 ${mmHg(difference)}（左 ${mmHg(record.left)} / 右 ${mmHg(record.right)}）`
+        );
+      }
+    }
+  }
+
+  // Fluctuation is reported once per session and eye, at the session's peak reading
+  if (rules.fluctuation !== null) {
+    for (const group of groupRecords(sorted, sessionOptions)) {
+      if (group.type !== "24h" || !group.records.some(isRecent)) continue;
+      for (const eye of EYES) {
+        const readings = group.records.filter((r) => r[eye] !== null);
+        if (readings.length < 2) continue;
+        const peak = readings.reduce((max, r) => (r[eye]! > max[eye]! ? r : max));
+        const trough = readings.reduce((min, r) => (r[eye]! < min[eye]! ? r : min));
+        const fluctuation = peak[eye]! - trough[eye]!;
+        if (fluctuation > rules.fluctuation) {
+          const message =
+            `${EYE_LABELS[eye]}本次 24 小时测量波动 ${mmHg(fluctuation)}` +
+            `（${mmHg(trough[eye]!)}–${mmHg(peak[eye]!)}）`;
+          add("fluctuation", peak, eye, fluctuation, rules.fluctuation, message, group.id);
+        }
+      }
+    }
+  }
+
+  return alerts.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+}
@@ -0,0 +1,343 @@
+/**
+ * Summary statistics for eye pressure records
+ * Computes per-eye peak, trough, mean and fluctuation, 24h session metrics and long-term trends
+ * Eyes missing from a reading (null) are left out rather than counted as 0
+ */
+
+import { ChartDataPoint, EyePressureRecord, TargetPressure } from "@/types";
+import { getTargetAt } from "./targets";
+import { zonedMinutesOfDay } from "./time";
+
+// Statistics for one eye
+export interface EyeSummary {
+  max: number;
+  min: number;
+  mean: number;
+  // Population standard deviation
+  stdDev: number;
+  // Max minus min
+  fluctuation: number;
+  // ISO date of the highest / lowest reading
+  peakTime: string;
+  troughTime: string;
+}
+
+export interface RecordsSummary {
+  count: number;
+  from: string;
+  to: string;
+  // null when no reading has a value for the eye
+  left: EyeSummary | null;
+  right: EyeSummary | null;
+}
+
+// Mean of the eyes measured in a reading; null when neither was
+export function recordAverage(record: Pick<EyePressureRecord, "left" | "right">): number | null {
+  if (record.left === null) return record.right;
+  if (record.right === null) return record.left;
+  return (record.left + record.right) / 2;
+}
+
+// One eye's readings with their dates, skipping readings without that eye
+function eyeReadings(records: EyePressureRecord[], eye: "left" | "right") {
+  return records.flatMap((r) => (r[eye] === null ? [] : [{ date: r.date, value: r[eye] }]));
+}
+
+// Summarize one eye's readings; null when the eye wasn't measured
+function summarizeEye(records: EyePressureRecord[], eye: "left" | "right"): EyeSummary | null {
+  const readings = eyeReadings(records, eye);
+  if (readings.length === 0) return null;
+  let peak = readings[0];
+  let trough = readings[0];
+  let sum = 0;
+  for (const reading of readings) {
+    if (reading.value > peak.value) peak = reading;
+    if (reading.value < trough.value) trough = reading;
+    sum += reading.value;
+  }
+  const mean = sum / readings.length;
+  const variance =
+    readings.reduce((acc, r) => acc + (r.value - mean) ** 2, 0) / readings.length;
+  return {
+    max: peak.value,
+    min: trough.value,
+    mean,
+    stdDev: Math.sqrt(variance),
+    fluctuation: peak.value - trough.value,
+    peakTime: peak.date,
+    troughTime: trough.date,
+  };
+}
+
+// Summarize records (expected sorted by date); null when empty
+export function summarizeRecords(records: EyePressureRecord[]): RecordsSummary | null {
+  if (records.length === 0) return null;
+  return {
+    count: records.length,
+    from: records[0].date,
+    to: records[records.length - 1].date,
+    left: summarizeEye(records, "left"),
+    right: summarizeEye(records, "right"),
+  };
+}
+
+// Sleep period as "HH:mm" clock times; may cross midnight (e.g. 23:00–07:00)
+export interface SleepWindow {
+  start: string;
+  end: string;
+}
+
+export const DEFAULT_SLEEP_WINDOW: SleepWindow = { start: "23:00", end: "07:00" };
+
+// Mean per eye for a subset of readings; null when the subset has no reading of the eye
+export interface EyeMeans {
+  count: number;
+  left: number | null;
+  right: number | null;
+}
+
+// Metrics for a 24h session
+export interface SessionMetrics extends RecordsSummary {
+  // Absolute left/right difference over readings of both eyes; null when there are none
+  asymmetry: {
+    mean: number;
+    max: number;
+    maxTime: string;
+  } | null;
+  sleepWindow: SleepWindow;
+  diurnal: EyeMeans;
+  nocturnal: EyeMeans;
+}
+
+const CLOCK_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+// Parse "23:00-07:00" into a sleep window, falling back to the default
+export function parseSleepWindow(value: string | undefined): SleepWindow {
+  const [start, end] = (value ?? "").split("-").map((part) => part.trim());
+  if (start && end && CLOCK_PATTERN.test(start) && CLOCK_PATTERN.test(end)) {
+    return { start, end };
+  }
+  return DEFAULT_SLEEP_WINDOW;
+}
+
+// Minutes since midnight for "HH:mm"
+function clockMinutes(clock: string): number {
+  const [hours, minutes] = clock.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+// Whether a reading falls inside the sleep window (clock time in the display zone)
+export function isNocturnal(date: string, window: SleepWindow, timeZone: string): boolean {
+  const minute = zonedMinutesOfDay(date, timeZone);
+  const start = clockMinutes(window.start);
+  const end = clockMinutes(window.end);
+  return start <= end
+    ? minute >= start && minute < end
+    : minute >= start || minute < end;
+}
+
+// Mean of each eye over a subset
+export function eyeMeans(records: EyePressureRecord[]): EyeMeans {
+  const mean = (eye: "left" | "right") => {
+    const values = eyeReadings(records, eye);
+    return values.length === 0
+      ? null
+      : values.reduce((acc, r) => acc + r.value, 0) / values.length;
+  };
+  return { count: records.length, left: mean("left"), right: mean("right") };
+}
+
+// Compute 24h session metrics (records expected sorted by date); null when empty
+export function computeSessionMetrics(
+  records: EyePressureRecord[],
+  sleepWindow: SleepWindow,
+  timeZone: string
+): SessionMetrics | null {
+  const summary = summarizeRecords(records);
+  if (!summary) return null;
+
+  const diffs = records.flatMap((r) =>
+    r.left === null || r.right === null ? [] : [{ date: r.date, diff: Math.abs(r.left - r.right) }]
+  );
+  const maxDiff = diffs.reduce<(typeof diffs)[number] | null>(
+    (max, d) => (max === null || d.diff > max.diff ? d : max),
+    null
+  );
+
+  const night = records.filter((r) => isNocturnal(r.date, sleepWindow, timeZone));
+  const day = records.filter((r) => !isNocturnal(r.date, sleepWindow, timeZone));
+
+  return {
+    ...summary,
+    asymmetry: maxDiff && {
+      mean: diffs.reduce((acc, d) => acc + d.diff, 0) / diffs.length,
+      max: maxDiff.diff,
+      maxTime: maxDiff.date,
+    },
+    sleepWindow,
+    diurnal: eyeMeans(day),
+    nocturnal: eyeMeans(night),
+  };
+}
+
+// Long-term trend options for regular measurements
+export interface TrendOptions {
+  // Trailing window for the moving average, in days
+  rollingDays: number;
+  // Readings above the target in effect at their date count as above target
+  targets: TargetPressure[];
+  // Display zone the targets' effective dates are read in
+  timeZone: string;
+  // Length of the recent period compared against the one before it, in weeks
+  recentWeeks: number;
+}
+
+export const DEFAULT_TREND_OPTIONS: TrendOptions = {
+  rollingDays: 90,
+  targets: [],
+  timeZone: "UTC",
+  recentWeeks: 12,
+};
+
+// Least-squares fit of value against time
+export interface Regression {
+  // mmHg per month (30.44 days)
+  slopePerMonth: number;
+  // Fitted value at a timestamp
+  at(timestamp: number): number;
+}
+
+// Per-eye trend statistics
+export interface EyeTrend {
+  regression: Regression | null;
+  percentAboveTarget: number;
+}
+
+// Recent period vs the preceding period of equal length
+export interface PeriodComparison {
+  recent: EyeMeans;
+  previous: EyeMeans;
+  recentStart: string;
+  previousStart: string;
+}
+
+export interface TrendMetrics {
+  summary: RecordsSummary;
+  options: TrendOptions;
+  left: EyeTrend;
+  right: EyeTrend;
+  comparison: PeriodComparison;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MONTH_MS = 30.44 * DAY_MS;
+
+// Fit value = a + b * time; null with fewer than two distinct timestamps
+export function linearRegression(points: { time: number; value: number }[]): Regression | null {
+  if (points.length < 2) return null;
+  const n = points.length;
+  const meanTime = points.reduce((acc, p) => acc + p.time, 0) / n;
+  const meanValue = points.reduce((acc, p) => acc + p.value, 0) / n;
+  let covariance = 0;
+  let variance = 0;
+  for (const p of points) {
+    covariance += (p.time - meanTime) * (p.value - meanValue);
+    variance += (p.time - meanTime) ** 2;
+  }
+  if (variance === 0) return null;
+  const slope = covariance / variance;
+  return {
+    slopePerMonth: slope * MONTH_MS,
+    at: (timestamp) => meanValue + slope * (timestamp - meanTime),
+  };
+}
+
+// Trailing moving average of per-reading means over a time window, one value per record
+export function rollingMean(records: EyePressureRecord[], windowDays: number): (number | null)[] {
+  const windowMs = windowDays * DAY_MS;
+  const times = records.map((r) => new Date(r.date).getTime());
+  const averages = records.map(recordAverage);
+  let start = 0;
+  let sum = 0;
+  let count = 0;
+  return records.map((_, i) => {
+    const value = averages[i];
+    if (value !== null) {
+      sum += value;
+      count++;
+    }
+    while (times[i] - times[start] > windowMs) {
+      const dropped = averages[start];
+      if (dropped !== null) {
+        sum -= dropped;
+        count--;
+      }
+      start++;
+    }
+    return count === 0 ? null : sum / count;
+  });
+}
+
+// Compute long-term trend metrics (records expected sorted by date); null when empty
+export function computeTrendMetrics(
+  records: EyePressureRecord[],
+  options: TrendOptions = DEFAULT_TREND_OPTIONS
+): TrendMetrics | null {
+  const summary = summarizeRecords(records);
+  if (!summary) return null;
+
+  const eyeTrend = (eye: "left" | "right"): EyeTrend => {
+    const readings = eyeReadings(records, eye);
+    const above = readings.filter(
+      (r) => r.value > getTargetAt(options.targets, r.date, eye, options.timeZone)
+    );
+    return {
+      regression: linearRegression(
+        readings.map((r) => ({ time: new Date(r.date).getTime(), value: r.value }))
+      ),
+      percentAboveTarget: readings.length === 0 ? 0 : (above.length / readings.length) * 100,
+    };
+  };
+
+  // Periods end at the latest reading
+  const end = new Date(summary.to).getTime();
+  const periodMs = options.recentWeeks * 7 * DAY_MS;
+  const recentStart = end - periodMs;
+  const previousStart = recentStart - periodMs;
+  const inPeriod = (from: number, to: number) =>
+    records.filter((r) => {
+      const time = new Date(r.date).getTime();
+      return time > from && time <= to;
+    });
+
+  return {
+    summary,
+    options,
+    left: eyeTrend("left"),
+    right: eyeTrend("right"),
+    comparison: {
+      recent: eyeMeans(inPeriod(recentStart, end)),
+      previous: eyeMeans(inPeriod(previousStart, recentStart)),
+      recentStart: new Date(recentStart).toISOString(),
+      previousStart: new Date(previousStart).toISOString(),
+    },
+  };
+}
+
+// Add moving average and regression line series to chart points built from the same records
+export function withTrendSeries(
+  data: ChartDataPoint[],
+  records: EyePressureRecord[],
+  trend: TrendMetrics
+): ChartDataPoint[] {
+  const moving = rollingMean(records, trend.options.rollingDays);
+  return data.map((point, i) => {
+    const time = new Date(records[i].date).getTime();
+    return {
+      ...point,
+      movingAverage: moving[i] ?? undefined,
+      trendLeft: trend.left.regression?.at(time),
+      trendRight: trend.right.regression?.at(time),
+    };
+  });
+}
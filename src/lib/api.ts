@@ -0,0 +1,285 @@
+/**
+ * Versioned JSON API helpers
+ * Token auth, pagination, ETags and the data the /api/v1 routes share with the dashboard
+ */
+
+import { createHash } from "crypto";
+import { ChartDataPoint, EyePressureRecord, RecordGroup, TargetPressure } from "@/types";
+import { Profile, findProfile } from "./profiles";
+import { getRecordSource } from "./recordSource";
+import { getSessionOptions, loadSettings } from "./settings";
+import { groupRecords, toChartData } from "./grouping";
+import { ReadingOptions } from "./readings";
+import { DashboardFilters, filterGroups, parseDashboardFilters, resolveFilterRange } from "./filters";
+import { ReportRange } from "./report";
+import { withTargetSeries } from "./targets";
+import { safeEqual } from "./auth";
+import {
+  DEFAULT_TREND_OPTIONS,
+  RecordsSummary,
+  SessionMetrics,
+  TrendMetrics,
+  computeSessionMetrics,
+  computeTrendMetrics,
+  parseSleepWindow,
+  summarizeRecords,
+  withTrendSeries,
+} from "./analytics";
+
+export const API_VERSION = "v1";
+
+const DEFAULT_PAGE_LIMIT = 100;
+const MAX_PAGE_LIMIT = 1000;
+
+export interface Pagination {
+  limit: number;
+  offset: number;
+}
+
+// Envelope of list endpoints; `next` is the URL of the following page, null on the last one
+export interface Page<T> {
+  data: T[];
+  pagination: Pagination & { total: number; next: string | null };
+}
+
+// JSON error response, e.g. apiError(404, "Unknown profile: mom")
+export function apiError(status: number, message: string): Response {
+  return Response.json({ error: message }, { status });
+}
+
+// API tokens (API_TOKENS, comma-separated); without any the API is disabled
+function apiTokens(): string[] {
+  return (process.env.API_TOKENS ?? "")
+    .split(",")
+    .map((token) => token.trim())
+    .filter(Boolean);
+}
+
+// Error response for a request without a valid `Authorization: Bearer <token>` header; null when allowed
+function checkApiToken(request: Request): Response | null {
+  const tokens = apiTokens();
+  if (tokens.length === 0) return apiError(401, "API is disabled: set API_TOKENS to enable it");
+  const match = /^Bearer\s+(.+)$/i.exec(request.headers.get("authorization") ?? "");
+  const token = match?.[1].trim() ?? "";
+  // Compare against every token so timing doesn't reveal which one matched
+  const valid = tokens.reduce((found, expected) => safeEqual(token, expected) || found, false);
+  return valid ? null : apiError(401, "Missing or invalid API token");
+}
+
+// Run an API route handler after the token check, turning thrown errors into 500 responses
+export async function handleApiRequest(
+  request: Request,
+  handler: (url: URL) => Promise<Response>
+): Promise<Response> {
+  const denied = checkApiToken(request);
+  if (denied) return denied;
+  try {
+    return await handler(new URL(request.url));
+  } catch (err) {
+    console.error("API request failed:", err);
+    return apiError(500, err instanceof Error ? err.message : "Unknown error");
+  }
+}
+
+// Read `limit` and `offset`; null when either is malformed
+export function parsePagination(params: URLSearchParams): Pagination | null {
+  const read = (key: string, fallback: number) => {
+    const value = params.get(key);
+    if (value === null || value === "") return fallback;
+    return /^\d+$/.test(value) ? Number(value) : NaN;
+  };
+  const limit = read("limit", DEFAULT_PAGE_LIMIT);
+  const offset = read("offset", 0);
+  if (!Number.isFinite(limit) || !Number.isFinite(offset) || limit < 1 || limit > MAX_PAGE_LIMIT) {
+    return null;
+  }
+  return { limit, offset };
+}
+
+// One page of items, linking the next page with the same query
+export function paginate<T>(items: T[], pagination: Pagination, requestUrl: string): Page<T> {
+  const { limit, offset } = pagination;
+  let next: string | null = null;
+  if (offset + limit < items.length) {
+    const url = new URL(requestUrl);
+    url.searchParams.set("offset", String(offset + limit));
+    url.searchParams.set("limit", String(limit));
+    next = url.toString();
+  }
+  return {
+    data: items.slice(offset, offset + limit),
+    pagination: { limit, offset, total: items.length, next },
+  };
+}
+
+// JSON response with an ETag of its body; 304 when the client already has it
+export function jsonWithEtag(request: Request, body: unknown): Response {
+  const json = JSON.stringify(body);
+  const etag = `"${createHash("sha1").update(json).digest("base64url")}"`;
+  const headers = {
+    ETag: etag,
+    // Clients may keep a copy but must revalidate it, since records change at any time
+    "Cache-Control": "private, no-cache",
+  };
+  const ifNoneMatch = request.headers.get("if-none-match");
+  if (ifNoneMatch && ifNoneMatch.split(",").some((tag) => tag.trim().replace(/^W\//, "") === etag)) {
+    return new Response(null, { status: 304, headers });
+  }
+  return new Response(json, { headers: { ...headers, "Content-Type": "application/json" } });
+}
+
+// A profile's data grouped exactly as the dashboard does, with the dashboard filters from the query
+export interface ApiDataset {
+  profile: Profile;
+  timeZone: string;
+  targets: TargetPressure[];
+  readings: ReadingOptions;
+  filters: DashboardFilters;
+  // Date range the filters resolve to (presets applied)
+  range: ReportRange;
+  // Filtered groups; sessions are detected on all records, as on the dashboard
+  groups: RecordGroup[];
+}
+
+// Load and filter a profile's data; null for an unknown profile
+export async function loadApiDataset(
+  profileId: string,
+  params: URLSearchParams
+): Promise<ApiDataset | null> {
+  const profile = await findProfile(profileId);
+  if (!profile) return null;
+  const source = getRecordSource(profile);
+  const [records, events, settings] = await Promise.all([
+    source.fetchAllRecords(),
+    source.fetchEvents(),
+    loadSettings(profile),
+  ]);
+  const sessionOptions = getSessionOptions(settings);
+  const { timeZone } = sessionOptions;
+  const filters = parseDashboardFilters(Object.fromEntries(params));
+  const range = resolveFilterRange(filters, events, new Date(), timeZone);
+  const groups = groupRecords(records, sessionOptions);
+  return {
+    profile,
+    timeZone,
+    targets: settings.targets,
+    readings: settings.readings,
+    filters,
+    range,
+    groups: filterGroups(groups, filters, range, settings.targets, timeZone),
+  };
+}
+
+// Record as listed by the API, with the group it belongs to
+export type ApiRecord = EyePressureRecord & { groupId: string };
+
+// All filtered records, oldest first
+export function listApiRecords(groups: RecordGroup[]): ApiRecord[] {
+  return groups
+    .flatMap((group) => group.records.map((record) => ({ ...record, groupId: group.id })))
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+}
+
+// Group without its records, for listings that leave them out
+export interface ApiGroupSummary {
+  id: string;
+  title: string;
+  type: RecordGroup["type"];
+  count: number;
+  from: string;
+  to: string;
+}
+
+export function toApiGroupSummary(group: RecordGroup): ApiGroupSummary {
+  return {
+    id: group.id,
+    title: group.title,
+    type: group.type,
+    count: group.records.length,
+    from: group.records[0].date,
+    to: group.records[group.records.length - 1].date,
+  };
+}
+
+// Trend metrics without the fitted-line functions
+export interface ApiTrend {
+  rollingDays: number;
+  recentWeeks: number;
+  left: { slopePerMonth: number | null; percentAboveTarget: number };
+  right: { slopePerMonth: number | null; percentAboveTarget: number };
+  comparison: TrendMetrics["comparison"];
+}
+
+function toApiTrend(trend: TrendMetrics): ApiTrend {
+  const eye = (side: "left" | "right") => ({
+    slopePerMonth: trend[side].regression?.slopePerMonth ?? null,
+    percentAboveTarget: trend[side].percentAboveTarget,
+  });
+  return {
+    rollingDays: trend.options.rollingDays,
+    recentWeeks: trend.options.recentWeeks,
+    left: eye("left"),
+    right: eye("right"),
+    comparison: trend.comparison,
+  };
+}
+
+// Trend of a regular group with the profile's targets, as shown under its chart
+function groupTrend(group: RecordGroup, dataset: ApiDataset): TrendMetrics | null {
+  if (group.type !== "regular") return null;
+  return computeTrendMetrics(group.records, {
+    ...DEFAULT_TREND_OPTIONS,
+    targets: dataset.targets,
+    timeZone: dataset.timeZone,
+  });
+}
+
+// Chart series of a group as the dashboard draws it: targets, plus trend overlays for regular measurements
+export function toApiChartData(group: RecordGroup, dataset: ApiDataset): ChartDataPoint[] {
+  const data = withTargetSeries(
+    toChartData(group, dataset.timeZone, dataset.readings),
+    group.records,
+    dataset.targets,
+    dataset.timeZone
+  );
+  const trend = groupTrend(group, dataset);
+  return trend ? withTrendSeries(data, group.records, trend) : data;
+}
+
+export interface ApiGroupStats extends ApiGroupSummary {
+  summary: RecordsSummary | null;
+  // 24h sessions only
+  session: SessionMetrics | null;
+  // Regular measurements only
+  trend: ApiTrend | null;
+}
+
+export interface ApiStats {
+  range: ReportRange;
+  timeZone: string;
+  // All filtered readings together
+  summary: RecordsSummary | null;
+  groups: ApiGroupStats[];
+}
+
+// Statistics of the filtered data: overall summary and per-group session or trend metrics
+export function computeApiStats(dataset: ApiDataset): ApiStats {
+  const sleepWindow = parseSleepWindow(process.env.SLEEP_WINDOW);
+  return {
+    range: dataset.range,
+    timeZone: dataset.timeZone,
+    summary: summarizeRecords(listApiRecords(dataset.groups)),
+    groups: dataset.groups.map((group) => {
+      const trend = groupTrend(group, dataset);
+      return {
+        ...toApiGroupSummary(group),
+        summary: summarizeRecords(group.records),
+        session:
+          group.type === "24h"
+            ? computeSessionMetrics(group.records, sleepWindow, dataset.timeZone)
+            : null,
+        trend: trend ? toApiTrend(trend) : null,
+      };
+    }),
+  };
+}
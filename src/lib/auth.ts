@@ -0,0 +1,98 @@
+/**
+ * Login sessions
+ * Password or OAuth login issues an HMAC-signed session cookie checked by the proxy and server actions
+ */
+
+import { createHash, createHmac, timingSafeEqual } from "crypto";
+
+export const SESSION_COOKIE = "eye_session";
+// OAuth state and return path between the login redirect and the callback
+export const OAUTH_STATE_COOKIE = "eye_oauth_state";
+
+const SESSION_DAYS = 30;
+
+export interface SessionUser {
+  id: string; // Email or provider user id
+  name: string;
+}
+
+interface SessionPayload extends SessionUser {
+  exp: number; // Expiry, ms since epoch
+}
+
+// Login is required once a password or an OAuth provider is configured
+export function isAuthEnabled(): boolean {
+  return Boolean(process.env.AUTH_PASSWORD || process.env.AUTH_PROVIDER);
+}
+
+function authSecret(): string {
+  const secret = process.env.AUTH_SECRET;
+  if (!secret || secret.length < 32) {
+    throw new Error("AUTH_SECRET must be set to at least 32 characters when login is enabled");
+  }
+  return secret;
+}
+
+function sign(value: string): string {
+  return createHmac("sha256", authSecret()).update(value).digest("base64url");
+}
+
+// Constant-time string comparison (hashing first so lengths always match)
+export function safeEqual(a: string, b: string): boolean {
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(digest(a), digest(b));
+}
+
+// Cookie value for a logged-in user: base64url(payload).signature
+export function createSessionValue(user: SessionUser, now = Date.now()): string {
+  const payload: SessionPayload = { ...user, exp: now + SESSION_DAYS * 24 * 60 * 60 * 1000 };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return `${encoded}.${sign(encoded)}`;
+}
+
+// User of a session cookie; null when missing, tampered with or expired
+export function readSessionValue(value: string | undefined, now = Date.now()): SessionUser | null {
+  if (!value) return null;
+  const [encoded, signature] = value.split(".");
+  if (!encoded || !signature || !safeEqual(signature, sign(encoded))) return null;
+  try {
+    const payload = JSON.parse(Buffer.from(encoded, "base64url").toString()) as SessionPayload;
+    if (typeof payload.exp !== "number" || payload.exp < now) return null;
+    return { id: String(payload.id), name: String(payload.name) };
+  } catch {
+    return null;
+  }
+}
+
+// Cookie options shared by login, logout and the OAuth callback
+export function sessionCookieOptions(maxAgeSeconds = SESSION_DAYS * 24 * 60 * 60) {
+  return {
+    httpOnly: true,
+    sameSite: "lax" as const,
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: maxAgeSeconds,
+  };
+}
+
+// Check the password login (AUTH_PASSWORD)
+export function verifyPassword(password: string): boolean {
+  const expected = process.env.AUTH_PASSWORD;
+  return Boolean(expected) && safeEqual(password, expected as string);
+}
+
+// OAuth users allowed to log in (AUTH_ALLOWED_USERS, comma-separated emails or ids)
+export function isAllowedUser(user: SessionUser): boolean {
+  const allowed = (process.env.AUTH_ALLOWED_USERS ?? "")
+    .split(",")
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean);
+  return allowed.includes(user.id.toLowerCase());
+}
+
+// Only same-site paths are accepted as the post-login destination
+export function safeNextPath(value: unknown): string {
+  return typeof value === "string" && value.startsWith("/") && !value.startsWith("//")
+    ? value
+    : "/";
+}
@@ -0,0 +1,129 @@
+/**
+ * OAuth login providers
+ * A provider sends the browser to an authorization page and turns the returned code into a user;
+ * AUTH_PROVIDER picks one from the registry below
+ */
+
+import type { SessionUser } from "./auth";
+
+export interface AuthProvider {
+  id: string;
+  // Label of the login button
+  name: string;
+  authorizationUrl(options: { state: string; redirectUri: string }): string;
+  exchangeCode(code: string, redirectUri: string): Promise<SessionUser>;
+}
+
+const DEFAULT_LOCAL_USER = "local@example.com";
+
+function requiredEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) throw new Error(`Missing ${name} for AUTH_PROVIDER=oauth`);
+  return value;
+}
+
+// Generic OAuth 2.0 authorization-code flow configured by AUTH_OAUTH_* variables
+// (works with OIDC providers and GitHub-style APIs that return email/login from the user-info endpoint)
+function createOAuthProvider(): AuthProvider {
+  const config = {
+    authorizeUrl: requiredEnv("AUTH_OAUTH_AUTHORIZE_URL"),
+    tokenUrl: requiredEnv("AUTH_OAUTH_TOKEN_URL"),
+    userInfoUrl: requiredEnv("AUTH_OAUTH_USERINFO_URL"),
+    clientId: requiredEnv("AUTH_OAUTH_CLIENT_ID"),
+    clientSecret: requiredEnv("AUTH_OAUTH_CLIENT_SECRET"),
+    scope: process.env.AUTH_OAUTH_SCOPE || "openid email profile",
+  };
+
+  return {
+    id: "oauth",
+    name: process.env.AUTH_OAUTH_NAME || "OAuth",
+
+    authorizationUrl({ state, redirectUri }) {
+      const url = new URL(config.authorizeUrl);
+      url.searchParams.set("response_type", "code");
+      url.searchParams.set("client_id", config.clientId);
+      url.searchParams.set("redirect_uri", redirectUri);
+      url.searchParams.set("scope", config.scope);
+      url.searchParams.set("state", state);
+      return url.toString();
+    },
+
+    async exchangeCode(code, redirectUri) {
+      const tokenResponse = await fetch(config.tokenUrl, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/x-www-form-urlencoded",
+          Accept: "application/json",
+        },
+        body: new URLSearchParams({
+          grant_type: "authorization_code",
+          code,
+          redirect_uri: redirectUri,
+          client_id: config.clientId,
+          client_secret: config.clientSecret,
+        }),
+      });
+      const token = await tokenResponse.json();
+      if (!tokenResponse.ok || typeof token.access_token !== "string") {
+        throw new Error(`OAuth token exchange failed: ${token.error ?? tokenResponse.status}`);
+      }
+
+      const userResponse = await fetch(config.userInfoUrl, {
+        headers: { Authorization: `Bearer ${token.access_token}`, Accept: "application/json" },
+      });
+      if (!userResponse.ok) {
+        throw new Error(`OAuth user info request failed: ${userResponse.status}`);
+      }
+      const info = await userResponse.json();
+      const id = info.email ?? info.login ?? info.sub ?? info.id;
+      if (!id) throw new Error("OAuth user info has no email or id");
+      return { id: String(id), name: String(info.name ?? info.login ?? id) };
+    },
+  };
+}
+
+// Stand-in for development and tests: "authorizes" immediately as AUTH_LOCAL_USER
+// by redirecting straight back to the callback, without any external service
+function createLocalProvider(): AuthProvider {
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("AUTH_PROVIDER=local is for development and tests only");
+  }
+  const user = process.env.AUTH_LOCAL_USER || DEFAULT_LOCAL_USER;
+
+  return {
+    id: "local",
+    name: `本地测试账号（${user}）`,
+
+    authorizationUrl({ state, redirectUri }) {
+      const url = new URL(redirectUri);
+      url.searchParams.set("code", user);
+      url.searchParams.set("state", state);
+      return url.toString();
+    },
+
+    // The code only echoes the configured user, so a forged one can't log in as anyone else
+    async exchangeCode() {
+      return { id: user, name: user };
+    },
+  };
+}
+
+// Available providers by AUTH_PROVIDER value; add an entry to plug in another one
+const PROVIDERS: Record<string, () => AuthProvider> = {
+  oauth: createOAuthProvider,
+  local: createLocalProvider,
+};
+
+// Callback URL registered with the provider; APP_URL overrides the request origin behind a reverse proxy
+export function oauthCallbackUrl(requestUrl: string): string {
+  return new URL("/auth/callback", process.env.APP_URL || requestUrl).toString();
+}
+
+// Configured OAuth provider; null when only password login (or no login) is set up
+export function getAuthProvider(): AuthProvider | null {
+  const id = process.env.AUTH_PROVIDER;
+  if (!id) return null;
+  const create = PROVIDERS[id];
+  if (!create) throw new Error(`Unknown AUTH_PROVIDER: ${id}`);
+  return create();
+}
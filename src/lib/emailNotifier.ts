@@ -0,0 +1,193 @@
+/**
+ * Email alert notifier
+ * Sends new alerts as a plain-text mail through a minimal SMTP client: implicit TLS (port 465),
+ * or a plain connection upgraded with STARTTLS when the server offers it; credentials are only
+ * sent over TLS, so plain connections (local stand-ins such as Mailpit) work without login only
+ */
+
+import net from "net";
+import tls from "tls";
+import os from "os";
+import { Notifier, formatAlertText } from "./notifier";
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  // Connect with TLS from the start (port 465)
+  secure: boolean;
+  // AUTH PLAIN credentials (sent over TLS only); none for relays that don't require login
+  user?: string;
+  password?: string;
+  from: string;
+  to: string[];
+}
+
+const TIMEOUT_MS = 15_000;
+
+export function createEmailNotifier(options: SmtpOptions): Notifier {
+  return {
+    kind: "email",
+    async send(profile, alerts) {
+      await sendMail(options, `眼压提醒：${profile.name} ${alerts.length} 条新提醒`, formatAlertText(profile, alerts));
+    },
+  };
+}
+
+// One SMTP conversation: greeting, EHLO, STARTTLS when offered, optional AUTH, envelope, message, QUIT
+async function sendMail(options: SmtpOptions, subject: string, text: string): Promise<void> {
+  const connection = await connect(options);
+  try {
+    await connection.expect(220);
+    const ehlo = `EHLO ${os.hostname() || "localhost"}`;
+    const capabilities = await connection.command(ehlo, 250);
+    if (!connection.secure && /^250[- ]STARTTLS\b/im.test(capabilities)) {
+      await connection.command("STARTTLS", 220);
+      await connection.startTls();
+      // The session starts over once encrypted
+      await connection.command(ehlo, 250);
+    }
+    if (options.user && options.password) {
+      if (!connection.secure) {
+        throw new Error(
+          "SMTP server doesn't offer STARTTLS; refusing to send credentials over a plain connection (set SMTP_SECURE=true for implicit TLS)"
+        );
+      }
+      const credentials = Buffer.from(`\0${options.user}\0${options.password}`).toString("base64");
+      await connection.command(`AUTH PLAIN ${credentials}`, 235);
+    }
+    await connection.command(`MAIL FROM:<${options.from}>`, 250);
+    for (const recipient of options.to) {
+      // 251: not local, will be forwarded
+      await connection.command(`RCPT TO:<${recipient}>`, [250, 251]);
+    }
+    await connection.command("DATA", 354);
+    await connection.command(`${buildMessage(options, subject, text)}\r\n.`, 250);
+    await connection.command("QUIT", 221);
+  } finally {
+    connection.close();
+  }
+}
+
+// RFC 5322 message with a UTF-8 subject and base64 body; lines starting with "." are dot-stuffed
+function buildMessage(options: SmtpOptions, subject: string, text: string): string {
+  const body = Buffer.from(text.replace(/\r?\n/g, "\r\n"))
+    .toString("base64")
+    .replace(/.{76}/g, "$&\r\n");
+  return [
+    `From: ${options.from}`,
+    `To: ${options.to.join(", ")}`,
+    `Subject: =?UTF-8?B?${Buffer.from(subject).toString("base64")}?=`,
+    `Date: ${new Date().toUTCString()}`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    body,
+  ]
+    .join("\r\n")
+    .replace(/^\./gm, "..");
+}
+
+interface SmtpConnection {
+  // Whether the connection is encrypted (implicit TLS or after STARTTLS)
+  readonly secure: boolean;
+  // Wait for the next reply and check its code
+  expect(code: number | number[]): Promise<string>;
+  // Send a line and check the reply
+  command(line: string, code: number | number[]): Promise<string>;
+  // Upgrade a plain connection to TLS (after the server accepted STARTTLS)
+  startTls(): Promise<void>;
+  close(): void;
+}
+
+// Open a connection that reads complete (possibly multi-line) replies in order
+function connect(options: SmtpOptions): Promise<SmtpConnection> {
+  return new Promise((resolve, reject) => {
+    let socket: net.Socket = options.secure
+      ? tls.connect({ host: options.host, port: options.port, servername: options.host })
+      : net.connect({ host: options.host, port: options.port });
+    let secure = options.secure;
+    let buffer = "";
+    const replies: string[] = [];
+    let waiting: { resolve: (reply: string) => void; reject: (err: Error) => void } | null = null;
+    let failure: Error | null = null;
+
+    const fail = (err: Error) => {
+      failure = err;
+      waiting?.reject(err);
+      waiting = null;
+    };
+
+    const onData = (chunk: Buffer) => {
+      buffer += chunk.toString("utf-8");
+      // A reply ends with a line whose code is followed by a space (or nothing) instead of "-"
+      let match: RegExpMatchArray | null;
+      while ((match = buffer.match(/^(?:\d{3}-[^\r\n]*\r\n)*\d{3}(?: [^\r\n]*)?\r\n/))) {
+        buffer = buffer.slice(match[0].length);
+        replies.push(match[0].trimEnd());
+        if (waiting) {
+          waiting.resolve(replies.shift()!);
+          waiting = null;
+        }
+      }
+    };
+    const onClose = () => fail(failure ?? new Error("SMTP connection closed"));
+    const listen = (target: net.Socket) => {
+      target.setTimeout(TIMEOUT_MS, () => target.destroy(new Error("SMTP server timed out")));
+      target.on("error", fail);
+      target.on("close", onClose);
+      target.on("data", onData);
+    };
+    listen(socket);
+    socket.once("error", reject);
+
+    const expect = async (code: number | number[]) => {
+      const codes = Array.isArray(code) ? code : [code];
+      const reply = await new Promise<string>((resolveReply, rejectReply) => {
+        if (replies.length > 0) resolveReply(replies.shift()!);
+        else if (failure) rejectReply(failure);
+        else waiting = { resolve: resolveReply, reject: rejectReply };
+      });
+      if (!codes.some((c) => reply.startsWith(String(c)))) {
+        throw new Error(`Unexpected SMTP reply (expected ${codes.join("/")}): ${reply.split("\r\n").pop()}`);
+      }
+      return reply;
+    };
+
+    // Hand the plain socket over to TLS; replies are read from the encrypted socket from then on
+    const startTls = () =>
+      new Promise<void>((resolveTls, rejectTls) => {
+        const plain = socket;
+        plain.removeListener("data", onData);
+        plain.removeListener("close", onClose);
+        plain.removeListener("error", fail);
+        plain.setTimeout(0);
+        buffer = "";
+        const upgraded = tls.connect({ socket: plain, servername: options.host });
+        upgraded.once("error", rejectTls);
+        upgraded.once("secureConnect", () => {
+          upgraded.removeListener("error", rejectTls);
+          socket = upgraded;
+          secure = true;
+          listen(upgraded);
+          resolveTls();
+        });
+      });
+
+    socket.once(options.secure ? "secureConnect" : "connect", () => {
+      socket.removeListener("error", reject);
+      resolve({
+        get secure() {
+          return secure;
+        },
+        expect,
+        command: (line, code) => {
+          socket.write(`${line}\r\n`);
+          return expect(code);
+        },
+        startTls,
+        close: () => socket.end(),
+      });
+    });
+  });
+}
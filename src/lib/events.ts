@@ -0,0 +1,99 @@
+/**
+ * Treatment event helpers
+ * Labels, parsing of stored values and before/after pressure comparison around events
+ */
+
+import { EyePressureRecord, TreatmentEvent, TreatmentEventType } from "@/types";
+import { EyeMeans, eyeMeans } from "./analytics";
+
+export const EVENT_TYPES: TreatmentEventType[] = ["medication", "procedure", "visit"];
+
+export const EVENT_TYPE_LABELS: Record<TreatmentEventType, string> = {
+  medication: "用药",
+  procedure: "手术/激光",
+  visit: "就诊",
+};
+
+export const EVENT_EYE_LABELS: Record<TreatmentEvent["eye"], string> = {
+  left: "左眼",
+  right: "右眼",
+  both: "双眼",
+};
+
+// Days of readings averaged on each side of an event
+export const DEFAULT_EVENT_WINDOW_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Read an event type from a stored value (English key or Chinese label)
+export function parseEventType(value: unknown): TreatmentEventType | null {
+  const text = String(value ?? "").trim();
+  const key = text.toLowerCase();
+  if (EVENT_TYPES.includes(key as TreatmentEventType)) return key as TreatmentEventType;
+  const aliases: Record<string, TreatmentEventType> = {
+    用药: "medication",
+    药物: "medication",
+    手术: "procedure",
+    激光: "procedure",
+    就诊: "visit",
+    复诊: "visit",
+  };
+  return aliases[text] ?? null;
+}
+
+// Read the affected eye from a stored value; anything unrecognized means both
+export function parseEventEye(value: unknown): TreatmentEvent["eye"] {
+  const text = String(value ?? "").trim().toLowerCase();
+  if (["left", "os", "左", "左眼"].includes(text)) return "left";
+  if (["right", "od", "右", "右眼"].includes(text)) return "right";
+  return "both";
+}
+
+// End of an event as a timestamp; ongoing medication runs indefinitely, one-off events end at start
+export function eventEndTime(event: TreatmentEvent): number {
+  if (event.end) return new Date(event.end).getTime();
+  return event.type === "medication" ? Infinity : new Date(event.start).getTime();
+}
+
+// Whether an event is drawn as a span rather than a single marker
+export function isSpanEvent(event: TreatmentEvent): boolean {
+  return eventEndTime(event) > new Date(event.start).getTime();
+}
+
+// Whether an event overlaps a time range (timestamps)
+export function eventOverlaps(event: TreatmentEvent, from: number, to: number): boolean {
+  return new Date(event.start).getTime() <= to && eventEndTime(event) >= from;
+}
+
+// Mean pressure before and after an event
+export interface EventComparison {
+  event: TreatmentEvent;
+  before: EyeMeans;
+  after: EyeMeans;
+}
+
+// Compare readings in the window before an event's start with the window after it
+// The after window stops at the end of a span event (e.g. when a medication was stopped);
+// one-off events (a procedure, a visit) keep the whole window
+export function compareAroundEvent(
+  records: EyePressureRecord[],
+  event: TreatmentEvent,
+  windowDays: number = DEFAULT_EVENT_WINDOW_DAYS
+): EventComparison {
+  const start = new Date(event.start).getTime();
+  const windowMs = windowDays * DAY_MS;
+  const afterEnd = isSpanEvent(event)
+    ? Math.min(start + windowMs, eventEndTime(event))
+    : start + windowMs;
+  const between = (from: number, to: number) =>
+    records.filter((r) => {
+      const time = new Date(r.date).getTime();
+      return time >= from && time < to;
+    });
+
+  return {
+    event,
+    before: eyeMeans(between(start - windowMs, start)),
+    after: eyeMeans(between(start, afterEnd + 1)),
+  };
+}
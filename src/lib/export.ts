@@ -0,0 +1,185 @@
+/**
+ * Export of eye pressure records
+ * Serializes records as CSV, JSON or an HL7 FHIR R4 Bundle of Observations
+ */
+
+import { EyePressureRecord } from "@/types";
+import { toCsv } from "./csv";
+import { SessionMetrics, recordAverage } from "./analytics";
+import { toZonedIsoString } from "./time";
+import { POSITION_LABELS, TONOMETER_LABELS } from "./measurement";
+import { formatReadings } from "./readings";
+
+export type ExportFormat = "csv" | "json" | "fhir";
+
+export interface ExportOptions {
+  // Computed 24h session metrics, included in JSON exports
+  metrics?: SessionMetrics | null;
+}
+
+// LOINC codes and SNOMED CT body sites for intraocular pressure by eye
+const FHIR_EYES = {
+  left: {
+    loinc: "79893-4",
+    display: "Left eye Intraocular pressure",
+    bodySite: { code: "8966001", display: "Left eye structure" },
+  },
+  right: {
+    loinc: "79892-6",
+    display: "Right eye Intraocular pressure",
+    bodySite: { code: "18944008", display: "Right eye structure" },
+  },
+} as const;
+
+// Identifier system for observations derived from app records
+const IDENTIFIER_SYSTEM = "urn:eye-pressure-record:record";
+
+// File extension and MIME type per format
+export const EXPORT_FILE_TYPES: Record<ExportFormat, { extension: string; mimeType: string }> = {
+  csv: { extension: "csv", mimeType: "text/csv;charset=utf-8" },
+  json: { extension: "json", mimeType: "application/json" },
+  fhir: { extension: "fhir.json", mimeType: "application/fhir+json" },
+};
+
+// Date with the offset of the zone the reading was taken in, when known
+const recordDate = (record: EyePressureRecord) =>
+  record.timeZone ? toZonedIsoString(record.date, record.timeZone) : record.date;
+
+// Serialize records as CSV (one row per record)
+export function recordsToCsv(records: EyePressureRecord[]): string {
+  const header = [
+    "id",
+    "name",
+    "date",
+    "left",
+    "right",
+    "average",
+    "is24h",
+    "note",
+    "sessionId",
+    "timeZone",
+    "tonometer",
+    "position",
+    "measuredBy",
+    "cctLeft",
+    "cctRight",
+    "readingsLeft",
+    "readingsRight",
+  ];
+  const rows = records.map((r) => [
+    r.id,
+    r.name,
+    recordDate(r),
+    r.left,
+    r.right,
+    recordAverage(r),
+    r.is24h,
+    r.note,
+    r.sessionId ?? "",
+    r.timeZone ?? "",
+    r.tonometer ?? "",
+    r.position ?? "",
+    r.measuredBy ?? "",
+    r.cctLeft ?? "",
+    r.cctRight ?? "",
+    r.readingsLeft ? formatReadings(r.readingsLeft) : "",
+    r.readingsRight ? formatReadings(r.readingsRight) : "",
+  ]);
+  // BOM so Excel opens UTF-8 (Chinese notes) correctly
+  return "\uFEFF" + toCsv([header, ...rows]);
+}
+
+// Serialize records (and session metrics, when given) as JSON
+export function recordsToJson(
+  records: EyePressureRecord[],
+  metrics?: SessionMetrics | null
+): string {
+  return JSON.stringify(
+    { exportedAt: new Date().toISOString(), records, ...(metrics && { metrics }) },
+    null,
+    2
+  );
+}
+
+// Build a FHIR R4 collection Bundle with one Observation per measured eye per record
+export function recordsToFhirBundle(records: EyePressureRecord[]): string {
+  const entries = records.flatMap((record) =>
+    (["left", "right"] as const)
+      .filter((eye) => record[eye] !== null)
+      .map((eye) => ({
+        resource: toObservation(record, eye),
+      }))
+  );
+
+  const bundle = {
+    resourceType: "Bundle",
+    type: "collection",
+    timestamp: new Date().toISOString(),
+    entry: entries,
+  };
+  return JSON.stringify(bundle, null, 2);
+}
+
+// Serialize records in the given format
+export function exportRecords(
+  records: EyePressureRecord[],
+  format: ExportFormat,
+  options: ExportOptions = {}
+): string {
+  switch (format) {
+    case "csv":
+      return recordsToCsv(records);
+    case "json":
+      return recordsToJson(records, options.metrics);
+    case "fhir":
+      return recordsToFhirBundle(records);
+  }
+}
+
+// FHIR ids allow only [A-Za-z0-9-.] up to 64 characters
+function toFhirId(value: string): string {
+  return value.replace(/[^A-Za-z0-9\-.]/g, "-").slice(0, 64);
+}
+
+// Build an intraocular pressure Observation for one eye
+function toObservation(record: EyePressureRecord, eye: "left" | "right") {
+  const code = FHIR_EYES[eye];
+  return {
+    resourceType: "Observation",
+    id: toFhirId(`${record.id}-${eye}`),
+    identifier: [{ system: IDENTIFIER_SYSTEM, value: `${record.id}:${eye}` }],
+    status: "final",
+    category: [
+      {
+        coding: [
+          {
+            system: "http://terminology.hl7.org/CodeSystem/observation-category",
+            code: "exam",
+            display: "Exam",
+          },
+        ],
+      },
+    ],
+    code: {
+      coding: [{ system: "http://loinc.org", code: code.loinc, display: code.display }],
+      text: code.display,
+    },
+    effectiveDateTime: recordDate(record),
+    valueQuantity: {
+      value: record[eye],
+      unit: "mmHg",
+      system: "http://unitsofmeasure.org",
+      code: "mm[Hg]",
+    },
+    bodySite: {
+      coding: [{ system: "http://snomed.info/sct", ...code.bodySite }],
+    },
+    ...(record.tonometer && { method: { text: TONOMETER_LABELS[record.tonometer] } }),
+    ...(record.position && {
+      component: [
+        { code: { text: "Body position" }, valueString: POSITION_LABELS[record.position] },
+      ],
+    }),
+    ...(record.note && { note: [{ text: record.note }] }),
+  };
+}
@@ -0,0 +1,142 @@
+/**
+ * Dashboard filters
+ * Date range presets, note search and value filters, read from and written to the URL query
+ */
+
+import { RecordGroup, TargetPressure, TreatmentEvent } from "@/types";
+import { ReportRange, filterRecordsByRange, parseReportRange } from "./report";
+import { getPressureLevel, getTargetAt } from "./targets";
+import { formatZoned } from "./time";
+
+// Ranges relative to today; a preset takes precedence over explicit dates
+export type RangePreset = "3m" | "1y" | "lastVisit";
+
+export const RANGE_PRESET_LABELS: Record<RangePreset, string> = {
+  "3m": "近 3 个月",
+  "1y": "近 1 年",
+  lastVisit: "上次就诊以来",
+};
+
+export interface DashboardFilters extends ReportRange {
+  preset: RangePreset | null;
+  // Case-insensitive text matched against record notes and names
+  query: string;
+  // Keep only readings where either eye is above its target
+  aboveTarget: boolean;
+  // Hide regular measurements and show 24h sessions only
+  only24h: boolean;
+}
+
+export const EMPTY_FILTERS: DashboardFilters = {
+  from: null,
+  to: null,
+  preset: null,
+  query: "",
+  aboveTarget: false,
+  only24h: false,
+};
+
+// Read filters from query parameters, ignoring malformed values
+export function parseDashboardFilters(
+  params: Record<string, string | string[] | undefined>
+): DashboardFilters {
+  const read = (key: string) => (typeof params[key] === "string" ? (params[key] as string) : "");
+  const preset = read("range");
+  return {
+    ...parseReportRange(params),
+    preset: preset in RANGE_PRESET_LABELS ? (preset as RangePreset) : null,
+    query: read("q").trim(),
+    aboveTarget: read("above") === "1",
+    only24h: read("only24h") === "1",
+  };
+}
+
+// Query string for filters, e.g. "?range=3m&q=卧位"; empty when nothing is filtered
+export function toFilterQuery(filters: DashboardFilters): string {
+  const params = new URLSearchParams();
+  if (filters.preset) {
+    params.set("range", filters.preset);
+  } else {
+    if (filters.from) params.set("from", filters.from);
+    if (filters.to) params.set("to", filters.to);
+  }
+  if (filters.query) params.set("q", filters.query);
+  if (filters.aboveTarget) params.set("above", "1");
+  if (filters.only24h) params.set("only24h", "1");
+  const query = params.toString();
+  return query ? `?${query}` : "";
+}
+
+export function hasActiveFilters(filters: DashboardFilters): boolean {
+  return toFilterQuery(filters) !== "";
+}
+
+// YYYY-MM-DD the given number of months before a date (day clamped to the target month)
+function monthsBefore(isoDate: string, months: number): string {
+  const [year, month, day] = isoDate.split("-").map(Number);
+  const target = new Date(Date.UTC(year, month - 1 - months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(day, lastDay));
+  return target.toISOString().slice(0, 10);
+}
+
+// Concrete date range for the filters; presets are resolved against today in the display zone
+// ("since last visit" starts at the latest visit on or before today, unbounded when there is none)
+export function resolveFilterRange(
+  filters: DashboardFilters,
+  events: TreatmentEvent[],
+  now: Date,
+  timeZone: string
+): ReportRange {
+  const today = formatZoned(now, timeZone, "isoDate");
+  switch (filters.preset) {
+    case "3m":
+      return { from: monthsBefore(today, 3), to: null };
+    case "1y":
+      return { from: monthsBefore(today, 12), to: null };
+    case "lastVisit": {
+      const visits = events
+        .filter((event) => event.type === "visit")
+        .map((event) => formatZoned(event.start, timeZone, "isoDate"))
+        .filter((date) => date <= today)
+        .sort();
+      return { from: visits.length > 0 ? visits[visits.length - 1] : null, to: null };
+    }
+    default:
+      return { from: filters.from, to: filters.to };
+  }
+}
+
+// Apply filters to grouped records; sessions are detected on the full data so a filter
+// never splits or merges them, and groups left without readings are dropped
+export function filterGroups(
+  groups: RecordGroup[],
+  filters: DashboardFilters,
+  range: ReportRange,
+  targets: TargetPressure[],
+  timeZone: string
+): RecordGroup[] {
+  const query = filters.query.trim().toLowerCase();
+  const isAboveTarget = (record: RecordGroup["records"][number]) =>
+    (["left", "right"] as const).some((eye) => {
+      const value = record[eye];
+      return (
+        value !== null &&
+        getPressureLevel(value, getTargetAt(targets, record.date, eye, timeZone)) === "high"
+      );
+    });
+
+  return groups
+    .filter((group) => !filters.only24h || group.type === "24h")
+    .map((group) => {
+      let records = filterRecordsByRange(group.records, range, timeZone);
+      if (query) {
+        records = records.filter(
+          (r) => r.note.toLowerCase().includes(query) || r.name.toLowerCase().includes(query)
+        );
+      }
+      if (filters.aboveTarget) records = records.filter(isAboveTarget);
+      return records.length === group.records.length ? group : { ...group, records };
+    })
+    .filter((group) => group.records.length > 0);
+}
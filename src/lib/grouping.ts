@@ -1,89 +1,228 @@
 /**
  * Data grouping utilities for eye pressure records
- * Groups records by is24h flag and time proximity (30h window)
+ * Splits 24h readings into sessions by explicit session ID or gaps between readings,
+ * applying user overrides and reporting ambiguous boundaries
  */
 
-import { EyePressureRecord, RecordGroup, ChartDataPoint } from "@/types";
+import { EyePressureRecord, RecordGroup, ChartDataPoint, SessionOverride } from "@/types";
+import { formatZoned, zonedDayNumber, zonedDayStart, zonedMinutesOfDay } from "./time";
+import { correctedValue } from "./measurement";
+import { DEFAULT_READING_OPTIONS, ReadingOptions, readingSpread } from "./readings";
+import { recordAverage } from "./analytics";
 
-const THIRTY_HOURS_MS = 30 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
 
-// Group records by is24h and time proximity
-// Order: regular records first, then 24h records (sorted by date)
-export function groupRecords(records: EyePressureRecord[]): RecordGroup[] {
-  // Separate 24h and regular records
-  const records24h = records.filter((r) => r.is24h);
-  const regularRecords = records.filter((r) => !r.is24h);
+export interface SessionOptions {
+  // A gap between consecutive readings longer than this starts a new session
+  maxGapHours: number;
+  // A reading this long after the session start opens the next one (back-to-back curves)
+  maxSessionHours: number;
+  overrides: SessionOverride[];
+  // Display zone for the calendar dates in session titles
+  timeZone: string;
+}
+
+export const DEFAULT_SESSION_OPTIONS: SessionOptions = {
+  maxGapHours: 6,
+  maxSessionHours: 24,
+  overrides: [],
+  timeZone: "UTC",
+};
+
+// Sessions spanning less than this are reported as possibly incomplete
+const SHORT_SESSION_HOURS = 12;
+
+// Gaps this close to the threshold (fraction of it) are reported as ambiguous
+const NEAR_GAP_FRACTION = 0.25;
+
+// A session boundary the automatic detection wasn't sure about
+export interface SessionAmbiguity {
+  // Reading where the boundary is (or could be)
+  recordId: string;
+  date: string;
+  kind: "back-to-back" | "near-gap" | "short";
+  message: string;
+  // Suggested correction: merge into the previous session or split here
+  suggestion: "merge" | "split" | null;
+  // Whether a session currently starts at this reading
+  isBoundary: boolean;
+}
+
+// Read session thresholds from environment values, falling back to the defaults
+export function parseSessionOptions(
+  maxGapHours: string | undefined,
+  maxSessionHours: string | undefined
+): Omit<SessionOptions, "overrides" | "timeZone"> {
+  const positive = (value: string | undefined, fallback: number) => {
+    const parsed = Number(value);
+    return value && Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+  };
+  return {
+    maxGapHours: positive(maxGapHours, DEFAULT_SESSION_OPTIONS.maxGapHours),
+    maxSessionHours: positive(maxSessionHours, DEFAULT_SESSION_OPTIONS.maxSessionHours),
+  };
+}
+
+// Whether a record belongs to a 24h session rather than regular measurements
+export function isSessionRecord(record: EyePressureRecord): boolean {
+  return record.is24h || Boolean(record.sessionId);
+}
+
+const timeOf = (record: EyePressureRecord) => new Date(record.date).getTime();
+
+const byDate = (a: EyePressureRecord, b: EyePressureRecord) => timeOf(a) - timeOf(b);
+
+const formatHours = (ms: number) => `${Math.round((ms / HOUR_MS) * 10) / 10}`;
+
+// Split session readings into sessions
+// Readings with a session ID are grouped by it; the rest are split where consecutive readings
+// are further apart than maxGapHours or a session would exceed maxSessionHours
+export function detectSessions(
+  records: EyePressureRecord[],
+  options: SessionOptions = DEFAULT_SESSION_OPTIONS
+): { sessions: EyePressureRecord[][]; ambiguities: SessionAmbiguity[] } {
+  const sessions: EyePressureRecord[][] = [];
+  const ambiguities: SessionAmbiguity[] = [];
+  const maxGapMs = options.maxGapHours * HOUR_MS;
+  const maxSessionMs = options.maxSessionHours * HOUR_MS;
+  const overrides = new Map(options.overrides.map((o) => [o.recordId, o.action]));
+
+  // Explicit session IDs win over timing and overrides
+  const labeled = new Map<string, EyePressureRecord[]>();
+  const unlabeled: EyePressureRecord[] = [];
+  for (const record of records.filter(isSessionRecord)) {
+    if (record.sessionId) {
+      labeled.set(record.sessionId, [...(labeled.get(record.sessionId) ?? []), record]);
+    } else {
+      unlabeled.push(record);
+    }
+  }
+  for (const session of labeled.values()) sessions.push(session.sort(byDate));
+
+  const sorted = unlabeled.sort(byDate);
+  let current: EyePressureRecord[] = [];
+  // A user merge extends the current session past maxSessionHours
+  let lengthLimited = true;
+  const gapSessions: EyePressureRecord[][] = [];
+
+  for (const [i, record] of sorted.entries()) {
+    if (i === 0) {
+      current.push(record);
+      continue;
+    }
+    const gap = timeOf(record) - timeOf(sorted[i - 1]);
+    const elapsed = timeOf(record) - timeOf(current[0]);
+    const reason =
+      gap > maxGapMs ? "gap" : lengthLimited && elapsed >= maxSessionMs ? "length" : null;
+    const override = overrides.get(record.id);
+    const isBoundary = override ? override === "split" : reason !== null;
+    if (override === "merge") lengthLimited = false;
+
+    // Report boundaries the user hasn't already decided on
+    if (!override) {
+      const ambiguity = { recordId: record.id, date: record.date, isBoundary };
+      if (reason === "length") {
+        ambiguities.push({
+          ...ambiguity,
+          kind: "back-to-back",
+          message: `距本组首次测量已满 ${options.maxSessionHours} 小时，已在此处拆分为新的一组（间隔 ${formatHours(gap)} 小时）`,
+          suggestion: "merge",
+        });
+      } else if (Math.abs(gap - maxGapMs) <= maxGapMs * NEAR_GAP_FRACTION) {
+        ambiguities.push({
+          ...ambiguity,
+          kind: "near-gap",
+          message: `与上一次测量间隔 ${formatHours(gap)} 小时，接近分组阈值 ${options.maxGapHours} 小时`,
+          suggestion: isBoundary ? "merge" : "split",
+        });
+      }
+    }
+
+    if (isBoundary) {
+      gapSessions.push(current);
+      current = [record];
+      lengthLimited = true;
+    } else {
+      current.push(record);
+    }
+  }
+  if (current.length > 0) gapSessions.push(current);
+
+  // Short sessions may be incomplete curves or fragments of a neighbouring one
+  for (const [i, session] of gapSessions.entries()) {
+    const span = timeOf(session[session.length - 1]) - timeOf(session[0]);
+    if (span < SHORT_SESSION_HOURS * HOUR_MS && !overrides.has(session[0].id)) {
+      ambiguities.push({
+        recordId: session[0].id,
+        date: session[0].date,
+        kind: "short",
+        message: `该组仅覆盖 ${formatHours(span)} 小时（${session.length} 次测量），可能不完整`,
+        suggestion: i > 0 ? "merge" : null,
+        isBoundary: true,
+      });
+    }
+  }
+
+  sessions.push(...gapSessions);
+  sessions.sort((a, b) => timeOf(a[0]) - timeOf(b[0]));
+  ambiguities.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  return { sessions, ambiguities };
+}
 
+// Group records into regular measurements and 24h sessions, reporting ambiguous sessions
+// Order: regular records first, then 24h sessions (sorted by date)
+export function groupSessions(
+  records: EyePressureRecord[],
+  options: SessionOptions = DEFAULT_SESSION_OPTIONS
+): { groups: RecordGroup[]; ambiguities: SessionAmbiguity[] } {
   const groups: RecordGroup[] = [];
 
   // Add regular records first
+  const regularRecords = records.filter((r) => !isSessionRecord(r));
   if (regularRecords.length > 0) {
-    const sorted = [...regularRecords].sort(
-      (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()
-    );
     groups.push({
       id: "regular",
       title: "常规眼压测量",
       type: "regular",
-      records: sorted,
+      records: [...regularRecords].sort(byDate),
     });
   }
 
-  // Then add 24h records grouped by 30h proximity
-  if (records24h.length > 0) {
-    const sorted = [...records24h].sort(
-      (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()
-    );
-    let currentGroup: EyePressureRecord[] = [sorted[0]];
-
-    for (let i = 1; i < sorted.length; i++) {
-      const timeDiff =
-        new Date(sorted[i].date).getTime() -
-        new Date(currentGroup[0].date).getTime();
-
-      if (timeDiff <= THIRTY_HOURS_MS) {
-        // Within 30h window, add to current group
-        currentGroup.push(sorted[i]);
-      } else {
-        // Start new group
-        groups.push(create24hGroup(currentGroup));
-        currentGroup = [sorted[i]];
-      }
-    }
+  const { sessions, ambiguities } = detectSessions(records, options);
+  groups.push(...sessions.map((session) => create24hGroup(session, options.timeZone)));
 
-    // Add last group
-    if (currentGroup.length > 0) {
-      groups.push(create24hGroup(currentGroup));
-    }
-  }
+  return { groups, ambiguities };
+}
 
-  return groups;
+// Group records by type and session
+export function groupRecords(
+  records: EyePressureRecord[],
+  options: SessionOptions = DEFAULT_SESSION_OPTIONS
+): RecordGroup[] {
+  return groupSessions(records, options).groups;
 }
 
-// Create a 24h measurement group with title based on first date
-function create24hGroup(records: EyePressureRecord[]): RecordGroup {
+// Create a 24h measurement group with title based on first date (and session ID if any)
+function create24hGroup(records: EyePressureRecord[], timeZone: string): RecordGroup {
   const firstDate = new Date(records[0].date);
-  const title = `24小时眼压 - ${formatDate(firstDate)}`;
+  const sessionId = records[0].sessionId;
+  const title = `24小时眼压 - ${formatZoned(firstDate, timeZone, "date")}${sessionId ? `（${sessionId}）` : ""}`;
 
   return {
-    id: `24h-${firstDate.getTime()}`,
+    id: sessionId ? `24h-session-${sessionId}` : `24h-${firstDate.getTime()}`,
     title,
     type: "24h",
     records,
   };
 }
 
-// Format date for group title
-function formatDate(date: Date): string {
-  return date.toLocaleDateString("zh-CN", {
-    year: "numeric",
-    month: "2-digit",
-    day: "2-digit",
-  });
-}
-
-// Transform records to chart data points
-export function toChartData(group: RecordGroup): ChartDataPoint[] {
+// Transform records to chart data points, labelled in the display zone
+// Error bars of records with multiple readings use the given outlier deviation
+export function toChartData(
+  group: RecordGroup,
+  timeZone: string,
+  readingOptions: ReadingOptions = DEFAULT_READING_OPTIONS
+): ChartDataPoint[] {
   if (group.records.length === 0) return [];
   
   const firstDate = new Date(group.records[0].date);
@@ -96,36 +235,93 @@ export function toChartData(group: RecordGroup): ChartDataPoint[] {
     
     if (group.type === "24h") {
       // For 24h measurement, show time only (e.g., "08:00")
-      // Add day indicator if different from first day (e.g., "+1 06:00")
-      const timeStr = formatTime(date);
-      if (date.getDate() !== firstDate.getDate()) {
-        label = `+1 ${timeStr}`;
-      } else {
-        label = timeStr;
-      }
+      // with a day offset on later days (e.g., "+1 06:00", "+2 08:00")
+      label = formatSessionTime(date, firstDate, timeZone);
       // Calculate minutes from start for time-proportional X axis
       minutesFromStart = Math.round((date.getTime() - firstTimestamp) / 60000);
     } else {
       // For regular data, use date label and calculate days from start
-      label = formatDate(date);
+      label = formatZoned(date, timeZone, "date");
       // Calculate days from start (in minutes for consistency, 1 day = 1440 minutes)
       minutesFromStart = Math.round((date.getTime() - firstTimestamp) / 60000);
     }
     
+    const spreadLeft = readingSpread(record, "left", readingOptions);
+    const spreadRight = readingSpread(record, "right", readingOptions);
+
     return {
       label,
       left: record.left,
       right: record.right,
-      average: (record.left + record.right) / 2,
+      average: recordAverage(record),
       dateStr: record.date,
       minutesFromStart,
+      ...(record.tonometer && { tonometer: record.tonometer }),
+      ...(record.position && { position: record.position }),
+      ...(record.cctLeft !== undefined && { correctedLeft: correctedValue(record, "left") }),
+      ...(record.cctRight !== undefined && { correctedRight: correctedValue(record, "right") }),
+      ...(spreadLeft && { spreadLeft }),
+      ...(spreadRight && { spreadRight }),
     };
   });
 }
 
-// Format time for 24h chart labels (HH:mm)
-function formatTime(date: Date): string {
-  const hours = date.getHours().toString().padStart(2, "0");
-  const minutes = date.getMinutes().toString().padStart(2, "0");
-  return `${hours}:${minutes}`;
+// Calendar days between a date and the first reading's date in the display zone (0 = same day)
+export function dayOffset(date: Date, first: Date, timeZone: string): number {
+  return zonedDayNumber(date, timeZone) - zonedDayNumber(first, timeZone);
+}
+
+// Clock time with a day offset relative to the first reading, e.g. "08:00" or "+2 06:00"
+export function formatSessionTime(date: Date, first: Date, timeZone: string): string {
+  const offset = dayOffset(date, first, timeZone);
+  const time = formatZoned(date, timeZone, "time");
+  return offset > 0 ? `+${offset} ${time}` : time;
+}
+
+// Midnights in the display zone after the first reading up to the last,
+// as minutes from the first reading
+export function midnightsBetween(
+  first: Date,
+  last: Date,
+  timeZone: string
+): { minutes: number; date: Date }[] {
+  const midnights: { minutes: number; date: Date }[] = [];
+  for (let day = zonedDayNumber(first, timeZone) + 1; ; day++) {
+    const midnight = zonedDayStart(day, timeZone);
+    if (midnight.getTime() > last.getTime()) break;
+    midnights.push({
+      minutes: Math.round((midnight.getTime() - first.getTime()) / 60000),
+      date: midnight,
+    });
+  }
+  return midnights;
+}
+
+// Chart points folded onto a 0-24h clock axis, one left/right series per day
+// Keys are minutesOfDay plus left_<day>/right_<day> for the day offset of each reading
+export interface FoldedChartData {
+  days: number[];
+  points: Record<string, number | null>[];
+}
+
+// Fold a multi-day session onto a single clock axis for day-by-day overlay
+export function foldByDay(data: ChartDataPoint[], timeZone: string): FoldedChartData {
+  if (data.length === 0) return { days: [], points: [] };
+  const first = new Date(data[0].dateStr);
+  const days = new Set<number>();
+
+  const points = data
+    .map((point) => {
+      const date = new Date(point.dateStr);
+      const offset = dayOffset(date, first, timeZone);
+      days.add(offset);
+      return {
+        minutesOfDay: zonedMinutesOfDay(date, timeZone),
+        [`left_${offset}`]: point.left,
+        [`right_${offset}`]: point.right,
+      };
+    })
+    .sort((a, b) => a.minutesOfDay - b.minutesOfDay);
+
+  return { days: [...days].sort((a, b) => a - b), points };
 }
@@ -0,0 +1,385 @@
+/**
+ * Import of historical measurements from CSV/XLSX tables
+ * Maps spreadsheet columns onto record fields, parses values and detects duplicates
+ */
+
+import { EyePressureRecord, EyePressureRecordInput } from "@/types";
+import { parseMeasurementFields } from "./measurement";
+import { getUtcOffset, hasUtcOffset, isValidTimeZone, zonedWallTimeToUtc } from "./time";
+
+// Record fields a column can be mapped to
+// Either left/right columns (one row per timepoint) or eye/value columns (one row per eye, e.g. iCare HOME)
+export type ImportField =
+  | "date"
+  | "time"
+  | "left"
+  | "right"
+  | "eye"
+  | "value"
+  | "is24h"
+  | "note"
+  | "name"
+  | "sessionId"
+  | "timeZone"
+  | "tonometer"
+  | "position"
+  | "measuredBy"
+  | "cctLeft"
+  | "cctRight";
+
+export type ImportCell = string | number | boolean | Date | null;
+
+export interface ImportTable {
+  headers: string[];
+  rows: ImportCell[][];
+}
+
+// Column index for each mapped field
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+// Order of day/month/year in text dates like 03/04/2024
+export type DateOrder = "ymd" | "dmy" | "mdy";
+
+export interface ImportOptions {
+  dateOrder: DateOrder;
+  // IANA zone the spreadsheet's wall-clock times are in (a time zone column overrides it per row)
+  timeZone: string;
+  // Value of is24h when no column is mapped
+  is24h: boolean;
+  // Eye/value layout: readings of the other eye within this window form one record
+  mergeWindowMinutes: number;
+}
+
+// A record to import and the spreadsheet rows (1-based, excluding header) it came from
+export interface ImportRow {
+  rowNumbers: number[];
+  record: EyePressureRecordInput;
+}
+
+export interface ImportError {
+  row: number;
+  message: string;
+}
+
+export interface ImportResult {
+  rows: ImportRow[];
+  errors: ImportError[];
+}
+
+export const IMPORT_FIELDS: ImportField[] = [
+  "date",
+  "time",
+  "left",
+  "right",
+  "eye",
+  "value",
+  "is24h",
+  "note",
+  "name",
+  "sessionId",
+  "timeZone",
+  "tonometer",
+  "position",
+  "measuredBy",
+  "cctLeft",
+  "cctRight",
+];
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  date: "日期/时间",
+  time: "时间（单独列）",
+  left: "左眼",
+  right: "右眼",
+  eye: "眼别（OD/OS）",
+  value: "眼压值",
+  is24h: "24小时",
+  note: "备注",
+  name: "名称",
+  sessionId: "会话编号",
+  timeZone: "时区",
+  tonometer: "眼压计",
+  position: "体位",
+  measuredBy: "测量者",
+  cctLeft: "左眼 CCT",
+  cctRight: "右眼 CCT",
+};
+
+// Header patterns used to pre-fill the column mapping
+const HEADER_PATTERNS: Record<ImportField, RegExp> = {
+  date: /^(date|datetime|date\s*time|timestamp|日期|时间日期|测量时间)$/i,
+  time: /^(time|时间|时刻)$/i,
+  left: /^(left|os|l|左眼|左)(\s*\(.*\))?$/i,
+  right: /^(right|od|r|右眼|右)(\s*\(.*\))?$/i,
+  eye: /^(eye|side|眼别|眼)$/i,
+  value: /^(iop|value|pressure|眼压)(\s*\(.*\))?$/i,
+  is24h: /^(is24h|24h|24小时)$/i,
+  note: /^(note|notes|comment|comments|备注)$/i,
+  name: /^(name|title|名称)$/i,
+  sessionId: /^(session|session\s*id|会话|会话编号)$/i,
+  timeZone: /^(time\s*zone|timezone|tz|时区)$/i,
+  tonometer: /^(tonometer|device|method|眼压计|测量方法)$/i,
+  position: /^(position|posture|体位)$/i,
+  measuredBy: /^(measured\s*by|measurer|测量者)$/i,
+  cctLeft: /^(cct\s*(left|os|l)|左眼\s*cct)(\s*\(.*\))?$/i,
+  cctRight: /^(cct\s*(right|od|r)|右眼\s*cct)(\s*\(.*\))?$/i,
+};
+
+// Split raw rows into header and data rows, dropping empty rows
+export function toImportTable(rows: ImportCell[][]): ImportTable {
+  const [header = [], ...data] = rows;
+  return {
+    headers: header.map((cell, i) => (cell === null || cell === "" ? `列 ${i + 1}` : String(cell).trim())),
+    rows: data.filter((row) => row.some((cell) => cell !== null && cell !== "")),
+  };
+}
+
+// Guess a column mapping from header names
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  for (const field of IMPORT_FIELDS) {
+    const index = headers.findIndex((h) => HEADER_PATTERNS[field].test(h.trim()));
+    if (index !== -1 && !Object.values(mapping).includes(index)) {
+      mapping[field] = index;
+    }
+  }
+  return mapping;
+}
+
+// Build records from a table using the column mapping
+export function buildImportRecords(
+  table: ImportTable,
+  mapping: ColumnMapping,
+  options: ImportOptions
+): ImportResult {
+  const errors: ImportError[] = [];
+
+  if (mapping.date === undefined) {
+    return { rows: [], errors: [{ row: 0, message: "请选择日期列" }] };
+  }
+  if (!isValidTimeZone(options.timeZone)) {
+    return { rows: [], errors: [{ row: 0, message: `无效的时区：${options.timeZone}` }] };
+  }
+  const perEye = mapping.eye !== undefined && mapping.value !== undefined;
+  if (!perEye && mapping.left === undefined && mapping.right === undefined) {
+    return { rows: [], errors: [{ row: 0, message: "请选择左眼和/或右眼列，或眼别和眼压值列" }] };
+  }
+
+  const cell = (row: ImportCell[], field: ImportField) =>
+    mapping[field] === undefined ? null : row[mapping[field]!] ?? null;
+
+  // Parse common fields of each row
+  const parsed: { rowNumber: number; date: string; timeZone?: string; row: ImportCell[] }[] = [];
+  table.rows.forEach((row, i) => {
+    const rowNumber = i + 1;
+    const columnZone = cellText(cell(row, "timeZone"));
+    const zone = columnZone || options.timeZone;
+    if (!isValidTimeZone(zone)) {
+      errors.push({ row: rowNumber, message: `无效的时区：${zone}` });
+      return;
+    }
+    const value = parseDateCell(cell(row, "date"), cell(row, "time"), options.dateOrder, zone);
+    if (!value) {
+      errors.push({ row: rowNumber, message: "无法识别日期" });
+      return;
+    }
+    // A zone column names the reading's zone even when the timestamp carries an offset
+    parsed.push({ rowNumber, date: value.date, timeZone: columnZone || value.timeZone, row });
+  });
+
+  const baseRecord = (
+    row: ImportCell[],
+    date: string,
+    timeZone: string | undefined
+  ): EyePressureRecordInput => ({
+    name: cellText(cell(row, "name")),
+    date,
+    ...(timeZone && { timeZone }),
+    left: null,
+    right: null,
+    is24h: mapping.is24h === undefined ? options.is24h : parseBooleanCell(cell(row, "is24h")),
+    note: cellText(cell(row, "note")),
+    sessionId: cellText(cell(row, "sessionId")) || undefined,
+    ...parseMeasurementFields({
+      tonometer: cellText(cell(row, "tonometer")),
+      position: cellText(cell(row, "position")),
+      measuredBy: cellText(cell(row, "measuredBy")),
+      cctLeft: parseNumberCell(cell(row, "cctLeft")),
+      cctRight: parseNumberCell(cell(row, "cctRight")),
+    }),
+  });
+
+  const rows: ImportRow[] = [];
+
+  if (!perEye) {
+    for (const { rowNumber, date, timeZone, row } of parsed) {
+      const left = parseNumberCell(cell(row, "left"));
+      const right = parseNumberCell(cell(row, "right"));
+      // A row may have a single eye; one without either is an error
+      if (left === null && right === null) {
+        errors.push({ row: rowNumber, message: "左右眼数值均缺失" });
+        continue;
+      }
+      rows.push({
+        rowNumbers: [rowNumber],
+        record: { ...baseRecord(row, date, timeZone), left, right },
+      });
+    }
+    return { rows, errors };
+  }
+
+  // Per-eye layout: merge consecutive readings of opposite eyes taken close together
+  const windowMs = options.mergeWindowMinutes * 60 * 1000;
+  const sorted = [...parsed].sort(
+    (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()
+  );
+  const merged: ImportRow[] = [];
+
+  for (const { rowNumber, date, timeZone, row } of sorted) {
+    const eye = parseEyeCell(cell(row, "eye"));
+    const value = parseNumberCell(cell(row, "value"));
+    if (!eye) {
+      errors.push({ row: rowNumber, message: "无法识别眼别" });
+      continue;
+    }
+    if (value === null) {
+      errors.push({ row: rowNumber, message: "眼压数值缺失" });
+      continue;
+    }
+
+    let target = merged[merged.length - 1];
+    const canMerge =
+      target !== undefined &&
+      target.record[eye] === null &&
+      new Date(date).getTime() - new Date(target.record.date).getTime() <= windowMs;
+    if (!canMerge) {
+      target = { rowNumbers: [], record: baseRecord(row, date, timeZone) };
+      merged.push(target);
+    }
+    target.rowNumbers.push(rowNumber);
+    target.record[eye] = value;
+  }
+
+  // Readings without the other eye within the window stay single-eye records
+  return { rows: merged, errors };
+}
+
+// Indexes of import rows whose timestamp (to the minute) matches an existing record
+export function findDuplicates(rows: ImportRow[], existing: EyePressureRecord[]): Set<number> {
+  const toMinute = (date: string) => Math.floor(new Date(date).getTime() / 60000);
+  const existingMinutes = new Set(existing.map((r) => toMinute(r.date)));
+  const duplicates = new Set<number>();
+  rows.forEach((row, i) => {
+    if (existingMinutes.has(toMinute(row.record.date))) duplicates.add(i);
+  });
+  return duplicates;
+}
+
+// Text content of a cell
+function cellText(value: ImportCell): string {
+  if (value === null) return "";
+  if (value instanceof Date) return value.toISOString();
+  return String(value).trim();
+}
+
+// Parse a pressure value, accepting decimal commas and trailing units ("17,5 mmHg")
+function parseNumberCell(value: ImportCell): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  const text = cellText(value).replace(",", ".");
+  if (!text) return null;
+  const parsed = parseFloat(text);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+// Parse a yes/no style cell
+function parseBooleanCell(value: ImportCell): boolean {
+  if (typeof value === "boolean") return value;
+  if (typeof value === "number") return value !== 0;
+  return /^(true|yes|y|1|x|是|24h)$/i.test(cellText(value));
+}
+
+// Parse an eye designation (OD = right, OS = left)
+function parseEyeCell(value: ImportCell): "left" | "right" | null {
+  const text = cellText(value).toLowerCase();
+  if (/^(os|l|left|左|左眼)$/.test(text)) return "left";
+  if (/^(od|r|right|右|右眼)$/.test(text)) return "right";
+  return null;
+}
+
+const pad = (n: number) => n.toString().padStart(2, "0");
+
+// Spreadsheet dates carry no zone: Date cells hold the wall-clock time in their UTC fields
+function wallTimeFromUtcFields(date: Date): string {
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}T${pad(
+    date.getUTCHours()
+  )}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())}`;
+}
+
+// Convert an Excel serial day number to a Date (UTC fields = wall-clock time)
+function excelSerialToDate(serial: number): Date {
+  return new Date(Math.round((serial - 25569) * 86400 * 1000));
+}
+
+// Parse a time-of-day cell into "HH:mm:ss"
+function parseTimeCell(value: ImportCell): string | null {
+  if (value === null || value === "") return null;
+  if (value instanceof Date) return wallTimeFromUtcFields(value).split("T")[1];
+  if (typeof value === "number") {
+    const seconds = Math.round((value % 1) * 86400);
+    return `${pad(Math.floor(seconds / 3600))}:${pad(Math.floor((seconds % 3600) / 60))}:${pad(seconds % 60)}`;
+  }
+  const match = cellText(value).match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?\s*(am|pm)?$/i);
+  if (!match) return null;
+  let hours = Number(match[1]);
+  if (match[4]) hours = (hours % 12) + (match[4].toLowerCase() === "pm" ? 12 : 0);
+  return `${pad(hours)}:${match[2]}:${match[3] ?? "00"}`;
+}
+
+// Parse a date cell (plus optional separate time cell) to an ISO string and the zone it was
+// taken in: the offset of full ISO timestamps, otherwise the zone its wall-clock time is read in
+function parseDateCell(
+  value: ImportCell,
+  timeValue: ImportCell,
+  dateOrder: DateOrder,
+  timeZone: string
+): { date: string; timeZone?: string } | null {
+  let wallTime: string | null = null;
+
+  if (value instanceof Date) {
+    wallTime = wallTimeFromUtcFields(value);
+  } else if (typeof value === "number") {
+    wallTime = wallTimeFromUtcFields(excelSerialToDate(value));
+  } else {
+    const text = cellText(value);
+    if (!text) return null;
+
+    // Full ISO timestamps with an offset are already absolute
+    if (/^\d{4}-\d{2}-\d{2}T/.test(text) && hasUtcOffset(text)) {
+      const date = new Date(text);
+      if (isNaN(date.getTime())) return null;
+      return { date: date.toISOString(), timeZone: getUtcOffset(text) ?? undefined };
+    }
+
+    const match = text.match(
+      /^(\d{1,4})[-/.](\d{1,2})[-/.](\d{1,4})(?:[ T]+(\d{1,2}:\d{2}(?::\d{2})?(?:\s*[ap]m)?))?$/i
+    );
+    if (!match) return null;
+    const [a, b, c] = [Number(match[1]), Number(match[2]), Number(match[3])];
+    const [year, month, day] =
+      match[1].length === 4 || dateOrder === "ymd"
+        ? [a, b, c]
+        : dateOrder === "dmy"
+          ? [c, b, a]
+          : [c, a, b];
+    if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+    const time = match[4] ? parseTimeCell(match[4]) : "00:00:00";
+    if (!time) return null;
+    wallTime = `${year < 100 ? 2000 + year : year}-${pad(month)}-${pad(day)}T${time}`;
+  }
+
+  // A separate time column overrides the time part of the date column
+  const time = parseTimeCell(timeValue);
+  if (time) wallTime = `${wallTime.split("T")[0]}T${time}`;
+
+  const date = zonedWallTimeToUtc(wallTime, timeZone);
+  return isNaN(date.getTime()) ? null : { date: date.toISOString(), timeZone };
+}
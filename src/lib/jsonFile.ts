@@ -0,0 +1,60 @@
+/**
+ * JSON file persistence helpers
+ * Reads tolerate a missing file; writes are serialized per file and atomic (temp file + rename)
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+
+// Serialize writes per file so concurrent requests don't lose updates
+const writeQueues = new Map<string, Promise<unknown>>();
+
+// Resolve a path relative to the project root
+export function resolveDataPath(filePath: string): string {
+  return path.resolve(process.cwd(), filePath);
+}
+
+// Read and parse a JSON file; `parse` receives null when the file doesn't exist
+export async function readJsonFile<T>(fullPath: string, parse: (raw: unknown) => T): Promise<T> {
+  let content: string;
+  try {
+    content = await fs.readFile(fullPath, "utf-8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return parse(null);
+    }
+    throw new Error(`Failed to read ${fullPath}: ${(error as Error).message}`);
+  }
+  try {
+    return parse(JSON.parse(content));
+  } catch (error) {
+    throw new Error(`Failed to parse ${fullPath}: ${(error as Error).message}`);
+  }
+}
+
+// Apply a read-modify-write change to a JSON file
+export function updateJsonFile<T, R>(
+  fullPath: string,
+  parse: (raw: unknown) => T,
+  change: (data: T) => R
+): Promise<R> {
+  const previous = writeQueues.get(fullPath) ?? Promise.resolve();
+  const next = previous
+    .catch(() => {})
+    .then(async () => {
+      const data = await readJsonFile(fullPath, parse);
+      const result = change(data);
+      await writeJsonFile(fullPath, data);
+      return result;
+    });
+  writeQueues.set(fullPath, next);
+  return next;
+}
+
+// Write a JSON file atomically
+async function writeJsonFile(fullPath: string, data: unknown): Promise<void> {
+  await fs.mkdir(path.dirname(fullPath), { recursive: true });
+  const tmpPath = `${fullPath}.${process.pid}.tmp`;
+  await fs.writeFile(tmpPath, JSON.stringify(data, null, 2) + "\n", "utf-8");
+  await fs.rename(tmpPath, fullPath);
+}
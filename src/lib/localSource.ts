@@ -0,0 +1,196 @@
+/**
+ * Local JSON file record source
+ * Keeps records and treatment events in a file on disk for offline development and non-Notion users
+ */
+
+import { randomUUID } from "crypto";
+import { EyePressureRecord, RecordIssue, TreatmentEvent } from "@/types";
+import type { RecordSource } from "./recordSource";
+import { readJsonFile, resolveDataPath, updateJsonFile } from "./jsonFile";
+import { parseEventEye, parseEventType } from "./events";
+import { parseMeasurementFields } from "./measurement";
+import { parseReadingFields } from "./readings";
+import { getUtcOffset, isValidTimeZone, toIsoDate } from "./time";
+
+// Date or date-time without an offset, read as wall-clock time in the record's zone
+const WALL_TIME_PATTERN = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?)?$/;
+
+// Shape of the local data file
+interface LocalDataFile {
+  records: EyePressureRecord[];
+  events: TreatmentEvent[];
+}
+
+// Parse the data file, treating a missing file as an empty store
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function parseDataFile(raw: any): LocalDataFile {
+  return {
+    records: Array.isArray(raw?.records) ? raw.records : [],
+    events: Array.isArray(raw?.events) ? raw.events : [],
+  };
+}
+
+// Create a record source backed by a JSON file
+export function createLocalSource(filePath: string): RecordSource {
+  const fullPath = resolveDataPath(filePath);
+  const readDataFile = () => readJsonFile(fullPath, parseDataFile);
+
+  // Apply a read-modify-write change to the data file
+  const mutate = <T>(change: (data: LocalDataFile) => T): Promise<T> =>
+    updateJsonFile(fullPath, parseDataFile, change);
+
+  return {
+    kind: "local",
+    async fetchAllRecords() {
+      const data = await readDataFile();
+      return data.records
+        .map(parseRecord)
+        .flatMap((result) => ("record" in result ? [result.record] : []))
+        .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+    },
+
+    async listIssues() {
+      const data = await readDataFile();
+      return data.records
+        .map(parseRecord)
+        .flatMap((result) => ("issue" in result ? [result.issue] : []));
+    },
+
+    async validate() {
+      await readDataFile();
+    },
+
+    createRecord(input) {
+      return mutate((data) => {
+        const record = { ...input, id: randomUUID() };
+        data.records.push(record);
+        return record;
+      });
+    },
+
+    updateRecord(id, input) {
+      return mutate((data) => {
+        const index = data.records.findIndex((r) => String(r.id) === id);
+        if (index === -1) throw new Error(`Record not found: ${id}`);
+        const record = { ...input, id };
+        data.records[index] = record;
+        return record;
+      });
+    },
+
+    deleteRecord(id) {
+      return mutate((data) => {
+        const index = data.records.findIndex((r) => String(r.id) === id);
+        if (index === -1) throw new Error(`Record not found: ${id}`);
+        data.records.splice(index, 1);
+      });
+    },
+
+    async fetchEvents() {
+      const data = await readDataFile();
+      return data.events
+        .map(parseEvent)
+        .flatMap((event) => (event ? [event] : []))
+        .sort((a, b) => new Date(a.start).getTime() - new Date(b.start).getTime());
+    },
+
+    createEvent(input) {
+      return mutate((data) => {
+        const event = { ...input, id: randomUUID() };
+        data.events.push(event);
+        return event;
+      });
+    },
+
+    updateEvent(id, input) {
+      return mutate((data) => {
+        const index = data.events.findIndex((e) => String(e.id) === id);
+        if (index === -1) throw new Error(`Event not found: ${id}`);
+        const event = { ...input, id };
+        data.events[index] = event;
+        return event;
+      });
+    },
+
+    deleteEvent(id) {
+      return mutate((data) => {
+        const index = data.events.findIndex((e) => String(e.id) === id);
+        if (index === -1) throw new Error(`Event not found: ${id}`);
+        data.events.splice(index, 1);
+      });
+    },
+  };
+}
+
+// Check a hand-edited entry, fill optional defaults and normalize dates to ISO strings
+// Entries without a valid date or any eye value become issues instead of records;
+// an eye left out (or null) wasn't measured
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function parseRecord(raw: any): { record: EyePressureRecord } | { issue: RecordIssue } {
+  const id = String(raw.id);
+  const name = raw.name ?? "";
+  // A valid timeZone places wall-clock dates ("2024-01-05T08:00") in that zone;
+  // otherwise the zone is the offset the date was written with, if any
+  const zone =
+    typeof raw.timeZone === "string" && isValidTimeZone(raw.timeZone) ? raw.timeZone : undefined;
+  const time = new Date(raw.date).getTime();
+  const date = isNaN(time)
+    ? null
+    : zone && typeof raw.date === "string" && WALL_TIME_PATTERN.test(raw.date)
+      ? toIsoDate(raw.date, zone)
+      : new Date(time).toISOString();
+  const timeZone = zone ?? (typeof raw.date === "string" ? getUtcOffset(raw.date) : null);
+  const issue = (message: string) => ({ issue: { id, name, date, message } });
+
+  if (!date) return issue("Missing or invalid date");
+  const left = toNumber(raw.left);
+  const right = toNumber(raw.right);
+  if (left === null && right === null) return issue("Missing left and right eye values");
+  if (left === null && !isBlank(raw.left)) return issue(`Invalid left eye value: ${raw.left}`);
+  if (right === null && !isBlank(raw.right)) return issue(`Invalid right eye value: ${raw.right}`);
+
+  return {
+    record: {
+      id,
+      name,
+      date,
+      left,
+      right,
+      is24h: Boolean(raw.is24h),
+      note: raw.note ?? "",
+      sessionId: raw.sessionId ? String(raw.sessionId) : undefined,
+      ...(timeZone && { timeZone }),
+      ...parseMeasurementFields(raw),
+      ...parseReadingFields(raw),
+    },
+  };
+}
+
+// Check a hand-edited event; entries without a title, known type or valid start are skipped
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function parseEvent(raw: any): TreatmentEvent | null {
+  const type = parseEventType(raw.type);
+  const start = new Date(raw.start).getTime();
+  const end = raw.end ? new Date(raw.end).getTime() : NaN;
+  if (!raw.title || !type || isNaN(start)) return null;
+
+  return {
+    id: String(raw.id),
+    type,
+    title: String(raw.title),
+    start: new Date(start).toISOString(),
+    end: isNaN(end) ? null : new Date(end).toISOString(),
+    eye: parseEventEye(raw.eye),
+    dose: raw.dose ?? "",
+    note: raw.note ?? "",
+  };
+}
+
+// Parse a numeric field, returning null for empty or non-numeric values
+const isBlank = (value: unknown) => value === null || value === undefined || value === "";
+
+function toNumber(value: unknown): number | null {
+  if (isBlank(value)) return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
@@ -0,0 +1,154 @@
+/**
+ * Measurement metadata
+ * Labels and parsing for tonometer, body position and measurer, marker shapes,
+ * and corneal thickness (CCT) correction of pressure readings
+ */
+
+import { BodyPosition, EyePressureRecord, Measurer, Tonometer } from "@/types";
+
+export const TONOMETERS: Tonometer[] = ["goldmann", "rebound", "noncontact", "other"];
+export const BODY_POSITIONS: BodyPosition[] = ["sitting", "supine"];
+export const MEASURERS: Measurer[] = ["self", "clinic"];
+
+export const TONOMETER_LABELS: Record<Tonometer, string> = {
+  goldmann: "Goldmann 压平",
+  rebound: "回弹式 (iCare)",
+  noncontact: "非接触 (气流)",
+  other: "其他",
+};
+
+export const POSITION_LABELS: Record<BodyPosition, string> = {
+  sitting: "坐位",
+  supine: "卧位",
+};
+
+export const MEASURER_LABELS: Record<Measurer, string> = {
+  self: "自测",
+  clinic: "医院",
+};
+
+// Chart marker per tonometer; readings without one use a circle like Goldmann
+export type MarkerShape = "circle" | "triangle" | "square" | "diamond";
+
+export const TONOMETER_MARKERS: Record<Tonometer, MarkerShape> = {
+  goldmann: "circle",
+  rebound: "triangle",
+  noncontact: "square",
+  other: "diamond",
+};
+
+// Plausible central corneal thickness range in μm
+export const CCT_MIN = 300;
+export const CCT_MAX = 900;
+
+// Linear correction (Ehlers): about 0.7 mmHg per 10 μm away from a 520 μm cornea;
+// thicker corneas read high, thinner ones low. An approximation, most valid for Goldmann readings
+const CCT_REFERENCE = 520;
+const CCT_MMHG_PER_UM = 0.07;
+
+// Read a stored value (English key, Chinese label or a common alias); null when unrecognized
+function parseChoice<T extends string>(
+  value: unknown,
+  keys: T[],
+  labels: Record<T, string>,
+  aliases: Record<string, T>
+): T | null {
+  const text = String(value ?? "").trim();
+  const key = text.toLowerCase();
+  if (!key) return null;
+  if (keys.includes(key as T)) return key as T;
+  const byLabel = keys.find((k) => labels[k].toLowerCase() === key);
+  return byLabel ?? aliases[key] ?? null;
+}
+
+export function parseTonometer(value: unknown): Tonometer | null {
+  return parseChoice(value, TONOMETERS, TONOMETER_LABELS, {
+    gat: "goldmann",
+    压平: "goldmann",
+    icare: "rebound",
+    回弹: "rebound",
+    nct: "noncontact",
+    "air puff": "noncontact",
+    非接触: "noncontact",
+    气流: "noncontact",
+  });
+}
+
+export function parseBodyPosition(value: unknown): BodyPosition | null {
+  return parseChoice(value, BODY_POSITIONS, POSITION_LABELS, {
+    seated: "sitting",
+    坐: "sitting",
+    lying: "supine",
+    卧: "supine",
+    平卧: "supine",
+  });
+}
+
+export function parseMeasurer(value: unknown): Measurer | null {
+  return parseChoice(value, MEASURERS, MEASURER_LABELS, {
+    home: "self",
+    自己: "self",
+    家中: "self",
+    clinician: "clinic",
+    doctor: "clinic",
+    门诊: "clinic",
+    医生: "clinic",
+  });
+}
+
+// Read a CCT value in μm; null when empty or outside the plausible range
+export function parseCct(value: unknown): number | null {
+  if (value === null || value === undefined || value === "") return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= CCT_MIN && parsed <= CCT_MAX ? parsed : null;
+}
+
+// Pressure corrected for corneal thickness
+export function correctIop(iop: number, cct: number): number {
+  return iop + (CCT_REFERENCE - cct) * CCT_MMHG_PER_UM;
+}
+
+// Corrected pressure of one eye of a record; undefined without a reading or CCT for that eye
+export function correctedValue(record: EyePressureRecord, eye: "left" | "right"): number | undefined {
+  const cct = eye === "left" ? record.cctLeft : record.cctRight;
+  const value = record[eye];
+  return cct === undefined || value === null ? undefined : correctIop(value, cct);
+}
+
+// Short description of a record's measurement conditions, e.g. "回弹式 (iCare) · 卧位 · 自测"
+export function describeMeasurement(record: EyePressureRecord): string {
+  return [
+    record.tonometer && TONOMETER_LABELS[record.tonometer],
+    record.position && POSITION_LABELS[record.position],
+    record.measuredBy && MEASURER_LABELS[record.measuredBy],
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+export type MeasurementFields = Pick<
+  EyePressureRecord,
+  "tonometer" | "position" | "measuredBy" | "cctLeft" | "cctRight"
+>;
+
+// Measurement fields of a stored record, leaving out empty and unrecognized values
+export function parseMeasurementFields(raw: {
+  tonometer?: unknown;
+  position?: unknown;
+  measuredBy?: unknown;
+  cctLeft?: unknown;
+  cctRight?: unknown;
+}): MeasurementFields {
+  const tonometer = parseTonometer(raw.tonometer);
+  const position = parseBodyPosition(raw.position);
+  const measuredBy = parseMeasurer(raw.measuredBy);
+  const cctLeft = parseCct(raw.cctLeft);
+  const cctRight = parseCct(raw.cctRight);
+  return {
+    ...(tonometer && { tonometer }),
+    ...(position && { position }),
+    ...(measuredBy && { measuredBy }),
+    ...(cctLeft !== null && { cctLeft }),
+    ...(cctRight !== null && { cctRight }),
+  };
+}
@@ -0,0 +1,39 @@
+/**
+ * Alert notifier interface
+ * Channels new alerts are delivered through, and the message text they share
+ */
+
+import { Alert } from "@/types";
+import { ALERT_RULE_LABELS } from "./alerts";
+import type { ProfileSummary } from "./profiles";
+
+// A channel new alerts are sent through
+export interface Notifier {
+  kind: "webhook" | "email";
+  // Send one batch of a profile's new alerts, throwing when delivery fails
+  send(profile: ProfileSummary, alerts: Alert[]): Promise<void>;
+}
+
+// Outcome of sending through one notifier
+export interface NotifyResult {
+  kind: Notifier["kind"];
+  error: string | null;
+}
+
+// Link to a profile's alerts page when APP_URL is set
+export function alertsPageUrl(profile: ProfileSummary): string | null {
+  return process.env.APP_URL
+    ? new URL(`/p/${encodeURIComponent(profile.id)}/alerts`, process.env.APP_URL).toString()
+    : null;
+}
+
+// Plain-text summary shared by the channels
+export function formatAlertText(profile: ProfileSummary, alerts: Alert[]): string {
+  const link = alertsPageUrl(profile);
+  return [
+    `${profile.name}：${alerts.length} 条新的眼压提醒`,
+    "",
+    ...alerts.map((alert) => `[${ALERT_RULE_LABELS[alert.rule]}] ${alert.message}`),
+    ...(link ? ["", link] : []),
+  ].join("\n");
+}
@@ -3,83 +3,334 @@
  * Handles connection and data transformation from Notion database
  */
 
-import { Client } from "@notionhq/client";
-import { EyePressureRecord } from "@/types";
+import { Client, isFullPage } from "@notionhq/client";
+import { EyePressureRecord, EyePressureRecordInput, RecordIssue } from "@/types";
+import type { RecordSource } from "./recordSource";
+import { createRecordCache, SyncedPage } from "./notionSync";
+import { createEmptyEventStore, createNotionEventStore } from "./notionEvents";
+import {
+  NotionMapping,
+  READ_ONLY_TYPES,
+  RecordField,
+  ResolvedNotionMapping,
+  readBoolean,
+  readDate,
+  readNumber,
+  readString,
+  resolveNotionMapping,
+} from "./notionSchema";
+import { getUtcOffset, hasUtcOffset, isUtcOffset, toIsoDate, toZonedIsoString } from "./time";
+import { parseMeasurementFields } from "./measurement";
+import { formatReadings, parseReadingFields } from "./readings";
 
-// Fetch all records from Notion database
-export async function fetchAllRecords(): Promise<EyePressureRecord[]> {
+export interface NotionSourceConfig {
+  databaseId: string;
+  authToken: string;
+  // Optional second database holding treatment events
+  eventsDatabaseId?: string;
+  mapping: NotionMapping;
+  // Seconds to serve cached records before checking Notion for edits
+  cacheTtlSeconds?: number;
+  // Hours between full rescans (picks up pages deleted directly in Notion)
+  fullSyncHours?: number;
+}
+
+const DEFAULT_CACHE_TTL_SECONDS = 60;
+const DEFAULT_FULL_SYNC_HOURS = 6;
+
+// Schema checks run once per database and are shared across requests
+const schemaChecks = new Map<string, Promise<ResolvedNotionMapping>>();
+
+// Create a record source backed by a Notion database
+export function createNotionSource(config: NotionSourceConfig): RecordSource {
   // Initialize Notion client
   const notion = new Client({
-    auth: process.env.NOTION_AUTH_TOKEN,
+    auth: config.authToken,
   });
 
-  const databaseId = process.env.NOTION_DATABASE_ID;
+  // Check the database schema against the mapping before the first query
+  const resolveMapping = () => {
+    let check = schemaChecks.get(config.databaseId);
+    if (!check) {
+      check = checkSchema(notion, config.databaseId, config.mapping);
+      // Allow a retry after fixing the database or a transient failure
+      check.catch(() => schemaChecks.delete(config.databaseId));
+      schemaChecks.set(config.databaseId, check);
+    }
+    return check;
+  };
+
+  const cache = createRecordCache(
+    config.databaseId,
+    async (since) => queryPages(notion, config.databaseId, await resolveMapping(), since),
+    {
+      revalidateMs: (config.cacheTtlSeconds ?? DEFAULT_CACHE_TTL_SECONDS) * 1000,
+      fullSyncMs: (config.fullSyncHours ?? DEFAULT_FULL_SYNC_HOURS) * 60 * 60 * 1000,
+    }
+  );
+
+  const events = config.eventsDatabaseId
+    ? createNotionEventStore(notion, {
+        databaseId: config.eventsDatabaseId,
+        timeZone: config.mapping.timeZone,
+        cacheTtlMs: (config.cacheTtlSeconds ?? DEFAULT_CACHE_TTL_SECONDS) * 1000,
+      })
+    : createEmptyEventStore();
 
-  if (!databaseId) {
-    throw new Error("NOTION_DATABASE_ID is not set");
+  return {
+    kind: "notion",
+    fetchAllRecords: () => cache.get(),
+    listIssues: () => cache.getIssues(),
+
+    async validate() {
+      await resolveMapping();
+      await events.validate();
+    },
+
+    fetchEvents: () => events.fetchEvents(),
+    createEvent: (input) => events.createEvent(input),
+    updateEvent: (id, input) => events.updateEvent(id, input),
+    deleteEvent: (id) => events.deleteEvent(id),
+
+    async createRecord(input) {
+      const mapping = await resolveMapping();
+      const page = await notion.pages.create({
+        parent: { database_id: config.databaseId },
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        properties: toNotionProperties(input, mapping) as any,
+      });
+      const record = requireRecord(page, mapping);
+      cache.upsert(record);
+      return record;
+    },
+
+    async updateRecord(id, input) {
+      const mapping = await resolveMapping();
+      const page = await notion.pages.update({
+        page_id: id,
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        properties: toNotionProperties(input, mapping) as any,
+      });
+      const record = requireRecord(page, mapping);
+      cache.upsert(record);
+      return record;
+    },
+
+    async deleteRecord(id) {
+      // Notion has no hard delete; archiving moves the page to trash
+      await notion.pages.update({ page_id: id, archived: true });
+      cache.remove(id);
+    },
+  };
+}
+
+// Retrieve the database schema and resolve the mapping, failing with every problem found
+async function checkSchema(
+  notion: Client,
+  databaseId: string,
+  mapping: NotionMapping
+): Promise<ResolvedNotionMapping> {
+  const database = await notion.databases.retrieve({ database_id: databaseId });
+  const { mapping: resolved, issues, warnings } = resolveNotionMapping(mapping, database.properties);
+  for (const warning of warnings) {
+    console.warn(`Ignoring Notion property: ${warning}`);
+  }
+  if (issues.length > 0) {
+    throw new Error(
+      `Notion database schema does not match the property mapping: ${issues.join("; ")}`
+    );
   }
+  return resolved;
+}
 
-  const records: EyePressureRecord[] = [];
+// Query database pages, optionally only those edited on or after `since`
+async function queryPages(
+  notion: Client,
+  databaseId: string,
+  mapping: ResolvedNotionMapping,
+  since?: string
+): Promise<SyncedPage[]> {
+  const pages: SyncedPage[] = [];
   let cursor: string | undefined = undefined;
+  const dateProperty = mapping.properties.date;
 
   // Paginate through all results
   do {
     const response = await notion.databases.query({
       database_id: databaseId,
       start_cursor: cursor,
-      sorts: [{ property: "Date", direction: "ascending" }],
+      sorts: [
+        dateProperty?.type === "date"
+          ? { property: dateProperty.name, direction: "ascending" }
+          : { timestamp: "created_time", direction: "ascending" },
+      ],
+      ...(since && {
+        filter: {
+          timestamp: "last_edited_time",
+          last_edited_time: { on_or_after: since },
+        },
+      }),
     });
 
     // Transform Notion pages to our record format
     for (const page of response.results) {
-      if ("properties" in page) {
-        const record = transformNotionPage(page);
-        if (record) {
-          records.push(record);
-        }
+      if (isFullPage(page)) {
+        const result = transformNotionPage(page, mapping);
+        pages.push({
+          id: page.id,
+          archived: page.archived || page.in_trash,
+          record: "record" in result ? result.record : null,
+          issue: "issue" in result ? result.issue : null,
+        });
       }
     }
 
     cursor = response.has_more ? response.next_cursor ?? undefined : undefined;
   } while (cursor);
 
-  return records;
+  return pages;
+}
+
+// Notion date value keeping the record's zone: IANA zones go in time_zone with a wall-clock start,
+// fixed offsets are written into the start itself
+function toNotionDate(date: string, timeZone: string | undefined) {
+  if (!timeZone) return { start: date };
+  const zoned = toZonedIsoString(date, timeZone);
+  return isUtcOffset(timeZone)
+    ? { start: zoned }
+    : { start: zoned.slice(0, 23), time_zone: timeZone };
+}
+
+// Build Notion page properties from record fields using the resolved mapping
+function toNotionProperties(input: EyePressureRecordInput, mapping: ResolvedNotionMapping) {
+  const values: Record<RecordField, string | number | boolean> = {
+    name: input.name,
+    date: input.date,
+    left: input.left ?? "",
+    right: input.right ?? "",
+    is24h: input.is24h,
+    note: input.note,
+    sessionId: input.sessionId ?? "",
+    tonometer: input.tonometer ?? "",
+    position: input.position ?? "",
+    measuredBy: input.measuredBy ?? "",
+    cctLeft: input.cctLeft ?? "",
+    cctRight: input.cctRight ?? "",
+    readingsLeft: input.readingsLeft ? formatReadings(input.readingsLeft) : "",
+    readingsRight: input.readingsRight ? formatReadings(input.readingsRight) : "",
+  };
+  const properties: Record<string, unknown> = {};
+
+  for (const [field, value] of Object.entries(values) as [RecordField, string | number | boolean][]) {
+    const property = mapping.properties[field];
+    if (!property) continue;
+    if (READ_ONLY_TYPES.includes(property.type)) {
+      throw new Error(
+        `Property "${property.name}" (${property.type}) is read-only; can't write ${field} to Notion`
+      );
+    }
+    switch (property.type) {
+      case "title":
+        properties[property.name] = { title: [{ text: { content: String(value) } }] };
+        break;
+      case "rich_text":
+        properties[property.name] = {
+          rich_text: value === "" ? [] : [{ text: { content: String(value) } }],
+        };
+        break;
+      case "number":
+        properties[property.name] = {
+          number: typeof value === "number" ? value : value === "" ? null : Number(value),
+        };
+        break;
+      case "select":
+        properties[property.name] = { select: value === "" ? null : { name: String(value) } };
+        break;
+      case "date":
+        properties[property.name] = { date: toNotionDate(String(value), input.timeZone) };
+        break;
+      case "checkbox":
+        properties[property.name] = { checkbox: value };
+        break;
+    }
+  }
+
+  return properties;
+}
+
+// Transform a page returned by a write, failing if it can't be read back
+function requireRecord(page: unknown, mapping: ResolvedNotionMapping): EyePressureRecord {
+  const result = transformNotionPage(page, mapping);
+  if ("issue" in result) {
+    throw new Error(`Notion returned an invalid record: ${result.issue.message}`);
+  }
+  return result.record;
 }
 
 // Transform a Notion page to EyePressureRecord
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-function transformNotionPage(page: any): EyePressureRecord | null {
-  try {
-    const props = page.properties;
+// Pages without a date or any eye value become issues instead of records
+function transformNotionPage(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  page: any,
+  mapping: ResolvedNotionMapping
+): { record: EyePressureRecord } | { issue: RecordIssue } {
+  const props = page.properties ?? {};
+  const { properties } = mapping;
 
-    // Extract date from Date property
-    const dateValue = props.Date?.date?.start;
-    if (!dateValue) return null;
+  // Extract title from Name property
+  const name = readString(props, properties.name);
 
-    // Extract title from Name property
-    const name = props.Name?.title?.[0]?.plain_text || "";
+  // Extract date, using the page's zone or the configured one
+  const dateValue = readDate(props, properties.date);
+  const date = dateValue
+    ? toIsoDate(dateValue.start, dateValue.timeZone ?? mapping.timeZone)
+    : null;
+  // Keep the zone the reading was entered in: the page's zone, the offset it was written with,
+  // or the configured zone for wall-clock values
+  const timeZone = dateValue
+    ? dateValue.timeZone ??
+      getUtcOffset(dateValue.start) ??
+      (hasUtcOffset(dateValue.start) ? undefined : mapping.timeZone)
+    : undefined;
 
-    // Extract number values
-    const left = props.Left?.number ?? 0;
-    const right = props.Right?.number ?? 0;
+  const issue = (message: string) => ({ issue: { id: page.id, name, date, message } });
 
-    // Extract checkbox value
-    const is24h = props.is24h?.checkbox ?? false;
+  if (!date || isNaN(new Date(date).getTime())) {
+    return issue(`Missing or invalid ${properties.date?.name ?? "date"}`);
+  }
 
-    // Extract note text
-    const note = props.Note?.rich_text?.[0]?.plain_text || "";
+  // Extract number values; a single measured eye is kept with the other as null,
+  // pages with neither are reported rather than read as 0
+  const left = readNumber(props, properties.left);
+  const right = readNumber(props, properties.right);
+  if (left === null && right === null) {
+    return issue(
+      `Missing ${properties.left?.name ?? "left eye"} and ${properties.right?.name ?? "right eye"} values`
+    );
+  }
 
-    return {
+  return {
+    record: {
       id: page.id,
       name,
-      date: new Date(dateValue).toISOString(), // Store as ISO string
+      date, // Store as ISO string
       left,
       right,
-      is24h,
-      note,
-    };
-  } catch (error) {
-    console.error("Error transforming page:", error);
-    return null;
-  }
+      is24h: readBoolean(props, properties.is24h),
+      note: readString(props, properties.note),
+      sessionId: readString(props, properties.sessionId).trim() || undefined,
+      ...(timeZone && { timeZone }),
+      ...parseMeasurementFields({
+        tonometer: readString(props, properties.tonometer),
+        position: readString(props, properties.position),
+        measuredBy: readString(props, properties.measuredBy),
+        cctLeft: readNumber(props, properties.cctLeft),
+        cctRight: readNumber(props, properties.cctRight),
+      }),
+      ...parseReadingFields({
+        readingsLeft: readString(props, properties.readingsLeft),
+        readingsRight: readString(props, properties.readingsRight),
+      }),
+    },
+  };
 }
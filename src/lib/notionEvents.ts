@@ -0,0 +1,252 @@
+/**
+ * Treatment events stored in a second Notion database
+ * Reads and writes medication, procedure and visit pages with a short-lived cache
+ */
+
+import { Client, isFullPage } from "@notionhq/client";
+import { TreatmentEvent, TreatmentEventInput } from "@/types";
+import type { RecordSource } from "./recordSource";
+import { readString } from "./notionSchema";
+import { parseEventEye, parseEventType } from "./events";
+import { toIsoDate } from "./time";
+
+export type EventStore = Pick<
+  RecordSource,
+  "fetchEvents" | "createEvent" | "updateEvent" | "deleteEvent"
+> & { validate(): Promise<void> };
+
+export interface NotionEventStoreConfig {
+  databaseId: string;
+  // IANA zone for dates stored without an offset
+  timeZone?: string;
+  // Serve cached events without contacting Notion for this long
+  cacheTtlMs: number;
+}
+
+// Property names expected in the events database
+export const EVENT_PROPERTIES = {
+  title: { name: "Name", type: "title", required: true },
+  type: { name: "Type", type: "select", required: true },
+  date: { name: "Date", type: "date", required: true },
+  eye: { name: "Eye", type: "select", required: false },
+  dose: { name: "Dose", type: "rich_text", required: false },
+  note: { name: "Note", type: "rich_text", required: false },
+} as const;
+
+type EventProperty = keyof typeof EVENT_PROPERTIES;
+
+interface EventCacheState {
+  events: Map<string, TreatmentEvent>;
+  fetchedAt: number;
+  inFlight: Promise<void> | null;
+}
+
+// Cache and schema checks survive across requests, keyed by database
+const caches = new Map<string, EventCacheState>();
+const schemaChecks = new Map<string, Promise<Set<EventProperty>>>();
+
+// Create an event store backed by a Notion database
+export function createNotionEventStore(notion: Client, config: NotionEventStoreConfig): EventStore {
+  let state = caches.get(config.databaseId);
+  if (!state) {
+    state = { events: new Map(), fetchedAt: 0, inFlight: null };
+    caches.set(config.databaseId, state);
+  }
+  const cache = state;
+
+  // Properties present in the database, checked once
+  const resolveProperties = () => {
+    let check = schemaChecks.get(config.databaseId);
+    if (!check) {
+      check = checkEventSchema(notion, config.databaseId);
+      check.catch(() => schemaChecks.delete(config.databaseId));
+      schemaChecks.set(config.databaseId, check);
+    }
+    return check;
+  };
+
+  // Re-query the whole database once the cache is stale (event lists are short)
+  const refresh = async () => {
+    if (Date.now() - cache.fetchedAt < config.cacheTtlMs) return;
+    if (!cache.inFlight) {
+      cache.inFlight = queryEvents(notion, config.databaseId, config.timeZone)
+        .then((events) => {
+          cache.events = new Map(events.map((event) => [event.id, event]));
+          cache.fetchedAt = Date.now();
+        })
+        .finally(() => {
+          cache.inFlight = null;
+        });
+    }
+    await cache.inFlight;
+  };
+
+  // Transform a page returned by a write, failing if it can't be read back
+  const requireEvent = (page: unknown) => {
+    const event = transformEventPage(page, config.timeZone);
+    if (!event) throw new Error("Notion returned an invalid event");
+    cache.events.set(event.id, event);
+    return event;
+  };
+
+  return {
+    async validate() {
+      await resolveProperties();
+    },
+
+    async fetchEvents() {
+      await resolveProperties();
+      await refresh();
+      return [...cache.events.values()].sort(
+        (a, b) => new Date(a.start).getTime() - new Date(b.start).getTime()
+      );
+    },
+
+    async createEvent(input) {
+      const present = await resolveProperties();
+      const page = await notion.pages.create({
+        parent: { database_id: config.databaseId },
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        properties: toEventProperties(input, present) as any,
+      });
+      return requireEvent(page);
+    },
+
+    async updateEvent(id, input) {
+      const present = await resolveProperties();
+      const page = await notion.pages.update({
+        page_id: id,
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        properties: toEventProperties(input, present) as any,
+      });
+      return requireEvent(page);
+    },
+
+    async deleteEvent(id) {
+      await notion.pages.update({ page_id: id, archived: true });
+      cache.events.delete(id);
+    },
+  };
+}
+
+// Event store used when no events database is configured
+export function createEmptyEventStore(): EventStore {
+  const notConfigured = async (): Promise<never> => {
+    throw new Error("NOTION_EVENTS_DATABASE_ID is not configured");
+  };
+  return {
+    validate: async () => {},
+    fetchEvents: async () => [],
+    createEvent: notConfigured,
+    updateEvent: notConfigured,
+    deleteEvent: notConfigured,
+  };
+}
+
+// Check the events database schema, returning the properties it has
+async function checkEventSchema(notion: Client, databaseId: string): Promise<Set<EventProperty>> {
+  const database = await notion.databases.retrieve({ database_id: databaseId });
+  const present = new Set<EventProperty>();
+  const issues: string[] = [];
+
+  for (const [key, spec] of Object.entries(EVENT_PROPERTIES) as [
+    EventProperty,
+    (typeof EVENT_PROPERTIES)[EventProperty],
+  ][]) {
+    const actual = database.properties[spec.name];
+    if (!actual) {
+      if (spec.required) issues.push(`Property "${spec.name}" is missing from the events database`);
+    } else if (actual.type !== spec.type) {
+      issues.push(`Property "${spec.name}" is of type ${actual.type}, expected ${spec.type}`);
+    } else {
+      present.add(key);
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new Error(`Notion events database schema is invalid: ${issues.join("; ")}`);
+  }
+  return present;
+}
+
+// Query all non-archived event pages
+async function queryEvents(
+  notion: Client,
+  databaseId: string,
+  timeZone: string | undefined
+): Promise<TreatmentEvent[]> {
+  const events: TreatmentEvent[] = [];
+  let cursor: string | undefined = undefined;
+
+  do {
+    const response = await notion.databases.query({
+      database_id: databaseId,
+      start_cursor: cursor,
+      sorts: [{ property: EVENT_PROPERTIES.date.name, direction: "ascending" }],
+    });
+
+    for (const page of response.results) {
+      if (!isFullPage(page) || page.archived || page.in_trash) continue;
+      const event = transformEventPage(page, timeZone);
+      if (event) {
+        events.push(event);
+      } else {
+        console.warn(`Skipping Notion event ${page.id}: missing name, type or date`);
+      }
+    }
+
+    cursor = response.has_more ? response.next_cursor ?? undefined : undefined;
+  } while (cursor);
+
+  return events;
+}
+
+// Convert a Notion date value to ISO; date-only values without a zone are local midnight
+function toEventDate(value: string, timeZone: string | undefined): string {
+  if (!timeZone && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return new Date(`${value}T00:00:00`).toISOString();
+  }
+  return toIsoDate(value, timeZone);
+}
+
+// Transform a Notion page to a TreatmentEvent, or null when required values are missing
+function transformEventPage(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  page: any,
+  timeZone: string | undefined
+): TreatmentEvent | null {
+  const props = page.properties ?? {};
+  const text = (key: EventProperty) =>
+    readString(props, { name: EVENT_PROPERTIES[key].name, type: "rich_text" }).trim();
+
+  const title = text("title");
+  const type = parseEventType(props[EVENT_PROPERTIES.type.name]?.select?.name);
+  const date = props[EVENT_PROPERTIES.date.name]?.date;
+  if (!title || !type || !date?.start) return null;
+
+  const zone = date.time_zone ?? timeZone;
+  return {
+    id: page.id,
+    type,
+    title,
+    start: toEventDate(date.start, zone),
+    end: date.end ? toEventDate(date.end, zone) : null,
+    eye: parseEventEye(props[EVENT_PROPERTIES.eye.name]?.select?.name),
+    dose: text("dose"),
+    note: text("note"),
+  };
+}
+
+// Build Notion page properties for an event, skipping optional properties the database lacks
+function toEventProperties(input: TreatmentEventInput, present: Set<EventProperty>) {
+  const richText = (value: string) => (value === "" ? [] : [{ text: { content: value } }]);
+  const properties: Record<string, unknown> = {
+    [EVENT_PROPERTIES.title.name]: { title: [{ text: { content: input.title } }] },
+    [EVENT_PROPERTIES.type.name]: { select: { name: input.type } },
+    [EVENT_PROPERTIES.date.name]: { date: { start: input.start, end: input.end } },
+  };
+  if (present.has("eye")) properties[EVENT_PROPERTIES.eye.name] = { select: { name: input.eye } };
+  if (present.has("dose")) properties[EVENT_PROPERTIES.dose.name] = { rich_text: richText(input.dose) };
+  if (present.has("note")) properties[EVENT_PROPERTIES.note.name] = { rich_text: richText(input.note) };
+  return properties;
+}
@@ -0,0 +1,254 @@
+/**
+ * Notion property mapping and schema validation
+ * Maps record fields onto per-database property names/types and checks them against the schema
+ */
+
+import { isValidTimeZone } from "./time";
+
+// Record fields read from Notion
+export type RecordField =
+  | "name"
+  | "date"
+  | "left"
+  | "right"
+  | "is24h"
+  | "note"
+  | "sessionId"
+  | "tonometer"
+  | "position"
+  | "measuredBy"
+  | "cctLeft"
+  | "cctRight"
+  | "readingsLeft"
+  | "readingsRight";
+
+// Notion property types the app knows how to read
+export type NotionPropertyType =
+  | "title"
+  | "rich_text"
+  | "number"
+  | "formula"
+  | "date"
+  | "created_time"
+  | "checkbox"
+  | "select";
+
+// Configured mapping for one field; type is inferred from the schema when omitted
+export interface PropertyMapping {
+  name: string;
+  type?: NotionPropertyType;
+}
+
+export interface NotionMapping {
+  properties: Record<RecordField, PropertyMapping>;
+  // IANA zone for dates stored without an offset (e.g. "Asia/Shanghai")
+  timeZone?: string;
+}
+
+// Mapping after checking the database; null for optional properties the database lacks
+export interface ResolvedNotionMapping {
+  properties: Record<RecordField, Required<PropertyMapping> | null>;
+  timeZone?: string;
+}
+
+export const DEFAULT_PROPERTY_NAMES: Record<RecordField, string> = {
+  name: "Name",
+  date: "Date",
+  left: "Left",
+  right: "Right",
+  is24h: "is24h",
+  note: "Note",
+  sessionId: "Session",
+  tonometer: "Tonometer",
+  position: "Position",
+  measuredBy: "Measured By",
+  cctLeft: "CCT Left",
+  cctRight: "CCT Right",
+  readingsLeft: "Readings Left",
+  readingsRight: "Readings Right",
+};
+
+// Property types accepted for each field (first is the default)
+const ALLOWED_TYPES: Record<RecordField, NotionPropertyType[]> = {
+  name: ["title", "rich_text"],
+  date: ["date", "created_time"],
+  left: ["number", "formula", "rich_text"],
+  right: ["number", "formula", "rich_text"],
+  is24h: ["checkbox", "formula"],
+  note: ["rich_text", "title"],
+  sessionId: ["rich_text", "select"],
+  tonometer: ["select", "rich_text"],
+  position: ["select", "rich_text"],
+  measuredBy: ["select", "rich_text"],
+  cctLeft: ["number", "formula", "rich_text"],
+  cctRight: ["number", "formula", "rich_text"],
+  readingsLeft: ["rich_text"],
+  readingsRight: ["rich_text"],
+};
+
+// Fields the app can't work without
+const REQUIRED_FIELDS: RecordField[] = ["date", "left", "right"];
+
+// Types that can't be written through the API
+export const READ_ONLY_TYPES: NotionPropertyType[] = ["formula", "created_time"];
+
+const RECORD_FIELDS = Object.keys(DEFAULT_PROPERTY_NAMES) as RecordField[];
+
+// Parse mapping configuration
+// `propertyMap` is JSON like {"left": "左眼", "date": {"name": "时间", "type": "date"}}
+export function parseNotionMapping(
+  propertyMap: string | undefined,
+  timeZone: string | undefined
+): NotionMapping {
+  const properties = Object.fromEntries(
+    RECORD_FIELDS.map((field) => [field, { name: DEFAULT_PROPERTY_NAMES[field] }])
+  ) as Record<RecordField, PropertyMapping>;
+
+  if (propertyMap) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(propertyMap);
+    } catch {
+      throw new Error("NOTION_PROPERTY_MAP is not valid JSON");
+    }
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+      throw new Error("NOTION_PROPERTY_MAP must be a JSON object");
+    }
+
+    for (const [field, value] of Object.entries(parsed)) {
+      if (!RECORD_FIELDS.includes(field as RecordField)) {
+        throw new Error(
+          `NOTION_PROPERTY_MAP: unknown field "${field}" (expected one of ${RECORD_FIELDS.join(", ")})`
+        );
+      }
+      const key = field as RecordField;
+      const mapping: PropertyMapping =
+        typeof value === "string" ? { name: value } : (value as PropertyMapping);
+      if (!mapping?.name) {
+        throw new Error(`NOTION_PROPERTY_MAP: field "${field}" needs a property name`);
+      }
+      if (mapping.type && !ALLOWED_TYPES[key].includes(mapping.type)) {
+        throw new Error(
+          `NOTION_PROPERTY_MAP: field "${field}" can't use type "${mapping.type}" (allowed: ${ALLOWED_TYPES[key].join(", ")})`
+        );
+      }
+      properties[key] = { name: mapping.name, type: mapping.type };
+    }
+  }
+
+  if (timeZone && !isValidTimeZone(timeZone)) {
+    throw new Error(`NOTION_TIME_ZONE is not a valid IANA time zone: ${timeZone}`);
+  }
+
+  return { properties, timeZone: timeZone || undefined };
+}
+
+// Check the mapping against a database's property schema
+// Returns the resolved mapping and human-readable problems: issues with required fields, and
+// warnings for optional properties of an unusable type (left unmapped, e.g. an existing
+// multi_select "Position" column)
+export function resolveNotionMapping(
+  mapping: NotionMapping,
+  schema: Record<string, { type: string }>
+): { mapping: ResolvedNotionMapping; issues: string[]; warnings: string[] } {
+  const issues: string[] = [];
+  const warnings: string[] = [];
+  const resolved = {} as ResolvedNotionMapping["properties"];
+
+  for (const field of RECORD_FIELDS) {
+    const { name, type } = mapping.properties[field];
+    const actual = schema[name];
+    const required = REQUIRED_FIELDS.includes(field);
+
+    if (!actual) {
+      if (required) {
+        issues.push(`Property "${name}" (for ${field}) is missing from the database`);
+      }
+      resolved[field] = null;
+      continue;
+    }
+
+    const actualType = actual.type as NotionPropertyType;
+    const problems = required ? issues : warnings;
+    if (type && actualType !== type) {
+      problems.push(`Property "${name}" (for ${field}) is of type ${actual.type}, expected ${type}`);
+      resolved[field] = null;
+    } else if (!ALLOWED_TYPES[field].includes(actualType)) {
+      problems.push(
+        `Property "${name}" (for ${field}) is of type ${actual.type}, expected one of ${ALLOWED_TYPES[field].join(", ")}`
+      );
+      resolved[field] = null;
+    } else {
+      resolved[field] = { name, type: actualType };
+    }
+  }
+
+  return { mapping: { properties: resolved, timeZone: mapping.timeZone }, issues, warnings };
+}
+
+// Read a property value as text
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function readText(prop: any): string {
+  const parts = prop?.title ?? prop?.rich_text ?? [];
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  return parts.map((p: any) => p.plain_text ?? "").join("");
+}
+
+// Read a mapped property as a number, or null when empty or unparseable
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function readNumber(props: any, mapping: Required<PropertyMapping> | null): number | null {
+  if (!mapping) return null;
+  const prop = props[mapping.name];
+  let value: unknown = null;
+  switch (mapping.type) {
+    case "number":
+      value = prop?.number;
+      break;
+    case "formula":
+      value = prop?.formula?.number ?? prop?.formula?.string;
+      break;
+    case "rich_text":
+      value = readText(prop).trim() || null;
+      break;
+  }
+  if (value === null || value === undefined || value === "") return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+// Read a mapped property as text
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function readString(props: any, mapping: Required<PropertyMapping> | null): string {
+  if (!mapping) return "";
+  const prop = props[mapping.name];
+  switch (mapping.type) {
+    case "select":
+      return prop?.select?.name ?? "";
+    default:
+      return readText(prop);
+  }
+}
+
+// Read a mapped property as a boolean
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function readBoolean(props: any, mapping: Required<PropertyMapping> | null): boolean {
+  if (!mapping) return false;
+  const prop = props[mapping.name];
+  if (mapping.type === "formula") return Boolean(prop?.formula?.boolean);
+  return Boolean(prop?.checkbox);
+}
+
+// Read a mapped date property as its raw start string and zone
+export function readDate(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  props: any,
+  mapping: Required<PropertyMapping> | null
+): { start: string; timeZone: string | null } | null {
+  if (!mapping) return null;
+  const prop = props[mapping.name];
+  if (mapping.type === "created_time") {
+    return prop?.created_time ? { start: prop.created_time, timeZone: null } : null;
+  }
+  const start = prop?.date?.start;
+  return start ? { start, timeZone: prop.date.time_zone ?? null } : null;
+}
@@ -0,0 +1,135 @@
+/**
+ * Server-side cache with incremental sync for Notion records
+ * Re-queries only pages edited since the last sync and periodically does a full rescan
+ */
+
+import { EyePressureRecord, RecordIssue } from "@/types";
+
+// A page returned by a sync query, already transformed
+// Pages that fail validation carry an issue instead of a record
+export interface SyncedPage {
+  id: string;
+  archived: boolean;
+  record: EyePressureRecord | null;
+  issue: RecordIssue | null;
+}
+
+// Query pages, optionally only those edited on or after `since` (ISO string)
+export type PageQuery = (since?: string) => Promise<SyncedPage[]>;
+
+export interface RecordCacheOptions {
+  // Serve cached records without contacting Notion for this long
+  revalidateMs: number;
+  // Rescan the whole database this often to drop pages deleted outside the app
+  fullSyncMs: number;
+}
+
+export interface RecordCache {
+  get(): Promise<EyePressureRecord[]>;
+  getIssues(): Promise<RecordIssue[]>;
+  upsert(record: EyePressureRecord): void;
+  remove(id: string): void;
+}
+
+interface CacheState {
+  records: Map<string, EyePressureRecord>;
+  issues: Map<string, RecordIssue>;
+  lastSyncStartedAt: number;
+  lastFullSyncAt: number;
+  lastCheckedAt: number;
+  inFlight: Promise<void> | null;
+}
+
+// Notion rounds last_edited_time to the minute, so overlap incremental queries
+const EDIT_TIME_SLACK_MS = 2 * 60 * 1000;
+
+// Cache state survives across requests, keyed by database
+const caches = new Map<string, CacheState>();
+
+// Create (or reuse) the cache for a database
+export function createRecordCache(
+  key: string,
+  query: PageQuery,
+  options: RecordCacheOptions
+): RecordCache {
+  let state = caches.get(key);
+  if (!state) {
+    state = {
+      records: new Map(),
+      issues: new Map(),
+      lastSyncStartedAt: 0,
+      lastFullSyncAt: 0,
+      lastCheckedAt: 0,
+      inFlight: null,
+    };
+    caches.set(key, state);
+  }
+  const cache = state;
+
+  // Store a page as a record or an issue, or drop it when archived
+  const applyPage = (page: SyncedPage) => {
+    cache.records.delete(page.id);
+    cache.issues.delete(page.id);
+    if (page.archived) return;
+    if (page.record) cache.records.set(page.id, page.record);
+    if (page.issue) cache.issues.set(page.id, page.issue);
+  };
+
+  // Sync if the cache is older than the revalidation window
+  const revalidate = async () => {
+    if (Date.now() - cache.lastCheckedAt >= options.revalidateMs) {
+      // Share one sync between concurrent requests
+      if (!cache.inFlight) {
+        cache.inFlight = sync().finally(() => {
+          cache.inFlight = null;
+        });
+      }
+      await cache.inFlight;
+    }
+  };
+
+  // Full rescan replaces the maps; incremental sync applies changed pages
+  const sync = async () => {
+    const startedAt = Date.now();
+    const isFull = startedAt - cache.lastFullSyncAt >= options.fullSyncMs;
+
+    if (isFull) {
+      const pages = await query();
+      cache.records = new Map();
+      cache.issues = new Map();
+      for (const page of pages) applyPage(page);
+      cache.lastFullSyncAt = startedAt;
+    } else {
+      const since = new Date(cache.lastSyncStartedAt - EDIT_TIME_SLACK_MS).toISOString();
+      const pages = await query(since);
+      for (const page of pages) applyPage(page);
+    }
+
+    cache.lastSyncStartedAt = startedAt;
+    cache.lastCheckedAt = Date.now();
+  };
+
+  return {
+    async get() {
+      await revalidate();
+      return [...cache.records.values()].sort(
+        (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()
+      );
+    },
+
+    async getIssues() {
+      await revalidate();
+      return [...cache.issues.values()];
+    },
+
+    upsert(record) {
+      cache.issues.delete(record.id);
+      cache.records.set(record.id, record);
+    },
+
+    remove(id) {
+      cache.records.delete(id);
+      cache.issues.delete(id);
+    },
+  };
+}
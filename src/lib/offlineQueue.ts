@@ -0,0 +1,105 @@
+/**
+ * Offline record queue
+ * Records added or edited without a connection are kept in IndexedDB on the device
+ * and written to the source once the browser is back online
+ */
+
+import { EyePressureRecord, EyePressureRecordInput, QueuedRecordChange } from "@/types";
+
+const DB_NAME = "eye-pressure-record";
+const DB_VERSION = 1;
+const STORE = "recordQueue";
+
+// Prefix of the ids queued new records are shown with until they are synced
+export const QUEUED_ID_PREFIX = "queued-";
+
+// Whether two records have the same editable fields (used to spot conflicts and resent creates)
+export function sameRecordFields(a: EyePressureRecordInput, b: EyePressureRecordInput): boolean {
+  return (
+    new Date(a.date).getTime() === new Date(b.date).getTime() &&
+    a.left === b.left &&
+    a.right === b.right &&
+    a.is24h === b.is24h &&
+    a.note === b.note &&
+    (a.name ?? "") === (b.name ?? "") &&
+    (a.sessionId ?? "") === (b.sessionId ?? "") &&
+    (a.timeZone ?? "") === (b.timeZone ?? "") &&
+    a.tonometer === b.tonometer &&
+    a.position === b.position &&
+    a.measuredBy === b.measuredBy &&
+    a.cctLeft === b.cctLeft &&
+    a.cctRight === b.cctRight &&
+    (a.readingsLeft ?? []).join() === (b.readingsLeft ?? []).join() &&
+    (a.readingsRight ?? []).join() === (b.readingsRight ?? []).join()
+  );
+}
+
+// Records with queued changes applied: edits replace their record, new records are appended
+export function applyQueue(
+  records: EyePressureRecord[],
+  queue: QueuedRecordChange[]
+): EyePressureRecord[] {
+  if (queue.length === 0) return records;
+  const edits = new Map(
+    queue.filter((c) => c.recordId !== null).map((c) => [c.recordId as string, c])
+  );
+  return [
+    ...records.map((r) => {
+      const edit = edits.get(r.id);
+      return edit ? { ...edit.input, id: r.id } : r;
+    }),
+    ...queue
+      .filter((c) => c.recordId === null)
+      .map((c) => ({ ...c.input, id: `${QUEUED_ID_PREFIX}${c.id}` })),
+  ];
+}
+
+// Network failures (as opposed to errors returned by the server) leave a change queued
+export function isOffline(err: unknown): boolean {
+  return !navigator.onLine || err instanceof TypeError;
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE, { keyPath: "id" });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Run one request in a transaction on the queue store
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE, mode);
+      const request = run(transaction.objectStore(STORE));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+// A profile's queued changes, oldest first
+export async function listQueued(profileId: string): Promise<QueuedRecordChange[]> {
+  const all = await withStore<QueuedRecordChange[]>("readonly", (store) => store.getAll());
+  return all
+    .filter((change) => change.profileId === profileId)
+    .sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+}
+
+export async function saveQueued(change: QueuedRecordChange): Promise<void> {
+  await withStore("readwrite", (store) => store.put(change));
+}
+
+export async function deleteQueued(id: string): Promise<void> {
+  await withStore("readwrite", (store) => store.delete(id));
+}
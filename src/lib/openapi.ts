@@ -0,0 +1,380 @@
+/**
+ * OpenAPI description of the JSON API
+ * Served at /api/v1/openapi.json; keep in sync with the routes under src/app/api/v1
+ */
+
+import { API_VERSION } from "./api";
+
+// Query parameters shared by the endpoints that read a profile's data
+const FILTER_PARAMETERS = [
+  { $ref: "#/components/parameters/range" },
+  { $ref: "#/components/parameters/from" },
+  { $ref: "#/components/parameters/to" },
+  { $ref: "#/components/parameters/q" },
+  { $ref: "#/components/parameters/above" },
+  { $ref: "#/components/parameters/only24h" },
+];
+
+const PAGE_PARAMETERS = [
+  { $ref: "#/components/parameters/limit" },
+  { $ref: "#/components/parameters/offset" },
+];
+
+const PROFILE_PARAMETER = { $ref: "#/components/parameters/profile" };
+
+const ERROR_RESPONSES = {
+  "304": { description: "Not modified (the `If-None-Match` ETag is current)" },
+  "401": { $ref: "#/components/responses/Error" },
+  "404": { $ref: "#/components/responses/Error" },
+};
+
+function jsonResponse(description: string, schema: object) {
+  return {
+    description,
+    headers: { ETag: { schema: { type: "string" } } },
+    content: { "application/json": { schema } },
+  };
+}
+
+function page(itemSchema: object) {
+  return {
+    type: "object",
+    required: ["data", "pagination"],
+    properties: {
+      data: { type: "array", items: itemSchema },
+      pagination: { $ref: "#/components/schemas/Pagination" },
+    },
+  };
+}
+
+const NUMBER_OR_NULL = { type: ["number", "null"] };
+
+const EYE_SUMMARY = {
+  type: ["object", "null"],
+  description: "null when the eye has no readings",
+  properties: {
+    max: { type: "number" },
+    min: { type: "number" },
+    mean: { type: "number" },
+    stdDev: { type: "number" },
+    fluctuation: { type: "number" },
+    peakTime: { type: "string", format: "date-time" },
+    troughTime: { type: "string", format: "date-time" },
+  },
+};
+
+const EYE_MEANS = {
+  type: "object",
+  properties: { count: { type: "integer" }, left: NUMBER_OR_NULL, right: NUMBER_OR_NULL },
+};
+
+export function buildOpenApiDocument(serverUrl: string) {
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "Eye Pressure Record API",
+      version: API_VERSION,
+      description:
+        "Read-only access to intraocular pressure records, their grouping into regular measurements " +
+        "and 24h sessions, chart series and statistics. Filters use the same query parameters as the dashboard. " +
+        "Responses carry an ETag; send it back in `If-None-Match` to get 304 when nothing changed.",
+    },
+    servers: [{ url: new URL(`/api/${API_VERSION}`, serverUrl).toString() }],
+    security: [{ bearerAuth: [] }],
+    paths: {
+      "/profiles": {
+        get: {
+          summary: "List patient profiles",
+          responses: {
+            "200": jsonResponse("Profiles", {
+              type: "object",
+              properties: { data: { type: "array", items: { $ref: "#/components/schemas/Profile" } } },
+            }),
+            ...ERROR_RESPONSES,
+          },
+        },
+      },
+      "/profiles/{profile}/records": {
+        get: {
+          summary: "List records, oldest first",
+          parameters: [PROFILE_PARAMETER, ...FILTER_PARAMETERS, ...PAGE_PARAMETERS],
+          responses: {
+            "200": jsonResponse("A page of records", page({ $ref: "#/components/schemas/Record" })),
+            "400": { $ref: "#/components/responses/Error" },
+            ...ERROR_RESPONSES,
+          },
+        },
+      },
+      "/profiles/{profile}/groups": {
+        get: {
+          summary: "List groups (regular measurements and 24h sessions)",
+          parameters: [
+            PROFILE_PARAMETER,
+            ...FILTER_PARAMETERS,
+            ...PAGE_PARAMETERS,
+            {
+              name: "records",
+              in: "query",
+              description: "`0` leaves out each group's records",
+              schema: { type: "string", enum: ["0", "1"] },
+            },
+          ],
+          responses: {
+            "200": jsonResponse("A page of groups", page({ $ref: "#/components/schemas/Group" })),
+            "400": { $ref: "#/components/responses/Error" },
+            ...ERROR_RESPONSES,
+          },
+        },
+      },
+      "/profiles/{profile}/groups/{group}/chart": {
+        get: {
+          summary: "Chart series of a group",
+          parameters: [
+            PROFILE_PARAMETER,
+            { name: "group", in: "path", required: true, schema: { type: "string" }, example: "regular" },
+            ...FILTER_PARAMETERS,
+          ],
+          responses: {
+            "200": jsonResponse("Chart points", {
+              type: "object",
+              properties: {
+                groupId: { type: "string" },
+                title: { type: "string" },
+                type: { type: "string", enum: ["24h", "regular"] },
+                timeZone: { type: "string" },
+                data: { type: "array", items: { $ref: "#/components/schemas/ChartPoint" } },
+              },
+            }),
+            ...ERROR_RESPONSES,
+          },
+        },
+      },
+      "/profiles/{profile}/stats": {
+        get: {
+          summary: "Summary statistics, 24h session metrics and long-term trends",
+          parameters: [PROFILE_PARAMETER, ...FILTER_PARAMETERS],
+          responses: {
+            "200": jsonResponse("Statistics", { $ref: "#/components/schemas/Stats" }),
+            ...ERROR_RESPONSES,
+          },
+        },
+      },
+    },
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: "http", scheme: "bearer", description: "One of the tokens in API_TOKENS" },
+      },
+      parameters: {
+        profile: { name: "profile", in: "path", required: true, schema: { type: "string" }, example: "default" },
+        range: {
+          name: "range",
+          in: "query",
+          description: "Date range preset; takes precedence over from/to",
+          schema: { type: "string", enum: ["3m", "1y", "lastVisit"] },
+        },
+        from: { name: "from", in: "query", description: "First day (display zone)", schema: { type: "string", format: "date" } },
+        to: { name: "to", in: "query", description: "Last day (display zone)", schema: { type: "string", format: "date" } },
+        q: { name: "q", in: "query", description: "Text searched in record notes and names", schema: { type: "string" } },
+        above: {
+          name: "above",
+          in: "query",
+          description: "`1` keeps readings above target in either eye",
+          schema: { type: "string", enum: ["1"] },
+        },
+        only24h: {
+          name: "only24h",
+          in: "query",
+          description: "`1` keeps 24h sessions only",
+          schema: { type: "string", enum: ["1"] },
+        },
+        limit: { name: "limit", in: "query", schema: { type: "integer", minimum: 1, maximum: 1000, default: 100 } },
+        offset: { name: "offset", in: "query", schema: { type: "integer", minimum: 0, default: 0 } },
+      },
+      responses: {
+        Error: {
+          description: "Error",
+          content: {
+            "application/json": {
+              schema: { type: "object", properties: { error: { type: "string" } } },
+            },
+          },
+        },
+      },
+      schemas: {
+        Profile: {
+          type: "object",
+          properties: {
+            id: { type: "string" },
+            name: { type: "string" },
+            source: { type: "string", enum: ["notion", "local"] },
+          },
+        },
+        Pagination: {
+          type: "object",
+          properties: {
+            limit: { type: "integer" },
+            offset: { type: "integer" },
+            total: { type: "integer" },
+            next: { type: ["string", "null"], description: "URL of the next page" },
+          },
+        },
+        Record: {
+          type: "object",
+          properties: {
+            id: { type: "string" },
+            name: { type: "string" },
+            date: { type: "string", format: "date-time" },
+            timeZone: { type: "string", description: "Zone the reading was taken in" },
+            left: { type: ["number", "null"], description: "Left eye IOP, mmHg; null when not measured" },
+            right: { type: ["number", "null"], description: "Right eye IOP, mmHg; null when not measured" },
+            is24h: { type: "boolean" },
+            sessionId: { type: "string" },
+            note: { type: "string" },
+            tonometer: { type: "string", enum: ["goldmann", "rebound", "noncontact", "other"] },
+            position: { type: "string", enum: ["sitting", "supine"] },
+            measuredBy: { type: "string", enum: ["self", "clinic"] },
+            cctLeft: { type: "number", description: "Left central corneal thickness, μm" },
+            cctRight: { type: "number", description: "Right central corneal thickness, μm" },
+            readingsLeft: {
+              type: "array",
+              items: { type: "number" },
+              description: "Left raw readings when several were taken; left is their mean or median",
+            },
+            readingsRight: {
+              type: "array",
+              items: { type: "number" },
+              description: "Right raw readings when several were taken; right is their mean or median",
+            },
+            groupId: { type: "string" },
+          },
+        },
+        Group: {
+          type: "object",
+          properties: {
+            id: { type: "string" },
+            title: { type: "string" },
+            type: { type: "string", enum: ["24h", "regular"] },
+            count: { type: "integer" },
+            from: { type: "string", format: "date-time" },
+            to: { type: "string", format: "date-time" },
+            records: { type: "array", items: { $ref: "#/components/schemas/Record" } },
+          },
+        },
+        ChartPoint: {
+          type: "object",
+          properties: {
+            label: { type: "string" },
+            left: NUMBER_OR_NULL,
+            right: NUMBER_OR_NULL,
+            average: { type: ["number", "null"], description: "Mean of the measured eyes" },
+            dateStr: { type: "string", format: "date-time" },
+            minutesFromStart: { type: "number" },
+            movingAverage: { type: "number" },
+            trendLeft: { type: "number" },
+            trendRight: { type: "number" },
+            targetLeft: { type: "number" },
+            targetRight: { type: "number" },
+            tonometer: { type: "string" },
+            position: { type: "string" },
+            correctedLeft: { type: "number", description: "Left IOP corrected for CCT" },
+            correctedRight: { type: "number", description: "Right IOP corrected for CCT" },
+            spreadLeft: {
+              type: "array",
+              items: { type: "number" },
+              minItems: 2,
+              maxItems: 2,
+              description: "Left error bar [below, above] from readings that aren't outliers",
+            },
+            spreadRight: {
+              type: "array",
+              items: { type: "number" },
+              minItems: 2,
+              maxItems: 2,
+              description: "Right error bar [below, above] from readings that aren't outliers",
+            },
+          },
+        },
+        Summary: {
+          type: ["object", "null"],
+          properties: {
+            count: { type: "integer" },
+            from: { type: "string", format: "date-time" },
+            to: { type: "string", format: "date-time" },
+            left: EYE_SUMMARY,
+            right: EYE_SUMMARY,
+          },
+        },
+        Stats: {
+          type: "object",
+          properties: {
+            range: {
+              type: "object",
+              properties: { from: { type: ["string", "null"] }, to: { type: ["string", "null"] } },
+            },
+            timeZone: { type: "string" },
+            summary: { $ref: "#/components/schemas/Summary" },
+            groups: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  id: { type: "string" },
+                  title: { type: "string" },
+                  type: { type: "string", enum: ["24h", "regular"] },
+                  count: { type: "integer" },
+                  summary: { $ref: "#/components/schemas/Summary" },
+                  session: {
+                    type: ["object", "null"],
+                    description: "24h session metrics (summary fields plus the following)",
+                    properties: {
+                      asymmetry: {
+                        type: ["object", "null"],
+                        description: "Over readings of both eyes; null when there are none",
+                        properties: {
+                          mean: { type: "number" },
+                          max: { type: "number" },
+                          maxTime: { type: "string", format: "date-time" },
+                        },
+                      },
+                      sleepWindow: {
+                        type: "object",
+                        properties: { start: { type: "string" }, end: { type: "string" } },
+                      },
+                      diurnal: EYE_MEANS,
+                      nocturnal: EYE_MEANS,
+                    },
+                  },
+                  trend: {
+                    type: ["object", "null"],
+                    description: "Long-term trend of regular measurements",
+                    properties: {
+                      rollingDays: { type: "integer" },
+                      recentWeeks: { type: "integer" },
+                      left: {
+                        type: "object",
+                        properties: { slopePerMonth: NUMBER_OR_NULL, percentAboveTarget: { type: "number" } },
+                      },
+                      right: {
+                        type: "object",
+                        properties: { slopePerMonth: NUMBER_OR_NULL, percentAboveTarget: { type: "number" } },
+                      },
+                      comparison: {
+                        type: "object",
+                        properties: {
+                          recent: EYE_MEANS,
+                          previous: EYE_MEANS,
+                          recentStart: { type: "string", format: "date-time" },
+                          previousStart: { type: "string", format: "date-time" },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  };
+}
@@ -0,0 +1,173 @@
+/**
+ * Patient profiles
+ * Each profile has its own record source and settings file; without a profiles file
+ * a single profile is configured from the environment
+ */
+
+import { readJsonFile, resolveDataPath } from "./jsonFile";
+
+// Where a profile's records and treatment events are stored
+// Notion credentials are checked when the source is created, so a missing token
+// only affects the profile that needs it
+export type SourceConfig =
+  | {
+      kind: "notion";
+      databaseId: string | undefined;
+      authToken: string | undefined;
+      eventsDatabaseId?: string;
+      // NOTION_PROPERTY_MAP-style JSON mapping fields to property names
+      propertyMap?: string;
+      timeZone?: string;
+    }
+  | { kind: "local"; dataFile: string };
+
+export interface Profile {
+  id: string; // URL segment, e.g. /p/mom
+  name: string;
+  source: SourceConfig;
+  // Target pressures, session overrides and display zone for this patient
+  settingsFile: string;
+}
+
+// Part of a profile safe to pass to client components
+export type ProfileSummary = Pick<Profile, "id" | "name">;
+
+export const DEFAULT_PROFILE_ID = "default";
+
+const DEFAULT_PROFILES_FILE = "data/profiles.json";
+const DEFAULT_LOCAL_DATA_FILE = "data/records.json";
+const DEFAULT_SETTINGS_FILE = "data/settings.json";
+const PROFILE_ID_PATTERN = /^[a-z0-9][a-z0-9_-]*$/i;
+
+// Single profile from the environment variables (RECORD_SOURCE, NOTION_*, LOCAL_DATA_FILE, SETTINGS_FILE)
+function envProfile(): Profile {
+  const kind =
+    process.env.RECORD_SOURCE ||
+    (process.env.NOTION_DATABASE_ID ? "notion" : "local");
+
+  let source: SourceConfig;
+  switch (kind) {
+    case "notion":
+      source = {
+        kind: "notion",
+        databaseId: process.env.NOTION_DATABASE_ID,
+        authToken: process.env.NOTION_AUTH_TOKEN,
+        eventsDatabaseId: process.env.NOTION_EVENTS_DATABASE_ID || undefined,
+        propertyMap: process.env.NOTION_PROPERTY_MAP,
+        timeZone: process.env.NOTION_TIME_ZONE,
+      };
+      break;
+    case "local":
+      source = { kind: "local", dataFile: process.env.LOCAL_DATA_FILE || DEFAULT_LOCAL_DATA_FILE };
+      break;
+    default:
+      throw new Error(`Unknown RECORD_SOURCE: ${kind}`);
+  }
+
+  return {
+    id: DEFAULT_PROFILE_ID,
+    name: "默认",
+    source,
+    settingsFile: process.env.SETTINGS_FILE || DEFAULT_SETTINGS_FILE,
+  };
+}
+
+// Read one entry of the profiles file
+// Tokens are never stored in the file: `authTokenEnv` names the variable holding the
+// profile's Notion token (default NOTION_AUTH_TOKEN)
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function parseProfile(raw: any, index: number): Profile {
+  const id = typeof raw?.id === "string" ? raw.id.trim() : "";
+  if (!PROFILE_ID_PATTERN.test(id)) {
+    throw new Error(`Profile ${index + 1} has an invalid id: ${raw?.id}`);
+  }
+  const name = typeof raw.name === "string" && raw.name.trim() ? raw.name.trim() : id;
+  const optional = (value: unknown) => (typeof value === "string" && value ? value : undefined);
+
+  let source: SourceConfig;
+  switch (raw.source) {
+    case "notion":
+      source = {
+        kind: "notion",
+        databaseId: optional(raw.databaseId),
+        authToken: process.env[optional(raw.authTokenEnv) ?? "NOTION_AUTH_TOKEN"],
+        eventsDatabaseId: optional(raw.eventsDatabaseId),
+        propertyMap:
+          raw.propertyMap && typeof raw.propertyMap === "object"
+            ? JSON.stringify(raw.propertyMap)
+            : optional(raw.propertyMap),
+        timeZone: optional(raw.timeZone),
+      };
+      break;
+    case "local":
+      source = { kind: "local", dataFile: optional(raw.dataFile) ?? `data/records-${id}.json` };
+      break;
+    default:
+      throw new Error(`Profile ${id} has an unknown source: ${raw.source}`);
+  }
+
+  return {
+    id,
+    name,
+    source,
+    settingsFile: optional(raw.settingsFile) ?? `data/settings-${id}.json`,
+  };
+}
+
+// Parse the profiles file; a missing file means the single environment profile
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function parseProfiles(raw: any): Profile[] {
+  if (raw === null) return [envProfile()];
+  if (!Array.isArray(raw?.profiles) || raw.profiles.length === 0) {
+    throw new Error("Profiles file must contain a non-empty `profiles` array");
+  }
+  const profiles = raw.profiles.map(parseProfile);
+  const ids = new Set<string>();
+  for (const profile of profiles) {
+    if (ids.has(profile.id)) throw new Error(`Duplicate profile id: ${profile.id}`);
+    ids.add(profile.id);
+  }
+  return profiles;
+}
+
+// All configured profiles, the first being the default
+export function loadProfiles(): Promise<Profile[]> {
+  return readJsonFile(
+    resolveDataPath(process.env.PROFILES_FILE || DEFAULT_PROFILES_FILE),
+    parseProfiles
+  );
+}
+
+// Profile by id; null when no profile has that id
+export async function findProfile(id: string): Promise<Profile | null> {
+  return (await loadProfiles()).find((profile) => profile.id === id) ?? null;
+}
+
+// Profile for a route plus the list offered by the header switcher; null for an unknown id
+export async function loadProfileContext(
+  id: string
+): Promise<{ profile: Profile; profiles: ProfileSummary[] } | null> {
+  const profiles = await loadProfiles();
+  const profile = profiles.find((p) => p.id === id);
+  if (!profile) return null;
+  return { profile, profiles: profiles.map(({ id, name }) => ({ id, name })) };
+}
+
+// Route of a page within a profile, e.g. profilePath("mom", "/report") -> "/p/mom/report"
+export function profilePath(profileId: string, subPath = ""): string {
+  return `/p/${encodeURIComponent(profileId)}${subPath}`;
+}
+
+// Same page in the default profile, for routes without a profile segment (e.g. "/report?from=...")
+export async function defaultProfilePath(
+  subPath: string,
+  params: Record<string, string | string[] | undefined>
+): Promise<string> {
+  const [profile] = await loadProfiles();
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    for (const item of [value ?? []].flat()) query.append(key, item);
+  }
+  const search = query.toString();
+  return `${profilePath(profile.id, subPath)}${search ? `?${search}` : ""}`;
+}
@@ -0,0 +1,152 @@
+/**
+ * Multiple readings per timepoint
+ * Several raw readings of an eye (e.g. a rebound tonometer series) are reduced to one value
+ * by mean or median, leaving out outliers that deviate too far from the series' median
+ */
+
+import { EyePressureRecord, EyePressureRecordInput } from "@/types";
+
+export type ReadingAggregation = "mean" | "median";
+
+export interface ReadingOptions {
+  aggregation: ReadingAggregation;
+  // Readings further than this from the median of their series (mmHg) are outliers
+  outlierDeviation: number;
+}
+
+export const DEFAULT_READING_OPTIONS: ReadingOptions = {
+  aggregation: "median",
+  outlierDeviation: 3,
+};
+
+export const AGGREGATION_LABELS: Record<ReadingAggregation, string> = {
+  mean: "均值",
+  median: "中位数",
+};
+
+// Readings accepted per eye and timepoint
+export const MAX_READINGS = 10;
+
+// Fewer readings than this can't single out an outlier
+const MIN_READINGS_FOR_OUTLIERS = 3;
+
+// Read settings, falling back to the defaults for missing or invalid values
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function parseReadingOptions(raw: any): ReadingOptions {
+  const deviation = Number(raw?.outlierDeviation);
+  return {
+    aggregation:
+      raw?.aggregation === "mean" || raw?.aggregation === "median"
+        ? raw.aggregation
+        : DEFAULT_READING_OPTIONS.aggregation,
+    outlierDeviation:
+      Number.isFinite(deviation) && deviation > 0
+        ? deviation
+        : DEFAULT_READING_OPTIONS.outlierDeviation,
+  };
+}
+
+// Read a series of readings from an array or text like "17 18 21" / "17,18,21";
+// null when empty or when any value isn't a number
+export function parseReadings(value: unknown): number[] | null {
+  const parts = Array.isArray(value)
+    ? value
+    : String(value ?? "")
+        .split(/[\s,，;/]+/)
+        .filter(Boolean);
+  if (parts.length === 0) return null;
+  const numbers = parts.map((part) => (part === null || part === "" ? NaN : Number(part)));
+  return numbers.every(Number.isFinite) ? numbers : null;
+}
+
+export function formatReadings(values: number[]): string {
+  return values.join(" ");
+}
+
+export function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// Whether each reading is an outlier (further than the deviation from the median);
+// none are when that would leave no reading, e.g. "15 15 22 22" (too spread to single one out)
+export function findOutliers(values: number[], deviation: number): boolean[] {
+  if (values.length < MIN_READINGS_FOR_OUTLIERS) return values.map(() => false);
+  const center = median(values);
+  const outliers = values.map((value) => Math.abs(value - center) > deviation);
+  return outliers.every(Boolean) ? values.map(() => false) : outliers;
+}
+
+export interface ReadingSummary {
+  // Mean or median of the readings that aren't outliers
+  value: number;
+  outliers: boolean[];
+  // Range of the readings that aren't outliers
+  min: number;
+  max: number;
+}
+
+// Reduce a series of readings to one value
+export function summarizeReadings(values: number[], options: ReadingOptions): ReadingSummary {
+  const outliers = findOutliers(values, options.outlierDeviation);
+  const kept = values.filter((_, i) => !outliers[i]);
+  return {
+    value:
+      options.aggregation === "median"
+        ? median(kept)
+        : kept.reduce((acc, v) => acc + v, 0) / kept.length,
+    outliers,
+    min: Math.min(...kept),
+    max: Math.max(...kept),
+  };
+}
+
+// Set each eye's value from its readings; a single reading is stored as a plain value
+export function applyReadings(
+  input: EyePressureRecordInput,
+  options: ReadingOptions
+): EyePressureRecordInput {
+  const { readingsLeft, readingsRight, ...rest } = input;
+  const result: EyePressureRecordInput = rest;
+  if (readingsLeft && readingsLeft.length > 0) {
+    result.left = summarizeReadings(readingsLeft, options).value;
+    if (readingsLeft.length > 1) result.readingsLeft = readingsLeft;
+  }
+  if (readingsRight && readingsRight.length > 0) {
+    result.right = summarizeReadings(readingsRight, options).value;
+    if (readingsRight.length > 1) result.readingsRight = readingsRight;
+  }
+  return result;
+}
+
+// Readings of one eye of a record, when it holds more than one
+export function recordReadings(record: EyePressureRecord, eye: "left" | "right"): number[] | null {
+  const readings = eye === "left" ? record.readingsLeft : record.readingsRight;
+  return readings && readings.length > 1 ? readings : null;
+}
+
+// Error bar extent (below, above) of an eye's value from its readings that aren't outliers
+export function readingSpread(
+  record: EyePressureRecord,
+  eye: "left" | "right",
+  options: ReadingOptions
+): [number, number] | undefined {
+  const readings = recordReadings(record, eye);
+  const value = record[eye];
+  if (!readings || value === null) return undefined;
+  const { min, max } = summarizeReadings(readings, options);
+  return [Math.max(0, value - min), Math.max(0, max - value)];
+}
+
+export type ReadingFields = Pick<EyePressureRecord, "readingsLeft" | "readingsRight">;
+
+// Reading series of a stored record, leaving out empty and invalid ones
+export function parseReadingFields(raw: { readingsLeft?: unknown; readingsRight?: unknown }): ReadingFields {
+  const readingsLeft = parseReadings(raw.readingsLeft);
+  const readingsRight = parseReadings(raw.readingsRight);
+  return {
+    ...(readingsLeft && readingsLeft.length > 1 && { readingsLeft }),
+    ...(readingsRight && readingsRight.length > 1 && { readingsRight }),
+  };
+}
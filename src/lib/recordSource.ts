@@ -0,0 +1,64 @@
+/**
+ * Record source abstraction for eye pressure records and treatment events
+ * Creates the Notion or local JSON backend configured for a patient profile
+ */
+
+import {
+  EyePressureRecord,
+  EyePressureRecordInput,
+  RecordIssue,
+  TreatmentEvent,
+  TreatmentEventInput,
+} from "@/types";
+import { createNotionSource } from "./notion";
+import { createLocalSource } from "./localSource";
+import { parseNotionMapping } from "./notionSchema";
+import type { Profile } from "./profiles";
+
+// A backend that can provide and persist eye pressure records and treatment events
+export interface RecordSource {
+  kind: "notion" | "local";
+  fetchAllRecords(): Promise<EyePressureRecord[]>;
+  // Entries excluded from fetchAllRecords because they failed validation
+  listIssues(): Promise<RecordIssue[]>;
+  // Check configuration and schema, throwing a descriptive error on mismatch
+  validate(): Promise<void>;
+  createRecord(input: EyePressureRecordInput): Promise<EyePressureRecord>;
+  updateRecord(id: string, input: EyePressureRecordInput): Promise<EyePressureRecord>;
+  deleteRecord(id: string): Promise<void>;
+  // Treatment timeline (medication, procedures, visits), sorted by start
+  fetchEvents(): Promise<TreatmentEvent[]>;
+  createEvent(input: TreatmentEventInput): Promise<TreatmentEvent>;
+  updateEvent(id: string, input: TreatmentEventInput): Promise<TreatmentEvent>;
+  deleteEvent(id: string): Promise<void>;
+}
+
+// Create the record source configured for a profile
+// Cache and full-sync intervals are shared by all Notion profiles (NOTION_CACHE_TTL_SECONDS, NOTION_FULL_SYNC_HOURS)
+export function getRecordSource(profile: Profile): RecordSource {
+  const { source } = profile;
+  switch (source.kind) {
+    case "notion": {
+      if (!source.databaseId || !source.authToken) {
+        throw new Error(`Missing Notion configuration for profile ${profile.id}`);
+      }
+      return createNotionSource({
+        databaseId: source.databaseId,
+        authToken: source.authToken,
+        eventsDatabaseId: source.eventsDatabaseId,
+        mapping: parseNotionMapping(source.propertyMap, source.timeZone),
+        cacheTtlSeconds: optionalNumber(process.env.NOTION_CACHE_TTL_SECONDS),
+        fullSyncHours: optionalNumber(process.env.NOTION_FULL_SYNC_HOURS),
+      });
+    }
+    case "local":
+      return createLocalSource(source.dataFile);
+  }
+}
+
+// Parse an optional numeric environment variable
+function optionalNumber(value: string | undefined): number | undefined {
+  if (value === undefined || value === "") return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
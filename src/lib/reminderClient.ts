@@ -0,0 +1,94 @@
+/**
+ * Measurement reminders in the browser
+ * Push reminders subscribe this browser through the service worker so the server can remind
+ * while the app is closed; without push (no VAPID key, no service worker in development)
+ * reminders are shown by the open page itself
+ */
+
+import { WebPushSubscription } from "@/types";
+
+// How reminders reach this browser: pushed by the server, or shown by the open page
+export type ReminderMode = "push" | "page";
+
+const MODE_KEY_PREFIX = "measurement-reminders:";
+// Dispatched on the window when the mode changes in this tab ("storage" covers other tabs)
+const MODE_EVENT = "measurement-reminders";
+const ICON = "/icon.svg";
+
+// Reminder mode chosen on this device for a profile; null when reminders are off
+export function loadReminderMode(profileId: string): ReminderMode | null {
+  const mode = window.localStorage.getItem(MODE_KEY_PREFIX + profileId);
+  return mode === "push" || mode === "page" ? mode : null;
+}
+
+export function saveReminderMode(profileId: string, mode: ReminderMode | null): void {
+  if (mode) window.localStorage.setItem(MODE_KEY_PREFIX + profileId, mode);
+  else window.localStorage.removeItem(MODE_KEY_PREFIX + profileId);
+  window.dispatchEvent(new Event(MODE_EVENT));
+}
+
+// Listen for mode changes (for useSyncExternalStore)
+export function subscribeReminderMode(callback: () => void): () => void {
+  window.addEventListener("storage", callback);
+  window.addEventListener(MODE_EVENT, callback);
+  return () => {
+    window.removeEventListener("storage", callback);
+    window.removeEventListener(MODE_EVENT, callback);
+  };
+}
+
+// Ask for permission to show notifications; false when the user declined or the browser can't
+export async function requestNotificationPermission(): Promise<boolean> {
+  if (!("Notification" in window)) return false;
+  if (Notification.permission === "granted") return true;
+  return (await Notification.requestPermission()) === "granted";
+}
+
+// The registered service worker, if any (none in development builds)
+async function serviceWorker(): Promise<ServiceWorkerRegistration | null> {
+  if (!("serviceWorker" in navigator)) return null;
+  return (await navigator.serviceWorker.getRegistration()) ?? null;
+}
+
+function base64UrlToBytes(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = (value + "=".repeat((4 - (value.length % 4)) % 4)).replace(/-/g, "+").replace(/_/g, "/");
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+}
+
+// Subscribe this browser to push messages signed with the server's key;
+// null when push isn't available here
+export async function subscribeToPush(publicKey: string): Promise<WebPushSubscription | null> {
+  const registration = await serviceWorker();
+  if (!registration || !("PushManager" in window)) return null;
+  const subscription =
+    (await registration.pushManager.getSubscription()) ??
+    (await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: base64UrlToBytes(publicKey),
+    }));
+  const { endpoint, keys } = subscription.toJSON();
+  if (!endpoint || !keys?.p256dh || !keys.auth) return null;
+  return { endpoint, keys: { p256dh: keys.p256dh, auth: keys.auth } };
+}
+
+// Endpoint of this browser's push subscription, if it has one
+export async function currentPushEndpoint(): Promise<string | null> {
+  const registration = await serviceWorker();
+  return (await registration?.pushManager.getSubscription())?.endpoint ?? null;
+}
+
+// Show a reminder from the page (through the service worker where one is registered,
+// as some mobile browsers only allow notifications from there)
+export async function showPageReminder(title: string, body: string, tag: string): Promise<void> {
+  const registration = await serviceWorker();
+  if (registration) {
+    await registration.showNotification(title, {
+      body,
+      tag,
+      icon: ICON,
+      data: { url: window.location.pathname },
+    });
+  } else {
+    new Notification(title, { body, tag, icon: ICON }).onclick = () => window.focus();
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * Measurement reminders for planned 24h sessions
+ * Stores the browser push subscriptions of each profile and, while the server runs,
+ * sends a Web Push message when a planned reading is due (unless it was already taken)
+ */
+
+import { SessionPlan, WebPushSubscription } from "@/types";
+import { readJsonFile, resolveDataPath, updateJsonFile } from "./jsonFile";
+import { getDisplayTimeZone, loadSettings } from "./settings";
+import { getRecordSource } from "./recordSource";
+import { matchPlanSlots, planSlotTimes } from "./sessionPlans";
+import { formatZoned } from "./time";
+import { getVapidKeys, sendWebPush } from "./webPush";
+import { Profile, loadProfiles, profilePath } from "./profiles";
+
+interface StoredSubscription extends WebPushSubscription {
+  profileId: string;
+  createdAt: string;
+}
+
+interface RemindersFile {
+  subscriptions: StoredSubscription[];
+  // Last slot reminded per plan ID (ISO), so each slot is sent once
+  reminded: Record<string, string>;
+}
+
+// Message shown by the service worker
+export interface ReminderMessage {
+  title: string;
+  body: string;
+  // Page opened when the notification is clicked
+  url: string;
+  // Notifications with the same tag replace each other
+  tag: string;
+}
+
+const DEFAULT_REMINDERS_FILE = "data/reminders.json";
+const CHECK_INTERVAL_MS = 60 * 1000;
+// A slot is still reminded this long after its time (e.g. right after a restart)
+const REMINDER_GRACE_MS = 10 * 60 * 1000;
+
+function remindersPath(): string {
+  return resolveDataPath(process.env.REMINDERS_FILE || DEFAULT_REMINDERS_FILE);
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function parseRemindersFile(raw: any): RemindersFile {
+  return {
+    subscriptions: Array.isArray(raw?.subscriptions) ? raw.subscriptions : [],
+    reminded: raw?.reminded && typeof raw.reminded === "object" ? raw.reminded : {},
+  };
+}
+
+// Register a browser for a profile's reminders (replacing an earlier registration of it)
+export async function savePushSubscription(
+  profileId: string,
+  subscription: WebPushSubscription
+): Promise<void> {
+  await updateJsonFile(remindersPath(), parseRemindersFile, (data) => {
+    data.subscriptions = [
+      ...data.subscriptions.filter(
+        (s) => !(s.profileId === profileId && s.endpoint === subscription.endpoint)
+      ),
+      {
+        profileId,
+        endpoint: subscription.endpoint,
+        keys: { p256dh: subscription.keys.p256dh, auth: subscription.keys.auth },
+        createdAt: new Date().toISOString(),
+      },
+    ];
+  });
+}
+
+export async function removePushSubscription(profileId: string, endpoint: string): Promise<void> {
+  await updateJsonFile(remindersPath(), parseRemindersFile, (data) => {
+    data.subscriptions = data.subscriptions.filter(
+      (s) => !(s.profileId === profileId && s.endpoint === endpoint)
+    );
+  });
+}
+
+// Push a message to browsers of a profile (all of them, or the one with the given endpoint);
+// subscriptions the push service reports as gone are dropped
+// Returns how many browsers it was delivered to
+export async function sendReminder(
+  profileId: string,
+  message: ReminderMessage,
+  endpoint?: string
+): Promise<number> {
+  const keys = getVapidKeys();
+  if (!keys) {
+    throw new Error("Push reminders are not configured (set VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY)");
+  }
+  const { subscriptions } = await readJsonFile(remindersPath(), parseRemindersFile);
+  const targets = subscriptions.filter(
+    (s) => s.profileId === profileId && (endpoint === undefined || s.endpoint === endpoint)
+  );
+  let delivered = 0;
+  for (const subscription of targets) {
+    try {
+      if ((await sendWebPush(subscription, JSON.stringify(message), keys)) === "gone") {
+        await removePushSubscription(profileId, subscription.endpoint);
+      } else {
+        delivered++;
+      }
+    } catch (err) {
+      // One failing browser doesn't stop the others
+      console.error(`Failed to push reminder to ${new URL(subscription.endpoint).host}:`, err);
+    }
+  }
+  return delivered;
+}
+
+// Reminder for a plan's slot, e.g. "妈妈：24 小时测量第 3/13 次（12:00）"
+function slotMessage(
+  profile: Profile,
+  plan: SessionPlan,
+  index: number,
+  timeZone: string
+): ReminderMessage {
+  const times = planSlotTimes(plan);
+  const time = formatZoned(times[index], timeZone, "time");
+  return {
+    title: "该测眼压了",
+    body: `${profile.name}：24 小时测量第 ${index + 1}/${times.length} 次（${time}）`,
+    url: profilePath(profile.id),
+    tag: plan.id,
+  };
+}
+
+// Send reminders for slots that came due in the last few minutes
+export async function sendDueReminders(now = new Date()): Promise<void> {
+  const { subscriptions } = await readJsonFile(remindersPath(), parseRemindersFile);
+  for (const profile of await loadProfiles()) {
+    if (!subscriptions.some((s) => s.profileId === profile.id)) continue;
+    const settings = await loadSettings(profile);
+
+    for (const plan of settings.sessionPlans) {
+      const times = planSlotTimes(plan);
+      const index = times.findLastIndex(
+        (time) => time <= now.getTime() && time > now.getTime() - REMINDER_GRACE_MS
+      );
+      if (index === -1) continue;
+
+      // Claimed inside the serialized write so a slot is reminded once
+      const claimed = await updateJsonFile(remindersPath(), parseRemindersFile, (data) => {
+        const last = data.reminded[plan.id];
+        if (last && new Date(last).getTime() >= times[index]) return false;
+        data.reminded[plan.id] = new Date(times[index]).toISOString();
+        return true;
+      });
+      if (!claimed) continue;
+
+      // A reading taken a little early already covers the slot
+      try {
+        const records = await getRecordSource(profile).fetchAllRecords();
+        if (matchPlanSlots(plan, records, now)[index].status === "taken") continue;
+      } catch (err) {
+        console.error(`Error checking readings for reminders of profile ${profile.id}:`, err);
+      }
+      await sendReminder(profile.id, slotMessage(profile, plan, index, getDisplayTimeZone(settings)));
+    }
+  }
+}
+
+// Check for due reminders every minute while the server runs; does nothing without VAPID keys
+export function startReminderScheduler(): void {
+  if (!getVapidKeys()) return;
+  const timer = setInterval(() => {
+    sendDueReminders().catch((err) => console.error("Error sending reminders:", err));
+  }, CHECK_INTERVAL_MS);
+  // Don't keep the process alive just for reminders
+  timer.unref();
+  console.log("Measurement reminders enabled");
+}
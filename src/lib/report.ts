@@ -0,0 +1,121 @@
+/**
+ * Clinical report data for a date range
+ * Filters records, groups them and computes summaries for the report page and PDF
+ */
+
+import { ChartDataPoint, EyePressureRecord, RecordGroup, TargetPressure } from "@/types";
+import { SessionOptions, groupRecords, toChartData } from "./grouping";
+import { withTargetSeries } from "./targets";
+import { ReadingOptions } from "./readings";
+import { zonedWallTimeToUtc } from "./time";
+import {
+  RecordsSummary,
+  SessionMetrics,
+  SleepWindow,
+  computeSessionMetrics,
+  summarizeRecords,
+} from "./analytics";
+
+// Inclusive date range as YYYY-MM-DD strings; null means unbounded
+export interface ReportRange {
+  from: string | null;
+  to: string | null;
+}
+
+export interface ReportSession {
+  group: RecordGroup;
+  metrics: SessionMetrics;
+}
+
+export interface ReportData {
+  range: ReportRange;
+  generatedAt: string;
+  records: EyePressureRecord[];
+  summary: RecordsSummary | null;
+  regular: RecordGroup | null;
+  sessions: ReportSession[];
+  targets: TargetPressure[];
+  readings: ReadingOptions;
+  timeZone: string;
+}
+
+// Per-patient configuration the report is computed with
+export interface ReportOptions {
+  sleepWindow: SleepWindow;
+  targets: TargetPressure[];
+  readings: ReadingOptions;
+  sessionOptions: SessionOptions;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Read the range from query parameters, ignoring malformed values
+export function parseReportRange(params: Record<string, string | string[] | undefined>): ReportRange {
+  const read = (key: string) => {
+    const value = params[key];
+    return typeof value === "string" && DATE_PATTERN.test(value) ? value : null;
+  };
+  return { from: read("from"), to: read("to") };
+}
+
+// Query string for a range, e.g. "?from=2025-01-01&to=2025-03-31"
+export function toRangeQuery(range: ReportRange): string {
+  const params = new URLSearchParams();
+  if (range.from) params.set("from", range.from);
+  if (range.to) params.set("to", range.to);
+  const query = params.toString();
+  return query ? `?${query}` : "";
+}
+
+// Keep records whose date falls within the range (whole days in the display zone)
+export function filterRecordsByRange(
+  records: EyePressureRecord[],
+  range: ReportRange,
+  timeZone: string
+): EyePressureRecord[] {
+  const start = range.from ? zonedWallTimeToUtc(range.from, timeZone).getTime() : -Infinity;
+  const end = range.to
+    ? zonedWallTimeToUtc(`${range.to}T23:59:59`, timeZone).getTime() + 999
+    : Infinity;
+  return records.filter((r) => {
+    const time = new Date(r.date).getTime();
+    return time >= start && time <= end;
+  });
+}
+
+// Build everything the report renders
+export function buildReport(
+  records: EyePressureRecord[],
+  range: ReportRange,
+  options: ReportOptions
+): ReportData {
+  const { timeZone } = options.sessionOptions;
+  const inRange = filterRecordsByRange(records, range, timeZone);
+  const groups = groupRecords(inRange, options.sessionOptions);
+
+  return {
+    range,
+    generatedAt: new Date().toISOString(),
+    records: inRange,
+    summary: summarizeRecords(
+      [...inRange].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+    ),
+    regular: groups.find((g) => g.type === "regular") ?? null,
+    sessions: groups
+      .filter((g) => g.type === "24h")
+      .map((group) => ({ group, metrics: computeSessionMetrics(group.records, options.sleepWindow, timeZone)! })),
+    targets: options.targets,
+    readings: options.readings,
+    timeZone,
+  };
+}
+
+// Chart points for a report group, with the targets in effect
+export function toReportChartData(report: ReportData, group: RecordGroup): ChartDataPoint[] {
+  return withTargetSeries(
+    toChartData(group, report.timeZone, report.readings),
+    group.records,
+    report.targets,
+    report.timeZone
+  );
+}
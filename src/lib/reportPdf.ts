@@ -0,0 +1,179 @@
+/**
+ * PDF rendering of the clinical report
+ * Draws text with PDFKit and embeds the report's SVG charts via svg-to-pdfkit
+ */
+
+import PDFDocument from "pdfkit";
+import SVGtoPDF from "svg-to-pdfkit";
+import { EyePressureRecord, RecordGroup } from "@/types";
+import { RecordsSummary, recordAverage } from "./analytics";
+import { ReportData, toReportChartData } from "./report";
+import { renderChartSvg } from "./svgChart";
+import { formatZoned } from "./time";
+
+export interface ReportPdfOptions {
+  // TTF/OTF font with CJK glyphs; without it non-Latin text is replaced
+  fontPath?: string;
+}
+
+const MARGIN = 40;
+const CHART_HEIGHT = 200;
+
+// Format an ISO date as "YYYY-MM-DD HH:mm" in the report's zone
+function formatDateTime(iso: string, timeZone: string): string {
+  return `${formatZoned(iso, timeZone, "isoDate")} ${formatZoned(iso, timeZone, "time")}`;
+}
+
+// Render the report to a PDF buffer
+export function renderReportPdf(report: ReportData, options: ReportPdfOptions = {}): Promise<Buffer> {
+  const doc = new PDFDocument({ size: "A4", margin: MARGIN });
+  const chunks: Buffer[] = [];
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  const hasCustomFont = Boolean(options.fontPath);
+  if (options.fontPath) {
+    doc.registerFont("Body", options.fontPath);
+    doc.font("Body");
+  } else {
+    doc.font("Helvetica");
+  }
+
+  // Standard PDF fonts only cover Latin-1
+  const text = (value: string) => (hasCustomFont ? value : value.replace(/[^\x20-\xff]/g, "?"));
+  const contentWidth = doc.page.width - MARGIN * 2;
+
+  // Start a new page when the next block doesn't fit
+  const ensureSpace = (height: number) => {
+    if (doc.y + height > doc.page.height - MARGIN) doc.addPage();
+  };
+
+  const heading = (value: string) => {
+    ensureSpace(40);
+    doc.moveDown(0.8).fontSize(13).fillColor("#0f172a").text(text(value));
+    doc.moveDown(0.3).fontSize(9).fillColor("#334155");
+  };
+
+  const chart = (group: RecordGroup) => {
+    ensureSpace(CHART_HEIGHT + 10);
+    const svg = renderChartSvg(toReportChartData(report, group), {
+      width: contentWidth,
+      height: CHART_HEIGHT,
+      labels: { left: "Left (OS)", right: "Right (OD)" },
+    });
+    // svg-to-pdfkit's typings expect the constructor type rather than an instance
+    SVGtoPDF(doc as unknown as typeof PDFDocument, svg, MARGIN, doc.y, {
+      width: contentWidth,
+      height: CHART_HEIGHT,
+    });
+    doc.y += CHART_HEIGHT + 6;
+  };
+
+  // Simple fixed-width table
+  const table = (header: string[], rows: string[][], widths: number[]) => {
+    const drawRow = (cells: string[], bold: boolean) => {
+      ensureSpace(14);
+      const y = doc.y;
+      let x = MARGIN;
+      doc.fillColor(bold ? "#475569" : "#334155");
+      cells.forEach((cell, i) => {
+        doc.text(text(cell), x, y, { width: widths[i] - 4, lineBreak: false, ellipsis: true });
+        x += widths[i];
+      });
+      doc.x = MARGIN;
+      doc.y = y + 13;
+    };
+    drawRow(header, true);
+    rows.forEach((row) => drawRow(row, false));
+  };
+
+  // Values of an unmeasured eye or missing reading are shown as "-"
+  const value = (v: number | null | undefined) => (v === null || v === undefined ? "-" : v.toFixed(1));
+
+  const summaryTable = (summary: RecordsSummary) => {
+    table(
+      ["Eye", "Mean", "Peak", "Peak time", "Trough", "Trough time", "Fluctuation"],
+      (["left", "right"] as const).map((eye) => {
+        const stats = summary[eye];
+        return [
+          eye === "left" ? "Left (OS)" : "Right (OD)",
+          value(stats?.mean),
+          value(stats?.max),
+          stats ? formatDateTime(stats.peakTime, report.timeZone) : "-",
+          value(stats?.min),
+          stats ? formatDateTime(stats.troughTime, report.timeZone) : "-",
+          value(stats?.fluctuation),
+        ];
+      }),
+      [60, 45, 45, 105, 45, 105, 60]
+    );
+  };
+
+  // Title block
+  doc.fontSize(18).fillColor("#0f172a").text("Eye Pressure Report");
+  doc
+    .fontSize(9)
+    .fillColor("#64748b")
+    .text(
+      `Range: ${report.range.from ?? "earliest"} to ${report.range.to ?? "latest"} · ` +
+        `${report.records.length} records · Generated ${formatDateTime(report.generatedAt, report.timeZone)} ${report.timeZone} · mmHg`
+    );
+
+  if (!report.summary) {
+    doc.moveDown().fontSize(11).text("No records in the selected range.");
+  } else {
+    heading("Summary");
+    summaryTable(report.summary);
+  }
+
+  if (report.regular) {
+    heading("Regular measurements trend");
+    chart(report.regular);
+  }
+
+  for (const session of report.sessions) {
+    heading(`24h session - ${formatZoned(session.group.records[0].date, report.timeZone, "isoDate")}`);
+    chart(session.group);
+    summaryTable(session.metrics);
+    const { metrics } = session;
+    ensureSpace(28);
+    doc
+      .fillColor("#475569")
+      .text(
+        `SD L ${value(metrics.left?.stdDev)} / R ${value(metrics.right?.stdDev)} · ` +
+          `Asymmetry mean ${value(metrics.asymmetry?.mean)} / max ${value(metrics.asymmetry?.max)} · ` +
+          `Day mean L ${value(metrics.diurnal.left)} / R ${value(metrics.diurnal.right)} · ` +
+          `Night (${metrics.sleepWindow.start}-${metrics.sleepWindow.end}) mean L ${value(metrics.nocturnal.left)} / R ${value(metrics.nocturnal.right)}`,
+        MARGIN,
+        doc.y,
+        { width: contentWidth }
+      );
+  }
+
+  // Record tables with notes
+  const recordRows = (records: EyePressureRecord[]) =>
+    records.map((r) => [
+      formatDateTime(r.date, report.timeZone),
+      value(r.left),
+      value(r.right),
+      value(recordAverage(r)),
+      r.note,
+    ]);
+  const recordWidths = [100, 50, 50, 50, contentWidth - 250];
+  const recordHeader = ["Date", "Left", "Right", "Mean", "Note"];
+
+  if (report.regular) {
+    heading("Regular measurements");
+    table(recordHeader, recordRows(report.regular.records), recordWidths);
+  }
+  for (const session of report.sessions) {
+    heading(`24h session records - ${formatZoned(session.group.records[0].date, report.timeZone, "isoDate")}`);
+    table(recordHeader, recordRows(session.group.records), recordWidths);
+  }
+
+  doc.end();
+  return done;
+}
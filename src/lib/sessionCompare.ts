@@ -0,0 +1,116 @@
+/**
+ * Overlay comparison of 24h sessions
+ * Aligns sessions by clock time and computes differences against a baseline session
+ */
+
+import { EyePressureRecord, RecordGroup } from "@/types";
+import { recordAverage } from "./analytics";
+import { dayOffset } from "./grouping";
+import { zonedMinutesOfDay } from "./time";
+
+// Value plotted for each session
+export type CompareSeries = "left" | "right" | "average";
+
+export const COMPARE_SERIES_LABELS: Record<CompareSeries, string> = {
+  left: "左眼",
+  right: "右眼",
+  average: "双眼均值",
+};
+
+// A reading on the shared clock axis
+export interface ClockPoint {
+  minutes: number;
+  value: number;
+}
+
+// Sessions overlaid on one clock axis
+// Points are keyed by minutes plus session_<i> and diff_<i> (session i minus the baseline session 0)
+export interface SessionOverlay {
+  points: Record<string, number>[];
+  maxMinutes: number;
+}
+
+// Minutes since midnight (display zone) of the session's first day, so sessions line up by clock time
+export function sessionClockMinutes(date: Date, first: Date, timeZone: string): number {
+  return dayOffset(date, first, timeZone) * 1440 + zonedMinutesOfDay(date, timeZone);
+}
+
+// Clock label for the shared axis, e.g. "08:00" or "+1 06:00"
+export function formatClockOffset(minutes: number): string {
+  const day = Math.floor(minutes / 1440);
+  const clock = minutes % 1440;
+  const time = `${Math.floor(clock / 60).toString().padStart(2, "0")}:${(clock % 60).toString().padStart(2, "0")}`;
+  return day > 0 ? `+${day} ${time}` : time;
+}
+
+function seriesValue(record: EyePressureRecord, series: CompareSeries): number | null {
+  return series === "average" ? recordAverage(record) : record[series];
+}
+
+// One session's readings on the shared clock axis (records expected sorted by date),
+// skipping readings without a value for the series
+export function toClockSeries(
+  records: EyePressureRecord[],
+  series: CompareSeries,
+  timeZone: string
+): ClockPoint[] {
+  if (records.length === 0) return [];
+  const first = new Date(records[0].date);
+  return records.flatMap((record) => {
+    const value = seriesValue(record, series);
+    return value === null
+      ? []
+      : [{ minutes: sessionClockMinutes(new Date(record.date), first, timeZone), value }];
+  });
+}
+
+// Linearly interpolated value at a clock position; null outside the series' range
+export function interpolateAt(points: ClockPoint[], minutes: number): number | null {
+  if (points.length === 0) return null;
+  if (minutes < points[0].minutes || minutes > points[points.length - 1].minutes) return null;
+  for (let i = 0; i < points.length; i++) {
+    const current = points[i];
+    if (current.minutes === minutes) return current.value;
+    const next = points[i + 1];
+    if (next && minutes < next.minutes) {
+      const ratio = (minutes - current.minutes) / (next.minutes - current.minutes);
+      return current.value + (next.value - current.value) * ratio;
+    }
+  }
+  return null;
+}
+
+// Overlay sessions on a shared clock axis; the first session is the baseline for differences,
+// taken at each reading of the other sessions where the baseline covers that clock time
+export function overlaySessions(
+  groups: RecordGroup[],
+  series: CompareSeries,
+  timeZone: string
+): SessionOverlay {
+  const byMinute = new Map<number, Record<string, number>>();
+  const pointAt = (minutes: number) => {
+    let point = byMinute.get(minutes);
+    if (!point) {
+      point = { minutes };
+      byMinute.set(minutes, point);
+    }
+    return point;
+  };
+
+  const baseline = groups.length > 0 ? toClockSeries(groups[0].records, series, timeZone) : [];
+  groups.forEach((group, index) => {
+    toClockSeries(group.records, series, timeZone).forEach(({ minutes, value }) => {
+      const point = pointAt(minutes);
+      point[`session_${index}`] = value;
+      if (index === 0) return;
+      const base = interpolateAt(baseline, minutes);
+      if (base !== null) point[`diff_${index}`] = value - base;
+    });
+  });
+
+  const points = [...byMinute.values()].sort((a, b) => a.minutes - b.minutes);
+  return {
+    points,
+    maxMinutes: points.length > 0 ? points[points.length - 1].minutes : 0,
+  };
+}
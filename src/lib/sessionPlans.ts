@@ -0,0 +1,134 @@
+/**
+ * Planned 24h sessions
+ * A plan lays out reading times (slots) from a start time at a fixed interval until its end;
+ * readings are matched to the nearest slot so each session shows which slots were taken or missed
+ */
+
+import { EyePressureRecord, PlanSlot, RecordGroup, SessionPlan } from "@/types";
+
+// Interval choices offered when planning, in minutes
+export const PLAN_INTERVALS = [60, 90, 120, 180, 240];
+export const DEFAULT_PLAN_INTERVAL = 120;
+export const MIN_PLAN_INTERVAL = 30;
+export const MAX_PLAN_INTERVAL = 360;
+// Longest plan accepted (two-day curves)
+export const MAX_PLAN_HOURS = 48;
+
+export const PLAN_SLOT_LABELS: Record<PlanSlot["status"], string> = {
+  taken: "已测",
+  due: "待测",
+  missed: "漏测",
+  upcoming: "未到",
+};
+
+const timeOf = (value: string) => new Date(value).getTime();
+
+// Keep well-formed plans from the settings file
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function parseSessionPlans(raw: any): SessionPlan[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.filter(
+    (plan) =>
+      typeof plan?.id === "string" &&
+      typeof plan.sessionId === "string" &&
+      !isNaN(timeOf(plan.start)) &&
+      timeOf(plan.end) > timeOf(plan.start) &&
+      Number.isInteger(plan.intervalMinutes) &&
+      plan.intervalMinutes >= MIN_PLAN_INTERVAL
+  );
+}
+
+// Planned reading times: the start, then every interval up to and including the end
+export function planSlotTimes(plan: SessionPlan): number[] {
+  const times: number[] = [];
+  const step = plan.intervalMinutes * 60000;
+  for (let time = timeOf(plan.start); time <= timeOf(plan.end); time += step) {
+    times.push(time);
+  }
+  return times;
+}
+
+// A reading counts for a slot up to half an interval before or after it
+export function slotTolerance(plan: SessionPlan): number {
+  return (plan.intervalMinutes * 60000) / 2;
+}
+
+// Whether a time falls within a plan, including the tolerance around its first and last slot
+export function isWithinPlan(plan: SessionPlan, time: number): boolean {
+  const tolerance = slotTolerance(plan);
+  return time >= timeOf(plan.start) - tolerance && time <= timeOf(plan.end) + tolerance;
+}
+
+// Whether the last slot's window has passed
+export function isPlanOver(plan: SessionPlan, now: Date): boolean {
+  return now.getTime() > timeOf(plan.end) + slotTolerance(plan);
+}
+
+// Plan running at a time, if any
+export function activePlan(plans: SessionPlan[], now: Date): SessionPlan | null {
+  return plans.find((plan) => isWithinPlan(plan, now.getTime())) ?? null;
+}
+
+// Match readings to a plan's slots, each reading to at most one slot (the nearest free one)
+export function matchPlanSlots(
+  plan: SessionPlan,
+  records: EyePressureRecord[],
+  now = new Date()
+): PlanSlot[] {
+  const tolerance = slotTolerance(plan);
+  const readings = records
+    .map((record) => ({ id: record.id, time: timeOf(record.date) }))
+    .filter((reading) => isWithinPlan(plan, reading.time));
+  const used = new Set<string>();
+
+  return planSlotTimes(plan).map((time) => {
+    let match: (typeof readings)[number] | null = null;
+    for (const reading of readings) {
+      const distance = Math.abs(reading.time - time);
+      if (used.has(reading.id) || distance > tolerance) continue;
+      if (!match || distance < Math.abs(match.time - time)) match = reading;
+    }
+    if (match) used.add(match.id);
+    const status: PlanSlot["status"] = match
+      ? "taken"
+      : time + tolerance < now.getTime()
+        ? "missed"
+        : time <= now.getTime()
+          ? "due"
+          : "upcoming";
+    return { time: new Date(time).toISOString(), status, recordId: match?.id ?? null };
+  });
+}
+
+// Slots per status
+export function countSlots(slots: PlanSlot[]): Record<PlanSlot["status"], number> {
+  const counts = { taken: 0, due: 0, missed: 0, upcoming: 0 };
+  for (const slot of slots) counts[slot.status]++;
+  return counts;
+}
+
+// Plan a 24h session was measured for: the one whose session ID its readings carry,
+// otherwise one its readings fall within
+export function planForGroup(plans: SessionPlan[], group: RecordGroup): SessionPlan | null {
+  if (group.type !== "24h") return null;
+  return (
+    plans.find((plan) => group.records.some((record) => record.sessionId === plan.sessionId)) ??
+    plans.find((plan) => group.records.some((record) => isWithinPlan(plan, timeOf(record.date)))) ??
+    null
+  );
+}
+
+// Slots of each planned session by group ID, matched against all of its readings; computed on
+// the unfiltered groups so readings hidden by a filter or share range don't count as missed
+export function planSlotsByGroup(
+  plans: SessionPlan[],
+  groups: RecordGroup[],
+  now = new Date()
+): Record<string, PlanSlot[]> {
+  const slots: Record<string, PlanSlot[]> = {};
+  for (const group of groups) {
+    const plan = planForGroup(plans, group);
+    if (plan) slots[group.id] = matchPlanSlots(plan, group.records, now);
+  }
+  return slots;
+}
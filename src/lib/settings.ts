@@ -0,0 +1,83 @@
+/**
+ * Application settings stored in a JSON file
+ * Holds per-patient configuration such as target pressures, session grouping overrides,
+ * the display time zone, how multiple readings are combined, the alert rules and planned 24h sessions
+ */
+
+import { SessionOverride, SessionPlan, TargetPressure } from "@/types";
+import { readJsonFile, resolveDataPath, updateJsonFile } from "./jsonFile";
+import { SessionOptions, parseSessionOptions } from "./grouping";
+import { isValidTimeZone, systemTimeZone } from "./time";
+import { ReadingOptions, parseReadingOptions } from "./readings";
+import { AlertRules, parseAlertRules } from "./alerts";
+import { parseSessionPlans } from "./sessionPlans";
+import type { Profile } from "./profiles";
+
+export interface AppSettings {
+  targets: TargetPressure[];
+  sessionOverrides: SessionOverride[];
+  // Zone all dates are grouped and labelled in; null uses DISPLAY_TIME_ZONE or the server's zone
+  displayTimeZone: string | null;
+  // How several readings at one timepoint are reduced to one value (applied when a record is saved)
+  readings: ReadingOptions;
+  // Limits new readings are checked against
+  alerts: AlertRules;
+  // Planned 24h sessions with their reading times
+  sessionPlans: SessionPlan[];
+}
+
+function settingsPath(profile: Profile): string {
+  return resolveDataPath(profile.settingsFile);
+}
+
+// Parse settings, filling defaults for a missing file or missing keys
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function parseSettings(raw: any): AppSettings {
+  return {
+    targets: Array.isArray(raw?.targets) ? raw.targets : [],
+    sessionOverrides: Array.isArray(raw?.sessionOverrides) ? raw.sessionOverrides : [],
+    displayTimeZone:
+      typeof raw?.displayTimeZone === "string" && isValidTimeZone(raw.displayTimeZone)
+        ? raw.displayTimeZone
+        : null,
+    readings: parseReadingOptions(raw?.readings),
+    alerts: parseAlertRules(raw?.alerts),
+    sessionPlans: parseSessionPlans(raw?.sessionPlans),
+  };
+}
+
+// Load a profile's current settings
+export function loadSettings(profile: Profile): Promise<AppSettings> {
+  return readJsonFile(settingsPath(profile), parseSettings);
+}
+
+// Apply a change to a profile's settings file
+export function updateSettings<R>(
+  profile: Profile,
+  change: (settings: AppSettings) => R
+): Promise<R> {
+  return updateJsonFile(settingsPath(profile), parseSettings, change);
+}
+
+// Zone dates are displayed in: the setting, then DISPLAY_TIME_ZONE, then the server's zone
+// Resolved on the server and passed down so server and client render identical labels
+export function getDisplayTimeZone(settings: AppSettings): string {
+  if (settings.displayTimeZone) return settings.displayTimeZone;
+  const envZone = process.env.DISPLAY_TIME_ZONE;
+  if (envZone) {
+    if (!isValidTimeZone(envZone)) {
+      throw new Error(`DISPLAY_TIME_ZONE is not a valid IANA time zone: ${envZone}`);
+    }
+    return envZone;
+  }
+  return systemTimeZone();
+}
+
+// Session detection options: thresholds from the environment, overrides and zone from settings
+export function getSessionOptions(settings: AppSettings): SessionOptions {
+  return {
+    ...parseSessionOptions(process.env.SESSION_GAP_HOURS, process.env.SESSION_MAX_HOURS),
+    overrides: settings.sessionOverrides,
+    timeZone: getDisplayTimeZone(settings),
+  };
+}
@@ -0,0 +1,118 @@
+/**
+ * Read-only share links
+ * Links are stored with a hash of their token, expire, can be revoked and limit what a viewer sees
+ */
+
+import { createHash, randomBytes, randomUUID } from "crypto";
+import { RecordGroup, ShareLink, TargetPressure, TreatmentEvent } from "@/types";
+import { readJsonFile, resolveDataPath, updateJsonFile } from "./jsonFile";
+import { EMPTY_FILTERS, filterGroups } from "./filters";
+import { eventOverlaps } from "./events";
+
+// Stored form; the token itself is only shown once, when the link is created
+interface StoredShare extends ShareLink {
+  tokenHash: string;
+}
+
+interface SharesFile {
+  shares: StoredShare[];
+}
+
+const DEFAULT_SHARES_FILE = "data/shares.json";
+
+function sharesPath(): string {
+  return resolveDataPath(process.env.SHARES_FILE || DEFAULT_SHARES_FILE);
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function parseSharesFile(raw: any): SharesFile {
+  return { shares: Array.isArray(raw?.shares) ? raw.shares : [] };
+}
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+// Client-safe copy without the token hash
+function toShareLink(share: StoredShare): ShareLink {
+  return {
+    id: share.id,
+    profileId: share.profileId,
+    label: share.label,
+    createdAt: share.createdAt,
+    expiresAt: share.expiresAt,
+    revokedAt: share.revokedAt,
+    from: share.from,
+    to: share.to,
+    groupIds: share.groupIds ?? [],
+  };
+}
+
+export function isShareActive(share: ShareLink, now = Date.now()): boolean {
+  return share.revokedAt === null && new Date(share.expiresAt).getTime() > now;
+}
+
+// A profile's links, newest first
+export async function listShares(profileId: string): Promise<ShareLink[]> {
+  const { shares } = await readJsonFile(sharesPath(), parseSharesFile);
+  return shares
+    .filter((share) => share.profileId === profileId)
+    .map(toShareLink)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+// Create a link, returning the token for its URL (/s/<token>)
+export async function createShare(
+  input: Omit<ShareLink, "id" | "createdAt" | "revokedAt">
+): Promise<{ share: ShareLink; token: string }> {
+  const token = randomBytes(24).toString("base64url");
+  const stored: StoredShare = {
+    ...input,
+    id: randomUUID(),
+    createdAt: new Date().toISOString(),
+    revokedAt: null,
+    tokenHash: hashToken(token),
+  };
+  await updateJsonFile(sharesPath(), parseSharesFile, (data) => {
+    data.shares.push(stored);
+  });
+  return { share: toShareLink(stored), token };
+}
+
+// Revoke a link immediately; it stays listed as revoked
+export async function revokeShare(profileId: string, id: string): Promise<void> {
+  await updateJsonFile(sharesPath(), parseSharesFile, (data) => {
+    const share = data.shares.find((s) => s.id === id && s.profileId === profileId);
+    if (!share) throw new Error(`Share link not found: ${id}`);
+    share.revokedAt ??= new Date().toISOString();
+  });
+}
+
+// Active link for a token; null when unknown, expired or revoked
+export async function resolveShare(token: string): Promise<ShareLink | null> {
+  const { shares } = await readJsonFile(sharesPath(), parseSharesFile);
+  const tokenHash = hashToken(token);
+  const share = shares.find((s) => s.tokenHash === tokenHash);
+  return share && isShareActive(share) ? toShareLink(share) : null;
+}
+
+// Groups a link gives access to, cut to its date range
+export function scopeGroups(
+  groups: RecordGroup[],
+  share: ShareLink,
+  targets: TargetPressure[],
+  timeZone: string
+): RecordGroup[] {
+  const selected =
+    share.groupIds.length > 0 ? groups.filter((g) => share.groupIds.includes(g.id)) : groups;
+  return filterGroups(selected, EMPTY_FILTERS, { from: share.from, to: share.to }, targets, timeZone);
+}
+
+// Treatment events overlapping the shared readings
+export function scopeEvents(events: TreatmentEvent[], groups: RecordGroup[]): TreatmentEvent[] {
+  const times = groups.flatMap((g) => g.records.map((r) => new Date(r.date).getTime()));
+  if (times.length === 0) return [];
+  const first = Math.min(...times);
+  const last = Math.max(...times);
+  return events.filter((event) => eventOverlaps(event, first, last));
+}
@@ -0,0 +1,145 @@
+/**
+ * Static SVG line chart for reports
+ * Renders the same left/right series as PressureChart without a browser, for print and PDF output
+ */
+
+import { ChartDataPoint } from "@/types";
+import { DEFAULT_TARGET_PRESSURE, NORMAL_MIN } from "./targets";
+
+export interface SvgChartOptions {
+  width: number;
+  height: number;
+  // Legend labels, e.g. { left: "左眼", right: "右眼" }
+  labels: { left: string; right: string };
+  fontFamily?: string;
+}
+
+// Same palette as the interactive chart
+const COLORS = {
+  left: "#3b82f6",
+  right: "#ef4444",
+  grid: "#e2e8f0",
+  axis: "#94a3b8",
+  text: "#64748b",
+  safe: "#22c55e",
+  upper: "#f59e0b",
+};
+
+// Maximum number of X axis labels before thinning
+const MAX_X_LABELS = 8;
+
+const MARGIN = { top: 12, right: 16, bottom: 40, left: 36 };
+
+// Escape text for embedding in SVG
+function escapeXml(text: string): string {
+  return text.replace(/[&<>"]/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;" })[c]!);
+}
+
+// Render chart data as an SVG document string
+export function renderChartSvg(data: ChartDataPoint[], options: SvgChartOptions): string {
+  const { width, height, labels } = options;
+  const fontFamily = options.fontFamily ?? "Helvetica, Arial, sans-serif";
+  const plotWidth = width - MARGIN.left - MARGIN.right;
+  const plotHeight = height - MARGIN.top - MARGIN.bottom;
+
+  // Y domain: 0 to at least 40, like the interactive chart
+  const maxValue = Math.max(0, ...data.flatMap((d) => [d.left ?? 0, d.right ?? 0]));
+  const yMax = Math.max(40, Math.ceil(maxValue / 5) * 5 + 5);
+  const y = (value: number) => MARGIN.top + plotHeight - (value / yMax) * plotHeight;
+
+  // X positions are time-proportional (minutes from the first reading)
+  const minutes = data.map((d) => d.minutesFromStart ?? 0);
+  const xMax = Math.max(1, ...minutes);
+  const x = (minute: number) =>
+    MARGIN.left + (data.length === 1 ? plotWidth / 2 : (minute / xMax) * plotWidth);
+
+  const parts: string[] = [];
+  parts.push(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="${escapeXml(fontFamily)}">`
+  );
+
+  // Targets per point; the band runs from the normal lower bound to the lowest target
+  const targets = data.map((d) => ({
+    left: d.targetLeft ?? DEFAULT_TARGET_PRESSURE,
+    right: d.targetRight ?? DEFAULT_TARGET_PRESSURE,
+  }));
+  const targetValues = new Set(targets.flatMap((t) => [t.left, t.right]));
+  const safeZoneMax = targetValues.size > 0 ? Math.min(...targetValues) : DEFAULT_TARGET_PRESSURE;
+
+  // Normal range band and limit lines
+  parts.push(
+    `<rect x="${MARGIN.left}" y="${y(safeZoneMax)}" width="${plotWidth}" height="${y(NORMAL_MIN) - y(safeZoneMax)}" fill="${COLORS.safe}" fill-opacity="0.1"/>`
+  );
+
+  // Y grid and tick labels every 5 mmHg
+  for (let value = 0; value <= yMax; value += 5) {
+    parts.push(
+      `<line x1="${MARGIN.left}" x2="${MARGIN.left + plotWidth}" y1="${y(value)}" y2="${y(value)}" stroke="${COLORS.grid}" stroke-width="0.5"/>`,
+      `<text x="${MARGIN.left - 6}" y="${y(value) + 3}" font-size="9" fill="${COLORS.text}" text-anchor="end">${value}</text>`
+    );
+  }
+  parts.push(
+    `<line x1="${MARGIN.left}" x2="${MARGIN.left + plotWidth}" y1="${y(NORMAL_MIN)}" y2="${y(NORMAL_MIN)}" stroke="${COLORS.safe}" stroke-dasharray="4 4"/>`
+  );
+
+  // A single target is a straight line; changing targets are stepped lines per eye
+  if (targetValues.size <= 1) {
+    parts.push(
+      `<line x1="${MARGIN.left}" x2="${MARGIN.left + plotWidth}" y1="${y(safeZoneMax)}" y2="${y(safeZoneMax)}" stroke="${COLORS.upper}" stroke-dasharray="4 4" stroke-width="1.5"/>`
+    );
+  } else {
+    for (const eye of ["left", "right"] as const) {
+      const points = targets.flatMap((t, i) => {
+        const px = x(minutes[i]).toFixed(1);
+        const previous = i > 0 ? [`${px},${y(targets[i - 1][eye]).toFixed(1)}`] : [];
+        return [...previous, `${px},${y(t[eye]).toFixed(1)}`];
+      });
+      parts.push(
+        `<polyline points="${points.join(" ")}" fill="none" stroke="${COLORS[eye]}" stroke-opacity="0.5" stroke-dasharray="4 4" stroke-width="1.5"/>`
+      );
+    }
+  }
+
+  // X axis with thinned labels
+  const axisY = MARGIN.top + plotHeight;
+  parts.push(
+    `<line x1="${MARGIN.left}" x2="${MARGIN.left + plotWidth}" y1="${axisY}" y2="${axisY}" stroke="${COLORS.axis}"/>`
+  );
+  const step = Math.max(1, Math.ceil(data.length / MAX_X_LABELS));
+  data.forEach((d, i) => {
+    if (i % step !== 0 && i !== data.length - 1) return;
+    const px = x(minutes[i]);
+    parts.push(
+      `<line x1="${px}" x2="${px}" y1="${axisY}" y2="${axisY + 4}" stroke="${COLORS.axis}"/>`,
+      `<text x="${px}" y="${axisY + 15}" font-size="9" fill="${COLORS.text}" text-anchor="middle">${escapeXml(d.label)}</text>`
+    );
+  });
+
+  // Series lines and points; readings without the eye are skipped and the line joins its neighbours
+  for (const eye of ["left", "right"] as const) {
+    const points = data.flatMap((d, i) => {
+      const value = d[eye];
+      return value === null ? [] : [{ px: x(minutes[i]).toFixed(1), py: y(value).toFixed(1) }];
+    });
+    if (points.length > 1) {
+      parts.push(
+        `<polyline points="${points.map(({ px, py }) => `${px},${py}`).join(" ")}" fill="none" stroke="${COLORS[eye]}" stroke-width="1.5"/>`
+      );
+    }
+    points.forEach(({ px, py }) => {
+      parts.push(`<circle cx="${px}" cy="${py}" r="2.5" fill="${COLORS[eye]}"/>`);
+    });
+  }
+
+  // Legend
+  const legendY = height - 8;
+  parts.push(
+    `<rect x="${MARGIN.left}" y="${legendY - 7}" width="10" height="3" fill="${COLORS.left}"/>`,
+    `<text x="${MARGIN.left + 14}" y="${legendY - 3}" font-size="9" fill="${COLORS.text}">${escapeXml(labels.left)}</text>`,
+    `<rect x="${MARGIN.left + 70}" y="${legendY - 7}" width="10" height="3" fill="${COLORS.right}"/>`,
+    `<text x="${MARGIN.left + 84}" y="${legendY - 3}" font-size="9" fill="${COLORS.text}">${escapeXml(labels.right)}</text>`
+  );
+
+  parts.push("</svg>");
+  return parts.join("");
+}
@@ -0,0 +1,75 @@
+/**
+ * Target pressure helpers
+ * Resolves the per-eye target in effect at a date and classifies readings against it
+ */
+
+import { ChartDataPoint, EyePressureRecord, TargetPressure } from "@/types";
+import { formatZoned } from "./time";
+
+// Upper limit used when no target has been set
+export const DEFAULT_TARGET_PRESSURE = 21;
+
+// Readings this close below the target are shown as a warning
+export const WARNING_MARGIN = 3;
+
+// Lower bound of the normal range
+export const NORMAL_MIN = 10;
+
+export type PressureLevel = "high" | "warning" | "normal";
+
+export const LEVEL_COLORS: Record<PressureLevel, string> = {
+  high: "#dc2626",
+  warning: "#d97706",
+  normal: "#059669",
+};
+
+// Sort targets by effective date (YYYY-MM-DD sorts as text)
+export function sortTargets(targets: TargetPressure[]): TargetPressure[] {
+  return [...targets].sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom));
+}
+
+// Target entry in effect at a date, or null before the first entry
+// Effective dates are whole days in the display zone
+export function getTargetEntryAt(
+  targets: TargetPressure[],
+  date: string,
+  timeZone: string
+): TargetPressure | null {
+  const day = formatZoned(date, timeZone, "isoDate");
+  let current: TargetPressure | null = null;
+  for (const target of sortTargets(targets)) {
+    if (target.effectiveFrom <= day) current = target;
+  }
+  return current;
+}
+
+// Target for one eye at a date
+export function getTargetAt(
+  targets: TargetPressure[],
+  date: string,
+  eye: "left" | "right",
+  timeZone: string
+): number {
+  return getTargetEntryAt(targets, date, timeZone)?.[eye] ?? DEFAULT_TARGET_PRESSURE;
+}
+
+// Classify a reading against its target
+export function getPressureLevel(value: number, target: number): PressureLevel {
+  if (value > target) return "high";
+  if (value > target - WARNING_MARGIN) return "warning";
+  return "normal";
+}
+
+// Add the target in effect at each point (chart points built from the same records)
+export function withTargetSeries(
+  data: ChartDataPoint[],
+  records: EyePressureRecord[],
+  targets: TargetPressure[],
+  timeZone: string
+): ChartDataPoint[] {
+  return data.map((point, i) => ({
+    ...point,
+    targetLeft: getTargetAt(targets, records[i].date, "left", timeZone),
+    targetRight: getTargetAt(targets, records[i].date, "right", timeZone),
+  }));
+}
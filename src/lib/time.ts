@@ -0,0 +1,202 @@
+/**
+ * Time zone helpers built on Intl
+ * Converts wall-clock times in an IANA zone or fixed UTC offset to UTC instants and back
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Fixed UTC offset zone such as "+08:00"
+const OFFSET_PATTERN = /^([+-])(\d{2}):(\d{2})$/;
+
+// Formatters are expensive to create; one per zone is reused
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function zoneFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+// Whether a zone is a fixed UTC offset rather than an IANA name
+export function isUtcOffset(timeZone: string): boolean {
+  return OFFSET_PATTERN.test(timeZone);
+}
+
+// Check that a string is a valid IANA time zone name or a fixed offset like "+08:00"
+export function isValidTimeZone(timeZone: string): boolean {
+  if (isUtcOffset(timeZone)) return true;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Offset of a time zone from UTC at a given instant, in milliseconds
+export function getTimeZoneOffsetMs(timestamp: number, timeZone: string): number {
+  const offset = timeZone.match(OFFSET_PATTERN);
+  if (offset) {
+    const ms = (Number(offset[2]) * 60 + Number(offset[3])) * 60000;
+    return offset[1] === "-" ? -ms : ms;
+  }
+  const parts = zoneFormatter(timeZone).formatToParts(new Date(timestamp));
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  const asUtc = Date.UTC(
+    get("year"),
+    get("month") - 1,
+    get("day"),
+    get("hour"),
+    get("minute"),
+    get("second")
+  );
+  return asUtc - Math.floor(timestamp / 1000) * 1000;
+}
+
+// Whether an ISO-like string carries its own UTC offset (Z or ±hh:mm)
+export function hasUtcOffset(value: string): boolean {
+  return /(Z|[+-]\d{2}:?\d{2})$/i.test(value);
+}
+
+// Interpret a wall-clock time ("2024-01-01" or "2024-01-01T08:00[:00[.000]]") in a time zone
+export function zonedWallTimeToUtc(wallTime: string, timeZone: string): Date {
+  const [datePart, timePart = "00:00:00"] = wallTime.split("T");
+  const [year, month, day] = datePart.split("-").map(Number);
+  const [hours = 0, minutes = 0, seconds = 0] = timePart.split(":").map(Number);
+  const guess = Date.UTC(year, month - 1, day, hours, minutes, Math.floor(seconds));
+
+  // Correct the guess by the zone offset; re-check once around DST transitions
+  const offset = getTimeZoneOffsetMs(guess, timeZone);
+  let utc = guess - offset;
+  const correctedOffset = getTimeZoneOffsetMs(utc, timeZone);
+  if (correctedOffset !== offset) {
+    utc = guess - correctedOffset;
+  }
+  return new Date(utc);
+}
+
+// Convert a date string to ISO, applying the zone for values without an offset
+export function toIsoDate(value: string, timeZone: string | undefined): string {
+  if (!timeZone || hasUtcOffset(value)) {
+    return new Date(value).toISOString();
+  }
+  return zonedWallTimeToUtc(value, timeZone).toISOString();
+}
+
+// Zone the server runs in, used for display when none is configured
+export function systemTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+}
+
+// Format an offset in milliseconds as "+08:00"
+export function formatUtcOffset(offsetMs: number): string {
+  const minutes = Math.round(Math.abs(offsetMs) / 60000);
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  return `${offsetMs < 0 ? "-" : "+"}${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+}
+
+// The offset an ISO string was written with, e.g. "+08:00"; null for "Z" or no offset
+// ("Z" usually means the value was normalized to UTC rather than taken there)
+export function getUtcOffset(value: string): string | null {
+  const match = value.match(/T.*([+-])(\d{2}):?(\d{2})$/);
+  return match ? `${match[1]}${match[2]}:${match[3]}` : null;
+}
+
+// Calendar and clock fields of an instant in a zone
+export interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+// Read the wall-clock fields of an instant in a zone
+export function getZonedParts(value: string | number | Date, timeZone: string): ZonedParts {
+  const timestamp = new Date(value).getTime();
+  const shifted = new Date(timestamp + getTimeZoneOffsetMs(timestamp, timeZone));
+  return {
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate(),
+    hour: shifted.getUTCHours(),
+    minute: shifted.getUTCMinutes(),
+    second: shifted.getUTCSeconds(),
+  };
+}
+
+// Minutes since local midnight in a zone
+export function zonedMinutesOfDay(value: string | number | Date, timeZone: string): number {
+  const { hour, minute } = getZonedParts(value, timeZone);
+  return hour * 60 + minute;
+}
+
+// Calendar day number in a zone (days since 1970-01-01), for counting days between readings
+export function zonedDayNumber(value: string | number | Date, timeZone: string): number {
+  const { year, month, day } = getZonedParts(value, timeZone);
+  return Math.round(Date.UTC(year, month - 1, day) / DAY_MS);
+}
+
+// UTC instant of local midnight starting a calendar day number in a zone
+export function zonedDayStart(dayNumber: number, timeZone: string): Date {
+  return zonedWallTimeToUtc(new Date(dayNumber * DAY_MS).toISOString().slice(0, 10), timeZone);
+}
+
+export type ZonedFormat = "date" | "dateTime" | "time" | "monthDay" | "isoDate";
+
+// Format an instant in a zone, independent of the runtime's own zone so server and client agree
+// date "2024/01/05", dateTime "2024/01/05 08:00", time "08:00", monthDay "01/05", isoDate "2024-01-05"
+export function formatZoned(
+  value: string | number | Date,
+  timeZone: string,
+  format: ZonedFormat = "dateTime"
+): string {
+  const { year, month, day, hour, minute } = getZonedParts(value, timeZone);
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  const date = `${year}/${pad(month)}/${pad(day)}`;
+  const time = `${pad(hour)}:${pad(minute)}`;
+  switch (format) {
+    case "date":
+      return date;
+    case "time":
+      return time;
+    case "monthDay":
+      return `${pad(month)}/${pad(day)}`;
+    case "isoDate":
+      return `${year}-${pad(month)}-${pad(day)}`;
+    default:
+      return `${date} ${time}`;
+  }
+}
+
+// Wall-clock "YYYY-MM-DDTHH:mm" of an instant in a zone (for datetime-local inputs)
+export function toZonedWallTime(value: string | number | Date, timeZone: string): string {
+  const { hour, minute } = getZonedParts(value, timeZone);
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  return `${formatZoned(value, timeZone, "isoDate")}T${pad(hour)}:${pad(minute)}`;
+}
+
+// ISO string of an instant written with its offset in a zone, e.g. "2024-01-05T08:00:00.000+08:00"
+export function toZonedIsoString(value: string | number | Date, timeZone: string): string {
+  const timestamp = new Date(value).getTime();
+  const offset = getTimeZoneOffsetMs(timestamp, timeZone);
+  return `${new Date(timestamp + offset).toISOString().slice(0, -1)}${formatUtcOffset(offset)}`;
+}
+
+// Short zone label for display, e.g. "UTC+09:00" for an instant in "Asia/Tokyo"
+export function formatZoneLabel(value: string | number | Date, timeZone: string): string {
+  return `UTC${formatUtcOffset(getTimeZoneOffsetMs(new Date(value).getTime(), timeZone))}`;
+}
@@ -0,0 +1,118 @@
+/**
+ * Web Push sender
+ * Delivers a message to a browser push subscription: the payload is encrypted for the subscription
+ * (RFC 8291, aes128gcm) and the request is signed with the server's VAPID key (RFC 8292)
+ */
+
+import { createCipheriv, createECDH, createPrivateKey, hkdfSync, randomBytes, sign } from "crypto";
+import { WebPushSubscription } from "@/types";
+
+// Application server key pair (base64url: 65-byte uncompressed P-256 public key, 32-byte private key)
+// and the contact push services may use, e.g. "mailto:me@example.com"
+export interface VapidKeys {
+  publicKey: string;
+  privateKey: string;
+  subject: string;
+}
+
+const TIMEOUT_MS = 10_000;
+// Push services keep undelivered messages this long (a reminder is useless much later)
+const TTL_SECONDS = 30 * 60;
+// Size of the single encrypted record
+const RECORD_SIZE = 4096;
+
+// VAPID keys from VAPID_PUBLIC_KEY / VAPID_PRIVATE_KEY / VAPID_SUBJECT; null when push isn't configured
+export function getVapidKeys(): VapidKeys | null {
+  const { VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY, VAPID_SUBJECT } = process.env;
+  if (!VAPID_PUBLIC_KEY || !VAPID_PRIVATE_KEY) return null;
+  if (Buffer.from(VAPID_PUBLIC_KEY, "base64url").length !== 65) {
+    throw new Error("VAPID_PUBLIC_KEY must be a base64url uncompressed P-256 public key");
+  }
+  return {
+    publicKey: VAPID_PUBLIC_KEY,
+    privateKey: VAPID_PRIVATE_KEY,
+    subject: VAPID_SUBJECT || "mailto:eye-pressure-record@localhost",
+  };
+}
+
+// Signed JWT authorizing requests to the push service of an endpoint
+function vapidAuthorization(endpoint: string, keys: VapidKeys): string {
+  const publicKey = Buffer.from(keys.publicKey, "base64url");
+  const privateKey = createPrivateKey({
+    key: {
+      kty: "EC",
+      crv: "P-256",
+      d: keys.privateKey,
+      x: publicKey.subarray(1, 33).toString("base64url"),
+      y: publicKey.subarray(33, 65).toString("base64url"),
+    },
+    format: "jwk",
+  });
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString("base64url");
+  const unsigned = `${encode({ typ: "JWT", alg: "ES256" })}.${encode({
+    aud: new URL(endpoint).origin,
+    exp: Math.floor(Date.now() / 1000) + 12 * 60 * 60,
+    sub: keys.subject,
+  })}`;
+  const signature = sign("sha256", Buffer.from(unsigned), {
+    key: privateKey,
+    dsaEncoding: "ieee-p1363",
+  }).toString("base64url");
+  return `vapid t=${unsigned}.${signature}, k=${keys.publicKey}`;
+}
+
+// Encrypt a payload for a subscription as one aes128gcm record
+function encryptPayload(subscription: WebPushSubscription, payload: string): Buffer {
+  const clientPublicKey = Buffer.from(subscription.keys.p256dh, "base64url");
+  const authSecret = Buffer.from(subscription.keys.auth, "base64url");
+  const ecdh = createECDH("prime256v1");
+  const serverPublicKey = ecdh.generateKeys();
+  const sharedSecret = ecdh.computeSecret(clientPublicKey);
+  const derive = (salt: Buffer, key: Buffer, info: Buffer, length: number) =>
+    Buffer.from(hkdfSync("sha256", key, salt, info, length));
+
+  const keyInfo = Buffer.concat([Buffer.from("WebPush: info\0"), clientPublicKey, serverPublicKey]);
+  const inputKey = derive(authSecret, sharedSecret, keyInfo, 32);
+  const salt = randomBytes(16);
+  const contentKey = derive(salt, inputKey, Buffer.from("Content-Encoding: aes128gcm\0"), 16);
+  const nonce = derive(salt, inputKey, Buffer.from("Content-Encoding: nonce\0"), 12);
+
+  // The 0x02 delimiter marks the last (only) record
+  const cipher = createCipheriv("aes-128-gcm", contentKey, nonce);
+  const encrypted = Buffer.concat([
+    cipher.update(Buffer.concat([Buffer.from(payload), Buffer.from([2])])),
+    cipher.final(),
+    cipher.getAuthTag(),
+  ]);
+
+  const header = Buffer.alloc(21);
+  salt.copy(header, 0);
+  header.writeUInt32BE(RECORD_SIZE, 16);
+  header.writeUInt8(serverPublicKey.length, 20);
+  return Buffer.concat([header, serverPublicKey, encrypted]);
+}
+
+// Send a message to a subscription; "gone" when the browser dropped it (it should be forgotten)
+export async function sendWebPush(
+  subscription: WebPushSubscription,
+  payload: string,
+  keys: VapidKeys
+): Promise<"sent" | "gone"> {
+  const response = await fetch(subscription.endpoint, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/octet-stream",
+      "Content-Encoding": "aes128gcm",
+      TTL: String(TTL_SECONDS),
+      Urgency: "high",
+      Authorization: vapidAuthorization(subscription.endpoint, keys),
+    },
+    body: new Uint8Array(encryptPayload(subscription, payload)),
+    signal: AbortSignal.timeout(TIMEOUT_MS),
+  });
+  if (response.status === 404 || response.status === 410) return "gone";
+  if (!response.ok) {
+    throw new Error(`Push service responded with ${response.status} ${response.statusText}`);
+  }
+  return "sent";
+}
@@ -0,0 +1,30 @@
+/**
+ * Webhook alert notifier
+ * POSTs new alerts as JSON; the plain-text summary in `text` suits chat webhooks (e.g. Slack-compatible)
+ */
+
+import { Notifier, alertsPageUrl, formatAlertText } from "./notifier";
+
+const TIMEOUT_MS = 10_000;
+
+export function createWebhookNotifier(url: string): Notifier {
+  return {
+    kind: "webhook",
+    async send(profile, alerts) {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          profile: { id: profile.id, name: profile.name },
+          alerts,
+          url: alertsPageUrl(profile),
+          text: formatAlertText(profile, alerts),
+        }),
+        signal: AbortSignal.timeout(TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        throw new Error(`Webhook responded with ${response.status} ${response.statusText}`);
+      }
+    },
+  };
+}
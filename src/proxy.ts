@@ -0,0 +1,25 @@
+/**
+ * Request proxy
+ * Requires a login session for every page and action once login is configured;
+ * the login flow, share links, static assets and the PWA files stay public, and the JSON API checks its own tokens
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { SESSION_COOKIE, isAuthEnabled, readSessionValue } from "@/lib/auth";
+
+export function proxy(request: NextRequest) {
+  if (!isAuthEnabled()) return NextResponse.next();
+  if (readSessionValue(request.cookies.get(SESSION_COOKIE)?.value)) return NextResponse.next();
+
+  // Server actions and other non-page requests get a plain error instead of a redirect
+  if (request.method !== "GET") {
+    return NextResponse.json({ error: "Not logged in" }, { status: 401 });
+  }
+  const login = new URL("/login", request.url);
+  login.searchParams.set("next", `${request.nextUrl.pathname}${request.nextUrl.search}`);
+  return NextResponse.redirect(login);
+}
+
+export const config = {
+  matcher: ["/((?!login|auth/|s/|api/|_next/|favicon\\.ico|icon\\.svg|manifest\\.webmanifest|sw\\.js).*)"],
+};
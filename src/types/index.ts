@@ -8,12 +8,182 @@ export interface EyePressureRecord {
   id: string;
   name: string;
   date: string; // ISO string for serialization between server/client
+  // Pressure per eye in mmHg; null when that eye wasn't measured (e.g. only one eye after surgery)
+  left: number | null;
+  right: number | null;
+  // Raw readings when several were taken in a row (e.g. rebound tonometer);
+  // left/right then hold their mean or median without outliers
+  readingsLeft?: number[];
+  readingsRight?: number[];
+  is24h: boolean;
+  note: string;
+  // Explicit 24h session; readings sharing an ID are grouped together regardless of timing
+  sessionId?: string;
+  // Zone the reading was taken in (IANA name or "+08:00" offset); `date` stays a UTC instant
+  timeZone?: string;
+  // How the reading was taken; readings from different tonometers or positions aren't directly comparable
+  tonometer?: Tonometer;
+  position?: BodyPosition;
+  measuredBy?: Measurer;
+  // Central corneal thickness per eye in μm, used for the CCT-corrected pressure
+  cctLeft?: number;
+  cctRight?: number;
+}
+
+// Instrument a reading was taken with
+export type Tonometer = "goldmann" | "rebound" | "noncontact" | "other";
+
+// Body position during the reading (pressure is typically higher lying down)
+export type BodyPosition = "sitting" | "supine";
+
+// Who took the reading: the patient at home or clinic staff
+export type Measurer = "self" | "clinic";
+
+// Editable fields of a record (used by create/update)
+export type EyePressureRecordInput = Omit<EyePressureRecord, "id">;
+
+// New or edited record saved on the device while offline, written to the source when back online
+export interface QueuedRecordChange {
+  id: string; // Local id
+  profileId: string;
+  // Record being edited; null for a new record
+  recordId: string | null;
+  // Record as it was when the edit started, to notice changes made elsewhere meanwhile
+  base: EyePressureRecord | null;
+  input: EyePressureRecordInput;
+  queuedAt: string; // ISO string
+  status: "pending" | "conflict" | "error";
+  // Source version found when syncing hit a conflict; null when it was deleted there
+  current?: EyePressureRecord | null;
+  error?: string;
+  // Overwrite the source version on the next sync (the user chose the local one)
+  force?: boolean;
+}
+
+// Outcome of writing a queued change
+export type QueuedRecordSync =
+  | { status: "synced"; record: EyePressureRecord }
+  | { status: "conflict"; current: EyePressureRecord | null };
+
+// A source entry that could not be read as a valid record
+export interface RecordIssue {
+  id: string;
+  name: string;
+  date: string | null;
+  message: string;
+}
+
+// Target (upper) pressure per eye set by the doctor
+// Applies from effectiveFrom until the next entry's date
+export interface TargetPressure {
+  id: string;
+  effectiveFrom: string; // YYYY-MM-DD
   left: number;
   right: number;
-  is24h: boolean;
   note: string;
 }
 
+// User correction to automatic 24h session detection
+// "split" starts a new session at the record, "merge" joins it to the preceding reading's session
+export interface SessionOverride {
+  id: string;
+  recordId: string;
+  action: "split" | "merge";
+}
+
+// Planned 24h session: a reading is due every `intervalMinutes` from `start` through `end`
+export interface SessionPlan {
+  id: string;
+  // Session ID given to readings added while the plan runs, so they group together
+  sessionId: string;
+  start: string; // ISO
+  end: string; // ISO
+  intervalMinutes: number;
+  createdAt: string;
+}
+
+export type SessionPlanInput = Pick<SessionPlan, "start" | "end" | "intervalMinutes">;
+
+// One planned reading time of a session plan
+// "due": the time has come and a reading can still be taken for it; "missed": its window has passed
+export interface PlanSlot {
+  time: string; // ISO
+  status: "taken" | "due" | "missed" | "upcoming";
+  // Reading matched to the slot
+  recordId: string | null;
+}
+
+// Browser push subscription (PushSubscription.toJSON()) reminders are sent to
+export interface WebPushSubscription {
+  endpoint: string;
+  keys: { p256dh: string; auth: string };
+}
+
+// Expiring, revocable read-only link to part of a profile's data
+// Scope: whole days (display zone) and/or specific groups; no range and no groups shares everything
+export interface ShareLink {
+  id: string;
+  profileId: string;
+  label: string; // e.g. "王医生 复诊"
+  createdAt: string; // ISO string
+  expiresAt: string; // ISO string
+  revokedAt: string | null; // ISO string
+  from: string | null; // YYYY-MM-DD
+  to: string | null; // YYYY-MM-DD
+  groupIds: string[];
+}
+
+// Options for a new share link; it expires the given number of days after creation
+export interface ShareLinkInput {
+  label: string;
+  expiresInDays: number;
+  from: string | null;
+  to: string | null;
+  groupIds: string[];
+}
+
+// Rule that raised an alert
+export type AlertRule = "aboveTarget" | "jump" | "eyeDifference" | "fluctuation";
+
+// Finding of the alert rules on a profile's records
+// The ID is derived from the rule and what it fired on, so re-evaluating finds the same alert again
+export interface Alert {
+  id: string;
+  rule: AlertRule;
+  eye: "left" | "right" | null; // null for inter-eye difference
+  recordId: string; // reading that fired the rule (the peak reading for session fluctuation)
+  date: string; // ISO string of that reading
+  value: number; // mmHg: the reading, its rise, the eye difference or the fluctuation
+  limit: number; // mmHg the value exceeded
+  message: string;
+}
+
+// Alert with its stored state
+export interface AlertEntry extends Alert {
+  profileId: string;
+  firstSeenAt: string; // ISO string
+  acknowledgedAt: string | null; // ISO string
+}
+
+// Kind of treatment event shown on the timeline
+export type TreatmentEventType = "medication" | "procedure" | "visit";
+
+// Treatment, procedure or clinic visit
+// Events with an end date (e.g. a medication course) are drawn as spans
+export interface TreatmentEvent {
+  id: string;
+  type: TreatmentEventType;
+  title: string; // e.g. "Latanoprost", "SLT", "复诊"
+  start: string; // ISO string
+  end: string | null; // ISO string; null for one-off events or ongoing medication
+  eye: "left" | "right" | "both";
+  dose: string;
+  note: string;
+}
+
+// Editable fields of an event (used by create/update)
+export type TreatmentEventInput = Omit<TreatmentEvent, "id">;
+
 // Grouped records for display
 export interface RecordGroup {
   id: string;
@@ -25,10 +195,27 @@ export interface RecordGroup {
 // Chart data point
 export interface ChartDataPoint {
   label: string;
-  left: number;
-  right: number;
-  average: number;
+  // null where the eye wasn't measured; the average uses whichever eyes were
+  left: number | null;
+  right: number | null;
+  average: number | null;
   dateStr: string;
   // Minutes from first data point (for time-based X axis in 24h charts)
   minutesFromStart?: number;
+  // Optional trend overlays for regular measurements
+  movingAverage?: number;
+  trendLeft?: number;
+  trendRight?: number;
+  // Target pressure in effect at this point
+  targetLeft?: number;
+  targetRight?: number;
+  // Measurement conditions, drawn as marker shapes
+  tonometer?: Tonometer;
+  position?: BodyPosition;
+  // Pressure corrected for corneal thickness, for eyes with a CCT
+  correctedLeft?: number;
+  correctedRight?: number;
+  // Error bar extent (below, above) from an eye's multiple readings
+  spreadLeft?: [number, number];
+  spreadRight?: [number, number];
 }